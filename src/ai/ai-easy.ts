@@ -33,7 +33,7 @@ export class AIEasy implements AIPlayer {
     }
 
     // Filter out obvious blunders (losing valuable pieces for nothing)
-    const safeMoves = this.filterBlunders(game, allMoves);
+    const safeMoves = this.filterBlunders(game.clone(), allMoves);
 
     // If all moves are blunders, just pick from all legal moves
     const movesToChooseFrom = safeMoves.length > 0 ? safeMoves : allMoves;
@@ -71,11 +71,11 @@ export class AIEasy implements AIPlayer {
     }
 
     // Simulate the move to check if the piece is immediately recaptured
-    const testGame = game.clone();
-    testGame.makeMove(move.from, move.to);
+    game.pushMove(move.from, move.to, move.promotionPiece);
 
     const opposingColor = move.piece.color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
-    const opponentMoves = testGame.getAllLegalMoves(opposingColor);
+    const opponentMoves = game.getAllLegalMoves(opposingColor);
+    game.popMove();
 
     // Check if opponent can capture our piece
     for (const opponentMove of opponentMoves) {
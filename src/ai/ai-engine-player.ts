@@ -12,14 +12,23 @@
  *   AIDifficulty.EASY   → js-chess-engine level 1 (Beginner, 1 ply)
  *   AIDifficulty.MEDIUM → js-chess-engine level 2 (Easy, 3 ply)
  *   AIDifficulty.HARD   → js-chess-engine level 4 (Advanced, 8 ply)
+ *
+ * The search runs in a Web Worker (see engine-worker-client.ts) within a
+ * time budget per difficulty, and can be cancelled mid-think.
+ *
+ * Named opponents (ai-opponents.ts) tune the engine level, add move
+ * randomness and sometimes blunder on purpose. A style (ai-styles.ts)
+ * re-ranks the engine's scored moves to give the AI a personality.
  */
 
-import { Game } from 'js-chess-engine';
 import type { Move } from '../core/types';
 import { PieceColor } from '../core/types';
 import type { ChessGame } from '../core/game-state';
 import { AIDifficulty, type AIPlayer } from './ai-interface';
 import { gameStateToFEN, convertEngineMove } from './chess-engine-adapter';
+import { engineWorkerClient } from './engine-worker-client';
+import type { AIOpponent } from './ai-opponents';
+import { getStyle, pickStyledMove, type AIStyle } from './ai-styles';
 
 /**
  * Mapping from our difficulty levels to js-chess-engine AI levels
@@ -31,7 +40,17 @@ const DIFFICULTY_TO_ENGINE_LEVEL: Record<AIDifficulty, number> = {
 };
 
 /**
- * Thinking delay per difficulty (milliseconds)
+ * Search time budget per difficulty (milliseconds)
+ * Slower devices search less deep instead of freezing
+ */
+const TIME_BUDGETS: Record<AIDifficulty, number> = {
+  [AIDifficulty.EASY]: 1000,
+  [AIDifficulty.MEDIUM]: 2000,
+  [AIDifficulty.HARD]: 6000,
+};
+
+/**
+ * Minimum thinking time per difficulty (milliseconds)
  * Makes AI feel more natural and less robotic for kids
  */
 const THINKING_DELAYS: Record<AIDifficulty, number> = {
@@ -50,11 +69,29 @@ export class AIEnginePlayer implements AIPlayer {
   private difficulty: AIDifficulty;
   private engineLevel: number;
   private thinkingDelay: number;
+  private timeBudget: number;
+  private randomness: number = 0;
+  private blunderChance: number = 0;
+  private style: AIStyle = getStyle();
+  private searchCount = 0; // Bumped by cancel() so a cancelled search returns null
 
   constructor(difficulty: AIDifficulty) {
     this.difficulty = difficulty;
     this.engineLevel = DIFFICULTY_TO_ENGINE_LEVEL[difficulty];
     this.thinkingDelay = THINKING_DELAYS[difficulty];
+    this.timeBudget = TIME_BUDGETS[difficulty];
+  }
+
+  /**
+   * Create a player that plays like a named opponent
+   */
+  static fromOpponent(opponent: AIOpponent): AIEnginePlayer {
+    const player = new AIEnginePlayer(opponent.difficulty);
+    player.setEngineLevel(opponent.engineLevel);
+    player.setTimeBudget(opponent.timeBudgetMs);
+    player.setRandomness(opponent.randomness);
+    player.setBlunderChance(opponent.blunderChance);
+    return player;
   }
 
   getDifficulty(): AIDifficulty {
@@ -79,37 +116,107 @@ export class AIEnginePlayer implements AIPlayer {
     this.engineLevel = Math.max(1, Math.min(5, level));
   }
 
+  /**
+   * Set the search time budget (milliseconds)
+   */
+  setTimeBudget(ms: number): void {
+    this.timeBudget = ms;
+  }
+
+  /**
+   * Let the engine pick among moves within this many centipawns of the best
+   */
+  setRandomness(centipawns: number): void {
+    this.randomness = Math.max(0, centipawns);
+  }
+
+  /**
+   * Set the chance (0-1) of playing a random legal move instead of the engine's
+   */
+  setBlunderChance(chance: number): void {
+    this.blunderChance = Math.max(0, Math.min(1, chance));
+  }
+
+  /**
+   * Get the playing style
+   */
+  getStyle(): AIStyle {
+    return this.style;
+  }
+
+  /**
+   * Set the playing style
+   */
+  setStyle(style: AIStyle): void {
+    this.style = style;
+  }
+
+  /**
+   * Stop thinking (a pending getBestMove resolves to null)
+   */
+  cancel(): void {
+    this.searchCount++;
+    engineWorkerClient.cancel();
+  }
+
   /**
    * Calculate the best move using js-chess-engine
    */
-  async getBestMove(game: ChessGame, _color: PieceColor): Promise<Move | null> {
-    // Add artificial delay for a more natural feel
-    await this.delay(this.thinkingDelay);
+  async getBestMove(game: ChessGame, color: PieceColor): Promise<Move | null> {
+    const searchId = ++this.searchCount;
 
     try {
-      // Convert current game state to FEN
+      // Snapshot the position now; the game may change while the engine thinks
       const state = game.getState();
       const fen = gameStateToFEN(state);
 
-      // Create a js-chess-engine Game from FEN
-      const engineGame = new Game(fen);
-
-      // Get AI move using js-chess-engine's built-in AI
-      // play: false means don't apply the move to the engine's internal state
-      const result = engineGame.ai({ level: this.engineLevel, play: false });
+      // A deliberate mistake: skip the engine and play any legal move
+      if (Math.random() < this.blunderChance) {
+        await this.delay(this.thinkingDelay);
+        return searchId === this.searchCount ? this.getRandomMove(game, color) : null;
+      }
 
-      if (!result || !result.move) {
-        console.warn('js-chess-engine returned no move');
+      // Search in the worker, taking at least the thinking delay for a more natural feel
+      const [result] = await Promise.all([
+        engineWorkerClient.search(fen, {
+          level: this.engineLevel,
+          timeBudgetMs: this.timeBudget,
+          randomness: this.randomness,
+          analysis: !!this.style.getBonus
+        }),
+        this.delay(this.thinkingDelay)
+      ]);
+
+      if (searchId !== this.searchCount) {
         return null;
       }
 
+      if (!result?.move) {
+        // The engine gave up (e.g. timed out) or there is no legal move
+        return this.getRandomMove(game, color);
+      }
+
       // Convert the engine move to our internal Move format
-      const convertedMove = convertEngineMove(result.move, state.board);
-      if (!convertedMove) {
+      const engineMove = convertEngineMove(result.move, state.board);
+      if (!engineMove) {
         console.warn('Failed to convert engine move:', result.move);
         return null;
       }
 
+      // Let the style pick among the engine's scored moves, as loosely as the opponent plays
+      const candidates = (result.candidates ?? []).flatMap(({ move, score }) => {
+        const converted = convertEngineMove(move, state.board);
+        return converted ? [{ move: converted, score }] : [];
+      });
+      const convertedMove = pickStyledMove(this.style, state.board, candidates, this.randomness) ?? engineMove;
+
+      // The engine plays standard chess; a variant may forbid its choice
+      const allowed = game.getLegalMovesFor(convertedMove.from)
+        .some(to => to.row === convertedMove.to.row && to.col === convertedMove.to.col);
+      if (!allowed) {
+        return this.getRandomMove(game, color);
+      }
+
       // Build our Move object
       const move: Move = {
         from: convertedMove.from,
@@ -129,6 +236,14 @@ export class AIEnginePlayer implements AIPlayer {
     }
   }
 
+  /**
+   * Pick a random legal move (for blunders, or when the engine's move is not allowed)
+   */
+  private getRandomMove(game: ChessGame, color: PieceColor): Move | null {
+    const moves = game.getAllLegalMoves(color);
+    return moves.length > 0 ? moves[Math.floor(Math.random() * moves.length)] : null;
+  }
+
   /**
    * Delay utility for artificial thinking time
    */
@@ -27,8 +27,9 @@ export class AIHard implements AIPlayer {
     // Add artificial delay
     await this.delay(this.thinkingDelay);
 
+    // Search on a copy: moves are made and unmade in place
     const result = this.alphaBeta(
-      game,
+      game.clone(),
       this.maxDepth,
       -Infinity,
       Infinity,
@@ -88,10 +89,9 @@ export class AIHard implements AIPlayer {
       let bestMove: Move | null = null;
 
       for (const move of orderedMoves) {
-        const testGame = game.clone();
-        testGame.makeMove(move.from, move.to);
-
-        const result = this.alphaBeta(testGame, depth - 1, alpha, beta, false, aiColor);
+        game.pushMove(move.from, move.to, move.promotionPiece);
+        const result = this.alphaBeta(game, depth - 1, alpha, beta, false, aiColor);
+        game.popMove();
         
         if (result.evaluation > maxEval) {
           maxEval = result.evaluation;
@@ -116,10 +116,9 @@ export class AIHard implements AIPlayer {
       let bestMove: Move | null = null;
 
       for (const move of orderedMoves) {
-        const testGame = game.clone();
-        testGame.makeMove(move.from, move.to);
-
-        const result = this.alphaBeta(testGame, depth - 1, alpha, beta, true, aiColor);
+        game.pushMove(move.from, move.to, move.promotionPiece);
+        const result = this.alphaBeta(game, depth - 1, alpha, beta, true, aiColor);
+        game.popMove();
         
         if (result.evaluation < minEval) {
           minEval = result.evaluation;
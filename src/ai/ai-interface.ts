@@ -38,6 +38,11 @@ export interface AIPlayer {
    * Set thinking time delay (milliseconds)
    */
   setThinkingDelay(ms: number): void;
+
+  /**
+   * Stop calculating (a pending getBestMove resolves to null)
+   */
+  cancel?(): void;
 }
 
 /**
@@ -27,7 +27,8 @@ export class AIMedium implements AIPlayer {
     // Add artificial delay
     await this.delay(this.thinkingDelay);
 
-    const result = this.minimax(game, this.maxDepth, color === 'white', color);
+    // Search on a copy: moves are made and unmade in place
+    const result = this.minimax(game.clone(), this.maxDepth, color === 'white', color);
     return result.move;
   }
 
@@ -77,10 +78,9 @@ export class AIMedium implements AIPlayer {
       let bestMove: Move | null = null;
 
       for (const move of orderedMoves) {
-        const testGame = game.clone();
-        testGame.makeMove(move.from, move.to);
-
-        const result = this.minimax(testGame, depth - 1, false, aiColor);
+        game.pushMove(move.from, move.to, move.promotionPiece);
+        const result = this.minimax(game, depth - 1, false, aiColor);
+        game.popMove();
         
         if (result.evaluation > maxEval) {
           maxEval = result.evaluation;
@@ -98,10 +98,9 @@ export class AIMedium implements AIPlayer {
       let bestMove: Move | null = null;
 
       for (const move of orderedMoves) {
-        const testGame = game.clone();
-        testGame.makeMove(move.from, move.to);
-
-        const result = this.minimax(testGame, depth - 1, true, aiColor);
+        game.pushMove(move.from, move.to, move.promotionPiece);
+        const result = this.minimax(game, depth - 1, true, aiColor);
+        game.popMove();
         
         if (result.evaluation < minEval) {
           minEval = result.evaluation;
@@ -0,0 +1,190 @@
+/**
+ * AI Opponents
+ *
+ * A ladder of named AI opponents, from "Pawn Puppy" to "Grandmaster Owl".
+ * Each one is js-chess-engine at some level, made weaker with:
+ * - randomness: picks among moves close to the best one (in centipawns)
+ * - blunderChance: sometimes plays a random legal move instead
+ *
+ * Ratings are on the same kid-friendly scale as the player rating
+ * (400-1600), estimated from the old Easy/Medium/Hard levels
+ * (600/900/1200), which are rungs 3, 6 and 9 of the ladder.
+ */
+
+import { AIDifficulty } from './ai-interface';
+
+/**
+ * A named AI opponent
+ */
+export interface AIOpponent {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  rating: number; // Estimated strength on the player rating scale
+  difficulty: AIDifficulty; // Bucket for win/loss statistics
+  engineLevel: number; // js-chess-engine level (1-5)
+  randomness: number; // Centipawns (0 = always the best move)
+  blunderChance: number; // 0-1
+  timeBudgetMs: number;
+}
+
+/**
+ * All opponents, weakest first
+ */
+export const AI_OPPONENTS: AIOpponent[] = [
+  {
+    id: 'pawn-puppy',
+    name: 'Pawn Puppy',
+    icon: '🐶',
+    description: 'Just learning how the pieces move. Often leaves things hanging!',
+    rating: 400,
+    difficulty: AIDifficulty.EASY,
+    engineLevel: 1,
+    randomness: 150,
+    blunderChance: 0.35,
+    timeBudgetMs: 1000
+  },
+  {
+    id: 'kitten-knight',
+    name: 'Kitten Knight',
+    icon: '🐱',
+    description: 'Likes to jump around, but does not look very far ahead.',
+    rating: 500,
+    difficulty: AIDifficulty.EASY,
+    engineLevel: 1,
+    randomness: 80,
+    blunderChance: 0.2,
+    timeBudgetMs: 1000
+  },
+  {
+    id: 'bunny-bishop',
+    name: 'Bunny Bishop',
+    icon: '🐰',
+    description: 'Grabs free pieces, but misses traps.',
+    rating: 600,
+    difficulty: AIDifficulty.EASY,
+    engineLevel: 1,
+    randomness: 0,
+    blunderChance: 0,
+    timeBudgetMs: 1000
+  },
+  {
+    id: 'fox-forker',
+    name: 'Fox Forker',
+    icon: '🦊',
+    description: 'Sneaky! Looks for forks, but still makes the odd mistake.',
+    rating: 700,
+    difficulty: AIDifficulty.MEDIUM,
+    engineLevel: 2,
+    randomness: 80,
+    blunderChance: 0.12,
+    timeBudgetMs: 2000
+  },
+  {
+    id: 'raccoon-rook',
+    name: 'Raccoon Rook',
+    icon: '🦝',
+    description: 'Careful with its pieces most of the time.',
+    rating: 800,
+    difficulty: AIDifficulty.MEDIUM,
+    engineLevel: 2,
+    randomness: 40,
+    blunderChance: 0.05,
+    timeBudgetMs: 2000
+  },
+  {
+    id: 'bear-castle',
+    name: 'Bear Castle',
+    icon: '🐻',
+    description: 'Solid and steady. Sees simple tactics a few moves ahead.',
+    rating: 900,
+    difficulty: AIDifficulty.MEDIUM,
+    engineLevel: 2,
+    randomness: 0,
+    blunderChance: 0,
+    timeBudgetMs: 2000
+  },
+  {
+    id: 'wolf-tactician',
+    name: 'Wolf Tactician',
+    icon: '🐺',
+    description: 'Hunts for tactics. Rarely gives anything away.',
+    rating: 1000,
+    difficulty: AIDifficulty.HARD,
+    engineLevel: 3,
+    randomness: 30,
+    blunderChance: 0.03,
+    timeBudgetMs: 3000
+  },
+  {
+    id: 'lion-queen',
+    name: 'Lion Queen',
+    icon: '🦁',
+    description: 'Strong and brave. You will need a good plan!',
+    rating: 1100,
+    difficulty: AIDifficulty.HARD,
+    engineLevel: 3,
+    randomness: 10,
+    blunderChance: 0,
+    timeBudgetMs: 4000
+  },
+  {
+    id: 'eagle-eye',
+    name: 'Eagle Eye',
+    icon: '🦅',
+    description: 'Sees deep into the position. A real challenge.',
+    rating: 1200,
+    difficulty: AIDifficulty.HARD,
+    engineLevel: 4,
+    randomness: 0,
+    blunderChance: 0,
+    timeBudgetMs: 6000
+  },
+  {
+    id: 'grandmaster-owl',
+    name: 'Grandmaster Owl',
+    icon: '🦉',
+    description: 'The wisest bird in the forest. Can you beat the Owl?',
+    rating: 1400,
+    difficulty: AIDifficulty.HARD,
+    engineLevel: 5,
+    randomness: 0,
+    blunderChance: 0,
+    timeBudgetMs: 8000
+  }
+];
+
+/**
+ * Opponents matching the old three difficulty levels
+ */
+const DEFAULT_OPPONENTS: Record<AIDifficulty, string> = {
+  [AIDifficulty.EASY]: 'bunny-bishop',
+  [AIDifficulty.MEDIUM]: 'bear-castle',
+  [AIDifficulty.HARD]: 'eagle-eye'
+};
+
+/**
+ * Get an opponent by ID
+ */
+export function getOpponent(id?: string): AIOpponent | undefined {
+  return AI_OPPONENTS.find(opponent => opponent.id === id);
+}
+
+/**
+ * Get the opponent standing in for a difficulty level
+ * (games saved before the ladder only know their difficulty)
+ */
+export function getDefaultOpponent(difficulty: AIDifficulty): AIOpponent {
+  return getOpponent(DEFAULT_OPPONENTS[difficulty])!;
+}
+
+/**
+ * Get the opponent whose rating is closest to a rating
+ * (the weaker one on a tie)
+ */
+export function getOpponentForRating(rating: number): AIOpponent {
+  return AI_OPPONENTS.reduce((best, opponent) =>
+    Math.abs(opponent.rating - rating) < Math.abs(best.rating - rating) ? opponent : best
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * AI Styles
+ *
+ * Personalities for AI opponents. A style does not change how well the
+ * engine calculates; it re-ranks the engine's scored candidate moves with
+ * a bonus for moves it likes (attacking the king, trading pieces, pushing
+ * pawns...), giving up at most a few centipawns to play in character.
+ */
+
+import type { Board, Move, Position } from '../core/types';
+import { PieceType, PieceColor } from '../core/types';
+import { cloneBoard, findKing } from '../core/board';
+import { isInCheck } from '../core/move-validator';
+import { PIECE_VALUES } from './evaluator';
+
+/**
+ * Available styles
+ */
+export enum AIStyleId {
+  BALANCED = 'balanced',
+  AGGRESSIVE = 'aggressive',
+  DEFENSIVE = 'defensive',
+  TRADER = 'trader',
+  PAWN_PUSHER = 'pawn-pusher'
+}
+
+/**
+ * The parts of a move a style looks at
+ */
+export type StyleMove = Pick<Move, 'from' | 'to' | 'piece' | 'capturedPiece' | 'isCastling' | 'isPromotion'>;
+
+/**
+ * A playing style
+ */
+export interface AIStyle {
+  id: AIStyleId;
+  name: string;
+  icon: string;
+  description: string;
+  maxSacrifice: number; // Centipawns the style may give up to play a move it likes
+
+  /**
+   * Bonus (centipawns) for a move the style likes (or a penalty if negative)
+   */
+  getBonus?(board: Board, move: StyleMove): number;
+}
+
+/**
+ * Distance in king moves between two squares
+ */
+function distance(a: Position, b: Position): number {
+  return Math.max(Math.abs(a.row - b.row), Math.abs(a.col - b.col));
+}
+
+/**
+ * Check if a move gives check (castling and en passant are ignored)
+ */
+function givesCheck(board: Board, move: StyleMove): boolean {
+  const after = cloneBoard(board);
+  after[move.to.row][move.to.col] = move.isPromotion
+    ? { type: PieceType.QUEEN, color: move.piece.color, hasMoved: true }
+    : after[move.from.row][move.from.col];
+  after[move.from.row][move.from.col] = null;
+
+  const opponent = move.piece.color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+  return isInCheck(after, opponent);
+}
+
+/**
+ * Ranks a piece has advanced from its own back rank (0-7)
+ */
+function ranksAdvanced(row: number, color: PieceColor): number {
+  return color === PieceColor.WHITE ? 7 - row : row;
+}
+
+const BALANCED: AIStyle = {
+  id: AIStyleId.BALANCED,
+  name: 'Balanced',
+  icon: '⚖️',
+  description: 'Just plays the moves the engine likes best.',
+  maxSacrifice: 0
+};
+
+const AGGRESSIVE: AIStyle = {
+  id: AIStyleId.AGGRESSIVE,
+  name: 'Aggressive',
+  icon: '⚔️',
+  description: 'Charges at your king and loves giving check.',
+  maxSacrifice: 80,
+  getBonus: (board, move) => {
+    let bonus = 0;
+    const enemyColor = move.piece.color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+    const enemyKing = findKing(board, enemyColor);
+    if (enemyKing && move.piece.type !== PieceType.KING) {
+      bonus += Math.max(0, 4 - distance(move.to, enemyKing)) * 12;
+    }
+    if (move.capturedPiece) bonus += 15;
+    if (givesCheck(board, move)) bonus += 40;
+    return bonus;
+  }
+};
+
+const DEFENSIVE: AIStyle = {
+  id: AIStyleId.DEFENSIVE,
+  name: 'Defensive',
+  icon: '🛡️',
+  description: 'Keeps its king safe, avoids trades and waits for your mistakes.',
+  maxSacrifice: 50,
+  getBonus: (board, move) => {
+    let bonus = 0;
+    if (move.isCastling) bonus += 50;
+    if (move.capturedPiece) bonus -= 20;
+
+    const ownKing = findKing(board, move.piece.color);
+    if (ownKing && move.piece.type !== PieceType.KING && distance(move.to, ownKing) <= 2) {
+      bonus += 15;
+    }
+    if (move.piece.type !== PieceType.PAWN && ranksAdvanced(move.to.row, move.piece.color) >= 4) {
+      bonus -= 10;
+    }
+    return bonus;
+  }
+};
+
+const TRADER: AIStyle = {
+  id: AIStyleId.TRADER,
+  name: 'Trader',
+  icon: '🔄',
+  description: 'Swaps pieces whenever it can to keep things simple.',
+  maxSacrifice: 50,
+  getBonus: (_board, move) => {
+    if (!move.capturedPiece) return 0;
+
+    const given = PIECE_VALUES[move.piece.type];
+    const taken = PIECE_VALUES[move.capturedPiece.type];
+    return taken >= given - 50 ? 40 : 15;
+  }
+};
+
+const PAWN_PUSHER: AIStyle = {
+  id: AIStyleId.PAWN_PUSHER,
+  name: 'Pawn Pusher',
+  icon: '🏃',
+  description: 'Marches its pawns up the board, dreaming of a new queen.',
+  maxSacrifice: 60,
+  getBonus: (_board, move) => {
+    if (move.piece.type !== PieceType.PAWN) return 0;
+    const bonus = 20 + ranksAdvanced(move.to.row, move.piece.color) * 6;
+    return move.isPromotion ? bonus + 60 : bonus;
+  }
+};
+
+/**
+ * All styles, in the order they are offered
+ */
+export const AI_STYLES: AIStyle[] = [
+  BALANCED,
+  AGGRESSIVE,
+  DEFENSIVE,
+  TRADER,
+  PAWN_PUSHER
+];
+
+/**
+ * Get a style by ID (balanced for unknown or missing IDs)
+ */
+export function getStyle(id?: string): AIStyle {
+  return AI_STYLES.find(style => style.id === id) ?? BALANCED;
+}
+
+/**
+ * Pick the move a style likes best among scored candidates
+ * The style chooses within the opponent's randomness window, with the same
+ * random spread, so a weak opponent stays as weak as without a style.
+ * @param candidates - Moves with the engine's score (centipawns, mover's side)
+ * @param randomness - Centipawns the opponent may stray from the best move
+ * @returns The chosen move, or null if the style has no preferences
+ */
+export function pickStyledMove<T extends StyleMove>(
+  style: AIStyle,
+  board: Board,
+  candidates: { move: T; score: number }[],
+  randomness = 0,
+  random: () => number = Math.random
+): T | null {
+  if (!style.getBonus || candidates.length === 0) return null;
+
+  const bestScore = Math.max(...candidates.map(candidate => candidate.score));
+  const range = Math.max(style.maxSacrifice, randomness);
+  let chosen: T | null = null;
+  let chosenValue = -Infinity;
+
+  for (const { move, score } of candidates) {
+    if (score < bestScore - range) continue;
+
+    const value = score + style.getBonus(board, move) + random() * randomness;
+    if (value > chosenValue) {
+      chosen = move;
+      chosenValue = value;
+    }
+  }
+  return chosen;
+}
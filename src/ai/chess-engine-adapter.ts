@@ -8,6 +8,7 @@
 import type { Board, Piece, Position, GameState } from '../core/types';
 import { PieceType, PieceColor } from '../core/types';
 import { getPieceAt } from '../core/board';
+import { toFEN } from '../core/fen';
 import { Game } from 'js-chess-engine';
 
 // ==================== Position Conversion ====================
@@ -39,105 +40,28 @@ export function squareToPos(square: string): Position {
 
 // ==================== Piece Conversion ====================
 
-/**
- * Convert our Piece to FEN character
- * White = uppercase, Black = lowercase
- */
-export function pieceToFenChar(piece: Piece): string {
-  const charMap: Record<string, string> = {
-    [PieceType.PAWN]: 'p',
-    [PieceType.KNIGHT]: 'n',
-    [PieceType.BISHOP]: 'b',
-    [PieceType.ROOK]: 'r',
-    [PieceType.QUEEN]: 'q',
-    [PieceType.KING]: 'k',
-  };
-  const char = charMap[piece.type];
-  return piece.color === PieceColor.WHITE ? char.toUpperCase() : char;
-}
-
-/**
- * Convert FEN character to our Piece type and color
- */
-export function fenCharToPiece(char: string): { type: PieceType; color: PieceColor } {
-  const isWhite = char === char.toUpperCase();
-  const lower = char.toLowerCase();
-  
-  const typeMap: Record<string, PieceType> = {
-    'p': PieceType.PAWN,
-    'n': PieceType.KNIGHT,
-    'b': PieceType.BISHOP,
-    'r': PieceType.ROOK,
-    'q': PieceType.QUEEN,
-    'k': PieceType.KING,
-  };
-  
-  return {
-    type: typeMap[lower],
-    color: isWhite ? PieceColor.WHITE : PieceColor.BLACK,
-  };
-}
+export { pieceToFenChar, fenCharToPiece } from '../core/fen';
 
 // ==================== State Conversion ====================
 
 /**
  * Convert our full GameState to FEN string
- * FEN format: "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1"
+ * (js-chess-engine accepts standard FEN, so this delegates to the core module).
+ * The engine only knows standard castling, so Chess960 castling rights are left out.
  */
 export function gameStateToFEN(state: Readonly<GameState>): string {
-  const parts: string[] = [];
-
-  // 1. Piece placement (from rank 8 to rank 1, i.e., row 0 to row 7)
-  const ranks: string[] = [];
-  for (let row = 0; row < 8; row++) {
-    let rankStr = '';
-    let emptyCount = 0;
-
-    for (let col = 0; col < 8; col++) {
-      const piece = state.board[row][col];
-      if (piece) {
-        if (emptyCount > 0) {
-          rankStr += emptyCount;
-          emptyCount = 0;
-        }
-        rankStr += pieceToFenChar(piece);
-      } else {
-        emptyCount++;
+  if (state.castlingRights.rookFiles) {
+    return toFEN({
+      ...state,
+      castlingRights: {
+        whiteKingSide: false,
+        whiteQueenSide: false,
+        blackKingSide: false,
+        blackQueenSide: false
       }
-    }
-
-    if (emptyCount > 0) {
-      rankStr += emptyCount;
-    }
-    ranks.push(rankStr);
+    });
   }
-  parts.push(ranks.join('/'));
-
-  // 2. Active color
-  parts.push(state.currentPlayer === PieceColor.WHITE ? 'w' : 'b');
-
-  // 3. Castling availability
-  let castling = '';
-  if (state.castlingRights.whiteKingSide) castling += 'K';
-  if (state.castlingRights.whiteQueenSide) castling += 'Q';
-  if (state.castlingRights.blackKingSide) castling += 'k';
-  if (state.castlingRights.blackQueenSide) castling += 'q';
-  parts.push(castling || '-');
-
-  // 4. En passant target square (lowercase in FEN)
-  if (state.enPassantTarget) {
-    parts.push(posToSquare(state.enPassantTarget).toLowerCase());
-  } else {
-    parts.push('-');
-  }
-
-  // 5. Halfmove clock
-  parts.push(String(state.halfMoveClock));
-
-  // 6. Fullmove number
-  parts.push(String(state.fullMoveNumber));
-
-  return parts.join(' ');
+  return toFEN(state);
 }
 
 // ==================== Move Conversion ====================
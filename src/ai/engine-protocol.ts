@@ -0,0 +1,86 @@
+/**
+ * Engine Worker Protocol
+ *
+ * Messages between the main thread and the engine Web Worker.
+ * Every search has an ID; replies for searches that were cancelled
+ * or replaced are ignored by the main thread.
+ */
+
+/**
+ * A move in js-chess-engine's format, e.g. { E2: 'E4' }
+ */
+export type EngineMove = Record<string, string>;
+
+/**
+ * A move with the engine's score for it (centipawns, from the mover's side)
+ */
+export interface EngineCandidate {
+  move: EngineMove;
+  score: number;
+}
+
+/**
+ * How to search
+ */
+export interface EngineSearchOptions {
+  level: number; // js-chess-engine level (1-5)
+  timeBudgetMs: number; // No deeper search is started once this would be exceeded
+  randomness?: number; // Pick among moves this close to the best (centipawns)
+  analysis?: boolean; // Also return every legal move with its score
+}
+
+/**
+ * What a search found
+ */
+export interface EngineSearchResult {
+  move: EngineMove | null; // null if there are no legal moves
+  level: number; // Deepest completed level
+  score?: number; // Score of the best move, from the mover's side (only with analysis)
+  candidates?: EngineCandidate[]; // Best first (only with analysis)
+}
+
+/**
+ * Start searching a position
+ */
+export interface EngineSearchRequest extends EngineSearchOptions {
+  type: 'search';
+  id: number;
+  fen: string;
+}
+
+/**
+ * Stop a search (the worker stops after the depth it is working on)
+ */
+export interface EngineCancelRequest {
+  type: 'cancel';
+  id: number;
+}
+
+export type EngineRequest = EngineSearchRequest | EngineCancelRequest;
+
+/**
+ * Best move found so far (sent after each completed depth)
+ */
+export interface EngineProgressMessage extends EngineSearchResult {
+  type: 'progress';
+  id: number;
+}
+
+/**
+ * Search finished (move is null if cancelled or there are no legal moves)
+ */
+export interface EngineResultMessage extends EngineSearchResult {
+  type: 'result';
+  id: number;
+}
+
+/**
+ * Search failed
+ */
+export interface EngineErrorMessage {
+  type: 'error';
+  id: number;
+  message: string;
+}
+
+export type EngineResponse = EngineProgressMessage | EngineResultMessage | EngineErrorMessage;
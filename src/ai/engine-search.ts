@@ -0,0 +1,64 @@
+/**
+ * Engine Search
+ *
+ * Time-budgeted search with js-chess-engine, shared by the engine Web
+ * Worker and the main-thread fallback. The engine itself cannot be
+ * interrupted, so the search deepens one engine level at a time and only
+ * starts the next level if it is likely to finish within the budget.
+ */
+
+import { Game } from 'js-chess-engine';
+import type { EngineSearchOptions, EngineSearchResult } from './engine-protocol';
+
+/**
+ * How much longer each level is assumed to take than the one before
+ */
+const LEVEL_GROWTH_FACTOR = 4;
+
+/**
+ * Search a position, deepening from level 1 up to the requested level
+ * @param onProgress - Called with the best move after each completed level
+ * @param isCancelled - Checked between levels
+ * @returns The best move of the deepest completed level (null if cancelled,
+ *          or if there are no legal moves)
+ */
+export async function searchPosition(
+  fen: string,
+  { level, timeBudgetMs, randomness = 0, analysis = false }: EngineSearchOptions,
+  onProgress: (result: EngineSearchResult) => void = () => {},
+  isCancelled: () => boolean = () => false
+): Promise<EngineSearchResult> {
+  const start = Date.now();
+  let best: EngineSearchResult = { move: null, level: 0 };
+
+  const game = new Game(fen);
+  if (game.exportJson().isFinished) {
+    return best;
+  }
+
+  for (let current = 1; current <= level; current++) {
+    const levelStart = Date.now();
+    const result = game.ai({ level: current, play: false, randomness, analysis });
+    if (!result || !result.move) break;
+
+    best = {
+      move: result.move,
+      level: current,
+      score: result.bestScore,
+      candidates: result.analysis?.map(({ move, score }) => ({ move, score }))
+    };
+    onProgress(best);
+
+    // Let cancel messages (or the UI, on the main thread) through
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (isCancelled()) {
+      return { move: null, level: best.level };
+    }
+
+    const elapsed = Date.now() - start;
+    const levelTime = Date.now() - levelStart;
+    if (elapsed + levelTime * LEVEL_GROWTH_FACTOR > timeBudgetMs) break;
+  }
+
+  return best;
+}
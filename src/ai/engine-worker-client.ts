@@ -0,0 +1,211 @@
+/**
+ * Engine Worker Client
+ *
+ * Main-thread side of the engine Web Worker. Runs one search at a time:
+ * starting a new search or cancelling drops the old one, and its result
+ * is ignored if it still arrives. A worker that does not stop when asked,
+ * or runs far past its time budget, is terminated and recreated on the
+ * next search. Where Web Workers are not available (tests, old browsers)
+ * the same search runs on the main thread.
+ */
+
+import type { EngineRequest, EngineResponse, EngineSearchOptions, EngineSearchResult } from './engine-protocol';
+import { searchPosition } from './engine-search';
+
+/**
+ * How long a cancelled search may take to stop before the worker is terminated
+ */
+const CANCEL_GRACE_MS = 250;
+
+/**
+ * Extra time on top of the budget before a search is cut off
+ */
+const HARD_TIMEOUT_GRACE_MS = 3000;
+
+/**
+ * A search waiting for its result
+ */
+interface PendingSearch {
+  id: number;
+  best: EngineSearchResult | null; // Best result reported so far
+  resolve: (result: EngineSearchResult | null) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+export class EngineWorkerClient {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private pending: PendingSearch | null = null;
+  private activeId = 0; // Current search (0 = none)
+  private nextId = 1;
+  private cancelTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Search a position
+   * @returns What the search found, or null if it was cancelled or failed
+   */
+  search(fen: string, options: EngineSearchOptions): Promise<EngineSearchResult | null> {
+    this.cancel();
+
+    const id = this.nextId++;
+    this.activeId = id;
+
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.searchOnMainThread(id, fen, options);
+    }
+
+    return new Promise(resolve => {
+      const timeoutId = setTimeout(() => this.onTimeout(id), options.timeBudgetMs + HARD_TIMEOUT_GRACE_MS);
+      this.pending = { id, best: null, resolve, timeoutId };
+      this.post({ type: 'search', id, fen, ...options });
+    });
+  }
+
+  /**
+   * Cancel the running search (its promise resolves to null)
+   */
+  cancel(): void {
+    this.activeId = 0;
+
+    const pending = this.pending;
+    if (!pending) return;
+
+    this.pending = null;
+    clearTimeout(pending.timeoutId);
+    pending.resolve(null);
+
+    this.post({ type: 'cancel', id: pending.id });
+    this.cancelTimeoutId = setTimeout(() => this.terminateWorker(), CANCEL_GRACE_MS);
+  }
+
+  /**
+   * Check if a search is running
+   */
+  isSearching(): boolean {
+    return this.activeId !== 0;
+  }
+
+  /**
+   * Stop the worker (a new one is created for the next search)
+   */
+  terminateWorker(): void {
+    if (this.cancelTimeoutId !== null) {
+      clearTimeout(this.cancelTimeoutId);
+      this.cancelTimeoutId = null;
+    }
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  /**
+   * Get the worker, creating it if needed (null if workers are unavailable)
+   */
+  private getWorker(): Worker | null {
+    // A worker still finishing a cancelled search would delay the new one
+    if (this.cancelTimeoutId !== null) {
+      this.terminateWorker();
+    }
+
+    if (this.worker || this.workerFailed || typeof Worker === 'undefined') {
+      return this.worker;
+    }
+
+    try {
+      this.worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<EngineResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('Engine worker error:', event.message);
+        this.workerFailed = true;
+        this.finishPending(this.pending?.best ?? null);
+        this.terminateWorker();
+      };
+    } catch (error) {
+      console.warn('Engine worker unavailable, searching on the main thread:', error);
+      this.workerFailed = true;
+    }
+    return this.worker;
+  }
+
+  /**
+   * Handle a message from the worker
+   */
+  private handleMessage(message: EngineResponse): void {
+    // A cancelled search has stopped, so the worker can be kept
+    if (message.type !== 'progress' && message.id !== this.pending?.id && this.cancelTimeoutId !== null) {
+      clearTimeout(this.cancelTimeoutId);
+      this.cancelTimeoutId = null;
+    }
+
+    if (!this.pending || message.id !== this.pending.id) return;
+
+    switch (message.type) {
+      case 'progress':
+        this.pending.best = this.toResult(message);
+        break;
+      case 'result':
+        this.finishPending(this.toResult(message));
+        break;
+      case 'error':
+        console.error('Engine search failed:', message.message);
+        this.finishPending(this.pending.best);
+        break;
+    }
+  }
+
+  /**
+   * The search ran far past its budget: use the best move so far
+   */
+  private onTimeout(id: number): void {
+    if (this.pending?.id !== id) return;
+
+    console.warn('Engine search timed out, using the best move so far');
+    this.finishPending(this.pending.best);
+    this.terminateWorker();
+  }
+
+  /**
+   * Strip the message fields from a progress or result message
+   */
+  private toResult({ move, level, score, candidates }: EngineSearchResult): EngineSearchResult {
+    return { move, level, score, candidates };
+  }
+
+  /**
+   * Resolve the pending search
+   */
+  private finishPending(result: EngineSearchResult | null): void {
+    const pending = this.pending;
+    if (!pending) return;
+
+    this.pending = null;
+    this.activeId = 0;
+    clearTimeout(pending.timeoutId);
+    pending.resolve(result);
+  }
+
+  /**
+   * Search without a worker (the search still yields between levels)
+   */
+  private async searchOnMainThread(
+    id: number,
+    fen: string,
+    options: EngineSearchOptions
+  ): Promise<EngineSearchResult | null> {
+    const isCancelled = () => this.activeId !== id;
+    const result = await searchPosition(fen, options, undefined, isCancelled);
+    if (isCancelled()) return null;
+
+    this.activeId = 0;
+    return result;
+  }
+
+  /**
+   * Send a message to the worker
+   */
+  private post(message: EngineRequest): void {
+    this.worker?.postMessage(message);
+  }
+}
+
+export const engineWorkerClient = new EngineWorkerClient();
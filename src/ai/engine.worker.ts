@@ -0,0 +1,47 @@
+/**
+ * Engine Web Worker
+ *
+ * Runs js-chess-engine searches off the main thread so the board stays
+ * responsive while the AI thinks. Speaks the protocol in engine-protocol.ts.
+ */
+
+import type { EngineRequest, EngineResponse } from './engine-protocol';
+import { searchPosition } from './engine-search';
+
+const ctx = self as unknown as Worker;
+
+/**
+ * IDs of searches that were cancelled while running
+ */
+const cancelled = new Set<number>();
+
+/**
+ * Send a message to the main thread
+ */
+function post(message: EngineResponse): void {
+  ctx.postMessage(message);
+}
+
+ctx.onmessage = async (event: MessageEvent<EngineRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    cancelled.add(request.id);
+    return;
+  }
+
+  const { id, fen, ...options } = request;
+  try {
+    const result = await searchPosition(
+      fen,
+      options,
+      progress => post({ type: 'progress', id, ...progress }),
+      () => cancelled.has(id)
+    );
+    post({ type: 'result', id, ...result });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    cancelled.delete(id);
+  }
+};
@@ -0,0 +1,288 @@
+/**
+ * Game Reviewer
+ *
+ * Engine review of a finished game. Every position is scored with a
+ * background engine search; the drop in a side's score after its move is
+ * the move's centipawn loss, which gives each move a label (best, good,
+ * inaccuracy, mistake, blunder; brilliant for the best move when it gives
+ * up material) and each side an accuracy from 0 to 100.
+ */
+
+import type { Board, GameState, Move, Position } from '../core/types';
+import { GameStatus, PieceColor, PieceType, PIECE_VALUES } from '../core/types';
+import { ChessGame } from '../core/game-state';
+import { STARTING_FEN, toFEN } from '../core/fen';
+import { isSquareAttacked } from '../core/move-validator';
+import { VariantId, getVariant } from '../core/variants';
+import { gameStateToFEN } from './chess-engine-adapter';
+import { PositionEvaluator } from './position-evaluator';
+
+/**
+ * Scores are capped here, so a missed mate counts like losing a lot of material
+ */
+const SCORE_CAP = 1000;
+
+/**
+ * Centipawn loss from which a move is an inaccuracy, a mistake or a blunder
+ */
+const INACCURACY_LOSS = 50;
+const MISTAKE_LOSS = 100;
+const BLUNDER_LOSS = 200;
+
+/**
+ * Centipawn loss still counted as the best move (engine scores are not exact)
+ */
+const BEST_MOVE_LOSS = 10;
+
+/**
+ * A side already this far ahead is not sacrificing anything brilliant
+ */
+const BRILLIANT_MAX_ADVANTAGE = 500;
+
+/**
+ * What a move was like
+ */
+export type MoveLabel = 'brilliant' | 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+/**
+ * How each label is shown: an emoji for lists, a chess symbol for board badges
+ */
+export const MOVE_LABELS: Record<MoveLabel, { icon: string; symbol: string; name: string }> = {
+  brilliant: { icon: '💎', symbol: '!!', name: 'Brilliant' },
+  best: { icon: '⭐', symbol: '★', name: 'Best' },
+  good: { icon: '👍', symbol: '✓', name: 'Good' },
+  inaccuracy: { icon: '🤔', symbol: '?!', name: 'Inaccuracy' },
+  mistake: { icon: '❓', symbol: '?', name: 'Mistake' },
+  blunder: { icon: '❌', symbol: '??', name: 'Blunder' }
+};
+
+/**
+ * Review of one move
+ */
+export interface MoveReview {
+  san: string;
+  color: 'white' | 'black';
+  evaluation: number; // Centipawns from White's side after the move (capped)
+  centipawnLoss: number;
+  label: MoveLabel;
+  bestMove?: string; // Engine's move in SAN, when a different move was played
+}
+
+/**
+ * Review totals of one side
+ */
+export interface SideReview {
+  accuracy: number; // 0-100
+  averageCentipawnLoss: number;
+  labels: Record<MoveLabel, number>; // Number of moves with each label
+}
+
+/**
+ * Engine review of a game
+ */
+export interface GameReview {
+  engineLevel: number;
+  reviewedAt: number;
+  startEvaluation: number; // Centipawns from White's side before the first move
+  moves: MoveReview[];
+  white: SideReview;
+  black: SideReview;
+}
+
+/**
+ * The parts of a saved game needed to review it
+ */
+export interface ReviewableGame {
+  moves: string[]; // SAN
+  startFen?: string;
+  variant?: VariantId;
+}
+
+/**
+ * Check if games of a variant can be reviewed (the engine only knows standard
+ * rules, so not even Chess960 castling)
+ */
+export function isReviewable(variant?: VariantId): boolean {
+  return !variant || variant === VariantId.STANDARD;
+}
+
+/**
+ * Chance of winning (0-100) for a side with a centipawn advantage
+ */
+export function winPercent(score: number): number {
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * score)) - 1);
+}
+
+/**
+ * Accuracy (0-100) of a move, from the mover's scores before and after it
+ */
+export function moveAccuracy(scoreBefore: number, scoreAfter: number): number {
+  const drop = winPercent(scoreBefore) - winPercent(scoreAfter);
+  const accuracy = 103.1668 * Math.exp(-0.04354 * drop) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+}
+
+/**
+ * Label a move by how much it gave away
+ * @param isEngineMove - The engine would have played the same move
+ * @param isSacrifice - The move gives up material
+ */
+export function classifyMove(centipawnLoss: number, isEngineMove: boolean, isSacrifice: boolean = false): MoveLabel {
+  const isBest = isEngineMove || centipawnLoss <= BEST_MOVE_LOSS;
+  if (isBest) return isSacrifice ? 'brilliant' : 'best';
+  if (centipawnLoss < INACCURACY_LOSS) return 'good';
+  if (centipawnLoss < MISTAKE_LOSS) return 'inaccuracy';
+  if (centipawnLoss < BLUNDER_LOSS) return 'mistake';
+  return 'blunder';
+}
+
+/**
+ * Check if a move leaves a piece where it can be taken for less than it is worth
+ */
+function isSacrifice(boardAfter: Board, move: Move): boolean {
+  if (move.piece.type === PieceType.PAWN || move.piece.type === PieceType.KING) return false;
+
+  const given = PIECE_VALUES[move.isPromotion ? PieceType.QUEEN : move.piece.type];
+  const taken = move.capturedPiece ? PIECE_VALUES[move.capturedPiece.type] : 0;
+  const opponent = move.piece.color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+  return given > taken + PIECE_VALUES[PieceType.PAWN] && isSquareAttacked(boardAfter, move.to, opponent);
+}
+
+/**
+ * Cap an engine score
+ */
+function capScore(score: number): number {
+  return Math.max(-SCORE_CAP, Math.min(SCORE_CAP, score));
+}
+
+/**
+ * Add up the reviewed moves of one side
+ */
+function summarizeSide(moves: MoveReview[], accuracies: number[]): SideReview {
+  const labels: Record<MoveLabel, number> = {
+    brilliant: 0, best: 0, good: 0, inaccuracy: 0, mistake: 0, blunder: 0
+  };
+  moves.forEach(move => labels[move.label]++);
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    accuracy: moves.length > 0 ? Math.round(average(accuracies) * 10) / 10 : 100,
+    averageCentipawnLoss: Math.round(average(moves.map(move => move.centipawnLoss))),
+    labels
+  };
+}
+
+export class GameReviewer {
+  private evaluator = new PositionEvaluator();
+  private reviewId = 0; // Bumped to cancel the running review
+
+  /**
+   * Review a game
+   * @param onProgress - Called after each position with the number scored so far
+   * @returns The review, or null if it was cancelled or the game cannot be reviewed
+   * @throws Error if the moves cannot be replayed
+   */
+  async review(
+    saved: ReviewableGame,
+    { level = 3, timeBudgetMs = 1000 }: { level?: number; timeBudgetMs?: number } = {},
+    onProgress: (done: number, total: number) => void = () => {}
+  ): Promise<GameReview | null> {
+    if (!isReviewable(saved.variant)) return null;
+
+    const id = ++this.reviewId;
+
+    const game = new ChessGame();
+    game.setVariant(getVariant(saved.variant));
+    game.loadFEN(saved.startFen ?? STARTING_FEN);
+    saved.moves.forEach(san => game.makeSANMove(san));
+    const history = game.getHistory().getAllMoves();
+
+    // Score every position from White's side, before each move and at the end
+    const total = history.length + 1;
+    const scores: number[] = [];
+    const bestMoves: (string | undefined)[] = [];
+
+    for (let i = 0; i < total; i++) {
+      const state = i < history.length ? history[i].stateBefore : game.getState();
+      const finalScore = this.getFinalScore(state.status, state.currentPlayer);
+      if (finalScore !== null) {
+        scores.push(finalScore);
+        bestMoves.push(undefined);
+        onProgress(i + 1, total);
+        continue;
+      }
+
+      const evaluation = await this.evaluator.evaluate(gameStateToFEN(state), level, timeBudgetMs);
+      if (id !== this.reviewId || !evaluation) return null;
+
+      scores.push(capScore(evaluation.score));
+      bestMoves.push(evaluation.bestMove ? this.toSAN(state, evaluation.bestMove) : undefined);
+      onProgress(i + 1, total);
+    }
+
+    const moves: MoveReview[] = [];
+    const accuracies: Record<'white' | 'black', number[]> = { white: [], black: [] };
+
+    history.forEach((entry, i) => {
+      const color = entry.move.piece.color === PieceColor.WHITE ? 'white' : 'black';
+      const sign = color === 'white' ? 1 : -1;
+      const before = scores[i] * sign;
+      const after = scores[i + 1] * sign;
+      const centipawnLoss = Math.max(0, before - after);
+
+      const isEngineMove = bestMoves[i] === entry.notation;
+      const sacrifice = before < BRILLIANT_MAX_ADVANTAGE && isSacrifice(entry.stateAfter.board, entry.move);
+      const label = classifyMove(centipawnLoss, isEngineMove, sacrifice);
+
+      moves.push({
+        san: entry.notation,
+        color,
+        evaluation: scores[i + 1],
+        centipawnLoss,
+        label,
+        bestMove: isEngineMove ? undefined : bestMoves[i]
+      });
+      accuracies[color].push(moveAccuracy(before, after));
+    });
+
+    return {
+      engineLevel: level,
+      reviewedAt: Date.now(),
+      startEvaluation: scores[0],
+      moves,
+      white: summarizeSide(moves.filter(move => move.color === 'white'), accuracies.white),
+      black: summarizeSide(moves.filter(move => move.color === 'black'), accuracies.black)
+    };
+  }
+
+  /**
+   * Stop the running review (it resolves to null)
+   */
+  cancel(): void {
+    this.reviewId++;
+    this.evaluator.cancel();
+  }
+
+  /**
+   * Score of a finished position from White's side (null if the game goes on)
+   */
+  private getFinalScore(status: GameStatus, toMove: PieceColor): number | null {
+    if (status === GameStatus.PLAYING || status === GameStatus.CHECK) return null;
+    if (status === GameStatus.CHECKMATE) {
+      return toMove === PieceColor.WHITE ? -SCORE_CAP : SCORE_CAP;
+    }
+    return 0;
+  }
+
+  /**
+   * Write an engine move in SAN
+   */
+  private toSAN(state: Readonly<GameState>, move: { from: Position; to: Position }): string | undefined {
+    const probe = ChessGame.fromFEN(toFEN(state));
+    return probe.makeMove(move.from, move.to) ? probe.getHistory().getLastMove()?.notation : undefined;
+  }
+}
+
+export const gameReviewer = new GameReviewer();
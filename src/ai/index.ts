@@ -9,5 +9,16 @@ export { AIEasy } from './ai-easy';
 export { AIMedium } from './ai-medium';
 export { AIHard } from './ai-hard';
 export { AIEnginePlayer } from './ai-engine-player';
+export { AI_OPPONENTS, getOpponent, getDefaultOpponent, getOpponentForRating } from './ai-opponents';
+export type { AIOpponent } from './ai-opponents';
+export { AIStyleId, AI_STYLES, getStyle, pickStyledMove } from './ai-styles';
+export type { AIStyle, StyleMove } from './ai-styles';
+export { EngineWorkerClient, engineWorkerClient } from './engine-worker-client';
+export { searchPosition } from './engine-search';
+export { PositionEvaluator, positionEvaluator, getWhiteShare, formatEvaluation } from './position-evaluator';
+export type { PositionEvaluation } from './position-evaluator';
+export { GameReviewer, gameReviewer, classifyMove, moveAccuracy, winPercent, isReviewable, MOVE_LABELS } from './game-reviewer';
+export type { GameReview, MoveReview, SideReview, MoveLabel, ReviewableGame } from './game-reviewer';
+export type { EngineMove, EngineCandidate, EngineSearchOptions, EngineSearchResult, EngineRequest, EngineResponse } from './engine-protocol';
 export { evaluateBoard, PIECE_VALUES, PIECE_SQUARE_TABLES } from './evaluator';
 export { gameStateToFEN, posToSquare, squareToPos, convertEngineMove } from './chess-engine-adapter';
@@ -0,0 +1,81 @@
+/**
+ * Position Evaluator
+ *
+ * Scores positions with a background engine search, for the evaluation
+ * bar and the best-move hint. Uses its own engine worker so it never
+ * cancels (or waits for) the AI opponent's search.
+ */
+
+import type { Position } from '../core/types';
+import { EngineWorkerClient } from './engine-worker-client';
+import { squareToPos } from './chess-engine-adapter';
+
+/**
+ * Engine scores beyond this are forced mates
+ */
+const MATE_SCORE = 900000;
+
+/**
+ * How strongly the evaluation bar reacts to an advantage
+ * (a 4-pawn advantage fills about 90% of the bar)
+ */
+const BAR_SCALE = 400;
+
+/**
+ * Evaluation of a position
+ */
+export interface PositionEvaluation {
+  score: number; // Centipawns from White's side (positive = White is better)
+  mate: boolean; // The score is a forced mate
+  bestMove: { from: Position; to: Position } | null;
+  level: number; // Engine level searched
+}
+
+export class PositionEvaluator {
+  private client = new EngineWorkerClient();
+
+  /**
+   * Evaluate a position (a new call cancels the previous one)
+   * @returns The evaluation, or null if cancelled or the game is over
+   */
+  async evaluate(fen: string, level: number = 3, timeBudgetMs: number = 1500): Promise<PositionEvaluation | null> {
+    const result = await this.client.search(fen, { level, timeBudgetMs, analysis: true });
+    if (!result?.move || result.score === undefined) return null;
+
+    const whiteToMove = fen.split(' ')[1] !== 'b';
+    const [from, to] = Object.entries(result.move)[0];
+
+    return {
+      score: whiteToMove ? result.score : -result.score,
+      mate: Math.abs(result.score) >= MATE_SCORE,
+      bestMove: { from: squareToPos(from), to: squareToPos(to) },
+      level: result.level
+    };
+  }
+
+  /**
+   * Stop the running evaluation
+   */
+  cancel(): void {
+    this.client.cancel();
+  }
+}
+
+/**
+ * White's share of the evaluation bar (0-1)
+ */
+export function getWhiteShare(evaluation: PositionEvaluation): number {
+  if (evaluation.mate) return evaluation.score > 0 ? 1 : 0;
+  return 1 / (1 + Math.pow(10, -evaluation.score / BAR_SCALE));
+}
+
+/**
+ * Short evaluation text, e.g. "+1.5", "-0.3" or "+M" for a forced mate
+ */
+export function formatEvaluation(evaluation: PositionEvaluation): string {
+  if (evaluation.mate) return evaluation.score > 0 ? '+M' : '-M';
+  const pawns = Math.round(evaluation.score / 10) / 10;
+  return pawns > 0 ? `+${pawns.toFixed(1)}` : pawns < 0 ? pawns.toFixed(1) : '0.0';
+}
+
+export const positionEvaluator = new PositionEvaluator();
@@ -0,0 +1,121 @@
+/**
+ * Chess960 Module
+ *
+ * Fischer Random start positions, numbered 0-959 with the standard
+ * (Scharnagl) numbering used by most chess software:
+ * - Bishops on opposite-coloured squares
+ * - King somewhere between the two rooks
+ * - Black mirrors White
+ * Position 518 is the standard chess setup.
+ */
+
+import { PieceType, PieceColor } from './types';
+import { parseFEN, pieceToFenChar } from './fen';
+
+/**
+ * Number of distinct Chess960 start positions
+ */
+export const CHESS960_POSITION_COUNT = 960;
+
+/**
+ * Number of the standard chess setup (RNBQKBNR)
+ */
+export const STANDARD_CHESS960_POSITION = 518;
+
+/**
+ * Knight placements on the five squares left after bishops and queen
+ */
+const KNIGHT_PLACEMENTS: Array<[number, number]> = [
+  [0, 1], [0, 2], [0, 3], [0, 4], [1, 2],
+  [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]
+];
+
+/**
+ * Get the back rank (a-file to h-file) of a Chess960 start position
+ * @throws Error if the number is not 0-959
+ */
+export function getChess960BackRank(positionNumber: number): PieceType[] {
+  if (!Number.isInteger(positionNumber) || positionNumber < 0 || positionNumber >= CHESS960_POSITION_COUNT) {
+    throw new Error(`Chess960 position must be a whole number from 0 to ${CHESS960_POSITION_COUNT - 1}`);
+  }
+
+  const rank: Array<PieceType | null> = new Array(8).fill(null);
+  let n = positionNumber;
+
+  // Light-squared bishop on b/d/f/h, dark-squared bishop on a/c/e/g
+  rank[(n % 4) * 2 + 1] = PieceType.BISHOP;
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = PieceType.BISHOP;
+  n = Math.floor(n / 4);
+
+  // Queen on one of the six remaining squares
+  const placeOnEmpty = (index: number, type: PieceType) => {
+    const emptyCols = rank.map((piece, col) => piece ? -1 : col).filter(col => col !== -1);
+    rank[emptyCols[index]] = type;
+  };
+  placeOnEmpty(n % 6, PieceType.QUEEN);
+  n = Math.floor(n / 6);
+
+  // Knights on two of the five remaining squares (placed right to left so indexes stay valid)
+  const [first, second] = KNIGHT_PLACEMENTS[n];
+  placeOnEmpty(second, PieceType.KNIGHT);
+  placeOnEmpty(first, PieceType.KNIGHT);
+
+  // Rook, king, rook on the last three squares
+  placeOnEmpty(0, PieceType.ROOK);
+  placeOnEmpty(0, PieceType.KING);
+  placeOnEmpty(0, PieceType.ROOK);
+
+  return rank as PieceType[];
+}
+
+/**
+ * Get the number (0-959) of a Chess960 back rank, or null if the
+ * arrangement is not a Chess960 start position
+ */
+export function getChess960PositionNumber(backRank: PieceType[]): number | null {
+  const key = backRank.join(',');
+
+  for (let n = 0; n < CHESS960_POSITION_COUNT; n++) {
+    if (getChess960BackRank(n).join(',') === key) {
+      return n;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the FEN of a Chess960 start position (Shredder-FEN castling rights)
+ */
+export function getChess960FEN(positionNumber: number): string {
+  const backRank = getChess960BackRank(positionNumber);
+  const white = backRank.map(type => pieceToFenChar({ type, color: PieceColor.WHITE, hasMoved: false })).join('');
+  const rookFiles = backRank
+    .map((type, col) => type === PieceType.ROOK ? String.fromCharCode(65 + col) : '')
+    .join('');
+  const castling = rookFiles.charAt(1) + rookFiles.charAt(0); // King side first, e.g. "HA"
+
+  return `${white.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${white} w ${castling}${castling.toLowerCase()} - 0 1`;
+}
+
+/**
+ * Pick a random Chess960 start position number
+ */
+export function randomChess960Position(random: () => number = Math.random): number {
+  return Math.floor(random() * CHESS960_POSITION_COUNT);
+}
+
+/**
+ * Get the Chess960 number of the position a game started from,
+ * or null for standard games (including FENs without Chess960 castling rights)
+ */
+export function getChess960StartNumber(startFen: string): number | null {
+  const start = parseFEN(startFen);
+  if (!start.castlingRights.rookFiles) return null;
+
+  const backRank = start.board[7].map(piece => piece ? piece.type : null);
+  if (backRank.some(type => type === null)) return null;
+
+  return getChess960PositionNumber(backRank as PieceType[]);
+}
@@ -0,0 +1,326 @@
+/**
+ * Chess Clock Module
+ *
+ * Two-sided game clock with the common time control types:
+ * - Fischer: a fixed increment is added after every move
+ * - Bronstein: time used on a move is given back, up to the delay
+ * - Hourglass: time used by one side is added to the other
+ */
+
+import { PieceColor } from './types';
+
+/**
+ * How time is added back during a game
+ */
+export enum TimeControlType {
+  FISCHER = 'fischer',
+  BRONSTEIN = 'bronstein',
+  HOURGLASS = 'hourglass'
+}
+
+/**
+ * Time control settings
+ */
+export interface TimeControl {
+  type: TimeControlType;
+  initialSeconds: number; // Starting time for each side
+  incrementSeconds: number; // Fischer increment or Bronstein delay (unused for hourglass)
+}
+
+/**
+ * Named time control offered in the game mode section
+ */
+export interface TimeControlPreset {
+  id: string;
+  label: string;
+  timeControl: TimeControl | null; // null = untimed game
+}
+
+/**
+ * Saved clock readings, for resuming a game later
+ */
+export interface ClockSnapshot {
+  remaining: Record<PieceColor, number>; // ms
+  activeColor: PieceColor | null;
+}
+
+/**
+ * Time controls to choose from
+ */
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: 'none', label: '∞ No clock', timeControl: null },
+  {
+    id: 'blitz-3+2',
+    label: '⚡ 3 min + 2s',
+    timeControl: { type: TimeControlType.FISCHER, initialSeconds: 180, incrementSeconds: 2 }
+  },
+  {
+    id: 'blitz-5+0',
+    label: '⚡ 5 min',
+    timeControl: { type: TimeControlType.FISCHER, initialSeconds: 300, incrementSeconds: 0 }
+  },
+  {
+    id: 'rapid-10+5',
+    label: '🕙 10 min + 5s',
+    timeControl: { type: TimeControlType.FISCHER, initialSeconds: 600, incrementSeconds: 5 }
+  },
+  {
+    id: 'rapid-15+10',
+    label: '🕒 15 min + 10s',
+    timeControl: { type: TimeControlType.FISCHER, initialSeconds: 900, incrementSeconds: 10 }
+  },
+  {
+    id: 'bronstein-5d3',
+    label: '⏳ 5 min, 3s delay',
+    timeControl: { type: TimeControlType.BRONSTEIN, initialSeconds: 300, incrementSeconds: 3 }
+  },
+  {
+    id: 'hourglass-1',
+    label: '⌛ 1 min hourglass',
+    timeControl: { type: TimeControlType.HOURGLASS, initialSeconds: 60, incrementSeconds: 0 }
+  }
+];
+
+/**
+ * Format a time control as a PGN TimeControl tag value
+ * ("300+2", "*60" for hourglass; a Bronstein delay is written like an increment)
+ */
+export function formatTimeControl(timeControl: TimeControl | null | undefined): string {
+  if (!timeControl) return '-';
+
+  const { type, initialSeconds, incrementSeconds } = timeControl;
+  if (type === TimeControlType.HOURGLASS) {
+    return `*${initialSeconds}`;
+  }
+  return incrementSeconds > 0 ? `${initialSeconds}+${incrementSeconds}` : `${initialSeconds}`;
+}
+
+/**
+ * Format clock time for display (e.g. "4:05", "1:02:30", "0:09.4" under 10 seconds)
+ */
+export function formatClockTime(milliseconds: number): string {
+  const ms = Math.max(0, milliseconds);
+
+  if (ms < 10_000) {
+    return `0:0${(Math.floor(ms / 100) / 10).toFixed(1)}`;
+  }
+
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Format clock time as a PGN %clk value (h:mm:ss)
+ */
+export function formatPGNClock(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return `${hours}:${minutes}:${seconds}`;
+}
+
+/**
+ * Chess clock
+ * Only the side to move has a running clock. Times are in milliseconds.
+ */
+export class ChessClock {
+  private readonly timeControl: TimeControl;
+  private readonly now: () => number;
+  private remaining: Record<PieceColor, number>;
+  private activeColor: PieceColor | null = null;
+  private running: boolean = false;
+  private turnStartedAt: number = 0; // When the clock was last started or resumed
+  private turnElapsed: number = 0; // Time used this turn before the last pause
+
+  /**
+   * @param now - Time source (overridable for tests)
+   */
+  constructor(timeControl: TimeControl, now: () => number = () => Date.now()) {
+    this.timeControl = timeControl;
+    this.now = now;
+    this.remaining = this.createInitialTimes();
+  }
+
+  /**
+   * Get the time control this clock runs
+   */
+  getTimeControl(): TimeControl {
+    return this.timeControl;
+  }
+
+  /**
+   * Get the side whose clock is running (null before the first move or after stop)
+   */
+  getActiveColor(): PieceColor | null {
+    return this.activeColor;
+  }
+
+  /**
+   * Check if the clock is ticking (started and not paused)
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Get the time left for a side, including the turn in progress
+   */
+  getRemaining(color: PieceColor): number {
+    const elapsed = this.getTurnElapsed();
+
+    if (color === this.activeColor) {
+      return Math.max(0, this.remaining[color] - elapsed);
+    }
+
+    // In hourglass, time drains from the side to move into the other side
+    if (this.activeColor && this.timeControl.type === TimeControlType.HOURGLASS) {
+      return this.remaining[color] + Math.min(elapsed, this.remaining[this.activeColor]);
+    }
+
+    return this.remaining[color];
+  }
+
+  /**
+   * Check if the side to move has run out of time
+   */
+  hasFlagged(): boolean {
+    return this.activeColor !== null && this.getRemaining(this.activeColor) <= 0;
+  }
+
+  /**
+   * Start (or hand over) the clock to a side without crediting any bonus time
+   */
+  start(color: PieceColor): void {
+    this.commitElapsed();
+    this.activeColor = color;
+    this.running = true;
+    this.turnStartedAt = this.now();
+    this.turnElapsed = 0;
+  }
+
+  /**
+   * Press the clock after `color` finished a move: charge the time used,
+   * add the increment/delay and start the opponent's clock.
+   * Returns the mover's remaining time.
+   */
+  press(color: PieceColor): number {
+    if (this.activeColor === color) {
+      const elapsed = this.getTurnElapsed();
+      this.commitElapsed();
+
+      if (this.timeControl.type === TimeControlType.FISCHER) {
+        this.remaining[color] += this.timeControl.incrementSeconds * 1000;
+      } else if (this.timeControl.type === TimeControlType.BRONSTEIN) {
+        this.remaining[color] += Math.min(elapsed, this.timeControl.incrementSeconds * 1000);
+      }
+    }
+
+    const remaining = this.remaining[color];
+    const wasRunning = this.running || this.activeColor === null;
+    this.start(color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE);
+    this.running = wasRunning;
+    return remaining;
+  }
+
+  /**
+   * Pause the running clock (e.g. while a menu is open)
+   */
+  pause(): void {
+    if (!this.running) return;
+
+    this.turnElapsed += this.now() - this.turnStartedAt;
+    this.running = false;
+  }
+
+  /**
+   * Resume a paused clock
+   */
+  resume(): void {
+    if (this.running || !this.activeColor) return;
+
+    this.turnStartedAt = this.now();
+    this.running = true;
+  }
+
+  /**
+   * Stop the clock for good (game over); times are frozen
+   */
+  stop(): void {
+    this.commitElapsed();
+    this.activeColor = null;
+    this.running = false;
+  }
+
+  /**
+   * Read both clocks for saving (the turn in progress is included)
+   */
+  getSnapshot(): ClockSnapshot {
+    return {
+      remaining: {
+        [PieceColor.WHITE]: this.getRemaining(PieceColor.WHITE),
+        [PieceColor.BLACK]: this.getRemaining(PieceColor.BLACK)
+      },
+      activeColor: this.activeColor
+    };
+  }
+
+  /**
+   * Continue from saved readings; the active side's clock starts running again
+   */
+  restore(snapshot: ClockSnapshot): void {
+    this.remaining = { ...snapshot.remaining };
+    this.activeColor = snapshot.activeColor;
+    this.running = snapshot.activeColor !== null;
+    this.turnStartedAt = this.now();
+    this.turnElapsed = 0;
+  }
+
+  /**
+   * Reset both sides to the initial time
+   */
+  reset(): void {
+    this.remaining = this.createInitialTimes();
+    this.activeColor = null;
+    this.running = false;
+    this.turnElapsed = 0;
+  }
+
+  /**
+   * Time used on the current turn so far
+   */
+  private getTurnElapsed(): number {
+    if (!this.activeColor) return 0;
+    return this.turnElapsed + (this.running ? this.now() - this.turnStartedAt : 0);
+  }
+
+  /**
+   * Charge the current turn's time to the side to move
+   */
+  private commitElapsed(): void {
+    if (!this.activeColor) return;
+
+    const color = this.activeColor;
+    const opponent = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+    const used = Math.min(this.getTurnElapsed(), this.remaining[color]);
+
+    this.remaining[color] -= used;
+    if (this.timeControl.type === TimeControlType.HOURGLASS) {
+      this.remaining[opponent] += used;
+    }
+
+    this.turnStartedAt = this.now();
+    this.turnElapsed = 0;
+  }
+
+  private createInitialTimes(): Record<PieceColor, number> {
+    const initial = this.timeControl.initialSeconds * 1000;
+    return { [PieceColor.WHITE]: initial, [PieceColor.BLACK]: initial };
+  }
+}
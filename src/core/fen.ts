@@ -0,0 +1,469 @@
+/**
+ * FEN Module
+ *
+ * Converts between game states and Forsyth-Edwards Notation (FEN).
+ * Parsing is strict: every field is validated and invalid positions
+ * are rejected with a descriptive error message.
+ *
+ * FEN format: "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1"
+ *
+ * Chess960 castling rights can be read as Shredder-FEN (rook files, "HAha")
+ * or X-FEN ("KQkq" for the outermost rooks, file letters otherwise).
+ */
+
+import type { Board, Piece, Position, CastlingRights, CastlingRookFiles, GameState } from './types';
+import { PieceType, PieceColor } from './types';
+import { createEmptyBoard, findPieces, getPieceAt } from './board';
+import { isInCheck, STANDARD_ROOK_FILES } from './move-validator';
+import { toAlgebraic, fromAlgebraic } from '../utils/coordinates';
+
+/**
+ * Standard starting position
+ */
+export const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/**
+ * How Chess960 castling rights are written: Shredder-FEN always uses rook
+ * files ("HAha"), X-FEN only where "K"/"Q" would be ambiguous
+ */
+export type CastlingNotation = 'shredder' | 'x-fen';
+
+/**
+ * Position described by a FEN string
+ */
+export interface FENPosition {
+  board: Board;
+  currentPlayer: PieceColor;
+  castlingRights: CastlingRights;
+  enPassantTarget: Position | null;
+  halfMoveClock: number;
+  fullMoveNumber: number;
+}
+
+const FEN_CHAR_TO_TYPE: Record<string, PieceType> = {
+  p: PieceType.PAWN,
+  n: PieceType.KNIGHT,
+  b: PieceType.BISHOP,
+  r: PieceType.ROOK,
+  q: PieceType.QUEEN,
+  k: PieceType.KING
+};
+
+const TYPE_TO_FEN_CHAR: Record<PieceType, string> = {
+  [PieceType.PAWN]: 'p',
+  [PieceType.KNIGHT]: 'n',
+  [PieceType.BISHOP]: 'b',
+  [PieceType.ROOK]: 'r',
+  [PieceType.QUEEN]: 'q',
+  [PieceType.KING]: 'k'
+};
+
+/**
+ * Convert a piece to its FEN character (White = uppercase, Black = lowercase)
+ */
+export function pieceToFenChar(piece: Piece): string {
+  const char = TYPE_TO_FEN_CHAR[piece.type];
+  return piece.color === PieceColor.WHITE ? char.toUpperCase() : char;
+}
+
+/**
+ * Convert a FEN character to a piece type and color
+ */
+export function fenCharToPiece(char: string): { type: PieceType; color: PieceColor } {
+  const type = FEN_CHAR_TO_TYPE[char.toLowerCase()];
+  if (!type) {
+    throw new Error(`Invalid FEN: unknown piece '${char}'`);
+  }
+
+  return {
+    type,
+    color: char === char.toUpperCase() ? PieceColor.WHITE : PieceColor.BLACK
+  };
+}
+
+/**
+ * Convert a game state to a FEN string
+ * @param castlingNotation - Format for Chess960 castling rights (standard games always use "KQkq")
+ */
+export function toFEN(state: Readonly<GameState>, castlingNotation: CastlingNotation = 'shredder'): string {
+  const ranks: string[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    let rank = '';
+    let emptyCount = 0;
+
+    for (let col = 0; col < 8; col++) {
+      const piece = state.board[row][col];
+      if (piece) {
+        if (emptyCount > 0) {
+          rank += emptyCount;
+          emptyCount = 0;
+        }
+        rank += pieceToFenChar(piece);
+      } else {
+        emptyCount++;
+      }
+    }
+
+    if (emptyCount > 0) {
+      rank += emptyCount;
+    }
+    ranks.push(rank);
+  }
+
+  return [
+    ranks.join('/'),
+    state.currentPlayer === PieceColor.WHITE ? 'w' : 'b',
+    formatCastling(state.board, state.castlingRights, castlingNotation) || '-',
+    state.enPassantTarget ? toAlgebraic(state.enPassantTarget) : '-',
+    String(state.halfMoveClock),
+    String(state.fullMoveNumber)
+  ].join(' ');
+}
+
+/**
+ * Write the castling field (empty when nobody can castle)
+ */
+function formatCastling(board: Board, rights: CastlingRights, notation: CastlingNotation): string {
+  const flags = [
+    { allowed: rights.whiteKingSide, color: PieceColor.WHITE, kingSide: true },
+    { allowed: rights.whiteQueenSide, color: PieceColor.WHITE, kingSide: false },
+    { allowed: rights.blackKingSide, color: PieceColor.BLACK, kingSide: true },
+    { allowed: rights.blackQueenSide, color: PieceColor.BLACK, kingSide: false }
+  ];
+
+  return flags
+    .filter(({ allowed }) => allowed)
+    .map(({ color, kingSide }) => {
+      let flag = kingSide ? 'K' : 'Q';
+
+      if (rights.rookFiles) {
+        const row = color === PieceColor.WHITE ? 7 : 0;
+        const rookCol = kingSide ? rights.rookFiles.kingSide : rights.rookFiles.queenSide;
+        const outerCols = kingSide
+          ? [...Array(7 - rookCol).keys()].map(i => rookCol + 1 + i)
+          : [...Array(rookCol).keys()];
+        const hasOuterRook = outerCols.some(col => {
+          const piece = board[row][col];
+          return !!piece && piece.type === PieceType.ROOK && piece.color === color;
+        });
+
+        if (notation === 'shredder' || hasOuterRook) {
+          flag = String.fromCharCode(65 + rookCol);
+        }
+      }
+
+      return color === PieceColor.WHITE ? flag : flag.toLowerCase();
+    })
+    .join('');
+}
+
+/**
+ * Parse and validate a FEN string
+ * @throws Error describing the first problem found
+ */
+export function parseFEN(fen: string): FENPosition {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length !== 6) {
+    throw new Error(`Invalid FEN: expected 6 fields, got ${fields.length}`);
+  }
+
+  const [placement, activeColor, castling, enPassant, halfMove, fullMove] = fields;
+
+  const board = parsePlacement(placement);
+  validatePieceCounts(board);
+
+  if (activeColor !== 'w' && activeColor !== 'b') {
+    throw new Error(`Invalid FEN: side to move must be 'w' or 'b', got '${activeColor}'`);
+  }
+  const currentPlayer = activeColor === 'w' ? PieceColor.WHITE : PieceColor.BLACK;
+  const opponent = currentPlayer === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+
+  if (isInCheck(board, opponent)) {
+    throw new Error(`Invalid FEN: ${opponent} is in check but it is ${currentPlayer} to move`);
+  }
+
+  const castlingRights = parseCastling(castling, board);
+  const enPassantTarget = parseEnPassant(enPassant, board, currentPlayer);
+  const halfMoveClock = parseCounter(halfMove, 'halfmove clock', 0);
+  const fullMoveNumber = parseCounter(fullMove, 'fullmove number', 1);
+
+  applyMovedFlags(board, castlingRights);
+
+  return {
+    board,
+    currentPlayer,
+    castlingRights,
+    enPassantTarget,
+    halfMoveClock,
+    fullMoveNumber
+  };
+}
+
+/**
+ * Parse the piece placement field
+ */
+function parsePlacement(placement: string): Board {
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) {
+    throw new Error(`Invalid FEN: expected 8 ranks, got ${ranks.length}`);
+  }
+
+  const board = createEmptyBoard();
+
+  ranks.forEach((rank, row) => {
+    const rankName = 8 - row;
+    let col = 0;
+    let previousWasDigit = false;
+
+    for (const char of rank) {
+      if (/[1-8]/.test(char)) {
+        if (previousWasDigit) {
+          throw new Error(`Invalid FEN: rank ${rankName} has consecutive digits`);
+        }
+        col += parseInt(char, 10);
+        previousWasDigit = true;
+      } else {
+        if (col >= 8) {
+          throw new Error(`Invalid FEN: rank ${rankName} has more than 8 squares`);
+        }
+        const { type, color } = fenCharToPiece(char);
+        board[row][col] = { type, color, hasMoved: false };
+        col++;
+        previousWasDigit = false;
+      }
+    }
+
+    if (col !== 8) {
+      throw new Error(`Invalid FEN: rank ${rankName} has ${col} squares instead of 8`);
+    }
+  });
+
+  return board;
+}
+
+/**
+ * Check that each side has a legal set of pieces
+ */
+function validatePieceCounts(board: Board): void {
+  for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+    const pieces = findPieces(board, (piece) => piece.color === color);
+    const count = (type: PieceType) => pieces.filter(({ piece }) => piece.type === type).length;
+
+    const kings = count(PieceType.KING);
+    if (kings !== 1) {
+      throw new Error(`Invalid FEN: ${color} must have exactly one king, found ${kings}`);
+    }
+
+    const pawns = count(PieceType.PAWN);
+    if (pawns > 8) {
+      throw new Error(`Invalid FEN: ${color} has ${pawns} pawns (maximum 8)`);
+    }
+
+    if (pieces.length > 16) {
+      throw new Error(`Invalid FEN: ${color} has ${pieces.length} pieces (maximum 16)`);
+    }
+
+    // Every piece beyond the starting set must have come from a promoted pawn
+    const extraPieces =
+      Math.max(0, count(PieceType.QUEEN) - 1) +
+      Math.max(0, count(PieceType.ROOK) - 2) +
+      Math.max(0, count(PieceType.BISHOP) - 2) +
+      Math.max(0, count(PieceType.KNIGHT) - 2);
+    if (extraPieces > 8 - pawns) {
+      throw new Error(`Invalid FEN: ${color} has more promoted pieces than missing pawns`);
+    }
+  }
+
+  for (let col = 0; col < 8; col++) {
+    for (const row of [0, 7]) {
+      const piece = board[row][col];
+      if (piece && piece.type === PieceType.PAWN) {
+        throw new Error(`Invalid FEN: pawn on ${toAlgebraic({ row, col })} (first or last rank)`);
+      }
+    }
+  }
+}
+
+/**
+ * Parse the castling field and check it matches the piece placement
+ * "K"/"Q" pick the outermost rook on that side of the king; a file letter
+ * (Shredder-FEN/X-FEN) picks the rook on that file. Anything other than
+ * the king on e and rooks on a/h gives Chess960 rights.
+ */
+function parseCastling(castling: string, board: Board): CastlingRights {
+  const rights: CastlingRights = {
+    whiteKingSide: false,
+    whiteQueenSide: false,
+    blackKingSide: false,
+    blackQueenSide: false
+  };
+
+  if (castling === '-') return rights;
+
+  const rookFiles: Partial<CastlingRookFiles> = {};
+  const usesFiles = /[A-H]/i.test(castling);
+  let isChess960 = false;
+
+  for (const char of castling) {
+    if (!/^[KQA-H]$/i.test(char)) {
+      throw new Error(`Invalid FEN: unknown castling flag '${char}'`);
+    }
+
+    const color = char === char.toUpperCase() ? PieceColor.WHITE : PieceColor.BLACK;
+    const row = color === PieceColor.WHITE ? 7 : 0;
+    const isRook = (col: number): boolean => {
+      const piece = board[row][col];
+      return !!piece && piece.type === PieceType.ROOK && piece.color === color;
+    };
+
+    const kingCol = board[row].findIndex(piece =>
+      !!piece && piece.type === PieceType.KING && piece.color === color
+    );
+    if (kingCol === -1) {
+      throw new Error(`Invalid FEN: ${color} castling requires the king on rank ${8 - row}`);
+    }
+
+    const flag = char.toUpperCase();
+    let kingSide: boolean;
+    let rookCol: number;
+
+    if (flag === 'K' || flag === 'Q') {
+      kingSide = flag === 'K';
+      if (kingCol === 4 && !usesFiles) {
+        // Standard chess: the rook must be in its corner
+        rookCol = STANDARD_ROOK_FILES[kingSide ? 'kingSide' : 'queenSide'];
+        if (!isRook(rookCol)) {
+          throw new Error(`Invalid FEN: ${color} ${kingSide ? 'kingside' : 'queenside'} castling requires a rook on ${toAlgebraic({ row, col: rookCol })}`);
+        }
+      } else {
+        // Chess960 (X-FEN): the outermost rook on that side of the king
+        const cols = [0, 1, 2, 3, 4, 5, 6, 7].filter(col => kingSide ? col > kingCol : col < kingCol);
+        rookCol = (kingSide ? cols.reverse() : cols).find(isRook) ?? -1;
+        if (rookCol === -1) {
+          throw new Error(`Invalid FEN: ${color} ${kingSide ? 'kingside' : 'queenside'} castling requires a rook on that side of the king`);
+        }
+      }
+    } else {
+      rookCol = flag.charCodeAt(0) - 'A'.charCodeAt(0);
+      kingSide = rookCol > kingCol;
+      isChess960 = true;
+      if (!isRook(rookCol)) {
+        throw new Error(`Invalid FEN: castling flag '${char}' requires a rook on ${toAlgebraic({ row, col: rookCol })}`);
+      }
+    }
+
+    const key: keyof CastlingRights = color === PieceColor.WHITE
+      ? (kingSide ? 'whiteKingSide' : 'whiteQueenSide')
+      : (kingSide ? 'blackKingSide' : 'blackQueenSide');
+    if (rights[key]) {
+      throw new Error(`Invalid FEN: ${color} ${kingSide ? 'kingside' : 'queenside'} castling appears twice`);
+    }
+
+    const side = kingSide ? 'kingSide' : 'queenSide';
+    if (rookFiles[side] !== undefined && rookFiles[side] !== rookCol) {
+      throw new Error('Invalid FEN: white and black castling rooks must start on the same files');
+    }
+
+    rights[key] = true;
+    rookFiles[side] = rookCol;
+    if (kingCol !== 4 || rookCol !== STANDARD_ROOK_FILES[side]) {
+      isChess960 = true;
+    }
+  }
+
+  if (isChess960) {
+    rights.rookFiles = {
+      kingSide: rookFiles.kingSide ?? STANDARD_ROOK_FILES.kingSide,
+      queenSide: rookFiles.queenSide ?? STANDARD_ROOK_FILES.queenSide
+    };
+  }
+
+  return rights;
+}
+
+/**
+ * Parse the en passant field and check a pawn really just made a double move
+ */
+function parseEnPassant(enPassant: string, board: Board, currentPlayer: PieceColor): Position | null {
+  if (enPassant === '-') return null;
+
+  let target: Position;
+  try {
+    target = fromAlgebraic(enPassant);
+  } catch {
+    throw new Error(`Invalid FEN: bad en passant square '${enPassant}'`);
+  }
+
+  // White to move: black just pushed, so the target is on rank 6 (row 2)
+  const isWhiteToMove = currentPlayer === PieceColor.WHITE;
+  const expectedRow = isWhiteToMove ? 2 : 5;
+  if (target.row !== expectedRow) {
+    throw new Error(`Invalid FEN: en passant square ${enPassant} must be on rank ${isWhiteToMove ? 6 : 3}`);
+  }
+
+  const pushedColor = isWhiteToMove ? PieceColor.BLACK : PieceColor.WHITE;
+  const pawnRow = isWhiteToMove ? target.row + 1 : target.row - 1;
+  const originRow = isWhiteToMove ? target.row - 1 : target.row + 1;
+  const pawn = getPieceAt(board, { row: pawnRow, col: target.col });
+
+  if (!pawn || pawn.type !== PieceType.PAWN || pawn.color !== pushedColor) {
+    throw new Error(`Invalid FEN: en passant square ${enPassant} has no ${pushedColor} pawn in front of it`);
+  }
+  if (getPieceAt(board, target) || getPieceAt(board, { row: originRow, col: target.col })) {
+    throw new Error(`Invalid FEN: en passant square ${enPassant} does not follow a double pawn move`);
+  }
+
+  return target;
+}
+
+/**
+ * Parse a move counter field
+ */
+function parseCounter(value: string, name: string, minimum: number): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid FEN: ${name} must be a number, got '${value}'`);
+  }
+
+  const parsed = parseInt(value, 10);
+  if (parsed < minimum) {
+    throw new Error(`Invalid FEN: ${name} must be at least ${minimum}`);
+  }
+  return parsed;
+}
+
+/**
+ * Derive hasMoved flags (used for castling and pawn double moves)
+ * from the castling rights and pawn ranks
+ */
+function applyMovedFlags(board: Board, rights: CastlingRights): void {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece) continue;
+
+      const isWhite = piece.color === PieceColor.WHITE;
+      const homeRow = isWhite ? 7 : 0;
+      const kingSide = isWhite ? rights.whiteKingSide : rights.blackKingSide;
+      const queenSide = isWhite ? rights.whiteQueenSide : rights.blackQueenSide;
+      const rookFiles = rights.rookFiles ?? STANDARD_ROOK_FILES;
+
+      switch (piece.type) {
+        case PieceType.PAWN:
+          piece.hasMoved = row !== (isWhite ? 6 : 1);
+          break;
+        case PieceType.KING:
+          piece.hasMoved = !(kingSide || queenSide);
+          break;
+        case PieceType.ROOK:
+          piece.hasMoved = !(
+            row === homeRow &&
+            ((col === rookFiles.kingSide && kingSide) || (col === rookFiles.queenSide && queenSide))
+          );
+          break;
+        default:
+          piece.hasMoved = false;
+      }
+    }
+  }
+}
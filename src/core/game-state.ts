@@ -5,25 +5,50 @@
  * Handles move execution, game status, and state transitions.
  */
 
-import type { Board, Piece, Position, Move, GameState } from './types';
-import { PieceType, PieceColor, GameStatus } from './types';
+import type { Board, Position, Move, GameState } from './types';
+import { PieceType, PieceColor, GameStatus, DrawReason } from './types';
 import { 
   initializeBoard, 
   cloneBoard, 
   getPieceAt, 
-  setPieceAt,
   printBoard 
 } from './board';
 import { 
   getLegalMoves, 
   isLegalMove, 
   getGameStatus,
-  isPromotion,
-  isCastlingMove,
-  isEnPassantMove 
+  hasInsufficientMaterial,
+  hasMatingMaterial
 } from './move-validator';
 import { MoveHistory } from './move-history';
-import { toAlgebraic } from '../utils/coordinates';
+import { parseFEN, toFEN } from './fen';
+import { moveToSAN, sanToMove } from './san';
+import { computeZobristKey } from './zobrist';
+import { makeMoveInPlace, unmakeMove, generateLegalMoves } from './move-executor';
+import type { MoveUndo } from './move-executor';
+import { getVariant } from './variants';
+import type { ChessVariant, VariantId } from './variants';
+
+/**
+ * Half-moves without a capture or pawn move before the 50-move rule applies
+ */
+const FIFTY_MOVE_HALF_MOVES = 100;
+
+/**
+ * Half-moves without a capture or pawn move after which the game is drawn
+ * even if nobody claims it (75-move rule)
+ */
+const SEVENTY_FIVE_MOVE_HALF_MOVES = 150;
+
+/**
+ * Serializable record of a game: start position plus every move in SAN
+ */
+export interface GameSnapshot {
+  startFen: string;
+  moves: string[]; // Including undone moves that can still be redone
+  currentMove: number; // How many of the moves are played
+  variant?: VariantId; // Standard chess if missing
+}
 
 /**
  * Chess Game Manager
@@ -31,17 +56,21 @@ import { toAlgebraic } from '../utils/coordinates';
 export class ChessGame {
   private state: GameState;
   private history: MoveHistory;
+  private autoClaimThreefold: boolean = true;
+  private searchStack: Array<{ undo: MoveUndo; status: GameStatus; drawReason: DrawReason | null }> = [];
+  private variant: ChessVariant = getVariant();
 
   constructor(state?: GameState) {
     this.state = state || this.createInitialState();
     this.history = new MoveHistory();
+    this.history.setStartPositionKey(this.state.zobristKey);
   }
 
   /**
    * Create initial game state
    */
   private createInitialState(): GameState {
-    return {
+    const state: GameState = {
       board: initializeBoard(),
       currentPlayer: PieceColor.WHITE,
       status: GameStatus.PLAYING,
@@ -53,10 +82,74 @@ export class ChessGame {
       },
       enPassantTarget: null,
       halfMoveClock: 0,
-      fullMoveNumber: 1
+      fullMoveNumber: 1,
+      drawReason: null,
+      zobristKey: 0n
+    };
+    state.zobristKey = computeZobristKey(state);
+    return state;
+  }
+
+  /**
+   * Create a game from a FEN string
+   * @throws Error if the FEN is malformed or describes an illegal position
+   */
+  static fromFEN(fen: string): ChessGame {
+    const game = new ChessGame();
+    game.loadFEN(fen);
+    return game;
+  }
+
+  /**
+   * Replace the current position with one described by a FEN string
+   * (clears move history)
+   * @throws Error if the FEN is malformed or describes an illegal position
+   */
+  loadFEN(fen: string): void {
+    this.setCustomState(parseFEN(fen));
+  }
+
+  /**
+   * Export the current position as a FEN string
+   */
+  toFEN(): string {
+    return toFEN(this.state);
+  }
+
+  /**
+   * Get the FEN of the position this game started from
+   */
+  getStartFEN(): string {
+    const firstEntry = this.history.getMoveAt(0);
+    return toFEN(firstEntry ? firstEntry.stateBefore : this.state);
+  }
+
+  /**
+   * Record the game (including the redo stack) for saving
+   */
+  getSnapshot(): GameSnapshot {
+    return {
+      startFen: this.getStartFEN(),
+      moves: this.history.getFullHistory().map(entry => entry.notation),
+      currentMove: this.history.getMoveCount(),
+      variant: this.variant.id
     };
   }
 
+  /**
+   * Restore a game recorded with getSnapshot by replaying its moves
+   * @throws Error if the start position or a move is invalid
+   */
+  loadSnapshot(snapshot: GameSnapshot): void {
+    this.variant = getVariant(snapshot.variant);
+    this.loadFEN(snapshot.startFen);
+    snapshot.moves.forEach(san => this.makeSANMove(san));
+
+    for (let i = snapshot.moves.length; i > snapshot.currentMove; i--) {
+      this.undo();
+    }
+  }
+
   /**
    * Get current game state (read-only copy)
    */
@@ -78,6 +171,21 @@ export class ChessGame {
     return this.state.currentPlayer;
   }
 
+  /**
+   * Get the variant being played
+   */
+  getVariant(): ChessVariant {
+    return this.variant;
+  }
+
+  /**
+   * Choose the variant for the next game (takes effect on reset/loadFEN;
+   * the current position is kept)
+   */
+  setVariant(variant: ChessVariant): void {
+    this.variant = variant;
+  }
+
   /**
    * Get game status
    */
@@ -85,6 +193,88 @@ export class ChessGame {
     return this.state.status;
   }
 
+  /**
+   * Get the reason the game was drawn (null if it is not a draw)
+   */
+  getDrawReason(): DrawReason | null {
+    if (this.state.status === GameStatus.STALEMATE) {
+      return DrawReason.STALEMATE;
+    }
+    if (this.state.status === GameStatus.DRAW) {
+      return this.state.drawReason ?? null;
+    }
+    return null;
+  }
+
+  /**
+   * Choose whether threefold repetition and the 50-move rule end the game
+   * automatically. When disabled, these draws have to be claimed with
+   * claimDraw() and only fivefold repetition and the 75-move rule end the
+   * game on their own.
+   */
+  setAutoClaimThreefold(enabled: boolean): void {
+    this.autoClaimThreefold = enabled;
+  }
+
+  /**
+   * Check if the player to move may claim a draw by threefold repetition
+   * or the 50-move rule
+   */
+  canClaimDraw(): boolean {
+    const status = this.state.status;
+    if (status !== GameStatus.PLAYING && status !== GameStatus.CHECK) {
+      return false;
+    }
+
+    return this.isThreefoldRepetition() || this.state.halfMoveClock >= FIFTY_MOVE_HALF_MOVES;
+  }
+
+  /**
+   * Claim a draw by threefold repetition or the 50-move rule
+   * Returns true if the claim was valid and the game is now drawn
+   */
+  claimDraw(): boolean {
+    if (!this.canClaimDraw()) {
+      return false;
+    }
+
+    this.state.status = GameStatus.DRAW;
+    this.state.drawReason = this.isThreefoldRepetition()
+      ? DrawReason.THREEFOLD_REPETITION
+      : DrawReason.FIFTY_MOVE_RULE;
+    return true;
+  }
+
+  /**
+   * Check if the current position has occurred at least three times
+   */
+  private isThreefoldRepetition(): boolean {
+    return this.history.countPositionOccurrences(this.state.zobristKey) >= 3;
+  }
+
+  /**
+   * End the game because the side to move ran out of time.
+   * It is a draw instead if the opponent could not checkmate by any legal
+   * series of moves (unless the variant can be won without mating material).
+   * Returns false if the game was already over.
+   */
+  flagFall(): boolean {
+    const status = this.state.status;
+    if (status !== GameStatus.PLAYING && status !== GameStatus.CHECK) {
+      return false;
+    }
+
+    const opponent = this.state.currentPlayer === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+    if (this.variant.ignoresInsufficientMaterial || hasMatingMaterial(this.state.board, opponent)) {
+      this.state.status = GameStatus.TIMEOUT;
+      this.state.drawReason = null;
+    } else {
+      this.state.status = GameStatus.DRAW;
+      this.state.drawReason = DrawReason.TIMEOUT_VS_INSUFFICIENT_MATERIAL;
+    }
+    return true;
+  }
+
   /**
    * Get legal moves for a piece at a position
    */
@@ -99,7 +289,14 @@ export class ChessGame {
       position,
       this.state.castlingRights,
       this.state.enPassantTarget
-    );
+    ).filter(to => this.isAllowedByVariant(position, to));
+  }
+
+  /**
+   * Check the variant's extra move restrictions (if any)
+   */
+  private isAllowedByVariant(from: Position, to: Position): boolean {
+    return !this.variant.isMoveAllowed || this.variant.isMoveAllowed(this.state, from, to);
   }
 
   /**
@@ -114,7 +311,7 @@ export class ChessGame {
       to,
       this.state.castlingRights,
       this.state.enPassantTarget
-    )) {
+    ) || !this.isAllowedByVariant(from, to)) {
       return false;
     }
 
@@ -127,171 +324,162 @@ export class ChessGame {
     const stateBefore = this.cloneState();
 
     // Execute the move
-    const move = this.executeMoveInternal(from, to, promotionPiece);
+    const { move } = makeMoveInPlace(this.state, from, to, promotionPiece);
+    if (this.variant.applyMoveEffects) {
+      this.variant.applyMoveEffects(this.state, move);
+      this.state.zobristKey = computeZobristKey(this.state);
+    }
+
+    // Update game status (before saving, so undo/redo restore it too)
+    const positionKey = this.state.zobristKey;
+    this.updateGameStatus(this.history.countPositionOccurrences(positionKey) + 1);
+    this.applyVariantStatus(move);
 
     // Save state after move
     const stateAfter = this.cloneState();
 
     // Add to history
-    const notation = this.getMoveNotation(move, stateBefore);
+    const notation = moveToSAN(stateBefore, move, stateAfter);
     this.history.addMove({
       move,
       stateBefore,
       stateAfter,
-      notation
+      notation,
+      positionKey
     });
 
-    // Update game status
-    this.updateGameStatus();
-
     return true;
   }
 
   /**
-   * Execute move and update game state
+   * Make a move given in SAN (e.g. "Nf3", "exd5", "e8=Q", "O-O")
+   * @throws Error if the move cannot be read or is illegal
    */
-  private executeMoveInternal(
-    from: Position,
-    to: Position,
-    promotionPiece?: PieceType
-  ): Move {
-    const piece = getPieceAt(this.state.board, from)!;
-    const capturedPiece = getPieceAt(this.state.board, to);
-
-    // Create move record
-    const move: Move = {
-      from,
-      to,
-      piece: { ...piece },
-      capturedPiece: capturedPiece ? { ...capturedPiece } : undefined
-    };
-
-    // Handle special moves
-    const isEnPassant = isEnPassantMove(from, to, piece, this.state.enPassantTarget);
-    const isCastling = isCastlingMove(from, to, piece);
-    const isPromotionMove = isPromotion(from, to, piece);
-
-    if (isEnPassant) {
-      move.isEnPassant = true;
-      // Remove captured pawn
-      const capturedPawnRow = from.row;
-      const capturedPawnCol = to.col;
-      move.capturedPiece = { ...getPieceAt(this.state.board, { row: capturedPawnRow, col: capturedPawnCol })! };
-      setPieceAt(this.state.board, { row: capturedPawnRow, col: capturedPawnCol }, null);
-    }
-
-    if (isCastling) {
-      move.isCastling = true;
-      // Move rook
-      const rookFromCol = to.col > from.col ? 7 : 0;
-      const rookToCol = to.col > from.col ? to.col - 1 : to.col + 1;
-      const row = from.row;
-      
-      const rook = getPieceAt(this.state.board, { row, col: rookFromCol })!;
-      setPieceAt(this.state.board, { row, col: rookToCol }, { ...rook, hasMoved: true });
-      setPieceAt(this.state.board, { row, col: rookFromCol }, null);
+  makeSANMove(san: string): void {
+    const { from, to, promotion } = sanToMove(this.state, san);
+    if (!this.makeMove(from, to, promotion)) {
+      throw new Error(`Illegal move: '${san}'`);
     }
+  }
 
-    if (isPromotionMove) {
-      move.isPromotion = true;
-      move.promotionPiece = promotionPiece || PieceType.QUEEN;
-    }
+  /**
+   * Make a move for search: no validation, no history, no notation.
+   * The move must come from getAllLegalMoves/getLegalMovesFor, and every
+   * pushMove must be matched by a popMove before calling makeMove again.
+   * Variant rules are not applied (search plays standard chess).
+   */
+  pushMove(from: Position, to: Position, promotionPiece?: PieceType): void {
+    const status = this.state.status;
+    const drawReason = this.state.drawReason ?? null;
+    const undo = makeMoveInPlace(this.state, from, to, promotionPiece);
+    this.searchStack.push({ undo, status, drawReason });
 
-    // Execute basic move
-    const movedPiece = isPromotionMove && move.promotionPiece
-      ? { type: move.promotionPiece, color: piece.color, hasMoved: true }
-      : { ...piece, hasMoved: true };
+    this.updateGameStatus(this.countSearchRepetitions());
+  }
 
-    setPieceAt(this.state.board, to, movedPiece);
-    setPieceAt(this.state.board, from, null);
+  /**
+   * Take back the last move made with pushMove
+   */
+  popMove(): boolean {
+    const entry = this.searchStack.pop();
+    if (!entry) return false;
 
-    // Update castling rights
-    this.updateCastlingRights(from, piece);
+    unmakeMove(this.state, entry.undo);
+    this.state.status = entry.status;
+    this.state.drawReason = entry.drawReason;
+    return true;
+  }
 
-    // Update en passant target
-    this.updateEnPassantTarget(from, to, piece);
+  /**
+   * Count occurrences of the current position across history and pushed moves
+   */
+  private countSearchRepetitions(): number {
+    // A capture or pawn move makes earlier positions unreachable
+    if (this.state.halfMoveClock < 4) return 1;
 
-    // Update move clocks
-    if (piece.type === PieceType.PAWN || capturedPiece) {
-      this.state.halfMoveClock = 0;
-    } else {
-      this.state.halfMoveClock++;
-    }
+    const key = this.state.zobristKey;
+    let count = this.history.countPositionOccurrences(key) + 1;
 
-    if (this.state.currentPlayer === PieceColor.BLACK) {
-      this.state.fullMoveNumber++;
+    // Each pushed move (after the first) starts from a position reached during search
+    for (let i = 1; i < this.searchStack.length; i++) {
+      if (this.searchStack[i].undo.zobristKey === key) {
+        count++;
+      }
     }
 
-    // Switch players
-    this.state.currentPlayer = this.state.currentPlayer === PieceColor.WHITE
-      ? PieceColor.BLACK
-      : PieceColor.WHITE;
-
-    return move;
+    return count;
   }
 
   /**
-   * Update castling rights after a move
+   * Update game status (check, checkmate, stalemate, draws)
+   * @param repetitions - How many times the current position has occurred
    */
-  private updateCastlingRights(from: Position, piece: Piece): void {
-    // King moved
-    if (piece.type === PieceType.KING) {
-      if (piece.color === PieceColor.WHITE) {
-        this.state.castlingRights.whiteKingSide = false;
-        this.state.castlingRights.whiteQueenSide = false;
-      } else {
-        this.state.castlingRights.blackKingSide = false;
-        this.state.castlingRights.blackQueenSide = false;
-      }
+  private updateGameStatus(repetitions: number = 1): void {
+    this.state.status = getGameStatus(
+      this.state.board,
+      this.state.currentPlayer,
+      this.state.castlingRights,
+      this.state.enPassantTarget
+    );
+    this.state.drawReason = null;
+
+    // Checkmate and stalemate take precedence over draw rules
+    if (this.state.status === GameStatus.CHECKMATE || this.state.status === GameStatus.STALEMATE) {
+      return;
     }
 
-    // Rook moved
-    if (piece.type === PieceType.ROOK) {
-      if (piece.color === PieceColor.WHITE) {
-        if (from.row === 7 && from.col === 7) {
-          this.state.castlingRights.whiteKingSide = false;
-        } else if (from.row === 7 && from.col === 0) {
-          this.state.castlingRights.whiteQueenSide = false;
-        }
-      } else {
-        if (from.row === 0 && from.col === 7) {
-          this.state.castlingRights.blackKingSide = false;
-        } else if (from.row === 0 && from.col === 0) {
-          this.state.castlingRights.blackQueenSide = false;
-        }
-      }
+    const drawReason = this.detectDrawReason(repetitions);
+    if (drawReason) {
+      this.state.status = GameStatus.DRAW;
+      this.state.drawReason = drawReason;
     }
   }
 
   /**
-   * Update en passant target after a pawn move
+   * Apply the variant's win condition and move restrictions to the status
    */
-  private updateEnPassantTarget(from: Position, to: Position, piece: Piece): void {
-    // Clear previous en passant target
-    this.state.enPassantTarget = null;
+  private applyVariantStatus(move: Move): void {
+    const variant = this.variant;
+
+    if (variant.hasWon && variant.hasWon(this.state, move, this.history.getAllMoves())) {
+      this.state.status = GameStatus.VARIANT_WIN;
+      this.state.drawReason = null;
+      return;
+    }
 
-    // Set new target if pawn moved two squares
-    if (piece.type === PieceType.PAWN && Math.abs(to.row - from.row) === 2) {
-      const targetRow = (from.row + to.row) / 2;
-      this.state.enPassantTarget = { row: targetRow, col: from.col };
+    // Every standard move may be forbidden by the variant
+    const status = this.state.status;
+    if (variant.isMoveAllowed && (status === GameStatus.PLAYING || status === GameStatus.CHECK) &&
+        this.getAllLegalMoves(this.state.currentPlayer).length === 0) {
+      this.state.status = status === GameStatus.CHECK ? GameStatus.CHECKMATE : GameStatus.STALEMATE;
     }
   }
 
   /**
-   * Update game status (check, checkmate, stalemate)
+   * Detect draws by rule (repetition, insufficient material, 50- and 75-move rules)
    */
-  private updateGameStatus(): void {
-    this.state.status = getGameStatus(
-      this.state.board,
-      this.state.currentPlayer,
-      this.state.castlingRights,
-      this.state.enPassantTarget
-    );
+  private detectDrawReason(repetitions: number): DrawReason | null {
+    if (repetitions >= 5) {
+      return DrawReason.FIVEFOLD_REPETITION;
+    }
 
-    // Check for draw by 50-move rule
-    if (this.state.halfMoveClock >= 100) { // 50 moves = 100 half-moves
-      this.state.status = GameStatus.DRAW;
+    if (this.state.halfMoveClock >= SEVENTY_FIVE_MOVE_HALF_MOVES) {
+      return DrawReason.SEVENTY_FIVE_MOVE_RULE;
+    }
+
+    if (repetitions >= 3 && this.autoClaimThreefold) {
+      return DrawReason.THREEFOLD_REPETITION;
+    }
+
+    if (!this.variant.ignoresInsufficientMaterial && hasInsufficientMaterial(this.state.board)) {
+      return DrawReason.INSUFFICIENT_MATERIAL;
     }
+
+    if (this.state.halfMoveClock >= FIFTY_MOVE_HALF_MOVES && this.autoClaimThreefold) {
+      return DrawReason.FIFTY_MOVE_RULE;
+    }
+
+    return null;
   }
 
   /**
@@ -301,7 +489,8 @@ export class ChessGame {
     const previousState = this.history.undo();
     if (!previousState) return false;
 
-    this.state = previousState;
+    // Copy, since moves are made in place and history snapshots must stay intact
+    this.state = this.cloneState(previousState);
     return true;
   }
 
@@ -312,7 +501,7 @@ export class ChessGame {
     const nextState = this.history.redo();
     if (!nextState) return false;
 
-    this.state = nextState;
+    this.state = this.cloneState(nextState);
     return true;
   }
 
@@ -342,54 +531,9 @@ export class ChessGame {
    * Used by AI to explore possible moves
    */
   getAllLegalMoves(color: PieceColor): Move[] {
-    const moves: Move[] = [];
-
-    // Iterate through all squares to find pieces
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = getPieceAt(this.state.board, { row, col });
-        
-        // Skip if square is empty or piece is not the right color
-        if (!piece || piece.color !== color) {
-          continue;
-        }
-
-        const from: Position = { row, col };
-        const legalPositions = getLegalMoves(
-          this.state.board,
-          from,
-          this.state.castlingRights,
-          this.state.enPassantTarget
-        );
-
-        // Convert positions to moves
-        for (const to of legalPositions) {
-          const capturedPiece = getPieceAt(this.state.board, to);
-          
-          const move: Move = {
-            from,
-            to,
-            piece: { ...piece },
-            capturedPiece: capturedPiece ? { ...capturedPiece } : undefined,
-            isEnPassant: isEnPassantMove(from, to, piece, this.state.enPassantTarget),
-            isCastling: isCastlingMove(from, to, piece),
-            isPromotion: isPromotion(from, to, piece)
-          };
-
-          // If promotion, we need to consider all promotion pieces
-          if (move.isPromotion) {
-            // For AI purposes, just use Queen promotion
-            // (can be expanded to consider all promotion options)
-            move.promotionPiece = PieceType.QUEEN;
-            moves.push(move);
-          } else {
-            moves.push(move);
-          }
-        }
-      }
-    }
-
-    return moves;
+    // For AI purposes, promotions only consider the queen
+    return generateLegalMoves(this.state, color, false)
+      .filter(move => this.isAllowedByVariant(move.from, move.to));
   }
 
   /**
@@ -398,15 +542,24 @@ export class ChessGame {
    */
   clone(): ChessGame {
     const clonedState = this.cloneState();
-    return new ChessGame(clonedState);
+    const game = new ChessGame(clonedState);
+    game.variant = this.variant;
+    return game;
   }
 
   /**
-   * Reset game to initial state
+   * Reset game to the variant's initial state
    */
   reset(): void {
+    if (this.variant.getStartFEN) {
+      this.loadFEN(this.variant.getStartFEN());
+      return;
+    }
+
     this.state = this.createInitialState();
+    this.searchStack = [];
     this.history.clear();
+    this.history.setStartPositionKey(this.state.zobristKey);
   }
 
   /**
@@ -432,74 +585,36 @@ export class ChessGame {
       },
       enPassantTarget: params.enPassantTarget || null,
       halfMoveClock: params.halfMoveClock ?? 0,
-      fullMoveNumber: params.fullMoveNumber ?? 1
+      fullMoveNumber: params.fullMoveNumber ?? 1,
+      drawReason: null,
+      zobristKey: 0n
     };
+    this.state.zobristKey = computeZobristKey(this.state);
+    this.searchStack = [];
     this.history.clear();
+    this.history.setStartPositionKey(this.state.zobristKey);
     this.updateGameStatus();
   }
 
   /**
-   * Clone current state
+   * Clone a state (the current one by default)
    */
-  private cloneState(): GameState {
+  private cloneState(state: GameState = this.state): GameState {
     return {
-      board: cloneBoard(this.state.board),
-      currentPlayer: this.state.currentPlayer,
-      status: this.state.status,
-      castlingRights: { ...this.state.castlingRights },
-      enPassantTarget: this.state.enPassantTarget 
-        ? { ...this.state.enPassantTarget } 
+      board: cloneBoard(state.board),
+      currentPlayer: state.currentPlayer,
+      status: state.status,
+      castlingRights: { ...state.castlingRights },
+      enPassantTarget: state.enPassantTarget 
+        ? { ...state.enPassantTarget } 
         : null,
-      halfMoveClock: this.state.halfMoveClock,
-      fullMoveNumber: this.state.fullMoveNumber
+      halfMoveClock: state.halfMoveClock,
+      fullMoveNumber: state.fullMoveNumber,
+      drawReason: state.drawReason ?? null,
+      zobristKey: state.zobristKey
     };
   }
 
-  /**
-   * Get algebraic notation for a move
-   */
-  private getMoveNotation(move: Move, _stateBefore: GameState): string {
-    const { from, to, piece } = move;
-
-    // Castling
-    if (move.isCastling) {
-      return to.col > from.col ? 'O-O' : 'O-O-O';
-    }
-
-    let notation = '';
-
-    // Piece prefix (pawns don't get a letter)
-    if (piece.type !== PieceType.PAWN) {
-      notation += piece.type.charAt(0).toUpperCase();
-    }
-
-    // Capture (pawns include starting file)
-    if (move.capturedPiece || move.isEnPassant) {
-      if (piece.type === PieceType.PAWN) {
-        notation += toAlgebraic(from).charAt(0); // File letter
-      }
-      notation += 'x';
-    }
-
-    // Destination square
-    notation += toAlgebraic(to);
-
-    // Promotion
-    if (move.isPromotion && move.promotionPiece) {
-      notation += '=' + move.promotionPiece.charAt(0).toUpperCase();
-    }
-
-    // Check/Checkmate (will be added after updating state)
-    // This is a simplified version - proper notation requires checking the new state
-    if (this.state.status === GameStatus.CHECKMATE) {
-      notation += '#';
-    } else if (this.state.status === GameStatus.CHECK) {
-      notation += '+';
-    }
-
-    return notation;
-  }
-
   /**
    * Print board to console (for debugging)
    */
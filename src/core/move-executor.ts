@@ -0,0 +1,276 @@
+/**
+ * Move Executor Module
+ *
+ * Incremental make/unmake of moves directly on a GameState:
+ * - No board copies: the state is mutated and restored from a small undo record
+ * - The Zobrist key is updated alongside the board
+ * - Game status is NOT recomputed (callers decide when they need it)
+ *
+ * ChessGame uses this for its own moves; search code (AI, perft) can use
+ * makeMoveInPlace/unmakeMove directly.
+ */
+
+import type { Piece, Position, Move, CastlingRights, EnPassantTarget, GameState } from './types';
+import { PieceType, PieceColor } from './types';
+import {
+  getLegalMoves,
+  isPromotion,
+  isCastlingMove,
+  isEnPassantMove,
+  STANDARD_ROOK_FILES
+} from './move-validator';
+import { getPieceKey, getCastlingKey, getEnPassantKey, SIDE_TO_MOVE_KEY } from './zobrist';
+
+/**
+ * Everything needed to take a move back
+ */
+export interface MoveUndo {
+  move: Move;
+  movedPiece: Piece;
+  capturedPiece: Piece | null;
+  capturedAt: Position;
+  placedAt: Position; // Where the piece landed (not the target square for Chess960 castling)
+  rook: { from: Position; to: Position; piece: Piece } | null;
+  castlingRights: CastlingRights;
+  enPassantTarget: EnPassantTarget;
+  halfMoveClock: number;
+  fullMoveNumber: number;
+  zobristKey: bigint;
+}
+
+const PROMOTION_PIECES: PieceType[] = [
+  PieceType.QUEEN,
+  PieceType.ROOK,
+  PieceType.BISHOP,
+  PieceType.KNIGHT
+];
+
+/**
+ * Play a move on the state in place (the move is assumed to be legal)
+ * @returns Undo record for unmakeMove
+ */
+export function makeMoveInPlace(
+  state: GameState,
+  from: Position,
+  to: Position,
+  promotionPiece?: PieceType
+): MoveUndo {
+  const board = state.board;
+  const piece = board[from.row][from.col];
+  if (!piece) {
+    throw new Error('No piece on the starting square');
+  }
+
+  const isCastling = isCastlingMove(from, to, piece, board);
+
+  const undo: MoveUndo = {
+    move: { from, to, piece: { ...piece } },
+    movedPiece: piece,
+    capturedPiece: isCastling ? null : board[to.row][to.col],
+    capturedAt: to,
+    placedAt: to,
+    rook: null,
+    castlingRights: state.castlingRights,
+    enPassantTarget: state.enPassantTarget,
+    halfMoveClock: state.halfMoveClock,
+    fullMoveNumber: state.fullMoveNumber,
+    zobristKey: state.zobristKey
+  };
+  const move = undo.move;
+
+  // Take out the parts of the key that are about to change
+  let key = state.zobristKey;
+  key ^= getCastlingKey(state.castlingRights);
+  key ^= getEnPassantKey(board, state.enPassantTarget, state.currentPlayer);
+
+  // En passant: the captured pawn is beside the moving pawn, not on the target square
+  if (isEnPassantMove(from, to, piece, state.enPassantTarget)) {
+    move.isEnPassant = true;
+    undo.capturedAt = { row: from.row, col: to.col };
+    undo.capturedPiece = board[from.row][to.col];
+  }
+
+  const captured = undo.capturedPiece;
+  if (captured) {
+    move.capturedPiece = { ...captured };
+    key ^= getPieceKey(captured, undo.capturedAt);
+    board[undo.capturedAt.row][undo.capturedAt.col] = null;
+  }
+
+  // Castling: lift the rook too. A Chess960 castling move targets the rook's
+  // square, and the king and rook may land on each other's starting squares.
+  if (isCastling) {
+    move.isCastling = true;
+    const rookFrom: Position = board[to.row][to.col]
+      ? to
+      : { row: from.row, col: to.col > from.col ? 7 : 0 };
+    const kingSide = rookFrom.col > from.col;
+    const rook = board[rookFrom.row][rookFrom.col]!;
+
+    undo.placedAt = { row: from.row, col: kingSide ? 6 : 2 };
+    undo.rook = { from: rookFrom, to: { row: from.row, col: kingSide ? 5 : 3 }, piece: rook };
+    board[rookFrom.row][rookFrom.col] = null;
+  }
+
+  // Move the piece (replacing pawns that promote)
+  let placed: Piece = { ...piece, hasMoved: true };
+  if (isPromotion(from, to, piece)) {
+    move.isPromotion = true;
+    move.promotionPiece = promotionPiece || PieceType.QUEEN;
+    placed = { type: move.promotionPiece, color: piece.color, hasMoved: true };
+  }
+
+  const placedAt = undo.placedAt;
+  board[from.row][from.col] = null;
+  board[placedAt.row][placedAt.col] = placed;
+  key ^= getPieceKey(piece, from) ^ getPieceKey(placed, placedAt);
+
+  if (undo.rook) {
+    const { from: rookFrom, to: rookTo, piece: rook } = undo.rook;
+    const movedRook: Piece = { ...rook, hasMoved: true };
+    board[rookTo.row][rookTo.col] = movedRook;
+    key ^= getPieceKey(rook, rookFrom) ^ getPieceKey(movedRook, rookTo);
+  }
+
+  state.castlingRights = getCastlingRightsAfterMove(state.castlingRights, from, to, piece);
+
+  state.enPassantTarget = piece.type === PieceType.PAWN && Math.abs(to.row - from.row) === 2
+    ? { row: (from.row + to.row) / 2, col: from.col }
+    : null;
+
+  state.halfMoveClock = piece.type === PieceType.PAWN || captured ? 0 : state.halfMoveClock + 1;
+  if (state.currentPlayer === PieceColor.BLACK) {
+    state.fullMoveNumber++;
+  }
+
+  state.currentPlayer = state.currentPlayer === PieceColor.WHITE
+    ? PieceColor.BLACK
+    : PieceColor.WHITE;
+
+  // Add back the new castling/en passant parts and flip the side to move
+  key ^= getCastlingKey(state.castlingRights);
+  key ^= getEnPassantKey(board, state.enPassantTarget, state.currentPlayer);
+  key ^= SIDE_TO_MOVE_KEY;
+  state.zobristKey = key;
+
+  return undo;
+}
+
+/**
+ * Take back a move made with makeMoveInPlace
+ */
+export function unmakeMove(state: GameState, undo: MoveUndo): void {
+  const board = state.board;
+  const { from } = undo.move;
+
+  // Clear the landing squares before restoring anything: after Chess960
+  // castling they can overlap the starting squares
+  board[undo.placedAt.row][undo.placedAt.col] = null;
+  if (undo.rook) {
+    board[undo.rook.to.row][undo.rook.to.col] = null;
+  }
+
+  board[from.row][from.col] = undo.movedPiece;
+
+  if (undo.capturedPiece) {
+    board[undo.capturedAt.row][undo.capturedAt.col] = undo.capturedPiece;
+  }
+
+  if (undo.rook) {
+    board[undo.rook.from.row][undo.rook.from.col] = undo.rook.piece;
+  }
+
+  state.castlingRights = undo.castlingRights;
+  state.enPassantTarget = undo.enPassantTarget;
+  state.halfMoveClock = undo.halfMoveClock;
+  state.fullMoveNumber = undo.fullMoveNumber;
+  state.zobristKey = undo.zobristKey;
+  state.currentPlayer = undo.movedPiece.color;
+}
+
+/**
+ * Work out castling rights after a move
+ * Rights are lost when the king moves, or when a rook leaves or is captured on
+ * its starting square (a corner, or the Chess960 rook files).
+ */
+function getCastlingRightsAfterMove(
+  rights: CastlingRights,
+  from: Position,
+  to: Position,
+  piece: Piece
+): CastlingRights {
+  const updated = { ...rights };
+  const { kingSide, queenSide } = rights.rookFiles ?? STANDARD_ROOK_FILES;
+
+  if (piece.type === PieceType.KING) {
+    if (piece.color === PieceColor.WHITE) {
+      updated.whiteKingSide = false;
+      updated.whiteQueenSide = false;
+    } else {
+      updated.blackKingSide = false;
+      updated.blackQueenSide = false;
+    }
+  }
+
+  for (const square of [from, to]) {
+    if (square.row === 7 && square.col === kingSide) updated.whiteKingSide = false;
+    if (square.row === 7 && square.col === queenSide) updated.whiteQueenSide = false;
+    if (square.row === 0 && square.col === kingSide) updated.blackKingSide = false;
+    if (square.row === 0 && square.col === queenSide) updated.blackQueenSide = false;
+  }
+
+  return updated;
+}
+
+/**
+ * Generate all legal moves for a color
+ * @param includeUnderPromotions - Also list rook/bishop/knight promotions
+ *   (needed for perft; the AI only considers queening)
+ */
+export function generateLegalMoves(
+  state: Readonly<GameState>,
+  color: PieceColor = state.currentPlayer,
+  includeUnderPromotions: boolean = true
+): Move[] {
+  const moves: Move[] = [];
+  const board = state.board;
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.color !== color) continue;
+
+      const from: Position = { row, col };
+      const targets = getLegalMoves(board, from, state.castlingRights, state.enPassantTarget);
+
+      for (const to of targets) {
+        const isEnPassant = isEnPassantMove(from, to, piece, state.enPassantTarget);
+        const isCastling = isCastlingMove(from, to, piece, board);
+        const capturedPiece = isEnPassant
+          ? board[from.row][to.col]
+          : isCastling ? null : board[to.row][to.col];
+
+        const move: Move = {
+          from,
+          to,
+          piece: { ...piece },
+          capturedPiece: capturedPiece ? { ...capturedPiece } : undefined,
+          isEnPassant,
+          isCastling,
+          isPromotion: isPromotion(from, to, piece)
+        };
+
+        if (move.isPromotion) {
+          const choices = includeUnderPromotions ? PROMOTION_PIECES : [PieceType.QUEEN];
+          for (const promotionPiece of choices) {
+            moves.push({ ...move, promotionPiece });
+          }
+        } else {
+          moves.push(move);
+        }
+      }
+    }
+  }
+
+  return moves;
+}
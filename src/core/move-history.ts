@@ -5,6 +5,8 @@
  */
 
 import type { Move, GameState } from './types';
+import { PieceColor } from './types';
+import { formatMoveText } from './pgn';
 
 /**
  * History entry containing move and full game state
@@ -14,6 +16,7 @@ export interface HistoryEntry {
   stateBefore: GameState;
   stateAfter: GameState;
   notation: string; // Algebraic notation (e.g., "e4", "Nf3", "O-O")
+  positionKey: bigint; // Zobrist key of the position after the move (for repetition detection)
 }
 
 /**
@@ -22,6 +25,30 @@ export interface HistoryEntry {
 export class MoveHistory {
   private history: HistoryEntry[] = [];
   private currentIndex: number = -1;
+  private startPositionKey: bigint | null = null;
+
+  /**
+   * Set the key of the position before the first move
+   * (the starting position counts towards repetitions too)
+   */
+  setStartPositionKey(positionKey: bigint): void {
+    this.startPositionKey = positionKey;
+  }
+
+  /**
+   * Count how many times a position has occurred up to the current move
+   */
+  countPositionOccurrences(positionKey: bigint): number {
+    let count = this.startPositionKey === positionKey ? 1 : 0;
+
+    for (const entry of this.getAllMoves()) {
+      if (entry.positionKey === positionKey) {
+        count++;
+      }
+    }
+
+    return count;
+  }
 
   /**
    * Add a move to history
@@ -86,6 +113,13 @@ export class MoveHistory {
     return this.history.slice(0, this.currentIndex + 1);
   }
 
+  /**
+   * Get every move, including undone moves that can still be redone
+   */
+  getFullHistory(): HistoryEntry[] {
+    return [...this.history];
+  }
+
   /**
    * Get move count
    */
@@ -106,26 +140,22 @@ export class MoveHistory {
   clear(): void {
     this.history = [];
     this.currentIndex = -1;
+    this.startPositionKey = null;
   }
 
   /**
-   * Get moves in PGN format
+   * Get moves as PGN move text (use exportPGN for a full PGN document)
    */
   toPGN(): string {
     const moves = this.getAllMoves();
-    let pgn = '';
-    
-    for (let i = 0; i < moves.length; i++) {
-      if (i % 2 === 0) {
-        // White's move
-        pgn += `${Math.floor(i / 2) + 1}. ${moves[i].notation} `;
-      } else {
-        // Black's move
-        pgn += `${moves[i].notation} `;
-      }
-    }
-    
-    return pgn.trim();
+    if (moves.length === 0) return '';
+
+    const start = moves[0].stateBefore;
+    return formatMoveText(
+      moves.map(entry => entry.notation),
+      start.fullMoveNumber,
+      start.currentPlayer === PieceColor.BLACK
+    );
   }
 
   /**
@@ -8,12 +8,17 @@
  * - Legal move filtering
  */
 
-import type { Board, Piece, Position, CastlingRights, EnPassantTarget } from './types';
+import type { Board, Piece, Position, CastlingRights, CastlingRookFiles, EnPassantTarget } from './types';
 import { PieceType, PieceColor, GameStatus } from './types';
-import { getPieceAt, setPieceAt, cloneBoard, findKing, findPieces } from './board';
-import { getPseudoLegalMoves, canAttackSquare } from './pieces';
+import { getPieceAt, findKing, findPieces } from './board';
+import { getPseudoLegalMoves, isSquareAttackedBy } from './pieces';
 import { positionsEqual } from '../utils/coordinates';
 
+/**
+ * Castling rook files in standard chess (h-file and a-file)
+ */
+export const STANDARD_ROOK_FILES: CastlingRookFiles = { kingSide: 7, queenSide: 0 };
+
 /**
  * Get all legal moves for a piece at a position
  * (filters out moves that would leave king in check)
@@ -27,24 +32,26 @@ export function getLegalMoves(
   const piece = getPieceAt(board, from);
   if (!piece) return [];
 
-  let moves = getPseudoLegalMoves(board, from, piece);
+  const moves = getPseudoLegalMoves(board, from, piece);
+
+  // Filter out moves that would leave king in check
+  const legalMoves = moves.filter((to) => {
+    return !wouldBeInCheckAfterMove(board, from, to, piece.color);
+  });
 
-  // Add castling moves
+  // Add castling moves (canCastle already checks every square the king
+  // crosses; a Chess960 castling move targets the king's own rook)
   if (piece.type === PieceType.KING) {
-    const castlingMoves = getCastlingMoves(board, from, piece, castlingRights);
-    moves = [...moves, ...castlingMoves];
+    legalMoves.push(...getCastlingMoves(board, from, piece, castlingRights));
   }
 
-  // Add en passant moves
+  // Add en passant moves (already checked for king safety with the
+  // captured pawn removed, so they must skip the filter above)
   if (piece.type === PieceType.PAWN && enPassantTarget) {
-    const enPassantMoves = getEnPassantMoves(board, from, piece, enPassantTarget);
-    moves = [...moves, ...enPassantMoves];
+    legalMoves.push(...getEnPassantMoves(board, from, piece, enPassantTarget));
   }
 
-  // Filter out moves that would leave king in check
-  return moves.filter((to) => {
-    return !wouldBeInCheckAfterMove(board, from, to, piece.color);
-  });
+  return legalMoves;
 }
 
 /**
@@ -55,12 +62,7 @@ export function isInCheck(board: Board, color: PieceColor): boolean {
   if (!kingPos) return false; // Should never happen in valid game
 
   const opponentColor = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
-  const opponentPieces = findPieces(board, (piece) => piece.color === opponentColor);
-
-  // Check if any opponent piece can attack the king
-  return opponentPieces.some(({ position }) => 
-    canAttackSquare(board, position, kingPos)
-  );
+  return isSquareAttackedBy(board, kingPos, opponentColor);
 }
 
 /**
@@ -72,46 +74,58 @@ function wouldBeInCheckAfterMove(
   to: Position,
   color: PieceColor
 ): boolean {
-  // Simulate the move
-  const boardCopy = cloneBoard(board);
-  const piece = getPieceAt(boardCopy, from);
+  const piece = board[from.row][from.col];
   if (!piece) return true;
+  if (positionsEqual(from, to)) return isInCheck(board, color);
+
+  // Play the move on the board itself and take it back afterwards
+  const captured = board[to.row][to.col];
+  board[to.row][to.col] = piece;
+  board[from.row][from.col] = null;
 
-  setPieceAt(boardCopy, to, piece);
-  setPieceAt(boardCopy, from, null);
+  const inCheck = isInCheck(board, color);
+
+  board[from.row][from.col] = piece;
+  board[to.row][to.col] = captured;
 
-  return isInCheck(boardCopy, color);
+  return inCheck;
 }
 
 /**
  * Get castling moves for the king
+ * Standard chess: the king's target square (g/c file).
+ * Chess960: the castling rook's square, since the king may not move at all.
  */
 function getCastlingMoves(
   board: Board,
-  _kingPos: Position,
+  kingPos: Position,
   king: Piece,
   castlingRights: CastlingRights
 ): Position[] {
   const moves: Position[] = [];
+  const row = king.color === PieceColor.WHITE ? 7 : 0;
+  const rookFiles = castlingRights.rookFiles ?? STANDARD_ROOK_FILES;
+  const isChess960 = !!castlingRights.rookFiles;
 
-  // Can't castle if king has moved or is in check
-  if (king.hasMoved || isInCheck(board, king.color)) {
+  // Can't castle if king has moved, is off its starting square or is in check
+  if (king.hasMoved || kingPos.row !== row || (!isChess960 && kingPos.col !== 4)) {
+    return moves;
+  }
+  if (isInCheck(board, king.color)) {
     return moves;
   }
-
-  const row = king.color === PieceColor.WHITE ? 7 : 0;
 
   // King-side castling (O-O)
   if (king.color === PieceColor.WHITE ? castlingRights.whiteKingSide : castlingRights.blackKingSide) {
-    if (canCastle(board, king.color, row, 'kingside')) {
-      moves.push({ row, col: 6 }); // g1 or g8
+    if (canCastle(board, king.color, row, kingPos.col, rookFiles.kingSide, 'kingside')) {
+      moves.push({ row, col: isChess960 ? rookFiles.kingSide : 6 }); // g1 or g8
     }
   }
 
   // Queen-side castling (O-O-O)
   if (king.color === PieceColor.WHITE ? castlingRights.whiteQueenSide : castlingRights.blackQueenSide) {
-    if (canCastle(board, king.color, row, 'queenside')) {
-      moves.push({ row, col: 2 }); // c1 or c8
+    if (canCastle(board, king.color, row, kingPos.col, rookFiles.queenSide, 'queenside')) {
+      moves.push({ row, col: isChess960 ? rookFiles.queenSide : 2 }); // c1 or c8
     }
   }
 
@@ -120,45 +134,58 @@ function getCastlingMoves(
 
 /**
  * Check if castling is possible on a specific side
+ * Wherever they start, the king ends on the g/c file and the rook on the f/d file.
  */
 function canCastle(
   board: Board,
   color: PieceColor,
   row: number,
+  kingCol: number,
+  rookCol: number,
   side: 'kingside' | 'queenside'
 ): boolean {
-  const kingCol = 4;
-  const rookCol = side === 'kingside' ? 7 : 0;
-  
   // Check rook is there and hasn't moved
   const rook = getPieceAt(board, { row, col: rookCol });
-  if (!rook || rook.type !== PieceType.ROOK || rook.hasMoved) {
+  if (!rook || rook.type !== PieceType.ROOK || rook.color !== color || rook.hasMoved) {
     return false;
   }
 
-  // Check squares between king and rook are empty
-  const start = side === 'kingside' ? kingCol + 1 : rookCol + 1;
-  const end = side === 'kingside' ? rookCol : kingCol;
-  
-  for (let col = start; col < end; col++) {
-    if (getPieceAt(board, { row, col })) {
+  const kingDestCol = side === 'kingside' ? 6 : 2;
+  const rookDestCol = side === 'kingside' ? 5 : 3;
+
+  // Check every square the king and rook cross or land on is empty
+  // (apart from the king and rook themselves)
+  const start = Math.min(kingCol, rookCol, kingDestCol, rookDestCol);
+  const end = Math.max(kingCol, rookCol, kingDestCol, rookDestCol);
+
+  for (let col = start; col <= end; col++) {
+    if (col !== kingCol && col !== rookCol && getPieceAt(board, { row, col })) {
       return false;
     }
   }
 
-  // Check that king doesn't pass through or land in check
-  const kingDestCol = side === 'kingside' ? 6 : 2;
-  const squaresToCheck = side === 'kingside' 
-    ? [kingCol, kingCol + 1, kingDestCol]
-    : [kingDestCol, kingCol - 1, kingCol];
+  // Check that king doesn't pass through or land in check. Both pieces are
+  // lifted off first: in Chess960 the rook may be shielding the king's path.
+  const king = board[row][kingCol];
+  const opponentColor = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+  const step = kingDestCol > kingCol ? 1 : -1;
+  let safe = true;
 
-  for (const col of squaresToCheck) {
-    if (wouldBeInCheckAfterMove(board, { row, col: kingCol }, { row, col }, color)) {
-      return false;
+  board[row][kingCol] = null;
+  board[row][rookCol] = null;
+
+  for (let col = kingCol; ; col += step) {
+    if (isSquareAttackedBy(board, { row, col }, opponentColor)) {
+      safe = false;
+      break;
     }
+    if (col === kingDestCol) break;
   }
 
-  return true;
+  board[row][rookCol] = rook;
+  board[row][kingCol] = king;
+
+  return safe;
 }
 
 /**
@@ -200,19 +227,23 @@ function wouldBeInCheckAfterEnPassant(
   to: Position,
   color: PieceColor
 ): boolean {
-  const boardCopy = cloneBoard(board);
-  const pawn = getPieceAt(boardCopy, from);
+  const pawn = board[from.row][from.col];
   if (!pawn) return true;
 
-  // Move pawn to en passant target
-  setPieceAt(boardCopy, to, pawn);
-  setPieceAt(boardCopy, from, null);
+  // Captured pawn is on the same row as from, same col as to
+  const capturedPawn = board[from.row][to.col];
 
-  // Remove captured pawn (on same row as from, same col as to)
-  const capturedPawnPos: Position = { row: from.row, col: to.col };
-  setPieceAt(boardCopy, capturedPawnPos, null);
+  board[to.row][to.col] = pawn;
+  board[from.row][from.col] = null;
+  board[from.row][to.col] = null;
+
+  const inCheck = isInCheck(board, color);
 
-  return isInCheck(boardCopy, color);
+  board[from.row][to.col] = capturedPawn;
+  board[from.row][from.col] = pawn;
+  board[to.row][to.col] = null;
+
+  return inCheck;
 }
 
 /**
@@ -240,11 +271,7 @@ export function isSquareAttacked(
   position: Position,
   attackerColor: PieceColor
 ): boolean {
-  const attackers = findPieces(board, (piece) => piece.color === attackerColor);
-  
-  return attackers.some(({ position: attackerPos }) =>
-    canAttackSquare(board, attackerPos, position)
-  );
+  return isSquareAttackedBy(board, position, attackerColor);
 }
 
 /**
@@ -266,6 +293,66 @@ export function getGameStatus(
   return inCheck ? GameStatus.CHECK : GameStatus.PLAYING;
 }
 
+/**
+ * Check if neither side has enough material to deliver checkmate
+ * (K vs K, K+B vs K, K+N vs K, or only bishops all on the same square colour)
+ */
+export function hasInsufficientMaterial(board: Board): boolean {
+  const pieces = findPieces(board, (piece) => piece.type !== PieceType.KING);
+
+  if (pieces.length === 0) return true;
+
+  // Any pawn, rook or queen can still force mate
+  if (pieces.some(({ piece }) =>
+    piece.type !== PieceType.KNIGHT && piece.type !== PieceType.BISHOP
+  )) {
+    return false;
+  }
+
+  // A single minor piece cannot mate on its own
+  if (pieces.length === 1) return true;
+
+  // Several bishops (either side) are harmless only if they share a square colour
+  if (pieces.every(({ piece }) => piece.type === PieceType.BISHOP)) {
+    const squareColor = (pos: Position) => (pos.row + pos.col) % 2;
+    const first = squareColor(pieces[0].position);
+    return pieces.every(({ position }) => squareColor(position) === first);
+  }
+
+  return false;
+}
+
+/**
+ * Check if a color could still checkmate by some legal series of moves
+ * (FIDE 6.9, used for timeout results). Only dead positions count as no:
+ * a bare king, a lone bishop or knight against a bare king, or nothing
+ * but bishops all on the same square colour.
+ */
+export function hasMatingMaterial(board: Board, color: PieceColor): boolean {
+  const pieces = findPieces(board, (piece) => piece.type !== PieceType.KING);
+  const own = pieces.filter(({ piece }) => piece.color === color);
+
+  if (own.length === 0) return false;
+
+  if (own.some(({ piece }) =>
+    piece.type !== PieceType.KNIGHT && piece.type !== PieceType.BISHOP
+  )) {
+    return true;
+  }
+
+  // A lone minor piece can only mate with help from the opponent's pieces
+  if (own.length === 1 && pieces.length === 1) return false;
+
+  // Same-coloured bishops can never attack the squares a king escapes to
+  if (pieces.every(({ piece }) => piece.type === PieceType.BISHOP)) {
+    const squareColor = (pos: Position) => (pos.row + pos.col) % 2;
+    const first = squareColor(pieces[0].position);
+    return !pieces.every(({ position }) => squareColor(position) === first);
+  }
+
+  return true;
+}
+
 /**
  * Check if a color has any legal moves
  */
@@ -299,11 +386,18 @@ export function isPromotion(_from: Position, to: Position, piece: Piece): boolea
 
 /**
  * Check if a move is castling
+ * @param board - Position before the move, needed to recognise Chess960
+ *   castling (the king moving onto its own rook)
  */
-export function isCastlingMove(from: Position, to: Position, piece: Piece): boolean {
+export function isCastlingMove(from: Position, to: Position, piece: Piece, board?: Board): boolean {
   if (piece.type !== PieceType.KING) return false;
-  
-  // Castling moves the king 2 squares horizontally
+
+  const target = board ? board[to.row][to.col] : null;
+  if (target && target.type === PieceType.ROOK && target.color === piece.color) {
+    return true;
+  }
+
+  // Standard castling moves the king 2 squares horizontally
   return Math.abs(to.col - from.col) === 2;
 }
 
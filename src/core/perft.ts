@@ -0,0 +1,117 @@
+/**
+ * Perft Module
+ *
+ * Counts leaf nodes of the legal move tree to a fixed depth.
+ * Used to verify move generation against known node counts and to
+ * benchmark the make/unmake path.
+ */
+
+import type { GameState } from './types';
+import { GameStatus } from './types';
+import { ChessGame } from './game-state';
+import { parseFEN } from './fen';
+import { computeZobristKey } from './zobrist';
+import { makeMoveInPlace, unmakeMove, generateLegalMoves } from './move-executor';
+import { toAlgebraic } from '../utils/coordinates';
+
+/**
+ * Result of a perft benchmark run
+ */
+export interface PerftBenchmark {
+  nodes: number;
+  milliseconds: number;
+  nodesPerSecond: number;
+}
+
+/**
+ * Build a bare GameState from FEN (no ChessGame/history around it)
+ */
+export function createStateFromFEN(fen: string): GameState {
+  const state: GameState = {
+    ...parseFEN(fen),
+    status: GameStatus.PLAYING,
+    drawReason: null,
+    zobristKey: 0n
+  };
+  state.zobristKey = computeZobristKey(state);
+  return state;
+}
+
+/**
+ * Count leaf nodes to the given depth (state is restored afterwards)
+ */
+export function perft(state: GameState, depth: number): number {
+  if (depth === 0) return 1;
+
+  const moves = generateLegalMoves(state);
+  if (depth === 1) return moves.length;
+
+  let nodes = 0;
+  for (const move of moves) {
+    const undo = makeMoveInPlace(state, move.from, move.to, move.promotionPiece);
+    nodes += perft(state, depth - 1);
+    unmakeMove(state, undo);
+  }
+
+  return nodes;
+}
+
+/**
+ * Node counts per root move (e.g. "e2e4" -> 600), for tracking down generator bugs
+ */
+export function perftDivide(state: GameState, depth: number): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  for (const move of generateLegalMoves(state)) {
+    const undo = makeMoveInPlace(state, move.from, move.to, move.promotionPiece);
+    const name = toAlgebraic(move.from) + toAlgebraic(move.to) +
+      (move.promotionPiece && move.isPromotion ? move.promotionPiece.charAt(0) : '');
+    counts.set(name, perft(state, depth - 1));
+    unmakeMove(state, undo);
+  }
+
+  return counts;
+}
+
+/**
+ * Perft through the full ChessGame API (clone + makeMove per node),
+ * i.e. the path the AI used before make/unmake existed.
+ * Only counts queen promotions, like getAllLegalMoves.
+ */
+function perftByCloning(game: ChessGame, depth: number): number {
+  if (depth === 0) return 1;
+
+  const moves = game.getAllLegalMoves(game.getCurrentPlayer());
+  let nodes = 0;
+
+  for (const move of moves) {
+    const child = game.clone();
+    child.makeMove(move.from, move.to, move.promotionPiece);
+    nodes += perftByCloning(child, depth - 1);
+  }
+
+  return nodes;
+}
+
+/**
+ * Time perft on a FEN position, with make/unmake or the cloning ChessGame path
+ */
+export function benchmarkPerft(
+  fen: string,
+  depth: number,
+  method: 'make-unmake' | 'clone' = 'make-unmake'
+): PerftBenchmark {
+  const start = performance.now();
+
+  const nodes = method === 'make-unmake'
+    ? perft(createStateFromFEN(fen), depth)
+    : perftByCloning(ChessGame.fromFEN(fen), depth);
+
+  const milliseconds = performance.now() - start;
+
+  return {
+    nodes,
+    milliseconds,
+    nodesPerSecond: milliseconds > 0 ? Math.round(nodes / (milliseconds / 1000)) : nodes
+  };
+}
@@ -0,0 +1,303 @@
+/**
+ * PGN Module
+ *
+ * Portable Game Notation import/export:
+ * - Writing games with the Seven Tag Roster and SAN move text
+ * - Reading PGN (comments, NAGs and variations are skipped) back into a ChessGame
+ */
+
+import type { ChessGame } from './game-state';
+import { PieceColor, GameStatus } from './types';
+import { STARTING_FEN } from './fen';
+import { formatPGNClock } from './clock';
+import { getVariant, getVariantByPGNName } from './variants';
+
+/**
+ * Game result as written in PGN
+ */
+export type PGNResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+/**
+ * PGN tag pairs (Seven Tag Roster plus any extra tags)
+ */
+export interface PGNHeaders {
+  Event: string;
+  Site: string;
+  Date: string;
+  Round: string;
+  White: string;
+  Black: string;
+  Result: PGNResult;
+  [tag: string]: string;
+}
+
+/**
+ * A game read from PGN text
+ */
+export interface ParsedPGN {
+  headers: Partial<PGNHeaders>;
+  moves: string[]; // SAN, main line only
+  result: PGNResult;
+}
+
+/**
+ * Seven Tag Roster, in the order required by the PGN standard
+ */
+const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+
+const RESULTS: PGNResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+const MAX_LINE_LENGTH = 80;
+
+/**
+ * Format a date as a PGN date tag (YYYY.MM.DD)
+ */
+export function formatPGNDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}.${month}.${day}`;
+}
+
+/**
+ * Get the PGN result of a game from its status
+ */
+export function getPGNResult(game: ChessGame): PGNResult {
+  switch (game.getStatus()) {
+    case GameStatus.CHECKMATE:
+    case GameStatus.TIMEOUT:
+    case GameStatus.VARIANT_WIN:
+      // The side to move has been mated, ran out of time or lost the variant
+      return game.getCurrentPlayer() === PieceColor.WHITE ? '0-1' : '1-0';
+    case GameStatus.STALEMATE:
+    case GameStatus.DRAW:
+      return '1/2-1/2';
+    default:
+      return '*';
+  }
+}
+
+/**
+ * Format SAN moves as numbered PGN move text
+ * @param moves - Moves in SAN
+ * @param startMoveNumber - Full move number of the first move
+ * @param blackMovesFirst - True when the game starts with Black to move
+ * @param clockTimes - Clock time left (ms) after each move, written as {[%clk h:mm:ss]}
+ */
+export function formatMoveText(
+  moves: string[],
+  startMoveNumber: number = 1,
+  blackMovesFirst: boolean = false,
+  clockTimes: number[] = []
+): string {
+  const tokens: string[] = [];
+  let moveNumber = startMoveNumber;
+  let whiteToMove = !blackMovesFirst;
+
+  moves.forEach((san, i) => {
+    if (whiteToMove) {
+      tokens.push(`${moveNumber}.`);
+    } else if (i === 0 || clockTimes[i - 1] !== undefined) {
+      // Black's move number is repeated after a comment
+      tokens.push(`${moveNumber}...`);
+    }
+
+    tokens.push(san);
+    if (clockTimes[i] !== undefined) {
+      tokens.push(`{[%clk ${formatPGNClock(clockTimes[i])}]}`);
+    }
+
+    if (!whiteToMove) {
+      moveNumber++;
+    }
+    whiteToMove = !whiteToMove;
+  });
+
+  return tokens.join(' ');
+}
+
+/**
+ * Build a complete PGN document
+ * @param headers - Tag pairs; Seven Tag Roster tags come first in standard order
+ * @param moveText - Numbered move text (see formatMoveText)
+ */
+export function formatPGN(headers: PGNHeaders, moveText: string): string {
+  const tags = [
+    ...SEVEN_TAG_ROSTER,
+    ...Object.keys(headers).filter(tag => !SEVEN_TAG_ROSTER.includes(tag))
+  ];
+
+  const tagLines = tags
+    .filter(tag => headers[tag] !== undefined)
+    .map(tag => `[${tag} "${escapeTagValue(headers[tag])}"]`);
+
+  const body = wrapText(`${moveText} ${headers.Result}`.trim());
+
+  return `${tagLines.join('\n')}\n\n${body}\n`;
+}
+
+/**
+ * Export a game as PGN
+ * Missing tags get PGN's "unknown" defaults; the result is taken from the game
+ * unless overridden (e.g. for resignations).
+ */
+export function exportPGN(game: ChessGame, tags: Partial<PGNHeaders> = {}): string {
+  const entries = game.getHistory().getAllMoves();
+  const startState = entries.length > 0 ? entries[0].stateBefore : game.getState();
+  const startFEN = game.getStartFEN();
+
+  const headers: PGNHeaders = {
+    Event: '?',
+    Site: '?',
+    Date: formatPGNDate(new Date()),
+    Round: '-',
+    White: '?',
+    Black: '?',
+    ...tags,
+    Result: tags.Result ?? getPGNResult(game)
+  };
+
+  const variantName = game.getVariant().pgnName ?? (startState.castlingRights.rookFiles ? 'Chess960' : undefined);
+  if (variantName) {
+    headers.Variant = variantName;
+  }
+  if (startFEN !== STARTING_FEN) {
+    headers.SetUp = '1';
+    headers.FEN = startFEN;
+  }
+
+  const moveText = formatMoveText(
+    entries.map(entry => entry.notation),
+    startState.fullMoveNumber,
+    startState.currentPlayer === PieceColor.BLACK
+  );
+
+  return formatPGN(headers, moveText);
+}
+
+/**
+ * Parse PGN text (first game only)
+ * @throws Error if a tag pair is malformed
+ */
+export function parsePGN(pgn: string): ParsedPGN {
+  const headers: Partial<PGNHeaders> = {};
+  const moves: string[] = [];
+  let result: PGNResult = '*';
+
+  // Strip escape lines (lines starting with %)
+  const text = pgn.replace(/^%.*$/gm, '');
+  let i = 0;
+  let depth = 0; // Variation nesting
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '{') {
+      const end = text.indexOf('}', i);
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === ';') {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === '(') {
+      depth++;
+      i++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+      i++;
+    } else if (char === '[' && depth === 0 && moves.length === 0) {
+      const end = text.indexOf(']', i);
+      const tag = text.slice(i, end === -1 ? text.length : end + 1);
+      const match = tag.match(/^\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]$/);
+      if (!match) {
+        throw new Error(`Invalid PGN: malformed tag ${tag}`);
+      }
+      headers[match[1]] = match[2].replace(/\\(["\\])/g, '$1');
+      i = end + 1;
+    } else {
+      // Read a symbol up to the next delimiter
+      let end = i;
+      while (end < text.length && !/[\s{};()[\]]/.test(text[end])) {
+        end++;
+      }
+      const token = text.slice(i, Math.max(end, i + 1));
+      i = Math.max(end, i + 1);
+
+      if (depth > 0) continue;
+
+      if (RESULTS.includes(token as PGNResult)) {
+        result = token as PGNResult;
+        break;
+      }
+
+      // Skip NAGs ($1), standalone annotations (!?) and move numbers (12. / 12...)
+      const san = token.replace(/^\d+\.+/, '');
+      if (san === '' || /^\$\d+$/.test(san) || /^[!?]+$/.test(san)) continue;
+
+      moves.push(san);
+    }
+  }
+
+  if (result === '*' && headers.Result && RESULTS.includes(headers.Result)) {
+    result = headers.Result;
+  }
+
+  return { headers, moves, result };
+}
+
+/**
+ * Load a PGN game into a ChessGame, replacing its current game
+ * Starts from the FEN tag when present, then replays the main line.
+ * @throws Error describing the first unreadable or illegal move
+ */
+export function loadPGN(game: ChessGame, pgn: string): ParsedPGN {
+  const parsed = parsePGN(pgn);
+  game.setVariant((parsed.headers.Variant && getVariantByPGNName(parsed.headers.Variant)) || getVariant());
+
+  if (parsed.headers.FEN) {
+    game.loadFEN(parsed.headers.FEN);
+  } else {
+    game.reset();
+  }
+
+  parsed.moves.forEach((san) => {
+    const state = game.getState();
+    const moveLabel = `${state.fullMoveNumber}${state.currentPlayer === PieceColor.WHITE ? '.' : '...'}`;
+
+    try {
+      game.makeSANMove(san);
+    } catch (error) {
+      throw new Error(`Invalid PGN: move ${moveLabel} ${san} - ${(error as Error).message}`);
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Escape a tag value for writing
+ */
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Wrap move text to the PGN line length limit
+ */
+function wrapText(text: string): string {
+  const lines: string[] = [];
+  let line = '';
+
+  text.split(' ').forEach((word) => {
+    if (line && line.length + word.length + 1 > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  });
+
+  if (line) lines.push(line);
+
+  return lines.join('\n');
+}
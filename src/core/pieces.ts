@@ -230,3 +230,64 @@ export function canAttackSquare(
     (move) => move.row === targetPos.row && move.col === targetPos.col
   );
 }
+
+/**
+ * Check if any piece of a color attacks a square
+ * Scans outward from the target instead of generating every attacker's moves,
+ * which keeps check detection cheap during search.
+ */
+export function isSquareAttackedBy(
+  board: Board,
+  target: Position,
+  attackerColor: PieceColor
+): boolean {
+  const isAttacker = (row: number, col: number, types: PT[]): boolean => {
+    if (row < 0 || row >= BOARD_SIZE || col < 0 || col >= BOARD_SIZE) return false;
+    const piece = board[row][col];
+    return piece !== null && piece.color === attackerColor && types.includes(piece.type);
+  };
+
+  // Pawns attack diagonally forward, so look one row "behind" the target
+  const pawnRow = target.row + (attackerColor === PieceColor.WHITE ? 1 : -1);
+  if (isAttacker(pawnRow, target.col - 1, [PT.PAWN]) ||
+      isAttacker(pawnRow, target.col + 1, [PT.PAWN])) {
+    return true;
+  }
+
+  for (const offset of DIRECTIONS.KNIGHT) {
+    if (isAttacker(target.row + offset.row, target.col + offset.col, [PT.KNIGHT])) {
+      return true;
+    }
+  }
+
+  const lines: Array<[ReadonlyArray<{ row: number; col: number }>, PT[]]> = [
+    [DIRECTIONS.STRAIGHT, [PT.ROOK, PT.QUEEN]],
+    [DIRECTIONS.DIAGONAL, [PT.BISHOP, PT.QUEEN]]
+  ];
+
+  for (const [directions, sliders] of lines) {
+    for (const direction of directions) {
+      // Adjacent king
+      if (isAttacker(target.row + direction.row, target.col + direction.col, [PT.KING])) {
+        return true;
+      }
+
+      let row = target.row + direction.row;
+      let col = target.col + direction.col;
+
+      while (row >= 0 && row < BOARD_SIZE && col >= 0 && col < BOARD_SIZE) {
+        const piece = board[row][col];
+        if (piece) {
+          if (piece.color === attackerColor && sliders.includes(piece.type)) {
+            return true;
+          }
+          break;
+        }
+        row += direction.row;
+        col += direction.col;
+      }
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,211 @@
+/**
+ * SAN Module
+ *
+ * Standard Algebraic Notation (SAN) for moves:
+ * - Writing SAN with disambiguation, capture, promotion and check/mate suffixes
+ * - Reading SAN back into a concrete move for a given position
+ */
+
+import type { Move, Position, GameState } from './types';
+import { PieceType, GameStatus } from './types';
+import { findPieces } from './board';
+import { getLegalMoves, isInCheck, isPromotion, isCastlingMove } from './move-validator';
+import { toAlgebraic, fromAlgebraic, positionsEqual } from '../utils/coordinates';
+
+/**
+ * A move decoded from SAN
+ */
+export interface SANMove {
+  from: Position;
+  to: Position;
+  promotion?: PieceType;
+}
+
+const PIECE_LETTERS: Record<PieceType, string> = {
+  [PieceType.PAWN]: '',
+  [PieceType.KNIGHT]: 'N',
+  [PieceType.BISHOP]: 'B',
+  [PieceType.ROOK]: 'R',
+  [PieceType.QUEEN]: 'Q',
+  [PieceType.KING]: 'K'
+};
+
+const LETTER_TO_PIECE: Record<string, PieceType> = {
+  N: PieceType.KNIGHT,
+  B: PieceType.BISHOP,
+  R: PieceType.ROOK,
+  Q: PieceType.QUEEN,
+  K: PieceType.KING
+};
+
+/**
+ * Get the SAN letter for a piece type ('' for pawns)
+ */
+export function getPieceLetter(type: PieceType): string {
+  return PIECE_LETTERS[type];
+}
+
+/**
+ * Convert a move to SAN
+ * @param stateBefore - Position the move was played from
+ * @param move - The move that was played
+ * @param stateAfter - Position after the move (used for +/# suffixes)
+ */
+export function moveToSAN(
+  stateBefore: Readonly<GameState>,
+  move: Move,
+  stateAfter: Readonly<GameState>
+): string {
+  const { from, to, piece } = move;
+  let san = '';
+
+  if (move.isCastling) {
+    san = to.col > from.col ? 'O-O' : 'O-O-O';
+  } else {
+    const isCapture = !!move.capturedPiece || !!move.isEnPassant;
+
+    if (piece.type === PieceType.PAWN) {
+      if (isCapture) {
+        san += toAlgebraic(from).charAt(0);
+      }
+    } else {
+      san += PIECE_LETTERS[piece.type];
+      san += getDisambiguation(stateBefore, move);
+    }
+
+    if (isCapture) {
+      san += 'x';
+    }
+
+    san += toAlgebraic(to);
+
+    if (move.isPromotion && move.promotionPiece) {
+      san += '=' + PIECE_LETTERS[move.promotionPiece];
+    }
+  }
+
+  if (stateAfter.status === GameStatus.CHECKMATE) {
+    san += '#';
+  } else if (isInCheck(stateAfter.board, stateAfter.currentPlayer)) {
+    san += '+';
+  }
+
+  return san;
+}
+
+/**
+ * Work out the file/rank prefix needed when several identical pieces
+ * can reach the same square
+ */
+function getDisambiguation(state: Readonly<GameState>, move: Move): string {
+  const { from, to, piece } = move;
+
+  const rivals = findPieces(
+    state.board,
+    (other) => other.type === piece.type && other.color === piece.color
+  ).filter(({ position }) =>
+    !positionsEqual(position, from) &&
+    getLegalMoves(state.board, position, state.castlingRights, state.enPassantTarget)
+      .some((target) => positionsEqual(target, to))
+  );
+
+  if (rivals.length === 0) return '';
+
+  const square = toAlgebraic(from);
+  const sameFile = rivals.some(({ position }) => position.col === from.col);
+  const sameRank = rivals.some(({ position }) => position.row === from.row);
+
+  if (!sameFile) return square.charAt(0);
+  if (!sameRank) return square.charAt(1);
+  return square;
+}
+
+/**
+ * Decode a SAN move for the given position
+ * Accepts common variations: "0-0", missing "=" before promotion pieces,
+ * trailing annotations like "!?" and check markers.
+ * @throws Error if the move is malformed, illegal or ambiguous
+ */
+export function sanToMove(state: Readonly<GameState>, san: string): SANMove {
+  const cleaned = san.trim().replace(/[+#!?]+$/, '').replace(/e\.p\.$/, '');
+  const color = state.currentPlayer;
+
+  // Castling
+  const castling = cleaned.replace(/0/g, 'O');
+  if (castling === 'O-O' || castling === 'O-O-O') {
+    return findCastlingMove(state, castling === 'O-O', san);
+  }
+
+  const match = cleaned.match(/^([NBRQK])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([NBRQ]))?$/);
+  if (!match) {
+    throw new Error(`Invalid SAN: '${san}'`);
+  }
+
+  const [, pieceLetter, fromFile, fromRank, toSquare, promotionLetter] = match;
+  const type = pieceLetter ? LETTER_TO_PIECE[pieceLetter] : PieceType.PAWN;
+  const to = fromAlgebraic(toSquare);
+
+  const candidates = findPieces(
+    state.board,
+    (piece) => piece.type === type && piece.color === color
+  ).filter(({ position, piece }) => {
+    const square = toAlgebraic(position);
+    if (fromFile && square.charAt(0) !== fromFile) return false;
+    if (fromRank && square.charAt(1) !== fromRank) return false;
+
+    // Castling is only written as O-O/O-O-O (in Chess960 the king "moves" onto its rook)
+    if (isCastlingMove(position, to, piece, state.board)) return false;
+
+    return getLegalMoves(state.board, position, state.castlingRights, state.enPassantTarget)
+      .some((target) => positionsEqual(target, to));
+  });
+
+  if (candidates.length === 0) {
+    throw new Error(`Illegal move: '${san}'`);
+  }
+  if (candidates.length > 1) {
+    throw new Error(`Ambiguous move: '${san}'`);
+  }
+
+  const from = candidates[0].position;
+  const piece = candidates[0].piece;
+
+  if (isPromotion(from, to, piece)) {
+    return {
+      from,
+      to,
+      promotion: promotionLetter ? LETTER_TO_PIECE[promotionLetter] : PieceType.QUEEN
+    };
+  }
+
+  if (promotionLetter) {
+    throw new Error(`Illegal move: '${san}' is not a promotion`);
+  }
+
+  return { from, to };
+}
+
+/**
+ * Find the king move that performs castling on the given side
+ * (the king's target square, or the rook's square in Chess960)
+ */
+function findCastlingMove(state: Readonly<GameState>, kingSide: boolean, san: string): SANMove {
+  const kingEntry = findPieces(
+    state.board,
+    (piece) => piece.type === PieceType.KING && piece.color === state.currentPlayer
+  )[0];
+
+  if (kingEntry) {
+    const { position: from, piece: king } = kingEntry;
+    const to = getLegalMoves(state.board, from, state.castlingRights, state.enPassantTarget)
+      .find((target) =>
+        isCastlingMove(from, target, king, state.board) && (target.col > from.col) === kingSide
+      );
+
+    if (to) {
+      return { from, to };
+    }
+  }
+
+  throw new Error(`Illegal move: '${san}'`);
+}
@@ -76,7 +76,23 @@ export enum GameStatus {
   CHECK = 'check',
   CHECKMATE = 'checkmate',
   STALEMATE = 'stalemate',
-  DRAW = 'draw'
+  DRAW = 'draw',
+  TIMEOUT = 'timeout', // The side to move ran out of time
+  VARIANT_WIN = 'variant-win' // The side that just moved met its variant's win condition
+}
+
+/**
+ * Why a game ended in a draw
+ * (reported alongside GameStatus.STALEMATE / GameStatus.DRAW)
+ */
+export enum DrawReason {
+  STALEMATE = 'stalemate',
+  FIFTY_MOVE_RULE = 'fifty-move-rule',
+  SEVENTY_FIVE_MOVE_RULE = 'seventy-five-move-rule',
+  THREEFOLD_REPETITION = 'threefold-repetition',
+  FIVEFOLD_REPETITION = 'fivefold-repetition',
+  INSUFFICIENT_MATERIAL = 'insufficient-material',
+  TIMEOUT_VS_INSUFFICIENT_MATERIAL = 'timeout-vs-insufficient-material'
 }
 
 /**
@@ -87,6 +103,16 @@ export interface CastlingRights {
   whiteQueenSide: boolean;
   blackKingSide: boolean;
   blackQueenSide: boolean;
+  rookFiles?: CastlingRookFiles; // Chess960 only (standard chess: rooks on a/h)
+}
+
+/**
+ * Starting files (0-7) of the castling rooks in a Chess960 game.
+ * Both sides start mirrored, so one pair covers White and Black.
+ */
+export interface CastlingRookFiles {
+  kingSide: number;
+  queenSide: number;
 }
 
 /**
@@ -105,6 +131,8 @@ export interface GameState {
   enPassantTarget: EnPassantTarget;
   halfMoveClock: number; // For 50-move rule
   fullMoveNumber: number;
+  drawReason?: DrawReason | null; // Set when status is DRAW
+  zobristKey: bigint; // Position hash, kept up to date by make/unmake
 }
 
 /**
@@ -128,3 +156,8 @@ export const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'] as const;
  * Ranks (rows) in algebraic notation
  */
 export const RANKS = ['8', '7', '6', '5', '4', '3', '2', '1'] as const;
+
+/**
+ * Colors an annotation (arrow, circle or label) can be drawn in on the board
+ */
+export type AnnotationColor = 'green' | 'red' | 'blue' | 'yellow';
@@ -0,0 +1,272 @@
+/**
+ * Variants Module
+ *
+ * Chess variants as small rule plug-ins on top of standard chess.
+ * A variant can override:
+ * - the start position
+ * - which legal moves may be played
+ * - what a move does to the board besides moving the piece
+ * - the win condition (checked after every move)
+ * Everything else (move generation, check, draw rules) stays standard.
+ */
+
+import type { Board, Move, Position, GameState } from './types';
+import { PieceType, PieceColor } from './types';
+import type { HistoryEntry } from './move-history';
+import { findKing } from './board';
+import { isInCheck } from './move-validator';
+import { getChess960FEN, randomChess960Position } from './chess960';
+
+/**
+ * Available variants
+ */
+export enum VariantId {
+  STANDARD = 'standard',
+  CHESS960 = 'chess960',
+  PAWN_WARS = 'pawn-wars',
+  KING_OF_THE_HILL = 'king-of-the-hill',
+  THREE_CHECK = 'three-check',
+  ATOMIC_LITE = 'atomic-lite'
+}
+
+/**
+ * Rules of a variant (only the parts that differ from standard chess)
+ */
+export interface ChessVariant {
+  id: VariantId;
+  name: string;
+  icon: string;
+  rules: string; // One-line explanation for players
+  winMessage: string; // How the winner won, e.g. "reached the hill"
+  pgnName?: string; // PGN Variant tag (standard chess has none)
+  countsForRating: boolean; // Mini-games leave the chess rating and AI stats alone
+  ignoresInsufficientMaterial?: boolean; // The variant can be won without mating material
+
+  /**
+   * Start position for a new game (the standard setup if not given)
+   */
+  getStartFEN?(): string;
+
+  /**
+   * Check if a move that is legal in standard chess may be played
+   */
+  isMoveAllowed?(state: Readonly<GameState>, from: Position, to: Position): boolean;
+
+  /**
+   * Change the board after a move has been played (e.g. explosions)
+   */
+  applyMoveEffects?(state: GameState, move: Move): void;
+
+  /**
+   * Check if the side that just moved has won
+   * @param previousMoves - Moves played before this one
+   */
+  hasWon?(state: Readonly<GameState>, move: Move, previousMoves: readonly HistoryEntry[]): boolean;
+
+  /**
+   * Short progress line shown during the game (e.g. checks given so far)
+   * @param moves - Every move played so far
+   */
+  describeProgress?(moves: readonly HistoryEntry[]): string;
+}
+
+/**
+ * Checks needed to win Three-Check
+ */
+const CHECKS_TO_WIN = 3;
+
+/**
+ * The four centre squares (d4, e4, d5, e5) for King of the Hill
+ */
+const HILL_SQUARES: Position[] = [
+  { row: 3, col: 3 }, { row: 3, col: 4 },
+  { row: 4, col: 3 }, { row: 4, col: 4 }
+];
+
+/**
+ * Count the checks a side has given
+ */
+function countChecks(moves: readonly HistoryEntry[], color: PieceColor): number {
+  return moves.filter(entry =>
+    entry.move.piece.color === color &&
+    isInCheck(entry.stateAfter.board, entry.stateAfter.currentPlayer)
+  ).length;
+}
+
+/**
+ * Squares around (and including) a square
+ */
+function getBlastSquares(center: Position): Position[] {
+  const squares: Position[] = [];
+  for (let row = center.row - 1; row <= center.row + 1; row++) {
+    for (let col = center.col - 1; col <= center.col + 1; col++) {
+      if (row >= 0 && row < 8 && col >= 0 && col < 8) {
+        squares.push({ row, col });
+      }
+    }
+  }
+  return squares;
+}
+
+/**
+ * Check if a move captures something (including en passant)
+ */
+function isCapture(board: Board, from: Position, to: Position): boolean {
+  const piece = board[from.row][from.col];
+  const target = board[to.row][to.col];
+  if (!piece) return false;
+
+  if (target) {
+    return target.color !== piece.color;
+  }
+  return piece.type === PieceType.PAWN && from.col !== to.col;
+}
+
+const STANDARD: ChessVariant = {
+  id: VariantId.STANDARD,
+  name: 'Standard chess',
+  icon: '♟️',
+  rules: 'Checkmate the enemy king to win.',
+  winMessage: 'checkmate',
+  countsForRating: true
+};
+
+const CHESS960: ChessVariant = {
+  id: VariantId.CHESS960,
+  name: 'Chess960',
+  icon: '🎲',
+  rules: 'Normal chess rules, but the back-rank pieces start in a random order.',
+  winMessage: 'checkmate',
+  pgnName: 'Chess960',
+  countsForRating: true,
+  getStartFEN: () => getChess960FEN(randomChess960Position())
+};
+
+const PAWN_WARS: ChessVariant = {
+  id: VariantId.PAWN_WARS,
+  name: 'Pawn Wars',
+  icon: '⚔️',
+  rules: 'Only kings and pawns. The first pawn to reach the other side wins!',
+  winMessage: 'got a pawn to the other side',
+  pgnName: 'Pawn Wars',
+  countsForRating: false,
+  getStartFEN: () => '4k3/pppppppp/8/8/8/8/PPPPPPPP/4K3 w - - 0 1',
+  hasWon: (_state, move) => !!move.isPromotion
+};
+
+const KING_OF_THE_HILL: ChessVariant = {
+  id: VariantId.KING_OF_THE_HILL,
+  name: 'King of the Hill',
+  icon: '⛰️',
+  rules: 'Walk your king to one of the four centre squares to win (or checkmate).',
+  winMessage: 'reached the hill',
+  pgnName: 'King of the Hill',
+  countsForRating: false,
+  ignoresInsufficientMaterial: true,
+  hasWon: (state, move) => {
+    const king = findKing(state.board, move.piece.color);
+    return !!king && HILL_SQUARES.some(square => square.row === king.row && square.col === king.col);
+  }
+};
+
+const THREE_CHECK: ChessVariant = {
+  id: VariantId.THREE_CHECK,
+  name: 'Three-Check',
+  icon: '✔️',
+  rules: `Give check ${CHECKS_TO_WIN} times to win (or checkmate).`,
+  winMessage: `gave check ${CHECKS_TO_WIN} times`,
+  pgnName: 'Three-check',
+  countsForRating: false,
+  ignoresInsufficientMaterial: true,
+  hasWon: (state, move, previousMoves) => {
+    const givesCheck = isInCheck(state.board, state.currentPlayer);
+    return givesCheck && countChecks(previousMoves, move.piece.color) + 1 >= CHECKS_TO_WIN;
+  },
+  describeProgress: (moves) => {
+    const white = countChecks(moves, PieceColor.WHITE);
+    const black = countChecks(moves, PieceColor.BLACK);
+    return `Checks: White ${white}/${CHECKS_TO_WIN} · Black ${black}/${CHECKS_TO_WIN}`;
+  }
+};
+
+const ATOMIC_LITE: ChessVariant = {
+  id: VariantId.ATOMIC_LITE,
+  name: 'Atomic-lite',
+  icon: '💥',
+  rules: 'Captures explode! The capturing piece and every piece next to it (except pawns) disappear. Blow up the enemy king to win.',
+  winMessage: 'blew up the king',
+  pgnName: 'Atomic-lite',
+  countsForRating: false,
+
+  isMoveAllowed: (state, from, to) => {
+    const board = state.board;
+    if (!isCapture(board, from, to)) return true;
+
+    // Kings may not capture, and nobody may blow up their own king
+    const piece = board[from.row][from.col]!;
+    if (piece.type === PieceType.KING) return false;
+
+    return !getBlastSquares(to).some(({ row, col }) => {
+      const neighbour = board[row][col];
+      return !!neighbour && neighbour.type === PieceType.KING && neighbour.color === piece.color;
+    });
+  },
+
+  applyMoveEffects: (state, move) => {
+    if (!move.capturedPiece) return;
+
+    const board = state.board;
+    board[move.to.row][move.to.col] = null;
+    for (const { row, col } of getBlastSquares(move.to)) {
+      const piece = board[row][col];
+      if (piece && piece.type !== PieceType.PAWN) {
+        board[row][col] = null;
+      }
+    }
+
+    // Castling rights go with an exploded king or rook
+    const rights = { ...state.castlingRights };
+    const rookFiles = rights.rookFiles ?? { kingSide: 7, queenSide: 0 };
+    const hasPiece = (row: number, col: number, type: PieceType): boolean => {
+      const piece = board[row][col];
+      return !!piece && piece.type === type && piece.color === (row === 7 ? PieceColor.WHITE : PieceColor.BLACK);
+    };
+    const canStillCastle = (row: number, rookCol: number): boolean =>
+      board[row].some(piece => !!piece && piece.type === PieceType.KING) && hasPiece(row, rookCol, PieceType.ROOK);
+
+    rights.whiteKingSide = rights.whiteKingSide && canStillCastle(7, rookFiles.kingSide);
+    rights.whiteQueenSide = rights.whiteQueenSide && canStillCastle(7, rookFiles.queenSide);
+    rights.blackKingSide = rights.blackKingSide && canStillCastle(0, rookFiles.kingSide);
+    rights.blackQueenSide = rights.blackQueenSide && canStillCastle(0, rookFiles.queenSide);
+    state.castlingRights = rights;
+  },
+
+  hasWon: (state) => !findKing(state.board, state.currentPlayer)
+};
+
+/**
+ * All variants, in the order they are offered
+ */
+export const VARIANTS: ChessVariant[] = [
+  STANDARD,
+  CHESS960,
+  PAWN_WARS,
+  KING_OF_THE_HILL,
+  THREE_CHECK,
+  ATOMIC_LITE
+];
+
+/**
+ * Get a variant by ID (standard chess for unknown or missing IDs)
+ */
+export function getVariant(id?: string): ChessVariant {
+  return VARIANTS.find(variant => variant.id === id) ?? STANDARD;
+}
+
+/**
+ * Find a variant by its PGN Variant tag (case-insensitive)
+ */
+export function getVariantByPGNName(name: string): ChessVariant | undefined {
+  const wanted = name.trim().toLowerCase();
+  return VARIANTS.find(variant => variant.pgnName?.toLowerCase() === wanted);
+}
@@ -0,0 +1,155 @@
+/**
+ * Zobrist Hashing Module
+ *
+ * 64-bit position keys built by XOR-ing a random number per feature:
+ * - one per (piece colour, piece type, square)
+ * - one per castling right
+ * - one per en passant file (only when a legal capture there is possible)
+ * - one for Black to move
+ *
+ * Keys can be updated incrementally as moves are made and unmade,
+ * which makes repetition detection and transposition lookups cheap.
+ */
+
+import type { Board, Piece, Position, CastlingRights, EnPassantTarget, GameState } from './types';
+import { PieceType, PieceColor } from './types';
+import { isInCheck } from './move-validator';
+
+const PIECE_TYPE_INDEX: Record<PieceType, number> = {
+  [PieceType.PAWN]: 0,
+  [PieceType.KNIGHT]: 1,
+  [PieceType.BISHOP]: 2,
+  [PieceType.ROOK]: 3,
+  [PieceType.QUEEN]: 4,
+  [PieceType.KING]: 5
+};
+
+const MASK_64 = (1n << 64n) - 1n;
+
+/**
+ * Deterministic 64-bit generator (SplitMix64), so keys are identical across sessions
+ */
+function createRandom64(seed: bigint): () => bigint {
+  let state = seed;
+  return () => {
+    state = (state + 0x9e3779b97f4a7c15n) & MASK_64;
+    let z = state;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+    return z ^ (z >> 31n);
+  };
+}
+
+const random64 = createRandom64(0x5eedc4e55n);
+
+const PIECE_KEYS: bigint[] = Array.from({ length: 2 * 6 * 64 }, () => random64());
+const CASTLING_KEYS = {
+  whiteKingSide: random64(),
+  whiteQueenSide: random64(),
+  blackKingSide: random64(),
+  blackQueenSide: random64()
+};
+const EN_PASSANT_FILE_KEYS: bigint[] = Array.from({ length: 8 }, () => random64());
+
+/**
+ * XOR-ed into the key whenever it is Black's turn
+ */
+export const SIDE_TO_MOVE_KEY: bigint = random64();
+
+/**
+ * Key for a piece standing on a square
+ */
+export function getPieceKey(piece: Piece, pos: Position): bigint {
+  const colorIndex = piece.color === PieceColor.WHITE ? 0 : 1;
+  const index = (colorIndex * 6 + PIECE_TYPE_INDEX[piece.type]) * 64 + pos.row * 8 + pos.col;
+  return PIECE_KEYS[index];
+}
+
+/**
+ * Combined key for a set of castling rights
+ */
+export function getCastlingKey(rights: CastlingRights): bigint {
+  let key = 0n;
+  if (rights.whiteKingSide) key ^= CASTLING_KEYS.whiteKingSide;
+  if (rights.whiteQueenSide) key ^= CASTLING_KEYS.whiteQueenSide;
+  if (rights.blackKingSide) key ^= CASTLING_KEYS.blackKingSide;
+  if (rights.blackQueenSide) key ^= CASTLING_KEYS.blackQueenSide;
+  return key;
+}
+
+/**
+ * Key for the en passant square
+ * Only counts when the side to move has a legal en passant capture (FIDE:
+ * positions are the same unless the capture can actually be made), so
+ * positions differing by an unusable en passant square hash the same.
+ */
+export function getEnPassantKey(
+  board: Board,
+  enPassantTarget: EnPassantTarget,
+  sideToMove: PieceColor
+): bigint {
+  if (!enPassantTarget) return 0n;
+
+  const pawnRow = sideToMove === PieceColor.WHITE ? enPassantTarget.row + 1 : enPassantTarget.row - 1;
+
+  for (const col of [enPassantTarget.col - 1, enPassantTarget.col + 1]) {
+    if (col < 0 || col > 7) continue;
+    const piece = board[pawnRow]?.[col];
+    if (
+      piece && piece.type === PieceType.PAWN && piece.color === sideToMove &&
+      isEnPassantCaptureLegal(board, { row: pawnRow, col }, enPassantTarget)
+    ) {
+      return EN_PASSANT_FILE_KEYS[enPassantTarget.col];
+    }
+  }
+
+  return 0n;
+}
+
+/**
+ * Check that an en passant capture does not leave the capturing side's king
+ * in check (the pawn may be pinned, or both pawns may leave a rank open).
+ * The capture is tried on the board and taken back straight away.
+ */
+function isEnPassantCaptureLegal(board: Board, from: Position, target: Position): boolean {
+  const pawn = board[from.row][from.col]!;
+  const captured = board[from.row][target.col];
+
+  board[target.row][target.col] = pawn;
+  board[from.row][from.col] = null;
+  board[from.row][target.col] = null;
+  const legal = !isInCheck(board, pawn.color);
+
+  board[from.row][target.col] = captured;
+  board[from.row][from.col] = pawn;
+  board[target.row][target.col] = null;
+
+  return legal;
+}
+
+/**
+ * Compute the key of a position from scratch
+ */
+export function computeZobristKey(
+  state: Pick<GameState, 'board' | 'currentPlayer' | 'castlingRights' | 'enPassantTarget'>
+): bigint {
+  let key = 0n;
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = state.board[row][col];
+      if (piece) {
+        key ^= getPieceKey(piece, { row, col });
+      }
+    }
+  }
+
+  key ^= getCastlingKey(state.castlingRights);
+  key ^= getEnPassantKey(state.board, state.enPassantTarget, state.currentPlayer);
+
+  if (state.currentPlayer === PieceColor.BLACK) {
+    key ^= SIDE_TO_MOVE_KEY;
+  }
+
+  return key;
+}
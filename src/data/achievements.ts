@@ -0,0 +1,210 @@
+/**
+ * Achievements
+ *
+ * The badges a player can earn and what earns each one. Every badge is
+ * checked against the player's progress and skill profile, and against the
+ * analysis of the game just finished, whenever a game or lesson ends.
+ * Badge IDs match the icon files in assets/ui/badges (badge-<id>.svg).
+ */
+
+import type { UserProgress } from './progress-tracker';
+import type { SkillProfile } from './skill-engine';
+import type { GameAnalysis } from './game-analyzer';
+import { lessons } from '../tutorial/lesson-library';
+
+/**
+ * The game just finished, as seen by the achievements
+ */
+export interface GameAchievementContext {
+  result: 'win' | 'loss' | 'draw';
+  mode: 'two-player' | 'vs-ai';
+  checkmate: boolean;
+  analysis: GameAnalysis; // The player's moves
+}
+
+/**
+ * Everything the achievements are checked against
+ */
+export interface AchievementContext {
+  progress: UserProgress;
+  skills: SkillProfile | null;
+  game?: GameAchievementContext; // Missing after a lesson
+}
+
+/**
+ * A badge and what earns it
+ */
+export interface Achievement {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  isEarned: (context: AchievementContext) => boolean;
+}
+
+/**
+ * Check that every lesson of a list has been completed
+ */
+function completedAll(progress: UserProgress, lessonIds: string[]): boolean {
+  return lessonIds.every(id => progress.lessonsCompleted.includes(id));
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-game',
+    name: 'First Game',
+    icon: '🎲',
+    description: 'Finish your first game',
+    isEarned: ({ progress }) => progress.totalGames >= 1
+  },
+  {
+    id: 'first-win',
+    name: 'First Win',
+    icon: '🥇',
+    description: 'Win a game against the computer',
+    isEarned: ({ game }) => game?.mode === 'vs-ai' && game.result === 'win'
+  },
+  {
+    id: 'first-capture',
+    name: 'Gotcha!',
+    icon: '🎯',
+    description: 'Capture a piece',
+    isEarned: ({ game }) => (game?.analysis.captures ?? 0) > 0
+  },
+  {
+    id: 'first-checkmate',
+    name: 'Checkmate!',
+    icon: '👑',
+    description: 'Win a game with checkmate',
+    isEarned: ({ game }) => game?.checkmate === true && game.result === 'win'
+  },
+  {
+    id: 'first-promotion',
+    name: 'Queen Me',
+    icon: '✨',
+    description: 'Promote a pawn',
+    isEarned: ({ game }) => (game?.analysis.promotions ?? 0) > 0
+  },
+  {
+    id: 'first-fork',
+    name: 'Forker',
+    icon: '🍴',
+    description: 'Attack two pieces at once with a fork',
+    isEarned: ({ game }) => game?.analysis.tacticsUsed.includes('fork') ?? false
+  },
+  {
+    id: 'first-pin',
+    name: 'Pinned!',
+    icon: '📌',
+    description: 'Pin a piece so it cannot move',
+    isEarned: ({ game }) => game?.analysis.tacticsUsed.includes('pin') ?? false
+  },
+  {
+    id: 'win-easy',
+    name: 'Easy Winner',
+    icon: '🐣',
+    description: 'Win a rated game against an Easy computer',
+    isEarned: ({ progress }) => progress.aiWins.easy >= 1
+  },
+  {
+    id: 'win-medium',
+    name: 'Medium Winner',
+    icon: '🦊',
+    description: 'Win a rated game against a Medium computer',
+    isEarned: ({ progress }) => progress.aiWins.medium >= 1
+  },
+  {
+    id: 'win-hard',
+    name: 'Dragon Slayer',
+    icon: '🐉',
+    description: 'Win a rated game against a Hard computer',
+    isEarned: ({ progress }) => progress.aiWins.hard >= 1
+  },
+  {
+    id: '3day-streak',
+    name: 'On a Roll',
+    icon: '🔥',
+    description: 'Play 3 days in a row',
+    isEarned: ({ progress }) => progress.longestStreak >= 3
+  },
+  {
+    id: '7day-streak',
+    name: 'Week of Chess',
+    icon: '🌟',
+    description: 'Play 7 days in a row',
+    isEarned: ({ progress }) => progress.longestStreak >= 7
+  },
+  {
+    id: 'first-lesson',
+    name: 'Student',
+    icon: '📚',
+    description: 'Finish a lesson',
+    isEarned: ({ progress }) => progress.lessonsCompleted.length >= 1
+  },
+  {
+    id: 'opening-tutorial',
+    name: 'Opening Expert',
+    icon: '📖',
+    description: 'Finish every opening lesson',
+    isEarned: ({ progress }) => completedAll(
+      progress,
+      lessons.filter(lesson => lesson.category === 'opening').map(lesson => lesson.id)
+    )
+  },
+  {
+    id: 'all-lessons',
+    name: 'Lesson Master',
+    icon: '🎓',
+    description: 'Finish every lesson',
+    isEarned: ({ progress }) => completedAll(progress, lessons.map(lesson => lesson.id))
+  },
+  {
+    id: 'rating-800',
+    name: 'Rising Star',
+    icon: '📈',
+    description: 'Reach a rating of 800',
+    isEarned: ({ skills }) => (skills?.rating ?? 0) >= 800
+  },
+  {
+    id: 'rating-1000',
+    name: 'Club Player',
+    icon: '🏔️',
+    description: 'Reach a rating of 1000',
+    isEarned: ({ skills }) => (skills?.rating ?? 0) >= 1000
+  },
+  {
+    // Last, so badges earned at the same time count towards it
+    id: '10badges',
+    name: 'Collector',
+    icon: '🏅',
+    description: 'Earn 10 badges',
+    isEarned: ({ progress }) => progress.badgesEarned.length >= 10
+  }
+];
+
+/**
+ * Get an achievement by ID
+ */
+export function getAchievement(id: string): Achievement | undefined {
+  return ACHIEVEMENTS.find(achievement => achievement.id === id);
+}
+
+/**
+ * Find the achievements earned that the player does not have a badge for yet
+ */
+export function findNewAchievements(context: AchievementContext): Achievement[] {
+  const badgesEarned = [...context.progress.badgesEarned];
+  const unlocked: Achievement[] = [];
+
+  ACHIEVEMENTS.forEach(achievement => {
+    if (badgesEarned.includes(achievement.id)) return;
+
+    const progress = { ...context.progress, badgesEarned };
+    if (achievement.isEarned({ ...context, progress })) {
+      badgesEarned.push(achievement.id);
+      unlocked.push(achievement);
+    }
+  });
+
+  return unlocked;
+}
@@ -15,6 +15,8 @@ export interface GameAnalysis {
   openingName?: string;
   ratingChange: number;
   tacticsUsed: string[];       // ['fork', 'pin', ...]
+  captures: number;
+  promotions: number;
   phaseQuality: {
     opening: number;           // 0-100
     middlegame: number;
@@ -65,6 +67,8 @@ export class GameAnalyzer {
     let blunders = 0;
     let mistakes = 0;
     let brilliantMoves = 0;
+    let captures = 0;
+    let promotions = 0;
     const tacticsUsed = new Set<string>();
 
     // Analyze each player move
@@ -85,6 +89,8 @@ export class GameAnalyzer {
         if (quality.isBlunder) blunders++;
         if (quality.isMistake) mistakes++;
         if (quality.isBrilliant) brilliantMoves++;
+        if (move.capturedPiece) captures++;
+        if (move.isPromotion) promotions++;
 
         // Detect tactics
         const tactics = TacticalAnalyzer.analyzeMoveForTactics(
@@ -138,6 +144,8 @@ export class GameAnalyzer {
       openingName,
       ratingChange,
       tacticsUsed: Array.from(tacticsUsed),
+      captures,
+      promotions,
       phaseQuality,
       totalMoves: Math.floor(moves.length / 2),
       duration: Math.round(duration),
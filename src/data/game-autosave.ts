@@ -0,0 +1,105 @@
+/**
+ * Game Autosave Manager
+ *
+ * Keeps unfinished games so they can be continued after a reload
+ */
+
+import { storageManager } from './storage-manager';
+import { userManager } from './user-manager';
+import type { GameSnapshot } from '../core/game-state';
+import type { TimeControl, ClockSnapshot } from '../core/clock';
+import type { AIStyleId } from '../ai/ai-styles';
+import type { TakeBackMode } from './take-back-policy';
+
+/**
+ * Most unfinished games kept per user (the oldest are dropped)
+ */
+const MAX_AUTOSAVES_PER_USER = 5;
+
+export interface AutosavedGame extends GameSnapshot {
+  id: string;
+  userId: string;
+  mode: 'two-player' | 'vs-ai';
+  difficulty?: 'easy' | 'medium' | 'hard';
+  opponent?: string; // AI opponent ID
+  style?: AIStyleId; // AI playing style
+  playerColor?: 'white' | 'black';
+  timeControl?: TimeControl; // Only for games played with a clock
+  clock?: ClockSnapshot;
+  clockTimes?: number[]; // Mover's clock time left (ms) after each move
+  takeBacks?: number; // Moves taken back so far
+  takeBackMode?: TakeBackMode; // Take-back policy of an AI game
+  moveTimes: number[]; // Seconds per move
+  startedAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Game Autosave Manager
+ */
+export class GameAutosaveManager {
+  /**
+   * Save (or overwrite) an unfinished game for the current user
+   */
+  async save(game: Omit<AutosavedGame, 'userId' | 'updatedAt'>): Promise<AutosavedGame> {
+    const currentUser = userManager.getCurrentUser();
+    if (!currentUser) {
+      throw new Error('No user logged in');
+    }
+
+    const autosave: AutosavedGame = {
+      ...game,
+      userId: currentUser.id,
+      updatedAt: Date.now()
+    };
+
+    await storageManager.save('autosaves', autosave);
+
+    // Drop the oldest games beyond the limit
+    const games = await this.getUserAutosaves();
+    for (const old of games.slice(MAX_AUTOSAVES_PER_USER)) {
+      await this.delete(old.id);
+    }
+
+    return autosave;
+  }
+
+  /**
+   * Get the current user's unfinished games, most recently played first
+   */
+  async getUserAutosaves(): Promise<AutosavedGame[]> {
+    const currentUser = userManager.getCurrentUser();
+    if (!currentUser) {
+      return [];
+    }
+
+    const allGames = await storageManager.getAll('autosaves');
+    return allGames
+      .filter(game => game.userId === currentUser.id)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Get an unfinished game by ID
+   */
+  async get(id: string): Promise<AutosavedGame | undefined> {
+    return await storageManager.get('autosaves', id);
+  }
+
+  /**
+   * Delete an unfinished game (e.g. once it is over)
+   */
+  async delete(id: string): Promise<void> {
+    await storageManager.delete('autosaves', id);
+  }
+
+  /**
+   * Generate unique autosave ID
+   */
+  generateId(): string {
+    return `autosave_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+// Singleton instance
+export const gameAutosaveManager = new GameAutosaveManager();
@@ -6,19 +6,54 @@
 
 import { storageManager } from './storage-manager';
 import { userManager } from './user-manager';
+import { DrawReason, PieceColor } from '../core/types';
+import { STARTING_FEN, parseFEN } from '../core/fen';
+import { formatMoveText, formatPGN, formatPGNDate } from '../core/pgn';
+import type { PGNHeaders, PGNResult } from '../core/pgn';
+import { formatTimeControl } from '../core/clock';
+import type { TimeControl } from '../core/clock';
+import { VariantId, getVariant } from '../core/variants';
+import type { GameSnapshot } from '../core/game-state';
+import { detectOpening } from './opening-book';
+import type { Opening } from './opening-book';
+import { getOpponent } from '../ai/ai-opponents';
+import type { AIStyleId } from '../ai/ai-styles';
+import type { GameReview } from '../ai/game-reviewer';
+import type { TakeBackMode } from './take-back-policy';
+
+/**
+ * PGN result for each winner value
+ */
+const PGN_RESULTS: Record<'white' | 'black' | 'draw', PGNResult> = {
+  white: '1-0',
+  black: '0-1',
+  draw: '1/2-1/2'
+};
 
 export interface SavedGame {
   id: string;
   userId: string;
   mode: 'two-player' | 'vs-ai';
   difficulty?: 'easy' | 'medium' | 'hard';
+  opponent?: string; // AI opponent ID (games before the opponent ladder only have a difficulty)
+  style?: AIStyleId; // AI playing style (balanced if missing)
   playerColor?: 'white' | 'black'; // String literals to match storage
-  moves: string[]; // Algebraic notation
+  moves: string[]; // SAN
+  startFen?: string; // Only for games not starting from the standard position
+  variant?: VariantId; // Standard chess if missing
   result: 'win' | 'loss' | 'draw';
   winner?: 'white' | 'black' | 'draw';
+  drawReason?: DrawReason; // Only for drawn games
+  timeout?: boolean; // Won on time (the loser's clock ran out)
+  timeControl?: TimeControl; // Only for games played with a clock
+  clockTimes?: number[]; // Mover's clock time left (ms) after each move
+  takeBacks?: number; // Moves taken back (only if any were)
+  takeBackMode?: TakeBackMode; // Take-back policy of an AI game
   startedAt: number;
   completedAt: number;
   duration: number; // seconds
+  analysis?: GameReview; // Engine review (added when the game is reviewed)
+  puzzlesMinedAt?: number; // Last time the game was searched for puzzles
 }
 
 /**
@@ -36,7 +71,17 @@ export class GameHistoryManager {
     startedAt: number,
     options?: {
       difficulty?: 'easy' | 'medium' | 'hard';
+      opponent?: string;
+      style?: AIStyleId;
       playerColor?: 'white' | 'black';
+      drawReason?: DrawReason;
+      startFen?: string;
+      variant?: VariantId;
+      timeout?: boolean;
+      timeControl?: TimeControl;
+      clockTimes?: number[];
+      takeBacks?: number;
+      takeBackMode?: TakeBackMode;
     }
   ): Promise<SavedGame> {
     const currentUser = userManager.getCurrentUser();
@@ -49,10 +94,20 @@ export class GameHistoryManager {
       userId: currentUser.id,
       mode,
       difficulty: options?.difficulty,
+      opponent: options?.opponent,
+      style: options?.style,
       playerColor: options?.playerColor,
       moves,
       result,
       winner,
+      drawReason: options?.drawReason,
+      startFen: options?.startFen,
+      variant: options?.variant,
+      timeout: options?.timeout,
+      timeControl: options?.timeControl,
+      clockTimes: options?.clockTimes,
+      takeBacks: options?.takeBacks,
+      takeBackMode: options?.takeBackMode,
       startedAt,
       completedAt: Date.now(),
       duration: Math.floor((Date.now() - startedAt) / 1000)
@@ -114,6 +169,42 @@ export class GameHistoryManager {
     );
   }
 
+  /**
+   * Get games of one variant (games saved without a variant are standard chess)
+   */
+  async getGamesByVariant(variant: VariantId): Promise<SavedGame[]> {
+    const games = await this.getUserGames();
+    return games.filter(game => (game.variant ?? VariantId.STANDARD) === variant);
+  }
+
+  /**
+   * Store the engine review of a saved game
+   */
+  async saveReview(gameId: string, review: GameReview): Promise<SavedGame> {
+    const game = await this.getGame(gameId);
+    if (!game) {
+      throw new Error(`Game not found: ${gameId}`);
+    }
+
+    const reviewed: SavedGame = { ...game, analysis: review };
+    await storageManager.save('games', reviewed);
+    console.log(`✅ Game review saved: ${gameId}`);
+
+    return reviewed;
+  }
+
+  /**
+   * Record when a saved game was searched for puzzles
+   */
+  async savePuzzlesMined(gameId: string, minedAt: number): Promise<void> {
+    const game = await this.getGame(gameId);
+    if (!game) {
+      throw new Error(`Game not found: ${gameId}`);
+    }
+
+    await storageManager.save('games', { ...game, puzzlesMinedAt: minedAt });
+  }
+
   /**
    * Delete game
    */
@@ -178,6 +269,32 @@ export class GameHistoryManager {
     };
   }
 
+  /**
+   * Get win/loss/draw counts for each variant that has been played
+   */
+  async getVariantStats(): Promise<Array<{
+    variant: VariantId;
+    totalGames: number;
+    wins: number;
+    losses: number;
+    draws: number;
+  }>> {
+    const games = await this.getUserGames();
+    const stats = new Map<VariantId, { variant: VariantId; totalGames: number; wins: number; losses: number; draws: number }>();
+
+    for (const game of games) {
+      const variant = game.variant ?? VariantId.STANDARD;
+      const entry = stats.get(variant) ?? { variant, totalGames: 0, wins: 0, losses: 0, draws: 0 };
+      entry.totalGames++;
+      if (game.result === 'win') entry.wins++;
+      else if (game.result === 'loss') entry.losses++;
+      else entry.draws++;
+      stats.set(variant, entry);
+    }
+
+    return [...stats.values()];
+  }
+
   /**
    * Generate unique game ID
    */
@@ -185,6 +302,99 @@ export class GameHistoryManager {
     return `game_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Export a saved game as PGN
+   * @param playerName - Username of the player who saved the game
+   */
+  static toPGN(game: SavedGame, playerName: string): string {
+    const headers: PGNHeaders = {
+      ...GameHistoryManager.getPGNHeaders(game, playerName),
+      Result: game.winner ? PGN_RESULTS[game.winner] : '*'
+    };
+
+    const startFen = game.startFen ?? STARTING_FEN;
+    const start = parseFEN(startFen);
+    const variantName = getVariant(game.variant).pgnName ?? (start.castlingRights.rookFiles ? 'Chess960' : undefined);
+    if (variantName) {
+      headers.Variant = variantName;
+    }
+    if (startFen !== STARTING_FEN) {
+      headers.SetUp = '1';
+      headers.FEN = startFen;
+    }
+
+    if (game.timeControl) {
+      headers.TimeControl = formatTimeControl(game.timeControl);
+    }
+    if (game.timeout) {
+      headers.Termination = 'time forfeit';
+    }
+
+    const moveText = formatMoveText(
+      game.moves,
+      start.fullMoveNumber,
+      start.currentPlayer === PieceColor.BLACK,
+      game.clockTimes
+    );
+
+    return formatPGN(headers, moveText);
+  }
+
+  /**
+   * Snapshot of a saved game for ChessGame.loadSnapshot, cut off after a number of moves
+   * @param ply - Moves to keep (all of them by default)
+   */
+  static toSnapshot(game: SavedGame, ply: number = game.moves.length): GameSnapshot {
+    const moves = game.moves.slice(0, ply);
+    return {
+      startFen: game.startFen ?? STARTING_FEN,
+      moves,
+      currentMove: moves.length,
+      variant: game.variant
+    };
+  }
+
+  /**
+   * Find the opening a saved game followed (only standard games from the starting position)
+   */
+  static getOpening(game: SavedGame): Opening | null {
+    if (game.startFen || (game.variant && game.variant !== VariantId.STANDARD)) return null;
+    return detectOpening(game.moves);
+  }
+
+  /**
+   * Build the PGN Seven Tag Roster (except Result) for a game
+   * The AI opponent goes by its name, e.g. "Fox Forker (AI)", or by its
+   * difficulty for older games, e.g. "AI (Easy)".
+   */
+  static getPGNHeaders(
+    game: Pick<SavedGame, 'mode' | 'difficulty' | 'opponent' | 'playerColor' | 'startedAt'>,
+    playerName: string
+  ): Pick<PGNHeaders, 'Event' | 'Site' | 'Date' | 'Round' | 'White' | 'Black'> {
+    let white = playerName;
+    let black = '?';
+
+    if (game.mode === 'vs-ai') {
+      const difficulty = game.difficulty ?? 'medium';
+      const opponent = getOpponent(game.opponent);
+      const aiName = opponent
+        ? `${opponent.name} (AI)`
+        : `AI (${difficulty.charAt(0).toUpperCase() + difficulty.slice(1)})`;
+      const playsWhite = game.playerColor !== 'black';
+      white = playsWhite ? playerName : aiName;
+      black = playsWhite ? aiName : playerName;
+    }
+
+    return {
+      Event: game.mode === 'vs-ai' ? 'Game vs AI' : 'Two-player game',
+      Site: 'Chess Learning',
+      Date: formatPGNDate(new Date(game.startedAt)),
+      Round: '-',
+      White: white,
+      Black: black
+    };
+  }
+
   /**
    * Format duration for display
    */
@@ -194,6 +404,30 @@ export class GameHistoryManager {
     return `${minutes}m ${secs}s`;
   }
 
+  /**
+   * Format draw reason for display
+   */
+  static formatDrawReason(reason?: DrawReason | null): string {
+    switch (reason) {
+      case DrawReason.STALEMATE:
+        return 'Stalemate';
+      case DrawReason.FIFTY_MOVE_RULE:
+        return '50-move rule';
+      case DrawReason.SEVENTY_FIVE_MOVE_RULE:
+        return '75-move rule';
+      case DrawReason.THREEFOLD_REPETITION:
+        return 'Threefold repetition';
+      case DrawReason.FIVEFOLD_REPETITION:
+        return 'Fivefold repetition';
+      case DrawReason.INSUFFICIENT_MATERIAL:
+        return 'Not enough pieces to checkmate';
+      case DrawReason.TIMEOUT_VS_INSUFFICIENT_MATERIAL:
+        return 'Time out, but opponent cannot checkmate';
+      default:
+        return 'Draw';
+    }
+  }
+
   /**
    * Format date for display
    */
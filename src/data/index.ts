@@ -8,19 +8,61 @@ export { storageManager, StorageManager } from './storage-manager';
 export { 
   userManager, 
   UserManager, 
-  AVATARS 
+  AVATARS,
+  DEFAULT_PREFERENCES
 } from './user-manager';
-export type { User, Avatar } from './user-manager';
+export type { User, Avatar, UserPreferences, MoveInputMode, EvaluationHelp } from './user-manager';
 export { 
   gameHistoryManager, 
   GameHistoryManager 
 } from './game-history';
 export type { SavedGame } from './game-history';
+export { OPENINGS, detectOpening } from './opening-book';
+export type { Opening } from './opening-book';
+export {
+  gameAutosaveManager,
+  GameAutosaveManager
+} from './game-autosave';
+export type { AutosavedGame } from './game-autosave';
 export { 
   progressTracker, 
   ProgressTracker 
 } from './progress-tracker';
 export type { UserProgress } from './progress-tracker';
+export {
+  reviewLesson,
+  gradeLesson,
+  gradeStage,
+  getMastery,
+  getDueLessons,
+  recommendLessons
+} from './lesson-scheduler';
+export type {
+  LessonReview,
+  StageStats,
+  LessonRecommendation,
+  RecommendationReason
+} from './lesson-scheduler';
+export {
+  personalPuzzleManager,
+  PersonalPuzzleManager
+} from './personal-puzzles';
+export type { PersonalPuzzle } from './personal-puzzles';
+export { minePuzzles, needsMining, toPersonalPuzzle } from './puzzle-miner';
+export type { MinedPuzzle, MinedPuzzleReason } from './puzzle-miner';
+export { createSchedule, scheduleReview, isDue, DAY_MS } from './spaced-repetition';
+export type { ReviewSchedule, ReviewQuality } from './spaced-repetition';
+export { ACHIEVEMENTS, getAchievement, findNewAchievements } from './achievements';
+export type { Achievement, AchievementContext, GameAchievementContext } from './achievements';
+export {
+  TakeBackMode,
+  TAKE_BACK_POLICIES,
+  getTakeBackPolicy,
+  getTakeBacksLeft,
+  countTakeBack,
+  refundTakeBack
+} from './take-back-policy';
+export type { TakeBackPolicy } from './take-back-policy';
 
 // Skill tracking and analysis
 export { SkillEngine } from './skill-engine';
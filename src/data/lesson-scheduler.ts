@@ -0,0 +1,180 @@
+/**
+ * Lesson Scheduler
+ *
+ * Brings finished lessons back for review. Each run through a lesson is
+ * graded from how its stages went (wrong moves and hints lower the grade)
+ * and scheduled with spaced repetition. Mastery fades between reviews, so
+ * lessons not practised for a while are recommended again.
+ */
+
+import { createSchedule, scheduleReview, isDue, DAY_MS } from './spaced-repetition';
+import type { ReviewQuality, ReviewSchedule } from './spaced-repetition';
+import type { Lesson } from '../tutorial/lesson-library';
+import type { StageResult } from '../tutorial/tutorial-manager';
+
+/**
+ * Mastery halves over this many review intervals without practice
+ */
+const MASTERY_HALF_LIFE = 2;
+
+/**
+ * Mastery below which a lesson is recommended even before it is due
+ */
+const WEAK_MASTERY = 60;
+
+/**
+ * How one stage of a lesson went over all its reviews
+ */
+export interface StageStats {
+  stageId: string;
+  attempts: number; // Moves tried
+  successes: number; // Times the stage was finished
+  cleanSuccesses: number; // Times it was finished at the first try without hints
+  hintsUsed: number;
+}
+
+/**
+ * Review record of a finished lesson
+ */
+export interface LessonReview {
+  lessonId: string;
+  stages: StageStats[];
+  schedule: ReviewSchedule;
+  mastery: number; // 0-100 right after the last review
+  reviews: number;
+}
+
+/**
+ * Why a lesson is recommended
+ */
+export type RecommendationReason = 'due' | 'weak' | 'next';
+
+export interface LessonRecommendation {
+  lessonId: string;
+  reason: RecommendationReason;
+  mastery: number | null; // null if the lesson has no review record yet
+}
+
+/**
+ * The parts of a player's progress the scheduler needs
+ */
+export interface LessonProgressRecord {
+  lessonsCompleted: string[];
+  lessonReviews?: Record<string, LessonReview>;
+}
+
+/**
+ * Grade one stage: 5 at the first try without hints, lower with each wrong move or hint
+ */
+export function gradeStage(result: StageResult): ReviewQuality {
+  const mistakes = Math.max(0, result.attempts - 1);
+  if (result.hintsUsed === 0 && mistakes === 0) return 5;
+  if (result.hintsUsed === 0 && mistakes === 1) return 4;
+  if (result.hintsUsed + mistakes <= 2) return 3;
+  return result.hintsUsed + mistakes <= 4 ? 2 : 1;
+}
+
+/**
+ * Grade a run through a lesson from the grades of its stages
+ */
+export function gradeLesson(results: StageResult[]): ReviewQuality {
+  if (results.length === 0) return 0;
+  const total = results.reduce((sum, result) => sum + gradeStage(result), 0);
+  return Math.floor(total / results.length) as ReviewQuality;
+}
+
+/**
+ * Record a run through a lesson and schedule its next review
+ * @param previous - The lesson's review record so far (none the first time)
+ */
+export function reviewLesson(
+  lessonId: string,
+  results: StageResult[],
+  previous?: LessonReview,
+  now: number = Date.now()
+): LessonReview {
+  const stages = [...(previous?.stages ?? [])];
+  results.forEach(result => {
+    const index = stages.findIndex(stats => stats.stageId === result.stageId);
+    const stats = index === -1
+      ? { stageId: result.stageId, attempts: 0, successes: 0, cleanSuccesses: 0, hintsUsed: 0 }
+      : stages[index];
+    const updated: StageStats = {
+      ...stats,
+      attempts: stats.attempts + result.attempts,
+      successes: stats.successes + 1,
+      cleanSuccesses: stats.cleanSuccesses + (gradeStage(result) === 5 ? 1 : 0),
+      hintsUsed: stats.hintsUsed + result.hintsUsed
+    };
+    if (index === -1) stages.push(updated);
+    else stages[index] = updated;
+  });
+
+  const quality = gradeLesson(results);
+  return {
+    lessonId,
+    stages,
+    schedule: scheduleReview(previous?.schedule ?? createSchedule(now), quality, now),
+    mastery: quality * 20,
+    reviews: (previous?.reviews ?? 0) + 1
+  };
+}
+
+/**
+ * Get a lesson's mastery now (0-100): it halves every MASTERY_HALF_LIFE
+ * review intervals since the last review
+ */
+export function getMastery(review: LessonReview, now: number = Date.now()): number {
+  const lastReviewedAt = review.schedule.lastReviewedAt ?? now;
+  const elapsedDays = Math.max(0, now - lastReviewedAt) / DAY_MS;
+  const halfLife = MASTERY_HALF_LIFE * Math.max(1, review.schedule.interval);
+  return Math.round(review.mastery * Math.pow(0.5, elapsedDays / halfLife));
+}
+
+/**
+ * Get the finished lessons due for review, the least mastered first
+ * (lessons finished before they had a review record are due straight away)
+ */
+export function getDueLessons(
+  lessons: Lesson[],
+  progress: LessonProgressRecord,
+  now: number = Date.now()
+): LessonRecommendation[] {
+  const reviews = progress.lessonReviews ?? {};
+  return lessons
+    .filter(lesson => progress.lessonsCompleted.includes(lesson.id))
+    .filter(lesson => !reviews[lesson.id] || isDue(reviews[lesson.id].schedule, now))
+    .map(lesson => ({
+      lessonId: lesson.id,
+      reason: 'due' as const,
+      mastery: reviews[lesson.id] ? getMastery(reviews[lesson.id], now) : null
+    }))
+    .sort((a, b) => (a.mastery ?? -1) - (b.mastery ?? -1));
+}
+
+/**
+ * Recommend what to practise: lessons due for review, then weak lessons,
+ * then the first lesson not finished yet
+ */
+export function recommendLessons(
+  lessons: Lesson[],
+  progress: LessonProgressRecord,
+  now: number = Date.now(),
+  limit: number = 3
+): LessonRecommendation[] {
+  const due = getDueLessons(lessons, progress, now);
+
+  const weak: LessonRecommendation[] = Object.values(progress.lessonReviews ?? {})
+    .filter(review => lessons.some(lesson => lesson.id === review.lessonId))
+    .filter(review => !due.some(item => item.lessonId === review.lessonId))
+    .map(review => ({ lessonId: review.lessonId, reason: 'weak' as const, mastery: getMastery(review, now) }))
+    .filter(item => item.mastery < WEAK_MASTERY)
+    .sort((a, b) => a.mastery - b.mastery);
+
+  const nextLesson = lessons.find(lesson => !progress.lessonsCompleted.includes(lesson.id));
+  const next: LessonRecommendation[] = nextLesson
+    ? [{ lessonId: nextLesson.id, reason: 'next', mastery: null }]
+    : [];
+
+  return [...due, ...weak, ...next].slice(0, limit);
+}
@@ -0,0 +1,88 @@
+/**
+ * Opening Book
+ *
+ * Named openings kids are likely to meet, with their ECO codes and main
+ * line in SAN. A game is matched against the longest line it follows.
+ */
+
+/**
+ * A named opening
+ */
+export interface Opening {
+  eco: string; // Encyclopaedia of Chess Openings code
+  name: string;
+  moves: string[]; // SAN from the standard starting position
+}
+
+export const OPENINGS: Opening[] = [
+  { eco: 'B00', name: "King's Pawn Opening", moves: ['e4'] },
+  { eco: 'C20', name: "King's Pawn Game", moves: ['e4', 'e5'] },
+  { eco: 'C40', name: "King's Knight Opening", moves: ['e4', 'e5', 'Nf3'] },
+  { eco: 'C44', name: "King's Knight Opening: Normal Variation", moves: ['e4', 'e5', 'Nf3', 'Nc6'] },
+  { eco: 'C60', name: 'Ruy Lopez', moves: ['e4', 'e5', 'Nf3', 'Nc6', 'Bb5'] },
+  { eco: 'C68', name: 'Ruy Lopez: Exchange Variation', moves: ['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6', 'Bxc6'] },
+  { eco: 'C50', name: 'Italian Game', moves: ['e4', 'e5', 'Nf3', 'Nc6', 'Bc4'] },
+  { eco: 'C50', name: 'Italian Game: Giuoco Piano', moves: ['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Bc5'] },
+  { eco: 'C55', name: 'Italian Game: Two Knights Defense', moves: ['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Nf6'] },
+  { eco: 'C57', name: 'Italian Game: Fried Liver Attack', moves: ['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Nf6', 'Ng5', 'd5', 'exd5', 'Nxd5', 'Nxf7'] },
+  { eco: 'C45', name: 'Scotch Game', moves: ['e4', 'e5', 'Nf3', 'Nc6', 'd4'] },
+  { eco: 'C46', name: 'Four Knights Game', moves: ['e4', 'e5', 'Nf3', 'Nc6', 'Nc3', 'Nf6'] },
+  { eco: 'C42', name: 'Petrov Defense', moves: ['e4', 'e5', 'Nf3', 'Nf6'] },
+  { eco: 'C41', name: 'Philidor Defense', moves: ['e4', 'e5', 'Nf3', 'd6'] },
+  { eco: 'C23', name: "Bishop's Opening", moves: ['e4', 'e5', 'Bc4'] },
+  { eco: 'C25', name: 'Vienna Game', moves: ['e4', 'e5', 'Nc3'] },
+  { eco: 'C30', name: "King's Gambit", moves: ['e4', 'e5', 'f4'] },
+  { eco: 'C20', name: "King's Pawn Game: Wayward Queen Attack", moves: ['e4', 'e5', 'Qh5'] },
+  { eco: 'B20', name: 'Sicilian Defense', moves: ['e4', 'c5'] },
+  { eco: 'B90', name: 'Sicilian Defense: Najdorf Variation', moves: ['e4', 'c5', 'Nf3', 'd6', 'd4', 'cxd4', 'Nxd4', 'Nf6', 'Nc3', 'a6'] },
+  { eco: 'B70', name: 'Sicilian Defense: Dragon Variation', moves: ['e4', 'c5', 'Nf3', 'd6', 'd4', 'cxd4', 'Nxd4', 'Nf6', 'Nc3', 'g6'] },
+  { eco: 'B23', name: 'Sicilian Defense: Closed', moves: ['e4', 'c5', 'Nc3'] },
+  { eco: 'C00', name: 'French Defense', moves: ['e4', 'e6'] },
+  { eco: 'B10', name: 'Caro-Kann Defense', moves: ['e4', 'c6'] },
+  { eco: 'B01', name: 'Scandinavian Defense', moves: ['e4', 'd5'] },
+  { eco: 'B07', name: 'Pirc Defense', moves: ['e4', 'd6', 'd4', 'Nf6', 'Nc3', 'g6'] },
+  { eco: 'B02', name: "Alekhine's Defense", moves: ['e4', 'Nf6'] },
+  { eco: 'B06', name: 'Modern Defense', moves: ['e4', 'g6'] },
+  { eco: 'A40', name: "Queen's Pawn Opening", moves: ['d4'] },
+  { eco: 'D00', name: "Queen's Pawn Game", moves: ['d4', 'd5'] },
+  { eco: 'D02', name: 'London System', moves: ['d4', 'd5', 'Nf3', 'Nf6', 'Bf4'] },
+  { eco: 'D06', name: "Queen's Gambit", moves: ['d4', 'd5', 'c4'] },
+  { eco: 'D20', name: "Queen's Gambit Accepted", moves: ['d4', 'd5', 'c4', 'dxc4'] },
+  { eco: 'D30', name: "Queen's Gambit Declined", moves: ['d4', 'd5', 'c4', 'e6'] },
+  { eco: 'D10', name: 'Slav Defense', moves: ['d4', 'd5', 'c4', 'c6'] },
+  { eco: 'A45', name: 'Indian Defense', moves: ['d4', 'Nf6'] },
+  { eco: 'E60', name: "King's Indian Defense", moves: ['d4', 'Nf6', 'c4', 'g6'] },
+  { eco: 'D80', name: 'Grünfeld Defense', moves: ['d4', 'Nf6', 'c4', 'g6', 'Nc3', 'd5'] },
+  { eco: 'E20', name: 'Nimzo-Indian Defense', moves: ['d4', 'Nf6', 'c4', 'e6', 'Nc3', 'Bb4'] },
+  { eco: 'A80', name: 'Dutch Defense', moves: ['d4', 'f5'] },
+  { eco: 'A10', name: 'English Opening', moves: ['c4'] },
+  { eco: 'A04', name: 'Réti Opening', moves: ['Nf3'] },
+  { eco: 'A01', name: "Larsen's Opening", moves: ['b3'] },
+  { eco: 'A00', name: 'Van Geet Opening', moves: ['Nc3'] }
+];
+
+/**
+ * Strip check, mate and annotation marks from a SAN move
+ */
+function normalizeSAN(san: string): string {
+  return san.replace(/[+#!?]/g, '');
+}
+
+/**
+ * Find the opening a game follows (the longest matching book line)
+ * @param moves - The game's moves in SAN, from the standard starting position
+ * @returns The opening, or null if the game leaves the book at once
+ */
+export function detectOpening(moves: string[]): Opening | null {
+  const played = moves.map(normalizeSAN);
+  let best: Opening | null = null;
+
+  for (const opening of OPENINGS) {
+    if (opening.moves.length > played.length) continue;
+    if (best && opening.moves.length <= best.moves.length) continue;
+    if (opening.moves.every((move, i) => move === played[i])) {
+      best = opening;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,125 @@
+/**
+ * Personal Puzzle Manager
+ *
+ * Keeps the puzzles mined from the player's own games and schedules them
+ * for review with spaced repetition: a puzzle solved cleanly comes back
+ * after longer and longer breaks, a missed one comes back tomorrow.
+ */
+
+import { storageManager } from './storage-manager';
+import { userManager } from './user-manager';
+import { gameHistoryManager } from './game-history';
+import { minePuzzles, needsMining, toPersonalPuzzle } from './puzzle-miner';
+import type { MinedPuzzle } from './puzzle-miner';
+import { scheduleReview, isDue } from './spaced-repetition';
+import type { ReviewQuality, ReviewSchedule } from './spaced-repetition';
+import type { SavedGame } from './game-history';
+import type { PuzzleOutcome } from '../tutorial/puzzle-trainer';
+
+/**
+ * How a puzzle outcome is graded for its next review
+ */
+const OUTCOME_QUALITY: Record<PuzzleOutcome, ReviewQuality> = {
+  solved: 5,
+  failed: 1
+};
+
+export interface PersonalPuzzle extends MinedPuzzle {
+  userId: string;
+  createdAt: number;
+  schedule: ReviewSchedule;
+}
+
+/**
+ * Personal Puzzle Manager
+ */
+export class PersonalPuzzleManager {
+  /**
+   * Store the puzzles of a saved game for the game's player (games already
+   * searched are skipped until they are reviewed)
+   * @returns The puzzles that were new or replaced
+   */
+  async mineGame(game: SavedGame): Promise<PersonalPuzzle[]> {
+    if (!needsMining(game)) return [];
+
+    const now = Date.now();
+    const added: PersonalPuzzle[] = [];
+
+    for (const mined of await minePuzzles(game)) {
+      const puzzle = toPersonalPuzzle(mined, await storageManager.get('puzzles', mined.id), game.userId, now);
+      if (!puzzle) continue;
+
+      await storageManager.save('puzzles', puzzle);
+      added.push(puzzle);
+    }
+    await gameHistoryManager.savePuzzlesMined(game.id, now);
+
+    if (added.length > 0) {
+      console.log(`✅ ${added.length} puzzle(s) found in game ${game.id}`);
+    }
+    return added;
+  }
+
+  /**
+   * Store the puzzles of several saved games
+   * @returns The puzzles that were new or replaced
+   */
+  async mineGames(games: SavedGame[]): Promise<PersonalPuzzle[]> {
+    const added: PersonalPuzzle[] = [];
+    for (const game of games) {
+      added.push(...await this.mineGame(game));
+    }
+    return added;
+  }
+
+  /**
+   * Get the current user's puzzles, the ones due soonest first
+   */
+  async getUserPuzzles(): Promise<PersonalPuzzle[]> {
+    const currentUser = userManager.getCurrentUser();
+    if (!currentUser) {
+      return [];
+    }
+
+    const allPuzzles = await storageManager.getAll('puzzles');
+    return allPuzzles
+      .filter(puzzle => puzzle.userId === currentUser.id)
+      .sort((a, b) => a.schedule.dueAt - b.schedule.dueAt);
+  }
+
+  /**
+   * Get the current user's puzzles that are due for review
+   */
+  async getDuePuzzles(now: number = Date.now()): Promise<PersonalPuzzle[]> {
+    const puzzles = await this.getUserPuzzles();
+    return puzzles.filter(puzzle => isDue(puzzle.schedule, now));
+  }
+
+  /**
+   * Schedule a puzzle's next review from how it went
+   * @throws Error if the puzzle does not exist
+   */
+  async recordReview(puzzleId: string, outcome: PuzzleOutcome): Promise<PersonalPuzzle> {
+    const puzzle = await storageManager.get('puzzles', puzzleId);
+    if (!puzzle) {
+      throw new Error(`Puzzle not found: ${puzzleId}`);
+    }
+
+    const reviewed: PersonalPuzzle = {
+      ...puzzle,
+      schedule: scheduleReview(puzzle.schedule, OUTCOME_QUALITY[outcome])
+    };
+    await storageManager.save('puzzles', reviewed);
+    return reviewed;
+  }
+
+  /**
+   * Delete a puzzle
+   */
+  async delete(puzzleId: string): Promise<void> {
+    await storageManager.delete('puzzles', puzzleId);
+  }
+}
+
+// Singleton instance
+export const personalPuzzleManager = new PersonalPuzzleManager();
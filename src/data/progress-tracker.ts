@@ -6,6 +6,12 @@
 
 import { storageManager } from './storage-manager';
 import { userManager } from './user-manager';
+import { findNewAchievements } from './achievements';
+import type { Achievement, GameAchievementContext } from './achievements';
+import { reviewLesson, getDueLessons, recommendLessons } from './lesson-scheduler';
+import type { LessonReview, LessonRecommendation } from './lesson-scheduler';
+import { lessons } from '../tutorial/lesson-library';
+import type { StageResult } from '../tutorial/tutorial-manager';
 
 export interface UserProgress {
   userId: string;
@@ -27,6 +33,7 @@ export interface UserProgress {
     hard: number;
   };
   lessonsCompleted: string[];
+  lessonReviews?: Record<string, LessonReview>; // By lesson ID (missing until a lesson is reviewed)
   badgesEarned: string[];
 }
 
@@ -126,6 +133,44 @@ export class ProgressTracker {
     }
   }
 
+  /**
+   * Record how a lesson went and schedule its next review
+   * @returns The lesson's review record, or null if there is no progress to add it to
+   */
+  async recordLessonReview(lessonId: string, results: StageResult[]): Promise<LessonReview | null> {
+    const currentUser = userManager.getCurrentUser();
+    if (!currentUser) {
+      return null;
+    }
+
+    const progress = await storageManager.get('progress', currentUser.id);
+    if (!progress) {
+      return null;
+    }
+
+    const review = reviewLesson(lessonId, results, progress.lessonReviews?.[lessonId]);
+    progress.lessonReviews = { ...progress.lessonReviews, [lessonId]: review };
+    await storageManager.save('progress', progress);
+
+    return review;
+  }
+
+  /**
+   * Get the current user's lessons due for review today
+   */
+  async getDueLessons(): Promise<LessonRecommendation[]> {
+    const progress = await this.getUserProgress();
+    return progress ? getDueLessons(lessons, progress) : [];
+  }
+
+  /**
+   * Get the lessons the current user should practise next
+   */
+  async getLessonRecommendations(limit?: number): Promise<LessonRecommendation[]> {
+    const progress = await this.getUserProgress();
+    return progress ? recommendLessons(lessons, progress, Date.now(), limit) : [];
+  }
+
   /**
    * Add earned badge
    */
@@ -148,6 +193,33 @@ export class ProgressTracker {
     }
   }
 
+  /**
+   * Award the badges the player has just earned
+   * @param game - The game that just ended (none after a lesson)
+   * @returns The achievements unlocked
+   */
+  async checkAchievements(game?: GameAchievementContext): Promise<Achievement[]> {
+    const currentUser = userManager.getCurrentUser();
+    if (!currentUser) {
+      return [];
+    }
+
+    const progress = await storageManager.get('progress', currentUser.id);
+    if (!progress) {
+      return [];
+    }
+
+    const skills = await storageManager.get('skills', currentUser.id);
+    const unlocked = findNewAchievements({ progress, skills: skills ?? null, game });
+    if (unlocked.length > 0) {
+      progress.badgesEarned.push(...unlocked.map(achievement => achievement.id));
+      await storageManager.save('progress', progress);
+      unlocked.forEach(achievement => console.log(`✅ Badge earned: ${achievement.id}`));
+    }
+
+    return unlocked;
+  }
+
   /**
    * Check if badge is earned
    */
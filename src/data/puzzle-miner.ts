@@ -0,0 +1,331 @@
+/**
+ * Puzzle Miner
+ *
+ * Turns the player's own mistakes into "find the better move" puzzles.
+ * Every saved game is checked for checkmates the player missed and, with
+ * the tactical analyzer, for pieces left hanging and tactics not played:
+ * a capture or tactic (or, after a move that lost material, any move) that
+ * would have won clearly more material than the move played. Reviewed games
+ * also give a puzzle for each move the engine marked as a mistake or
+ * blunder, with the engine's move as the solution and the tactic it plays
+ * as the theme.
+ */
+
+import { ChessGame } from '../core/game-state';
+import type { HistoryEntry } from '../core/move-history';
+import type { Board, GameState, Move, Position } from '../core/types';
+import { GameStatus, PieceColor } from '../core/types';
+import { STARTING_FEN, toFEN } from '../core/fen';
+import { createStateFromFEN } from '../core/perft';
+import { makeMoveInPlace, unmakeMove, generateLegalMoves } from '../core/move-executor';
+import { findPieces } from '../core/board';
+import { getPseudoLegalMoves } from '../core/pieces';
+import { isInCheck } from '../core/move-validator';
+import { VariantId } from '../core/variants';
+import { positionsEqual } from '../utils/coordinates';
+import { TacticalAnalyzer } from './tactical-analyzer';
+import { createSchedule } from './spaced-repetition';
+import type { SavedGame } from './game-history';
+import type { PersonalPuzzle } from './personal-puzzles';
+import type { Puzzle, PuzzleTheme } from '../tutorial/puzzle-library';
+
+/**
+ * Why a position became a puzzle
+ */
+export type MinedPuzzleReason = 'missed-mate' | 'mistake' | 'blunder';
+
+/**
+ * Rough difficulty of each kind of puzzle (a mistake is subtler than a blunder)
+ */
+const MINED_PUZZLE_RATINGS: Record<MinedPuzzleReason, number> = {
+  'missed-mate': 500,
+  blunder: 600,
+  mistake: 750
+};
+
+/**
+ * Material (in centipawns) a move must win over the move played to count as
+ * missed, and to count as a blunder (the tactical analyzer's thresholds)
+ */
+const MISTAKE_GAIN = 100;
+const BLUNDER_GAIN = 200;
+
+/**
+ * Captures followed after the opponent's reply when counting material won
+ */
+const CAPTURE_DEPTH = 3;
+
+/**
+ * A puzzle taken from one of the player's games
+ */
+export interface MinedPuzzle extends Puzzle {
+  gameId: string;
+  ply: number; // Moves played before the puzzle position
+  played: string; // SAN of the move the player made instead
+  reason: MinedPuzzleReason;
+  fromReview: boolean; // Solution is the move the engine review found
+}
+
+/**
+ * What the finders below fill in (minePuzzles adds the game and move)
+ */
+type FoundPuzzle = Omit<MinedPuzzle, 'id' | 'gameId' | 'ply' | 'played'>;
+
+/**
+ * Find the puzzles in a saved game (only standard chess: puzzles are played
+ * without variant rules). The search yields between moves so the UI stays
+ * responsive.
+ */
+export async function minePuzzles(game: SavedGame): Promise<MinedPuzzle[]> {
+  if ((game.variant ?? VariantId.STANDARD) !== VariantId.STANDARD) return [];
+
+  const replay = new ChessGame();
+  try {
+    replay.loadSnapshot({
+      startFen: game.startFen ?? STARTING_FEN,
+      moves: game.moves,
+      currentMove: game.moves.length
+    });
+  } catch (error) {
+    console.warn(`Game ${game.id} could not be replayed for puzzles:`, error);
+    return [];
+  }
+
+  // In two-player games the user played both sides
+  const playerColors = game.playerColor
+    ? [game.playerColor === 'white' ? PieceColor.WHITE : PieceColor.BLACK]
+    : [PieceColor.WHITE, PieceColor.BLACK];
+
+  const mined: MinedPuzzle[] = [];
+  const entries = replay.getHistory().getAllMoves();
+  for (const [ply, entry] of entries.entries()) {
+    if (!playerColors.includes(entry.move.piece.color)) continue;
+
+    const puzzle = findMissedMate(entry)
+      ?? findBetterMove(game, entry, ply)
+      ?? findMissedTactic(entry, entries[ply + 1]);
+    if (puzzle) {
+      mined.push({ ...puzzle, id: `${game.id}-${ply}`, gameId: game.id, ply, played: entry.notation });
+    }
+
+    // Let the UI through before searching the next move
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  return mined;
+}
+
+/**
+ * Check if a saved game has to be searched for puzzles: it never was, or it
+ * has been reviewed by the engine since
+ */
+export function needsMining(game: SavedGame): boolean {
+  if (game.puzzlesMinedAt === undefined) return true;
+  return !!game.analysis && game.analysis.reviewedAt >= game.puzzlesMinedAt;
+}
+
+/**
+ * Turn a mined puzzle into the puzzle to store. A puzzle from the engine
+ * review replaces one found without it (keeping its review schedule);
+ * otherwise puzzles already stored stay as they are.
+ * @returns null if nothing needs to be stored
+ */
+export function toPersonalPuzzle(
+  mined: MinedPuzzle,
+  stored: PersonalPuzzle | undefined,
+  userId: string,
+  now: number = Date.now()
+): PersonalPuzzle | null {
+  if (!stored) {
+    return { ...mined, userId, createdAt: now, schedule: createSchedule(now) };
+  }
+  if (mined.fromReview && !stored.fromReview) {
+    return { ...mined, userId: stored.userId, createdAt: stored.createdAt, schedule: stored.schedule };
+  }
+  return null;
+}
+
+/**
+ * Puzzle for a checkmate in one the player did not play
+ */
+function findMissedMate(entry: HistoryEntry): FoundPuzzle | null {
+  if (entry.stateAfter.status === GameStatus.CHECKMATE) return null;
+
+  const fen = toFEN(entry.stateBefore);
+  const position = ChessGame.fromFEN(fen);
+  for (const move of position.getAllLegalMoves(entry.move.piece.color)) {
+    position.makeMove(move.from, move.to, move.promotionPiece);
+    const isMate = position.getStatus() === GameStatus.CHECKMATE;
+    const san = position.getHistory().getLastMove()?.notation;
+    position.undo();
+
+    if (isMate && san) {
+      return { fen, solution: [san], themes: ['mate'], rating: MINED_PUZZLE_RATINGS['missed-mate'], reason: 'missed-mate', fromReview: false };
+    }
+  }
+  return null;
+}
+
+/**
+ * Puzzle for a move the engine review marked as a mistake or blunder
+ */
+function findBetterMove(
+  game: SavedGame,
+  entry: HistoryEntry,
+  ply: number
+): FoundPuzzle | null {
+  const review = game.analysis?.moves[ply];
+  if (!review?.bestMove || (review.label !== 'mistake' && review.label !== 'blunder')) return null;
+
+  const fen = toFEN(entry.stateBefore);
+  const position = ChessGame.fromFEN(fen);
+  try {
+    position.makeSANMove(review.bestMove);
+  } catch {
+    return null; // Review does not match the game
+  }
+
+  const best = position.getHistory().getLastMove()!;
+  const themes: PuzzleTheme[] = TacticalAnalyzer
+    .analyzeMoveForTactics(best.stateBefore.board, best.stateAfter.board, best.move)
+    .map(tactic => tactic.type);
+  if (position.getStatus() === GameStatus.CHECKMATE) themes.push('mate');
+
+  return {
+    fen,
+    solution: [review.bestMove],
+    themes: [...new Set(themes)],
+    rating: MINED_PUZZLE_RATINGS[review.label],
+    reason: review.label,
+    fromReview: true
+  };
+}
+
+/**
+ * Puzzle for a capture or tactic that wins clearly more material than the
+ * move played (a piece left hanging, a fork not played...)
+ * @param reply - The opponent's answer in the game, if any
+ */
+function findMissedTactic(
+  entry: HistoryEntry,
+  reply?: HistoryEntry
+): FoundPuzzle | null {
+  if (entry.stateAfter.status === GameStatus.CHECKMATE) return null;
+
+  const color = entry.move.piece.color;
+  const boardBefore = entry.stateBefore.board;
+
+  // After a move that lost material to the reply, any move may be the better one
+  const quality = reply && TacticalAnalyzer.evaluateMoveQuality(boardBefore, reply.stateAfter.board, entry.move, color);
+  const lostMaterial = !!quality && (quality.isBlunder || quality.isMistake);
+
+  const fen = toFEN(entry.stateBefore);
+  const state = createStateFromFEN(fen);
+  const played = materialAfterReply(state, entry.move);
+  const floor = played + MISTAKE_GAIN;
+
+  const candidates = generateLegalMoves(state, color, false)
+    .filter(move => !positionsEqual(move.from, entry.move.from) || !positionsEqual(move.to, entry.move.to))
+    .map(move => {
+      const undo = makeMoveInPlace(state, move.from, move.to, move.promotionPiece);
+      const tactics = TacticalAnalyzer.analyzeMoveForTactics(boardBefore, state.board, undo.move);
+      unmakeMove(state, undo);
+      return { move, tactics };
+    })
+    .filter(({ move, tactics }) => lostMaterial || !!move.capturedPiece || tactics.length > 0)
+    .map(candidate => ({ ...candidate, gain: materialAfterReply(state, candidate.move, floor) - played }))
+    .sort((a, b) => b.gain - a.gain);
+
+  // Only a move clearly better than every other makes a fair puzzle
+  const [best, runnerUp] = candidates;
+  if (!best || best.gain <= MISTAKE_GAIN) return null;
+  if (runnerUp && best.gain - runnerUp.gain <= MISTAKE_GAIN) return null;
+
+  const position = ChessGame.fromFEN(fen);
+  position.makeMove(best.move.from, best.move.to, best.move.promotionPiece);
+  const reason: MinedPuzzleReason = best.gain > BLUNDER_GAIN ? 'blunder' : 'mistake';
+
+  return {
+    fen,
+    solution: [position.getHistory().getLastMove()!.notation],
+    themes: [...new Set(best.tactics.map(tactic => tactic.type))],
+    rating: MINED_PUZZLE_RATINGS[reason],
+    reason,
+    fromReview: false
+  };
+}
+
+/**
+ * Material balance for the side making a move once the opponent has made
+ * their best reply and the captures that follow are played out
+ * @param floor - Stop at the first reply that holds the balance to this or less
+ */
+function materialAfterReply(state: GameState, move: Move, floor: number = -Infinity): number {
+  const color = state.currentPlayer;
+  const undo = makeMoveInPlace(state, move.from, move.to, move.promotionPiece);
+
+  // Captures first: they are the likeliest refutations
+  const replies = generateLegalMoves(state, state.currentPlayer, false)
+    .sort((a, b) => Number(!!b.capturedPiece) - Number(!!a.capturedPiece));
+  let worst = replies.length === 0 ? materialBalance(state.board, color) : Infinity;
+  for (const reply of replies) {
+    const replyUndo = makeMoveInPlace(state, reply.from, reply.to, reply.promotionPiece);
+    worst = Math.min(worst, captureBalance(state, CAPTURE_DEPTH, -Infinity, worst));
+    unmakeMove(state, replyUndo);
+    if (worst <= floor) break;
+  }
+
+  unmakeMove(state, undo);
+  return worst;
+}
+
+/**
+ * Material balance for the side to move when it captures as long as that
+ * pays off (it may also stop capturing at any point), searched within
+ * the alpha-beta window
+ */
+function captureBalance(state: GameState, depth: number, alpha: number, beta: number): number {
+  const standPat = materialBalance(state.board, state.currentPlayer);
+  if (depth === 0 || standPat >= beta) return standPat;
+  alpha = Math.max(alpha, standPat);
+
+  for (const capture of generateCaptures(state)) {
+    const undo = makeMoveInPlace(state, capture.from, capture.to);
+    const score = -captureBalance(state, depth - 1, -beta, -alpha);
+    unmakeMove(state, undo);
+
+    if (score >= beta) return score;
+    alpha = Math.max(alpha, score);
+  }
+  return alpha;
+}
+
+/**
+ * Legal captures for the side to move (cheaper than generating every move)
+ */
+function generateCaptures(state: GameState): Array<{ from: Position; to: Position }> {
+  const color = state.currentPlayer;
+  const captures: Array<{ from: Position; to: Position }> = [];
+
+  findPieces(state.board, piece => piece.color === color).forEach(({ piece, position: from }) => {
+    getPseudoLegalMoves(state.board, from, piece)
+      .filter(to => {
+        const target = state.board[to.row][to.col];
+        return !!target && target.color !== color;
+      })
+      .forEach(to => {
+        const undo = makeMoveInPlace(state, from, to);
+        if (!isInCheck(state.board, color)) captures.push({ from, to });
+        unmakeMove(state, undo);
+      });
+  });
+  return captures;
+}
+
+/**
+ * Material of a color minus the material of its opponent
+ */
+function materialBalance(board: Board, color: PieceColor): number {
+  const opponent = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+  return TacticalAnalyzer.countMaterial(board, color) - TacticalAnalyzer.countMaterial(board, opponent);
+}
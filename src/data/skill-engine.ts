@@ -3,6 +3,9 @@
  * Implements kid-friendly Elo system and tactical skill analysis
  */
 
+import { getOpponentForRating, type AIOpponent } from '../ai/ai-opponents';
+import type { TacticType } from './tactical-analyzer';
+
 export type SkillLevel = 'beginner' | 'developing' | 'intermediate' | 'advanced';
 export type AIDifficulty = 'easy' | 'medium' | 'hard';
 
@@ -30,13 +33,14 @@ export interface SkillProfile {
   gamesPlayed: number;
   lastUpdated: number;
   ratingHistory: RatingHistoryEntry[];
+  puzzleRating?: number;             // Missing until the first puzzle
 }
 
 export interface RatingHistoryEntry {
   timestamp: number;
   rating: number;
   change: number;
-  opponent: string;                  // 'AI-Easy', 'AI-Medium', 'AI-Hard', or 'Player'
+  opponent: string;                  // AI opponent name (e.g. 'Fox Forker'), 'AI-Easy' in older entries, or 'Player'
 }
 
 export interface RatingChange {
@@ -45,11 +49,22 @@ export interface RatingChange {
   reason: string;
 }
 
+/**
+ * Tactical skill trained by each tactic
+ */
+const TACTIC_SKILLS: Partial<Record<TacticType, keyof TacticalSkills>> = {
+  fork: 'forks',
+  pin: 'pins',
+  skewer: 'skewers',
+  discovered_attack: 'discoveredAttacks',
+};
+
 export class SkillEngine {
   private static readonly K_FACTOR = 32;  // Standard Elo K-factor
   private static readonly MIN_RATING = 400;
   private static readonly MAX_RATING = 1600;
   private static readonly STARTING_RATING = 600;
+  private static readonly TAKE_BACK_WEIGHT = 0.25;  // Share of a rating gain lost per take-back
   
   // AI difficulty mapped to approximate ratings
   private static readonly AI_RATINGS = {
@@ -87,17 +102,20 @@ export class SkillEngine {
 
   /**
    * Calculate new rating after a game (kid-friendly adjustments)
+   * @param opponentRating - Rating of a human opponent or named AI opponent
+   *                         (AI games fall back to the difficulty's rating)
+   * @param takeBacks - Moves the player took back (each one shrinks a gain)
    */
   static calculateRatingChange(
     playerRating: number,
     opponent: AIDifficulty | 'player',
     result: 'win' | 'loss' | 'draw',
-    opponentRating?: number
+    opponentRating?: number,
+    takeBacks: number = 0
   ): RatingChange {
     // Get opponent strength
-    const opponentStrength = opponent === 'player' 
-      ? (opponentRating || playerRating)
-      : this.AI_RATINGS[opponent];
+    const opponentStrength = opponentRating
+      ?? (opponent === 'player' ? playerRating : this.AI_RATINGS[opponent]);
 
     // Calculate expected score (standard Elo)
     const expected = 1 / (1 + Math.pow(10, (opponentStrength - playerRating) / 400));
@@ -124,6 +142,11 @@ export class SkillEngine {
       // Floor on losses - don't lose more than 10 points
       change = Math.max(change, -10);
     }
+
+    // Take-backs make gains smaller (losses stay as they are)
+    if (takeBacks > 0 && change > 0) {
+      change = Math.round(change * Math.max(0, 1 - takeBacks * this.TAKE_BACK_WEIGHT));
+    }
     
     // Calculate new rating (enforce bounds)
     const newRating = Math.max(
@@ -132,7 +155,7 @@ export class SkillEngine {
     );
     
     // Generate reason text
-    const reason = this.generateRatingReason(result, change, opponent);
+    const reason = this.generateRatingReason(result, change, opponent, takeBacks);
     
     return {
       newRating,
@@ -141,6 +164,35 @@ export class SkillEngine {
     };
   }
 
+  /**
+   * Get the player's puzzle rating (the starting rating before any puzzle)
+   */
+  static getPuzzleRating(profile: SkillProfile): number {
+    return profile.puzzleRating ?? this.STARTING_RATING;
+  }
+
+  /**
+   * Calculate new puzzle rating after a puzzle (the puzzle is the opponent)
+   */
+  static calculatePuzzleRatingChange(
+    playerRating: number,
+    puzzleRating: number,
+    solved: boolean
+  ): RatingChange {
+    const { newRating, change } = this.calculateRatingChange(
+      playerRating,
+      'player',
+      solved ? 'win' : 'loss',
+      puzzleRating
+    );
+
+    return {
+      newRating,
+      change,
+      reason: solved ? `Solved a puzzle rated ${puzzleRating}` : `Missed a puzzle rated ${puzzleRating}`,
+    };
+  }
+
   /**
    * Determine skill level from rating
    */
@@ -180,9 +232,19 @@ export class SkillEngine {
    * Suggest AI difficulty based on player rating
    */
   static suggestAIDifficulty(rating: number): AIDifficulty {
-    if (rating < 700) return 'easy';
-    if (rating < 1000) return 'medium';
-    return 'hard';
+    return this.suggestAIOpponent(rating).difficulty;
+  }
+
+  /**
+   * Suggest a named AI opponent from the ladder
+   * @param adaptiveDifficulty - From getAdaptiveDifficulty (takes recent results
+   *                             into account); the rating alone if not given
+   */
+  static suggestAIOpponent(rating: number, adaptiveDifficulty?: number): AIOpponent {
+    const targetRating = adaptiveDifficulty === undefined
+      ? rating
+      : this.MIN_RATING + adaptiveDifficulty * (this.MAX_RATING - this.MIN_RATING);
+    return getOpponentForRating(targetRating);
   }
 
   /**
@@ -200,6 +262,30 @@ export class SkillEngine {
     return Math.max(0, Math.min(100, Math.round(newScore)));
   }
 
+  /**
+   * Update the tactical skills a puzzle's themes train
+   */
+  static updateTacticalSkills(skills: TacticalSkills, themes: string[], success: boolean): TacticalSkills {
+    const updated = { ...skills };
+    themes.forEach(theme => {
+      const skill = TACTIC_SKILLS[theme as TacticType];
+      if (skill) {
+        updated[skill] = this.updateTacticalSkill(updated[skill], success);
+      }
+    });
+    return updated;
+  }
+
+  /**
+   * Get the tactic the player is weakest at
+   */
+  static getWeakestTactic(skills: TacticalSkills): TacticType {
+    const tactics = Object.keys(TACTIC_SKILLS) as TacticType[];
+    return tactics.reduce((weakest, tactic) =>
+      skills[TACTIC_SKILLS[tactic]!] < skills[TACTIC_SKILLS[weakest]!] ? tactic : weakest
+    );
+  }
+
   /**
    * Update phase score based on quality of play
    */
@@ -305,13 +391,15 @@ export class SkillEngine {
   private static generateRatingReason(
     result: 'win' | 'loss' | 'draw',
     change: number,
-    opponent: AIDifficulty | 'player'
+    opponent: AIDifficulty | 'player',
+    takeBacks: number = 0
   ): string {
     const opponentName = opponent === 'player' 
       ? 'opponent' 
       : `AI (${opponent})`;
     
     if (result === 'win') {
+      if (takeBacks > 0) return `Victory against ${opponentName} (with ${takeBacks} take-back${takeBacks === 1 ? '' : 's'})`;
       if (change >= 20) return `🌟 Great victory against ${opponentName}!`;
       if (change >= 10) return `Well played! Beat ${opponentName}`;
       return `Victory against ${opponentName}`;
@@ -0,0 +1,73 @@
+/**
+ * Spaced Repetition
+ *
+ * SM-2 review scheduling: every review is graded from 0 (forgotten) to 5
+ * (perfect). Good reviews push the next one further away, by a factor (the
+ * ease) that grows with easy reviews and shrinks with hard ones; a failed
+ * review starts the item over from tomorrow.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lowest ease factor (SM-2), so hard items still come round less often
+ */
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+
+/**
+ * How well an item was remembered: 0 = not at all, 3 = with difficulty, 5 = perfectly
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+/**
+ * When an item is next reviewed, and how its reviews went so far
+ */
+export interface ReviewSchedule {
+  repetitions: number; // Passed reviews in a row
+  interval: number; // Days from the last review to the next one
+  ease: number; // Factor the interval grows by
+  dueAt: number; // Timestamp the next review is due
+  lastReviewedAt?: number; // Missing until the first review
+}
+
+/**
+ * Schedule for a new item (due straight away)
+ */
+export function createSchedule(now: number = Date.now()): ReviewSchedule {
+  return { repetitions: 0, interval: 0, ease: INITIAL_EASE, dueAt: now };
+}
+
+/**
+ * Schedule the next review after one graded review
+ */
+export function scheduleReview(
+  schedule: ReviewSchedule,
+  quality: ReviewQuality,
+  now: number = Date.now()
+): ReviewSchedule {
+  const passed = quality >= 3;
+  const repetitions = passed ? schedule.repetitions + 1 : 0;
+
+  let interval = 1;
+  if (passed && schedule.repetitions === 1) interval = 6;
+  if (passed && schedule.repetitions > 1) interval = Math.round(schedule.interval * schedule.ease);
+
+  const miss = 5 - quality;
+  const ease = Math.max(MIN_EASE, schedule.ease + 0.1 - miss * (0.08 + miss * 0.02));
+
+  return {
+    repetitions,
+    interval,
+    ease: Math.round(ease * 100) / 100,
+    dueAt: now + interval * DAY_MS,
+    lastReviewedAt: now
+  };
+}
+
+/**
+ * Check if an item is due for review
+ */
+export function isDue(schedule: ReviewSchedule, now: number = Date.now()): boolean {
+  return schedule.dueAt <= now;
+}
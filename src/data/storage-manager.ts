@@ -6,6 +6,15 @@
  */
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { DrawReason } from '../core/types';
+import type { TimeControl, ClockSnapshot } from '../core/clock';
+import type { VariantId } from '../core/variants';
+import type { AIStyleId } from '../ai/ai-styles';
+import type { GameReview } from '../ai/game-reviewer';
+import type { UserPreferences } from './user-manager';
+import type { TakeBackMode } from './take-back-policy';
+import type { PersonalPuzzle } from './personal-puzzles';
+import type { LessonReview } from './lesson-scheduler';
 
 /**
  * Database schema
@@ -19,6 +28,7 @@ interface ChessDB extends DBSchema {
       avatar: string;
       createdAt: number;
       lastLogin: number;
+      preferences?: Partial<UserPreferences>;
     };
   };
   games: {
@@ -28,28 +38,25 @@ interface ChessDB extends DBSchema {
       userId: string;
       mode: 'two-player' | 'vs-ai';
       difficulty?: 'easy' | 'medium' | 'hard';
+      opponent?: string; // AI opponent ID
+      style?: AIStyleId;
       playerColor?: 'white' | 'black'; // For AI games
       moves: string[]; // Algebraic notation
       result: 'win' | 'loss' | 'draw';
       winner?: 'white' | 'black' | 'draw';
+      drawReason?: DrawReason;
+      startFen?: string;
+      variant?: VariantId;
+      timeout?: boolean; // Won on time
+      timeControl?: TimeControl;
+      clockTimes?: number[]; // ms left after each move
+      takeBacks?: number; // Moves taken back
+      takeBackMode?: TakeBackMode; // For AI games
       startedAt: number;
       completedAt: number;
       duration: number; // seconds
-      // Enriched analysis (Phase 5.6)
-      analysis?: {
-        blunders: number;
-        mistakes: number;
-        brilliantMoves: number;
-        avgThinkTime: number;
-        openingName?: string;
-        ratingChange: number;
-        tacticsUsed: string[];
-        phaseQuality: {
-          opening: number;
-          middlegame: number;
-          endgame: number;
-        };
-      };
+      analysis?: GameReview; // Engine review, once the game has been reviewed
+      puzzlesMinedAt?: number; // Last searched for puzzles
     };
     indexes: { 'by-user': string; 'by-date': number };
   };
@@ -75,6 +82,7 @@ interface ChessDB extends DBSchema {
         hard: number;
       };
       lessonsCompleted: string[];
+      lessonReviews?: Record<string, LessonReview>;
       badgesEarned: string[];
     };
   };
@@ -105,12 +113,43 @@ interface ChessDB extends DBSchema {
         change: number;
         opponent: string;
       }>;
+      puzzleRating?: number;
+    };
+  };
+  autosaves: {
+    key: string; // autosaveId
+    value: {
+      id: string;
+      userId: string;
+      mode: 'two-player' | 'vs-ai';
+      difficulty?: 'easy' | 'medium' | 'hard';
+      opponent?: string;
+      style?: AIStyleId;
+      playerColor?: 'white' | 'black';
+      startFen: string;
+      moves: string[]; // SAN, including the redo stack
+      currentMove: number;
+      variant?: VariantId;
+      timeControl?: TimeControl;
+      clock?: ClockSnapshot;
+      clockTimes?: number[];
+      takeBacks?: number;
+      takeBackMode?: TakeBackMode;
+      moveTimes: number[];
+      startedAt: number;
+      updatedAt: number;
     };
+    indexes: { 'by-user': string };
+  };
+  puzzles: {
+    key: string; // puzzleId (<gameId>-<ply>)
+    value: PersonalPuzzle;
+    indexes: { 'by-user': string };
   };
 }
 
 const DB_NAME = 'chess-learning-db';
-const DB_VERSION = 2;  // Incremented for skills store
+const DB_VERSION = 4;  // Incremented for personal puzzles store
 
 /**
  * Storage Manager Class
@@ -166,6 +205,18 @@ export class StorageManager {
           if (!db.objectStoreNames.contains('skills')) {
             db.createObjectStore('skills', { keyPath: 'userId' });
           }
+
+          // Unfinished games
+          if (!db.objectStoreNames.contains('autosaves')) {
+            const autosaveStore = db.createObjectStore('autosaves', { keyPath: 'id' });
+            autosaveStore.createIndex('by-user', 'userId');
+          }
+
+          // Puzzles mined from the player's games
+          if (!db.objectStoreNames.contains('puzzles')) {
+            const puzzleStore = db.createObjectStore('puzzles', { keyPath: 'id' });
+            puzzleStore.createIndex('by-user', 'userId');
+          }
         },
       });
 
@@ -184,10 +235,10 @@ export class StorageManager {
     data: ChessDB[K]['value']
   ): Promise<void> {
     if (this.db) {
-      await this.db.put(storeName as 'users' | 'games' | 'progress' | 'skills', data);
+      await this.db.put(storeName as 'users' | 'games' | 'progress' | 'skills' | 'autosaves' | 'puzzles', data);
     } else {
       // LocalStorage fallback
-      this.saveToLocalStorage(storeName as 'users' | 'games' | 'progress' | 'skills', data);
+      this.saveToLocalStorage(storeName as 'users' | 'games' | 'progress' | 'skills' | 'autosaves' | 'puzzles', data);
     }
   }
 
@@ -199,10 +250,10 @@ export class StorageManager {
     key: string
   ): Promise<ChessDB[K]['value'] | undefined> {
     if (this.db) {
-      return await this.db.get(storeName as 'users' | 'games' | 'progress' | 'skills', key);
+      return await this.db.get(storeName as 'users' | 'games' | 'progress' | 'skills' | 'autosaves' | 'puzzles', key);
     } else {
       // LocalStorage fallback
-      return this.getFromLocalStorage(storeName as 'users' | 'games' | 'progress' | 'skills', key);
+      return this.getFromLocalStorage(storeName as 'users' | 'games' | 'progress' | 'skills' | 'autosaves' | 'puzzles', key);
     }
   }
 
@@ -213,10 +264,10 @@ export class StorageManager {
     storeName: K
   ): Promise<ChessDB[K]['value'][]> {
     if (this.db) {
-      return await this.db.getAll(storeName as 'users' | 'games' | 'progress' | 'skills');
+      return await this.db.getAll(storeName as 'users' | 'games' | 'progress' | 'skills' | 'autosaves' | 'puzzles');
     } else {
       // LocalStorage fallback
-      return this.getAllFromLocalStorage(storeName as 'users' | 'games' | 'progress' | 'skills');
+      return this.getAllFromLocalStorage(storeName as 'users' | 'games' | 'progress' | 'skills' | 'autosaves' | 'puzzles');
     }
   }
 
@@ -244,9 +295,9 @@ export class StorageManager {
     key: string
   ): Promise<void> {
     if (this.db) {
-      await this.db.delete(storeName as 'users' | 'games' | 'progress' | 'skills', key);
+      await this.db.delete(storeName as 'users' | 'games' | 'progress' | 'skills' | 'autosaves' | 'puzzles', key);
     } else {
-      this.deleteFromLocalStorage(storeName as 'users' | 'games' | 'progress' | 'skills', key);
+      this.deleteFromLocalStorage(storeName as 'users' | 'games' | 'progress' | 'skills' | 'autosaves' | 'puzzles', key);
     }
   }
 
@@ -255,9 +306,9 @@ export class StorageManager {
    */
   async clear<K extends keyof ChessDB>(storeName: K): Promise<void> {
     if (this.db) {
-      await this.db.clear(storeName as 'users' | 'games' | 'progress' | 'skills');
+      await this.db.clear(storeName as 'users' | 'games' | 'progress' | 'skills' | 'autosaves' | 'puzzles');
     } else {
-      this.clearLocalStorage(storeName as 'users' | 'games' | 'progress' | 'skills');
+      this.clearLocalStorage(storeName as 'users' | 'games' | 'progress' | 'skills' | 'autosaves' | 'puzzles');
     }
   }
 
@@ -0,0 +1,85 @@
+/**
+ * Take-Back Policies
+ *
+ * How many moves a player may take back in a game against the AI, and
+ * whether such a game changes the rating. Practice games allow any number
+ * of take-backs but are not rated; learning games allow a few and weigh
+ * the rating gain down for each one used; rated games allow none.
+ */
+
+/**
+ * Available policies
+ */
+export enum TakeBackMode {
+  PRACTICE = 'practice',
+  LEARNING = 'learning',
+  RATED = 'rated'
+}
+
+/**
+ * A take-back policy
+ */
+export interface TakeBackPolicy {
+  id: TakeBackMode;
+  name: string;
+  icon: string;
+  description: string;
+  limit: number | null; // Take-backs per game (null = unlimited)
+  rated: boolean; // Games change the rating and AI stats
+}
+
+export const TAKE_BACK_POLICIES: TakeBackPolicy[] = [
+  {
+    id: TakeBackMode.PRACTICE,
+    name: 'Practice',
+    icon: '🧸',
+    description: 'Take back as many moves as you like. The game does not change your rating.',
+    limit: null,
+    rated: false
+  },
+  {
+    id: TakeBackMode.LEARNING,
+    name: 'Learning',
+    icon: '🎓',
+    description: 'Take back up to 3 moves. Each one makes a win worth a little less.',
+    limit: 3,
+    rated: true
+  },
+  {
+    id: TakeBackMode.RATED,
+    name: 'Rated',
+    icon: '🏆',
+    description: 'No take-backs: every move counts for your rating.',
+    limit: 0,
+    rated: true
+  }
+];
+
+/**
+ * Get a policy by ID (learning if unknown or missing)
+ */
+export function getTakeBackPolicy(id?: string): TakeBackPolicy {
+  return TAKE_BACK_POLICIES.find(policy => policy.id === id) ?? TAKE_BACK_POLICIES[1];
+}
+
+/**
+ * Take-backs still allowed in a game (null = unlimited)
+ * @param used - Take-backs already used in the game
+ */
+export function getTakeBacksLeft(policy: TakeBackPolicy, used: number): number | null {
+  return policy.limit === null ? null : Math.max(0, policy.limit - used);
+}
+
+/**
+ * Take-backs used after taking a move back (only games against the AI count them)
+ */
+export function countTakeBack(used: number, vsAI: boolean): number {
+  return vsAI ? used + 1 : used;
+}
+
+/**
+ * Take-backs used after redoing a move, which gives its take-back back
+ */
+export function refundTakeBack(used: number, vsAI: boolean): number {
+  return vsAI ? Math.max(0, used - 1) : used;
+}
@@ -13,8 +13,40 @@ export interface User {
   avatar: string;
   createdAt: number;
   lastLogin: number;
+  preferences?: Partial<UserPreferences>; // Missing settings use DEFAULT_PREFERENCES
 }
 
+/**
+ * How pieces are moved: click a piece then its target, drag it, or either
+ */
+export type MoveInputMode = 'click' | 'drag' | 'both';
+
+/**
+ * When the evaluation bar and best-move hint may be used (a parent setting):
+ * never, in every game except rated games against the AI, or in every game
+ */
+export type EvaluationHelp = 'off' | 'practice' | 'always';
+
+/**
+ * Per-user settings
+ */
+export interface UserPreferences {
+  moveInput: MoveInputMode;
+  evaluationHelp: EvaluationHelp;
+  soundEnabled: boolean;
+  soundVolume: number; // 0-1
+}
+
+/**
+ * Settings for users who have not changed them
+ */
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  moveInput: 'both',
+  evaluationHelp: 'off',
+  soundEnabled: true,
+  soundVolume: 0.7
+};
+
 const CURRENT_USER_KEY = 'current-user-id';
 
 /**
@@ -145,6 +177,26 @@ export class UserManager {
     return null;
   }
 
+  /**
+   * Get the current user's settings (defaults when logged out)
+   */
+  getPreferences(): UserPreferences {
+    return { ...DEFAULT_PREFERENCES, ...this.currentUser?.preferences };
+  }
+
+  /**
+   * Change some of the current user's settings
+   */
+  async updatePreferences(changes: Partial<UserPreferences>): Promise<UserPreferences> {
+    if (!this.currentUser) {
+      throw new Error('No user logged in');
+    }
+
+    this.currentUser.preferences = { ...this.currentUser.preferences, ...changes };
+    await storageManager.save('users', this.currentUser);
+    return this.getPreferences();
+  }
+
   /**
    * Check if user is logged in
    */
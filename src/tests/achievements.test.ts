@@ -0,0 +1,111 @@
+/**
+ * Achievement Tests
+ * Badges are awarded once, from progress, skills and the game just played
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ACHIEVEMENTS, findNewAchievements } from '../data/achievements';
+import type { GameAchievementContext } from '../data/achievements';
+import type { UserProgress } from '../data/progress-tracker';
+import type { GameAnalysis } from '../data/game-analyzer';
+import { SkillEngine } from '../data/skill-engine';
+import { lessons } from '../tutorial/lesson-library';
+
+/**
+ * Progress of a player who has not played yet
+ */
+function newProgress(changes: Partial<UserProgress> = {}): UserProgress {
+  return {
+    userId: 'test',
+    totalGames: 0,
+    gamesWon: 0,
+    gamesLost: 0,
+    gamesDraw: 0,
+    currentStreak: 0,
+    longestStreak: 0,
+    lastPlayedDate: '',
+    aiWins: { easy: 0, medium: 0, hard: 0 },
+    aiLosses: { easy: 0, medium: 0, hard: 0 },
+    lessonsCompleted: [],
+    badgesEarned: [],
+    ...changes
+  };
+}
+
+/**
+ * A finished game with nothing special in it
+ */
+function game(changes: Partial<GameAchievementContext> = {}, analysis: Partial<GameAnalysis> = {}): GameAchievementContext {
+  return {
+    result: 'loss',
+    mode: 'vs-ai',
+    checkmate: false,
+    analysis: {
+      blunders: 0,
+      mistakes: 0,
+      brilliantMoves: 0,
+      avgThinkTime: 0,
+      ratingChange: 0,
+      tacticsUsed: [],
+      captures: 0,
+      promotions: 0,
+      phaseQuality: { opening: 50, middlegame: 50, endgame: 50 },
+      totalMoves: 20,
+      duration: 0,
+      ...analysis
+    },
+    ...changes
+  };
+}
+
+/**
+ * IDs of the badges unlocked
+ */
+function unlockedIds(...args: Parameters<typeof findNewAchievements>): string[] {
+  return findNewAchievements(...args).map(achievement => achievement.id);
+}
+
+describe('achievements', () => {
+  it('have unique IDs', () => {
+    const ids = ACHIEVEMENTS.map(achievement => achievement.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('award badges for what happened in the game', () => {
+    const progress = newProgress({ totalGames: 1, gamesWon: 1 });
+    const ids = unlockedIds({
+      progress,
+      skills: null,
+      game: game({ result: 'win', checkmate: true }, { captures: 3, promotions: 1, tacticsUsed: ['fork'] })
+    });
+    expect(ids).toEqual(['first-game', 'first-win', 'first-capture', 'first-checkmate', 'first-promotion', 'first-fork']);
+  });
+
+  it('do not award a badge twice', () => {
+    const progress = newProgress({ totalGames: 2, badgesEarned: ['first-game'] });
+    expect(unlockedIds({ progress, skills: null, game: game() })).toEqual([]);
+  });
+
+  it('award badges from progress and skills', () => {
+    const skills = { ...SkillEngine.createInitialProfile('test'), rating: 850 };
+    const progress = newProgress({
+      aiWins: { easy: 0, medium: 0, hard: 1 },
+      longestStreak: 7,
+      lessonsCompleted: lessons.filter(lesson => lesson.category === 'opening').map(lesson => lesson.id)
+    });
+    expect(unlockedIds({ progress, skills })).toEqual([
+      'win-hard', '3day-streak', '7day-streak', 'first-lesson', 'opening-tutorial', 'rating-800'
+    ]);
+  });
+
+  it('count badges earned together towards the collector badge', () => {
+    const progress = newProgress({
+      totalGames: 1,
+      aiWins: { easy: 1, medium: 1, hard: 0 },
+      longestStreak: 3,
+      badgesEarned: ['first-lesson', 'first-win', 'first-capture']
+    });
+    const ids = unlockedIds({ progress, skills: null, game: game({}, { promotions: 1, tacticsUsed: ['fork', 'pin'] }) });
+    expect(ids).toContain('10badges');
+  });
+});
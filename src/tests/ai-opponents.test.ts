@@ -0,0 +1,69 @@
+/**
+ * AI Opponent Tests
+ * The opponent ladder, opponent suggestions and rating against named opponents
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AIDifficulty } from '../ai/ai-interface';
+import { AI_OPPONENTS, getDefaultOpponent, getOpponent, getOpponentForRating } from '../ai/ai-opponents';
+import { AIEnginePlayer } from '../ai/ai-engine-player';
+import { SkillEngine } from '../data/skill-engine';
+import { ChessGame } from '../core/game-state';
+import { PieceColor } from '../core/types';
+
+describe('opponent ladder', () => {
+  it('gets stronger with every rung', () => {
+    for (let i = 1; i < AI_OPPONENTS.length; i++) {
+      const weaker = AI_OPPONENTS[i - 1];
+      const stronger = AI_OPPONENTS[i];
+      expect(stronger.rating).toBeGreaterThan(weaker.rating);
+      expect(stronger.engineLevel).toBeGreaterThanOrEqual(weaker.engineLevel);
+      if (stronger.engineLevel === weaker.engineLevel) {
+        expect(stronger.blunderChance).toBeLessThanOrEqual(weaker.blunderChance);
+      }
+    }
+    expect(AI_OPPONENTS[0].name).toBe('Pawn Puppy');
+    expect(AI_OPPONENTS[AI_OPPONENTS.length - 1].name).toBe('Grandmaster Owl');
+  });
+
+  it('stands in for the old difficulty levels', () => {
+    expect(getDefaultOpponent(AIDifficulty.EASY).rating).toBe(600);
+    expect(getDefaultOpponent(AIDifficulty.MEDIUM).rating).toBe(900);
+    expect(getDefaultOpponent(AIDifficulty.HARD).rating).toBe(1200);
+    expect(getOpponent('no-such-opponent')).toBeUndefined();
+  });
+
+  it('finds the closest opponent to a rating', () => {
+    expect(getOpponentForRating(100).id).toBe('pawn-puppy');
+    expect(getOpponentForRating(820).id).toBe('raccoon-rook');
+    expect(getOpponentForRating(5000).id).toBe('grandmaster-owl');
+  });
+});
+
+describe('SkillEngine opponent suggestions', () => {
+  it('follows the adaptive difficulty when given', () => {
+    expect(SkillEngine.suggestAIOpponent(600).id).toBe('bunny-bishop');
+    expect(SkillEngine.suggestAIOpponent(600, 0).id).toBe('pawn-puppy');
+    expect(SkillEngine.suggestAIOpponent(600, 0.5).rating).toBe(1000);
+    expect(SkillEngine.suggestAIDifficulty(1500)).toBe('hard');
+  });
+
+  it('rates games against the opponent rating', () => {
+    const vsPuppy = SkillEngine.calculateRatingChange(800, 'easy', 'win', 400);
+    const vsBunny = SkillEngine.calculateRatingChange(800, 'easy', 'win');
+    expect(vsPuppy.change).toBeLessThan(vsBunny.change);
+  });
+});
+
+describe('AIEnginePlayer blunders', () => {
+  it('still plays a legal move when blundering', async () => {
+    const player = AIEnginePlayer.fromOpponent(AI_OPPONENTS[0]);
+    player.setBlunderChance(1);
+    player.setThinkingDelay(0);
+
+    const game = new ChessGame();
+    const move = await player.getBestMove(game, PieceColor.WHITE);
+    expect(move).not.toBeNull();
+    expect(game.makeMove(move!.from, move!.to)).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * AI Style Tests
+ * How styles re-rank the engine's scored moves
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Move } from '../core/types';
+import { ChessGame } from '../core/game-state';
+import { AIStyleId, getStyle, pickStyledMove } from '../ai/ai-styles';
+import { searchPosition } from '../ai/engine-search';
+import { fromAlgebraic } from '../utils/coordinates';
+
+/**
+ * Legal moves of a position, all with the same engine score
+ * except those given in `scores` (keyed by e.g. "e2e4")
+ */
+function scoredMoves(fen: string, scores: Record<string, number> = {}): { game: ChessGame; candidates: { move: Move; score: number }[] } {
+  const game = new ChessGame();
+  game.loadFEN(fen);
+  const candidates = game.getAllLegalMoves(game.getCurrentPlayer()).map(move => {
+    const key = [move.from, move.to]
+      .map(({ row, col }) => String.fromCharCode(97 + col) + (8 - row))
+      .join('');
+    return { move, score: scores[key] ?? 0 };
+  });
+  return { game, candidates };
+}
+
+/**
+ * Check if a move goes between two squares
+ */
+function isMove(move: Move | null, from: string, to: string): boolean {
+  const a = fromAlgebraic(from);
+  const b = fromAlgebraic(to);
+  return !!move && move.from.row === a.row && move.from.col === a.col && move.to.row === b.row && move.to.col === b.col;
+}
+
+describe('AI styles', () => {
+  it('leaves the choice to the engine for the balanced style', () => {
+    const { game, candidates } = scoredMoves('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1');
+    expect(pickStyledMove(getStyle(AIStyleId.BALANCED), game.getBoard(), candidates)).toBeNull();
+    expect(getStyle('no-such-style').id).toBe(AIStyleId.BALANCED);
+  });
+
+  it('pushes pawns', () => {
+    const { game, candidates } = scoredMoves('4k3/8/8/8/8/8/4P3/R3K3 w - - 0 1', { a1a7: 20 });
+    const move = pickStyledMove(getStyle(AIStyleId.PAWN_PUSHER), game.getBoard(), candidates);
+    expect(isMove(move, 'e2', 'e4')).toBe(true);
+  });
+
+  it('trades pieces of equal value', () => {
+    const { game, candidates } = scoredMoves('4k3/8/8/3r4/8/8/8/3RK3 w - - 0 1', { d1d4: 10 });
+    const move = pickStyledMove(getStyle(AIStyleId.TRADER), game.getBoard(), candidates);
+    expect(isMove(move, 'd1', 'd5')).toBe(true);
+  });
+
+  it('gives check when attacking', () => {
+    const { game, candidates } = scoredMoves('4k3/8/8/8/8/8/8/R3K3 w - - 0 1');
+    const move = pickStyledMove(getStyle(AIStyleId.AGGRESSIVE), game.getBoard(), candidates);
+    expect(isMove(move, 'a1', 'a8')).toBe(true);
+  });
+
+  it('never gives up more than its limit', () => {
+    const { game, candidates } = scoredMoves('4k3/8/8/8/8/8/4P3/R3K3 w - - 0 1', { a1a2: 500 });
+    const move = pickStyledMove(getStyle(AIStyleId.PAWN_PUSHER), game.getBoard(), candidates);
+    expect(isMove(move, 'a1', 'a2')).toBe(true);
+  });
+
+  it('stays as loose as the opponent\'s randomness', () => {
+    const style = getStyle(AIStyleId.PAWN_PUSHER);
+    const fen = '4k3/8/8/8/8/8/4P3/R3K3 w - - 0 1';
+
+    // A random spread that favours one candidate (counting those in the window)
+    const favour = (candidates: { move: Move; score: number }[], from: string, to: string) => {
+      const index = candidates.filter(({ score }) => score > -100).findIndex(({ move }) => isMove(move, from, to));
+      let call = 0;
+      return () => (call++ === index ? 1 : 0);
+    };
+
+    const even = scoredMoves(fen);
+    const loose = pickStyledMove(style, even.game.getBoard(), even.candidates, 100, favour(even.candidates, 'a1', 'a8'));
+    expect(isMove(loose, 'a1', 'a8')).toBe(true);
+
+    const losing = scoredMoves(fen, { a1a2: -200 });
+    const kept = pickStyledMove(style, losing.game.getBoard(), losing.candidates, 100, favour(losing.candidates, 'a1', 'a2'));
+    expect(isMove(kept, 'e2', 'e4')).toBe(true);
+  });
+
+  it('gets scored candidates from the engine', async () => {
+    const result = await searchPosition('4k3/8/8/3q4/8/8/3R4/4K3 w - - 0 1', { level: 1, timeBudgetMs: 1000, analysis: true });
+    expect(result.candidates!.length).toBeGreaterThan(1);
+    expect(result.candidates![0].score).toBeGreaterThanOrEqual(result.candidates![1].score);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Chess960 Tests
+ * Start position numbering, Shredder-FEN/X-FEN castling rights and
+ * generalised castling (perft counts from https://www.chessprogramming.org/Chess960_Perft_Results)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PieceType } from '../core/types';
+import {
+  getChess960BackRank,
+  getChess960FEN,
+  getChess960PositionNumber,
+  getChess960StartNumber,
+  STANDARD_CHESS960_POSITION
+} from '../core/chess960';
+import { STARTING_FEN, parseFEN, toFEN } from '../core/fen';
+import { perft, createStateFromFEN } from '../core/perft';
+import { ChessGame } from '../core/game-state';
+import { exportPGN, loadPGN } from '../core/pgn';
+
+const PERFT_TIMEOUT = 60_000;
+
+const LETTERS: Record<PieceType, string> = {
+  [PieceType.PAWN]: 'P',
+  [PieceType.KNIGHT]: 'N',
+  [PieceType.BISHOP]: 'B',
+  [PieceType.ROOK]: 'R',
+  [PieceType.QUEEN]: 'Q',
+  [PieceType.KING]: 'K'
+};
+
+function backRankString(positionNumber: number): string {
+  return getChess960BackRank(positionNumber).map(type => LETTERS[type]).join('');
+}
+
+const PERFT_POSITIONS = [
+  { fen: 'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9', counts: [21, 528, 12189] },
+  { fen: '2nnrbkr/p1qppppp/8/1ppb4/6PP/3PP3/PPP2P2/BQNNRBKR w HEhe - 1 9', counts: [21, 807, 18002] },
+  { fen: 'b1q1rrkb/pppppppp/3nn3/8/P7/1PPP4/4PPPP/BQNNRKRB w GE - 1 9', counts: [20, 479, 10471] },
+  // Kiwipete with Shredder-FEN rights must count exactly like the standard version
+  { fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w HAha - 0 1', counts: [48, 2039, 97862] }
+];
+
+describe('Chess960 start positions', () => {
+  it('numbers the positions like other chess software', () => {
+    expect(backRankString(0)).toBe('BBQNNRKR');
+    expect(backRankString(STANDARD_CHESS960_POSITION)).toBe('RNBQKBNR');
+    expect(backRankString(959)).toBe('RKRNNQBB');
+  });
+
+  it('has 960 distinct legal arrangements that map back to their number', () => {
+    const seen = new Set<string>();
+
+    for (let n = 0; n < 960; n++) {
+      const rank = backRankString(n);
+      const bishops = [...rank].flatMap((piece, col) => piece === 'B' ? [col % 2] : []);
+      expect(bishops.sort()).toEqual([0, 1]);
+      expect(rank).toMatch(/R.*K.*R/);
+      seen.add(rank);
+    }
+
+    expect(seen.size).toBe(960);
+    expect(getChess960PositionNumber(getChess960BackRank(700))).toBe(700);
+    expect(() => getChess960BackRank(960)).toThrow();
+  });
+
+  it('writes start positions as Shredder-FEN', () => {
+    expect(getChess960FEN(0)).toBe('bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w HFhf - 0 1');
+    expect(getChess960StartNumber(getChess960FEN(0))).toBe(0);
+    expect(getChess960StartNumber(STARTING_FEN)).toBeNull();
+  });
+});
+
+describe('Chess960 castling rights in FEN', () => {
+  it('round-trips Shredder-FEN and writes X-FEN on request', () => {
+    const fen = PERFT_POSITIONS[0].fen;
+    const state = createStateFromFEN(fen);
+    expect(state.castlingRights.rookFiles).toEqual({ kingSide: 7, queenSide: 5 });
+    expect(toFEN(state)).toBe(fen);
+    expect(toFEN(state, 'x-fen')).toBe(fen.replace('HFhf', 'KQkq'));
+  });
+
+  it('reads X-FEN, using a file letter for an inner rook', () => {
+    const position = parseFEN('rk2r3/8/8/8/8/8/8/RK2R2R w EQk - 0 1');
+    expect(position.castlingRights).toMatchObject({ whiteKingSide: true, whiteQueenSide: true, blackKingSide: true });
+    expect(position.castlingRights.rookFiles).toEqual({ kingSide: 4, queenSide: 0 });
+  });
+
+  it('keeps standard rights for the usual king and rook squares', () => {
+    expect(parseFEN(STARTING_FEN).castlingRights.rookFiles).toBeUndefined();
+    expect(() => parseFEN('4k3/8/8/8/8/8/8/R3K3 w K - 0 1')).toThrow();
+  });
+});
+
+describe('Chess960 perft', () => {
+  for (const { fen, counts } of PERFT_POSITIONS) {
+    it(fen, () => {
+      const state = createStateFromFEN(fen);
+      counts.forEach((count, i) => expect(perft(state, i + 1)).toBe(count));
+      expect(toFEN(state)).toBe(fen);
+    }, PERFT_TIMEOUT);
+  }
+});
+
+describe('Chess960 castling', () => {
+  it('castles with the king moving onto its rook, even when the king stays put', () => {
+    const game = ChessGame.fromFEN('1r4kr/8/8/8/8/8/8/1R4KR w HBhb - 0 1');
+    game.makeSANMove('O-O-O');
+    expect(game.toFEN()).toBe('1r4kr/8/8/8/8/8/8/2KR3R b hb - 1 1');
+
+    game.makeSANMove('O-O');
+    expect(game.toFEN()).toBe('1r3rk1/8/8/8/8/8/8/2KR3R w - - 2 2');
+    expect(game.getHistory().getAllMoves().map(entry => entry.notation)).toEqual(['O-O-O', 'O-O']);
+
+    game.undo();
+    game.undo();
+    expect(game.toFEN()).toBe('1r4kr/8/8/8/8/8/8/1R4KR w HBhb - 0 1');
+  });
+
+  it('does not castle through a square the rook was shielding', () => {
+    // Queen-side castling would put the king on c1, attacked by the a1 rook once b1 is empty
+    const game = ChessGame.fromFEN('4k3/8/8/8/8/8/8/rR4K1 w B - 0 1');
+    expect(() => game.makeSANMove('O-O-O')).toThrow();
+  });
+
+  it('exports and imports Chess960 games as PGN', () => {
+    const game = ChessGame.fromFEN(getChess960FEN(STANDARD_CHESS960_POSITION));
+    ['e4', 'e5', 'Nf3', 'Nf6', 'Bc4', 'Bc5', 'O-O', 'O-O'].forEach(san => game.makeSANMove(san));
+    expect(game.toFEN()).toBe('rnbq1rk1/pppp1ppp/5n2/2b1p3/2B1P3/5N2/PPPP1PPP/RNBQ1RK1 w - - 6 5');
+
+    const pgn = exportPGN(game);
+    expect(pgn).toContain('[Variant "Chess960"]');
+
+    const imported = new ChessGame();
+    loadPGN(imported, pgn);
+    expect(imported.toFEN()).toBe(game.toFEN());
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Chess Clock Tests
+ * Time controls, pausing, flag fall results and clock times in PGN
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PieceColor, GameStatus, DrawReason } from '../core/types';
+import { ChessClock, TimeControlType, formatClockTime, formatTimeControl } from '../core/clock';
+import type { TimeControl } from '../core/clock';
+import { ChessGame } from '../core/game-state';
+import { hasMatingMaterial } from '../core/move-validator';
+import { formatMoveText, parsePGN } from '../core/pgn';
+
+const { WHITE, BLACK } = PieceColor;
+
+/**
+ * Clock driven by a fake time source; returns the clock and a function to advance time
+ */
+function createClock(timeControl: TimeControl): { clock: ChessClock; advance: (ms: number) => void } {
+  let now = 0;
+  const clock = new ChessClock(timeControl, () => now);
+  return { clock, advance: (ms: number) => { now += ms; } };
+}
+
+describe('ChessClock', () => {
+  it('does not run before the first move', () => {
+    const { clock, advance } = createClock({ type: TimeControlType.FISCHER, initialSeconds: 60, incrementSeconds: 2 });
+    advance(5000);
+    expect(clock.getRemaining(WHITE)).toBe(60_000);
+    expect(clock.press(WHITE)).toBe(60_000);
+    expect(clock.getActiveColor()).toBe(BLACK);
+  });
+
+  it('adds the Fischer increment after each move', () => {
+    const { clock, advance } = createClock({ type: TimeControlType.FISCHER, initialSeconds: 60, incrementSeconds: 2 });
+    clock.press(WHITE);
+    advance(5000);
+    expect(clock.getRemaining(BLACK)).toBe(55_000);
+    expect(clock.press(BLACK)).toBe(57_000);
+    expect(clock.getRemaining(WHITE)).toBe(60_000);
+  });
+
+  it('gives back at most the Bronstein delay', () => {
+    const { clock, advance } = createClock({ type: TimeControlType.BRONSTEIN, initialSeconds: 60, incrementSeconds: 3 });
+    clock.press(WHITE);
+    advance(2000);
+    expect(clock.press(BLACK)).toBe(60_000);
+    advance(10_000);
+    expect(clock.press(WHITE)).toBe(53_000);
+  });
+
+  it('moves time to the opponent in hourglass', () => {
+    const { clock, advance } = createClock({ type: TimeControlType.HOURGLASS, initialSeconds: 60, incrementSeconds: 0 });
+    clock.press(WHITE);
+    advance(7000);
+    expect(clock.getRemaining(BLACK)).toBe(53_000);
+    expect(clock.getRemaining(WHITE)).toBe(67_000);
+    clock.press(BLACK);
+    expect(clock.getRemaining(BLACK)).toBe(53_000);
+    expect(clock.getRemaining(WHITE)).toBe(67_000);
+  });
+
+  it('does not count time while paused', () => {
+    const { clock, advance } = createClock({ type: TimeControlType.FISCHER, initialSeconds: 60, incrementSeconds: 0 });
+    clock.press(WHITE);
+    advance(1000);
+    clock.pause();
+    advance(30_000);
+    expect(clock.getRemaining(BLACK)).toBe(59_000);
+    clock.resume();
+    advance(1000);
+    expect(clock.getRemaining(BLACK)).toBe(58_000);
+  });
+
+  it('continues from a snapshot', () => {
+    const { clock, advance } = createClock({ type: TimeControlType.FISCHER, initialSeconds: 60, incrementSeconds: 0 });
+    clock.press(WHITE);
+    advance(4000);
+    const snapshot = clock.getSnapshot();
+    expect(snapshot).toEqual({ remaining: { white: 60_000, black: 56_000 }, activeColor: BLACK });
+
+    const restored = createClock({ type: TimeControlType.FISCHER, initialSeconds: 60, incrementSeconds: 0 });
+    restored.clock.restore(snapshot);
+    restored.advance(1000);
+    expect(restored.clock.getRemaining(BLACK)).toBe(55_000);
+    expect(restored.clock.press(BLACK)).toBe(55_000);
+  });
+
+  it('flags when the side to move runs out', () => {
+    const { clock, advance } = createClock({ type: TimeControlType.FISCHER, initialSeconds: 10, incrementSeconds: 0 });
+    clock.press(WHITE);
+    advance(9999);
+    expect(clock.hasFlagged()).toBe(false);
+    advance(1);
+    expect(clock.hasFlagged()).toBe(true);
+    clock.stop();
+    expect(clock.getRemaining(BLACK)).toBe(0);
+    expect(clock.hasFlagged()).toBe(false);
+  });
+});
+
+describe('clock formatting', () => {
+  it('formats clock times', () => {
+    expect(formatClockTime(300_000)).toBe('5:00');
+    expect(formatClockTime(65_500)).toBe('1:05');
+    expect(formatClockTime(3_723_000)).toBe('1:02:03');
+    expect(formatClockTime(9_460)).toBe('0:09.4');
+    expect(formatClockTime(-5)).toBe('0:00.0');
+  });
+
+  it('formats PGN TimeControl tags', () => {
+    expect(formatTimeControl({ type: TimeControlType.FISCHER, initialSeconds: 180, incrementSeconds: 2 })).toBe('180+2');
+    expect(formatTimeControl({ type: TimeControlType.FISCHER, initialSeconds: 300, incrementSeconds: 0 })).toBe('300');
+    expect(formatTimeControl({ type: TimeControlType.HOURGLASS, initialSeconds: 60, incrementSeconds: 0 })).toBe('*60');
+    expect(formatTimeControl(null)).toBe('-');
+  });
+
+  it('writes clock comments that PGN reading skips', () => {
+    const moveText = formatMoveText(['e4', 'e5', 'Nf3'], 1, false, [300_000, 298_400, 295_000]);
+    expect(moveText).toBe('1. e4 {[%clk 0:05:00]} 1... e5 {[%clk 0:04:58]} 2. Nf3 {[%clk 0:04:55]}');
+    expect(parsePGN(`${moveText} *`).moves).toEqual(['e4', 'e5', 'Nf3']);
+  });
+});
+
+describe('ChessGame.flagFall', () => {
+  it('loses on time when the opponent can still mate', () => {
+    const game = new ChessGame();
+    expect(game.flagFall()).toBe(true);
+    expect(game.getStatus()).toBe(GameStatus.TIMEOUT);
+    expect(game.flagFall()).toBe(false);
+  });
+
+  // Black runs out of time; the result depends on what White could still mate with
+  const cases: Array<{ name: string; fen: string; status: GameStatus }> = [
+    { name: 'K+Q+N v K', fen: '8/8/4k3/8/8/2N5/3QK3/8 b - - 0 1', status: GameStatus.TIMEOUT },
+    { name: 'K v K+P', fen: '8/8/4k3/4p3/8/8/4K3/8 b - - 0 1', status: GameStatus.DRAW },
+    { name: 'K+N v K+P', fen: '8/8/4k3/4p3/8/2N5/4K3/8 b - - 0 1', status: GameStatus.TIMEOUT },
+    { name: 'K+N v K+N', fen: '8/8/4k3/8/8/2N2n2/4K3/8 b - - 0 1', status: GameStatus.TIMEOUT },
+    { name: 'K+B v K+B on opposite colours', fen: '8/8/2b1k3/8/8/2B5/4K3/8 b - - 0 1', status: GameStatus.TIMEOUT }
+  ];
+
+  cases.forEach(({ name, fen, status }) => {
+    it(`${status === GameStatus.DRAW ? 'draws' : 'loses on time'} with ${name}`, () => {
+      const game = ChessGame.fromFEN(fen);
+      expect(game.flagFall()).toBe(true);
+      expect(game.getStatus()).toBe(status);
+      expect(game.getDrawReason()).toBe(
+        status === GameStatus.DRAW ? DrawReason.TIMEOUT_VS_INSUFFICIENT_MATERIAL : null
+      );
+    });
+  });
+
+  it('only counts dead positions as unable to mate', () => {
+    const canMate = (fen: string) => hasMatingMaterial(ChessGame.fromFEN(fen).getBoard(), WHITE);
+
+    expect(canMate('8/8/4k3/8/8/2N5/4K3/8 b - - 0 1')).toBe(false);
+    expect(canMate('8/8/4k3/8/8/2B5/4K3/8 b - - 0 1')).toBe(false);
+    expect(canMate('8/8/3bk3/8/8/2B5/4K3/8 b - - 0 1')).toBe(false);
+    expect(canMate('8/8/4k3/8/8/2BB4/4K3/8 b - - 0 1')).toBe(true);
+    expect(canMate('8/8/4k3/8/8/2N1N3/4K3/8 b - - 0 1')).toBe(true);
+  });
+});
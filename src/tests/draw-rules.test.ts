@@ -0,0 +1,119 @@
+/**
+ * Draw Rules Tests
+ * Repetition, the 50- and 75-move rules and insufficient material
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from '../core/game-state';
+import { GameStatus, DrawReason } from '../core/types';
+
+/**
+ * Shuffle both knights out and back the given number of times
+ */
+function repeatKnightMoves(game: ChessGame, times: number): void {
+  for (let i = 0; i < times; i++) {
+    ['Nf3', 'Nf6', 'Ng1', 'Ng8'].forEach(san => game.makeSANMove(san));
+  }
+}
+
+describe('repetition', () => {
+  it('draws on threefold repetition automatically by default', () => {
+    const game = new ChessGame();
+    repeatKnightMoves(game, 2);
+
+    expect(game.getStatus()).toBe(GameStatus.DRAW);
+    expect(game.getDrawReason()).toBe(DrawReason.THREEFOLD_REPETITION);
+  });
+
+  it('lets the player claim threefold repetition when auto-claim is off', () => {
+    const game = new ChessGame();
+    game.setAutoClaimThreefold(false);
+    repeatKnightMoves(game, 2);
+
+    expect(game.getStatus()).toBe(GameStatus.PLAYING);
+    expect(game.canClaimDraw()).toBe(true);
+    expect(game.claimDraw()).toBe(true);
+    expect(game.getStatus()).toBe(GameStatus.DRAW);
+    expect(game.getDrawReason()).toBe(DrawReason.THREEFOLD_REPETITION);
+  });
+
+  it('draws on fivefold repetition without a claim', () => {
+    const game = new ChessGame();
+    game.setAutoClaimThreefold(false);
+    repeatKnightMoves(game, 4);
+
+    expect(game.getStatus()).toBe(GameStatus.DRAW);
+    expect(game.getDrawReason()).toBe(DrawReason.FIVEFOLD_REPETITION);
+  });
+});
+
+describe('move rules', () => {
+  const fen = (halfMoves: number) => `4k2r/8/8/8/8/8/8/R3K3 w - - ${halfMoves} 80`;
+
+  it('draws by the 50-move rule automatically by default', () => {
+    const game = ChessGame.fromFEN(fen(99));
+    game.makeSANMove('Ra2');
+
+    expect(game.getStatus()).toBe(GameStatus.DRAW);
+    expect(game.getDrawReason()).toBe(DrawReason.FIFTY_MOVE_RULE);
+  });
+
+  it('lets the player claim the 50-move rule when auto-claim is off', () => {
+    const game = ChessGame.fromFEN(fen(98));
+    game.setAutoClaimThreefold(false);
+    game.makeSANMove('Ra2');
+    expect(game.canClaimDraw()).toBe(false);
+
+    game.makeSANMove('Rh7');
+    expect(game.getStatus()).toBe(GameStatus.PLAYING);
+    expect(game.canClaimDraw()).toBe(true);
+    expect(game.claimDraw()).toBe(true);
+    expect(game.getDrawReason()).toBe(DrawReason.FIFTY_MOVE_RULE);
+  });
+
+  it('draws by the 75-move rule without a claim', () => {
+    const game = ChessGame.fromFEN(fen(149));
+    game.setAutoClaimThreefold(false);
+    game.makeSANMove('Ra2');
+
+    expect(game.getStatus()).toBe(GameStatus.DRAW);
+    expect(game.getDrawReason()).toBe(DrawReason.SEVENTY_FIVE_MOVE_RULE);
+  });
+
+  it('resets the count on a capture', () => {
+    const game = ChessGame.fromFEN('4k3/8/8/8/8/8/r7/R3K3 w - - 149 80');
+    game.makeSANMove('Rxa2');
+
+    expect(game.getStatus()).toBe(GameStatus.PLAYING);
+    expect(game.getDrawReason()).toBeNull();
+  });
+});
+
+describe('insufficient material', () => {
+  // White takes the last black pawn with Kxf2, leaving the pieces below
+  const cases: Array<{ name: string; fen: string; reason: DrawReason | null }> = [
+    { name: 'K v K', fen: '4k3/8/8/8/8/8/4Kp2/8 w - - 0 1', reason: DrawReason.INSUFFICIENT_MATERIAL },
+    { name: 'KB v K', fen: '4k3/8/8/8/8/8/4Kp2/2B5 w - - 0 1', reason: DrawReason.INSUFFICIENT_MATERIAL },
+    { name: 'KN v K', fen: '4k3/8/8/8/8/8/4Kp2/6N1 w - - 0 1', reason: DrawReason.INSUFFICIENT_MATERIAL },
+    {
+      name: 'KB v KB with bishops on the same colour',
+      fen: '4kb2/8/8/8/8/8/4Kp2/2B5 w - - 0 1',
+      reason: DrawReason.INSUFFICIENT_MATERIAL
+    },
+    {
+      name: 'KB v KB with bishops on opposite colours',
+      fen: '2b1k3/8/8/8/8/8/4Kp2/2B5 w - - 0 1',
+      reason: null
+    }
+  ];
+
+  cases.forEach(({ name, fen, reason }) => {
+    it(`${reason ? 'draws' : 'plays on'} with ${name}`, () => {
+      const game = ChessGame.fromFEN(fen);
+      game.makeSANMove('Kxf2');
+
+      expect(game.getStatus()).toBe(reason ? GameStatus.DRAW : GameStatus.PLAYING);
+      expect(game.getDrawReason()).toBe(reason);
+    });
+  });
+});
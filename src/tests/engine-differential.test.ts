@@ -0,0 +1,92 @@
+/**
+ * Differential Move Generation Test
+ * Compares our legal move lists with js-chess-engine's across random positions
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState } from '../core/types';
+import { STARTING_FEN, toFEN } from '../core/fen';
+import { createStateFromFEN } from '../core/perft';
+import { makeMoveInPlace, generateLegalMoves } from '../core/move-executor';
+import { getEngineLegalMoves } from '../ai/chess-engine-adapter';
+
+const POSITION_COUNT = 3000;
+const MAX_PLIES = 80;
+const TEST_TIMEOUT = 120_000;
+
+const START_FENS = [
+  STARTING_FEN,
+  'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+  '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+  'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+  'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+  'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10'
+];
+
+/**
+ * Small seeded PRNG (mulberry32) so failures are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Legal moves as sorted "row,col->row,col" strings (promotion choices collapsed)
+ */
+function ourMoves(state: GameState): string[] {
+  const moves = new Set(
+    generateLegalMoves(state).map(m => `${m.from.row},${m.from.col}->${m.to.row},${m.to.col}`)
+  );
+  return [...moves].sort();
+}
+
+function engineMoves(state: GameState): string[] {
+  const moves: string[] = [];
+  for (const [from, targets] of getEngineLegalMoves(state)) {
+    for (const to of targets) {
+      moves.push(`${from}->${to.row},${to.col}`);
+    }
+  }
+  return [...new Set(moves)].sort();
+}
+
+describe('move generation vs js-chess-engine', () => {
+  it(`agrees on ${POSITION_COUNT} random positions`, () => {
+    const random = createRandom(20240601);
+    const mismatches: Array<{ fen: string; missing: string[]; extra: string[] }> = [];
+    let checked = 0;
+
+    while (checked < POSITION_COUNT) {
+      const state = createStateFromFEN(START_FENS[Math.floor(random() * START_FENS.length)]);
+      const plies = Math.floor(random() * MAX_PLIES);
+
+      for (let ply = 0; ply <= plies && checked < POSITION_COUNT; ply++) {
+        const ours = ourMoves(state);
+        const theirs = engineMoves(state);
+        checked++;
+
+        if (ours.join(' ') !== theirs.join(' ')) {
+          mismatches.push({
+            fen: toFEN(state),
+            missing: theirs.filter(m => !ours.includes(m)),
+            extra: ours.filter(m => !theirs.includes(m))
+          });
+        }
+
+        const moves = generateLegalMoves(state);
+        if (moves.length === 0) break;
+
+        const move = moves[Math.floor(random() * moves.length)];
+        makeMoveInPlace(state, move.from, move.to, move.promotionPiece);
+      }
+    }
+
+    expect(mismatches.slice(0, 5)).toEqual([]);
+  }, TEST_TIMEOUT);
+});
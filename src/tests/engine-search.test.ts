@@ -0,0 +1,51 @@
+/**
+ * Engine Search Tests
+ * Time-budgeted deepening and cancellation (main-thread fallback, as
+ * there are no Web Workers under Node)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { STARTING_FEN } from '../core/fen';
+import { searchPosition } from '../ai/engine-search';
+import { EngineWorkerClient } from '../ai/engine-worker-client';
+
+describe('searchPosition', () => {
+  it('deepens up to the requested level', async () => {
+    const levels: number[] = [];
+    const result = await searchPosition(STARTING_FEN, { level: 2, timeBudgetMs: 60_000 }, progress => levels.push(progress.level));
+
+    expect(levels).toEqual([1, 2]);
+    expect(result.level).toBe(2);
+    expect(Object.keys(result.move!)).toHaveLength(1);
+  });
+
+  it('stops deepening once the time budget is used up', async () => {
+    const result = await searchPosition(STARTING_FEN, { level: 4, timeBudgetMs: 0 });
+    expect(result.level).toBe(1);
+    expect(result.move).not.toBeNull();
+  });
+
+  it('returns no move when there is no legal move', async () => {
+    const result = await searchPosition('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1', { level: 2, timeBudgetMs: 1000 });
+    expect(result.move).toBeNull();
+  });
+});
+
+describe('EngineWorkerClient', () => {
+  it('finds a move without a worker', async () => {
+    const client = new EngineWorkerClient();
+    const result = await client.search(STARTING_FEN, { level: 1, timeBudgetMs: 1000 });
+
+    expect(result?.move).toBeTruthy();
+    expect(client.isSearching()).toBe(false);
+  });
+
+  it('resolves a cancelled search to null', async () => {
+    const client = new EngineWorkerClient();
+    const search = client.search(STARTING_FEN, { level: 3, timeBudgetMs: 60_000 });
+    client.cancel();
+
+    expect(await search).toBeNull();
+    expect(client.isSearching()).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * FEN Tests
+ * Invalid positions are rejected with a clear message; valid ones round-trip
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from '../core/game-state';
+import { parseFEN, STARTING_FEN } from '../core/fen';
+
+describe('parseFEN rejects invalid positions', () => {
+  const cases: Array<{ name: string; fen: string; error: string }> = [
+    // Structure
+    { name: 'missing fields', fen: '4k3/8/8/8/8/8/8/4K3 w - -', error: 'expected 6 fields, got 4' },
+    { name: 'too few ranks', fen: '4k3/8/8/8/8/8/4K3 w - - 0 1', error: 'expected 8 ranks, got 7' },
+    { name: 'a short rank', fen: '4k3/8/8/8/8/8/7/4K3 w - - 0 1', error: 'rank 2 has 7 squares instead of 8' },
+    { name: 'a long rank', fen: '4k3/8/8/8/8/8/8P/4K3 w - - 0 1', error: 'rank 2 has more than 8 squares' },
+    { name: 'an unknown piece', fen: '4k3/8/8/8/8/8/3X4/4K3 w - - 0 1', error: "unknown piece 'X'" },
+    { name: 'a bad side to move', fen: '4k3/8/8/8/8/8/8/4K3 x - - 0 1', error: "side to move must be 'w' or 'b', got 'x'" },
+
+    // Piece counts
+    { name: 'no white king', fen: '4k3/8/8/8/8/8/8/8 w - - 0 1', error: 'white must have exactly one king, found 0' },
+    { name: 'two black kings', fen: 'k3k3/8/8/8/8/8/8/4K3 w - - 0 1', error: 'black must have exactly one king, found 2' },
+    { name: 'nine pawns', fen: '4k3/8/8/8/8/P7/PPPPPPPP/4K3 w - - 0 1', error: 'white has 9 pawns (maximum 8)' },
+    { name: 'a pawn on the last rank', fen: '3Pk3/8/8/8/8/8/8/4K3 w - - 0 1', error: 'pawn on d8 (first or last rank)' },
+    {
+      name: 'more promoted pieces than missing pawns',
+      fen: '4k3/8/8/8/8/8/PPPPPPPP/QQ2K3 w - - 0 1',
+      error: 'white has more promoted pieces than missing pawns'
+    },
+
+    // Check
+    {
+      name: 'the side not to move in check',
+      fen: '4k3/8/8/8/8/8/8/4K2r b - - 0 1',
+      error: 'white is in check but it is black to move'
+    },
+
+    // Castling rights
+    { name: 'an unknown castling flag', fen: '4k3/8/8/8/8/8/8/R3K2R w KX - 0 1', error: "unknown castling flag 'X'" },
+    {
+      name: 'castling without a rook',
+      fen: '4k3/8/8/8/8/8/8/4K3 w K - 0 1',
+      error: 'white kingside castling requires a rook on h1'
+    },
+    {
+      name: 'standard castling with the rook off its corner',
+      fen: 'r3k2r/8/8/8/8/8/8/R3KR2 w KQkq - 0 1',
+      error: 'white kingside castling requires a rook on h1'
+    },
+    {
+      name: 'Chess960 castling without a rook',
+      fen: '4k3/8/8/8/8/8/8/1K6 w K - 0 1',
+      error: 'white kingside castling requires a rook on that side of the king'
+    },
+    {
+      name: 'castling with the king off its rank',
+      fen: 'r3k2r/8/8/8/8/8/4K3/R6R w K - 0 1',
+      error: 'white castling requires the king on rank 1'
+    },
+    {
+      name: 'a castling file without a rook',
+      fen: '4k3/8/8/8/8/8/8/R3K2R w G - 0 1',
+      error: "castling flag 'G' requires a rook on g1"
+    },
+    { name: 'a repeated castling flag', fen: '4k3/8/8/8/8/8/8/R3K2R w KH - 0 1', error: 'white kingside castling appears twice' },
+
+    // En passant
+    { name: 'a malformed en passant square', fen: '4k3/8/8/8/8/8/8/4K3 w - z9 0 1', error: "bad en passant square 'z9'" },
+    { name: 'an en passant square on the wrong rank', fen: '4k3/8/8/8/4P3/8/8/4K3 b - e4 0 1', error: 'en passant square e4 must be on rank 3' },
+    {
+      name: 'an en passant square without a pawn',
+      fen: '4k3/8/8/8/8/8/8/4K3 b - e3 0 1',
+      error: 'en passant square e3 has no white pawn in front of it'
+    },
+    {
+      name: 'an en passant square after a blocked double move',
+      fen: '4k3/8/8/8/4P3/8/4N3/4K3 b - e3 0 1',
+      error: 'en passant square e3 does not follow a double pawn move'
+    },
+
+    // Counters
+    { name: 'a non-numeric halfmove clock', fen: '4k3/8/8/8/8/8/8/4K3 w - - x 1', error: "halfmove clock must be a number, got 'x'" },
+    { name: 'a negative halfmove clock', fen: '4k3/8/8/8/8/8/8/4K3 w - - -1 1', error: "halfmove clock must be a number, got '-1'" },
+    { name: 'a zero fullmove number', fen: '4k3/8/8/8/8/8/8/4K3 w - - 0 0', error: 'fullmove number must be at least 1' }
+  ];
+
+  cases.forEach(({ name, fen, error }) => {
+    it(`rejects ${name}`, () => {
+      expect(() => parseFEN(fen)).toThrow(`Invalid FEN: ${error}`);
+    });
+  });
+});
+
+describe('FEN round-trips', () => {
+  const positions = [
+    { name: 'the starting position', fen: STARTING_FEN },
+    { name: 'black to move with an en passant square', fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1' },
+    { name: 'partial castling rights', fen: 'r3k2r/8/8/8/8/8/8/R3K2R w Kq - 12 40' },
+    { name: 'no castling rights', fen: 'r3k2r/8/8/8/8/8/8/R3K2R b - - 0 1' },
+    { name: 'promoted pieces', fen: '4k3/8/8/8/8/8/8/QQQQK3 w - - 0 1' },
+    { name: 'the side to move in check', fen: '4k3/8/8/8/8/8/8/4K2r w - - 3 60' },
+    { name: 'large move counters', fen: '4k3/8/8/8/8/8/8/4K3 w - - 149 500' },
+    { name: 'Chess960 castling rights', fen: 'nrbkqbrn/pppppppp/8/8/8/8/PPPPPPPP/NRBKQBRN w GBgb - 0 1' }
+  ];
+
+  positions.forEach(({ name, fen }) => {
+    it(`keeps ${name}`, () => {
+      expect(() => parseFEN(fen)).not.toThrow();
+      expect(ChessGame.fromFEN(fen).toFEN()).toBe(fen);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Game Reviewer Tests
+ * Move labels, accuracy and engine reviews of short games
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GameReviewer, classifyMove, isReviewable, moveAccuracy } from '../ai/game-reviewer';
+import { VariantId } from '../core/variants';
+
+describe('move labels', () => {
+  it('grow worse with the centipawn loss', () => {
+    expect(classifyMove(0, true)).toBe('best');
+    expect(classifyMove(0, true, true)).toBe('brilliant');
+    expect(classifyMove(30, false)).toBe('good');
+    expect(classifyMove(60, false)).toBe('inaccuracy');
+    expect(classifyMove(150, false)).toBe('mistake');
+    expect(classifyMove(400, false)).toBe('blunder');
+  });
+
+  it('give full accuracy for keeping the score', () => {
+    expect(moveAccuracy(50, 50)).toBeCloseTo(100, 0);
+    expect(moveAccuracy(0, -300)).toBeLessThan(moveAccuracy(0, -100));
+    expect(moveAccuracy(0, -1000)).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('GameReviewer', () => {
+  it('only reviews games the engine knows the rules of', async () => {
+    expect(isReviewable(VariantId.STANDARD)).toBe(true);
+    expect(isReviewable(VariantId.CHESS960)).toBe(false);
+    expect(isReviewable(VariantId.THREE_CHECK)).toBe(false);
+    expect(await new GameReviewer().review({ moves: [], variant: VariantId.THREE_CHECK })).toBeNull();
+  });
+
+  it('finds the blunder that allows mate', async () => {
+    const progress: number[] = [];
+    const review = await new GameReviewer().review(
+      { moves: ['f3', 'e5', 'g4', 'Qh4#'] },
+      { level: 2, timeBudgetMs: 1000 },
+      done => progress.push(done)
+    );
+
+    expect(review).not.toBeNull();
+    expect(progress).toEqual([1, 2, 3, 4, 5]);
+    expect(review!.moves.map(move => move.san)).toEqual(['f3', 'e5', 'g4', 'Qh4#']);
+    expect(review!.moves[2].label).toBe('blunder');
+    expect(review!.moves[3].label).toBe('best');
+    expect(review!.black.accuracy).toBeGreaterThan(review!.white.accuracy);
+    expect(review!.white.labels.blunder).toBeGreaterThanOrEqual(1);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Game Snapshot Tests
+ * Saving and restoring a game with its full move history
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from '../core/game-state';
+
+describe('ChessGame snapshots', () => {
+  it('restores the position, history and redo stack', () => {
+    const game = new ChessGame();
+    ['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6'].forEach(san => game.makeSANMove(san));
+    game.undo();
+    game.undo();
+
+    const snapshot = JSON.parse(JSON.stringify(game.getSnapshot()));
+    expect(snapshot.moves).toHaveLength(6);
+    expect(snapshot.currentMove).toBe(4);
+
+    const restored = new ChessGame();
+    restored.loadSnapshot(snapshot);
+    expect(restored.toFEN()).toBe(game.toFEN());
+    expect(restored.getState().zobristKey).toBe(game.getState().zobristKey);
+    expect(restored.getHistory().toAlgebraicNotation()).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+
+    expect(restored.redo()).toBe(true);
+    expect(restored.redo()).toBe(true);
+    expect(restored.getHistory().toAlgebraicNotation()).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6']);
+  });
+
+  it('keeps a custom start position', () => {
+    const fen = '4k3/8/8/8/8/8/4P3/4K3 b - - 0 1';
+    const game = ChessGame.fromFEN(fen);
+    game.makeSANMove('Kd7');
+
+    const restored = new ChessGame();
+    restored.loadSnapshot(game.getSnapshot());
+    expect(restored.getStartFEN()).toBe(fen);
+    expect(restored.toFEN()).toBe(game.toFEN());
+  });
+
+  it('rejects a snapshot with an illegal move', () => {
+    const game = new ChessGame();
+    expect(() => game.loadSnapshot({ startFen: game.toFEN(), moves: ['e5'], currentMove: 1 }))
+      .toThrow(/Illegal move/);
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Lesson Annotation Tests
+ * Arrows and circles declared by lesson stages point at real squares
+ */
+
+import { describe, it, expect } from 'vitest';
+import { lessons } from '../tutorial';
+
+describe('lesson annotations', () => {
+  const annotated = lessons.flatMap(lesson => lesson.stages).filter(stage => stage.annotations?.length);
+
+  it('are declared by some lessons', () => {
+    expect(annotated.length).toBeGreaterThan(0);
+  });
+
+  it('only use squares on the board', () => {
+    annotated.forEach(stage => {
+      stage.annotations!.forEach(annotation => {
+        const squares = annotation.type === 'arrow' ? [annotation.from, annotation.to] : [annotation.square];
+        squares.forEach(square => expect(square, stage.id).toMatch(/^[a-h][1-8]$/));
+        if (annotation.type === 'arrow') {
+          expect(annotation.from).not.toBe(annotation.to);
+        }
+      });
+    });
+  });
+});
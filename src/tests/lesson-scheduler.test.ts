@@ -0,0 +1,85 @@
+/**
+ * Lesson Scheduler Tests
+ * Lessons are graded from their stages, scheduled for review and recommended as mastery fades
+ */
+
+import { describe, it, expect } from 'vitest';
+import { lessons } from '../tutorial/lesson-library';
+import { TutorialManager } from '../tutorial/tutorial-manager';
+import { fromAlgebraic } from '../utils/coordinates';
+import { DAY_MS } from '../data/spaced-repetition';
+import {
+  gradeStage,
+  gradeLesson,
+  reviewLesson,
+  getMastery,
+  getDueLessons,
+  recommendLessons
+} from '../data/lesson-scheduler';
+
+describe('tutorial stage results', () => {
+  it('counts the moves tried and hints used in each stage', () => {
+    const manager = new TutorialManager(lessons);
+    const stage = manager.startLesson(lessons[0].id)!;
+    const { from, to } = stage.correctMoves[0];
+    const wrongTo = to === 'a1' ? 'h8' : 'a1';
+
+    manager.validateMove(fromAlgebraic(from), fromAlgebraic(wrongTo));
+    manager.getHint();
+    manager.validateMove(fromAlgebraic(from), fromAlgebraic(to), stage.correctMoves[0].promotion);
+
+    expect(manager.getStageResults()).toEqual([{ stageId: stage.id, attempts: 2, hintsUsed: 1 }]);
+  });
+});
+
+describe('lesson grading', () => {
+  it('grades stages down for wrong moves and hints', () => {
+    expect(gradeStage({ stageId: 's', attempts: 1, hintsUsed: 0 })).toBe(5);
+    expect(gradeStage({ stageId: 's', attempts: 2, hintsUsed: 0 })).toBe(4);
+    expect(gradeStage({ stageId: 's', attempts: 1, hintsUsed: 2 })).toBe(3);
+    expect(gradeStage({ stageId: 's', attempts: 4, hintsUsed: 1 })).toBe(2);
+    expect(gradeStage({ stageId: 's', attempts: 8, hintsUsed: 3 })).toBe(1);
+    expect(gradeLesson([
+      { stageId: 'a', attempts: 1, hintsUsed: 0 },
+      { stageId: 'b', attempts: 2, hintsUsed: 0 }
+    ])).toBe(4);
+  });
+
+  it('schedules reviews and adds up stage statistics', () => {
+    const clean = [{ stageId: 'a', attempts: 1, hintsUsed: 0 }];
+    const first = reviewLesson('lesson', clean, undefined, 0);
+    const second = reviewLesson('lesson', [{ stageId: 'a', attempts: 3, hintsUsed: 0 }], first, DAY_MS);
+
+    expect(first).toMatchObject({ mastery: 100, reviews: 1, schedule: { interval: 1, dueAt: DAY_MS } });
+    expect(second.stages).toEqual([{ stageId: 'a', attempts: 4, successes: 2, cleanSuccesses: 1, hintsUsed: 0 }]);
+    expect(second.schedule.interval).toBe(6);
+  });
+});
+
+describe('mastery and recommendations', () => {
+  const clean = [{ stageId: 'a', attempts: 1, hintsUsed: 0 }];
+
+  it('decays mastery between reviews', () => {
+    const review = reviewLesson('lesson', clean, undefined, 0);
+    expect(getMastery(review, 0)).toBe(100);
+    expect(getMastery(review, 2 * DAY_MS)).toBe(50);
+  });
+
+  it('recommends due lessons, then weak ones, then the next lesson', () => {
+    const [unreviewed, weak, fresh] = lessons;
+    const progress = {
+      lessonsCompleted: [unreviewed.id, weak.id, fresh.id],
+      lessonReviews: {
+        [weak.id]: reviewLesson(weak.id, [{ stageId: 'a', attempts: 1, hintsUsed: 2 }], undefined, 0),
+        [fresh.id]: reviewLesson(fresh.id, clean, undefined, 0)
+      }
+    };
+
+    expect(getDueLessons(lessons, progress, DAY_MS / 2).map(due => due.lessonId)).toEqual([unreviewed.id]);
+    expect(recommendLessons(lessons, progress, DAY_MS / 2)).toEqual([
+      { lessonId: unreviewed.id, reason: 'due', mastery: null },
+      { lessonId: weak.id, reason: 'weak', mastery: 50 },
+      { lessonId: lessons[3].id, reason: 'next', mastery: null }
+    ]);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Opening Book Tests
+ * Book lines are legal and games are matched to the longest line they follow
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from '../core/game-state';
+import { OPENINGS, detectOpening } from '../data/opening-book';
+
+describe('opening book', () => {
+  it('only has legal lines', () => {
+    OPENINGS.forEach(opening => {
+      const game = new ChessGame();
+      expect(() => opening.moves.forEach(san => game.makeSANMove(san)), opening.name).not.toThrow();
+    });
+  });
+
+  it('finds the longest line a game follows', () => {
+    const moves = ['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Bc5', 'c3', 'Nf6'];
+    expect(detectOpening(moves)?.name).toBe('Italian Game: Giuoco Piano');
+    expect(detectOpening(moves.slice(0, 5))?.name).toBe('Italian Game');
+    expect(detectOpening(['e4', 'e5', 'Qh5', 'Nc6', 'Bc4', 'Nf6', 'Qxf7#'])?.eco).toBe('C20');
+  });
+
+  it('finds nothing for a game that leaves the book at once', () => {
+    expect(detectOpening([])).toBeNull();
+    expect(detectOpening(['h4', 'h5'])).toBeNull();
+  });
+});
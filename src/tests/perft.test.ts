@@ -0,0 +1,188 @@
+/**
+ * Perft Test Suite
+ * Checks move generation against published node counts
+ * (https://www.chessprogramming.org/Perft_Results)
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position } from '../core/types';
+import { PieceType, GameStatus, DrawReason } from '../core/types';
+import { ChessGame } from '../core/game-state';
+import { STARTING_FEN, toFEN } from '../core/fen';
+import { perft, createStateFromFEN } from '../core/perft';
+import { makeMoveInPlace, unmakeMove, generateLegalMoves } from '../core/move-executor';
+import { computeZobristKey } from '../core/zobrist';
+
+const PERFT_TIMEOUT = 60_000;
+
+interface PerftPosition {
+  name: string;
+  fen: string;
+  counts: number[]; // Node counts for depth 1, 2, 3, ...
+  depth: number; // Deepest count checked with make/unmake
+  gameDepth: number; // Deepest count checked through ChessGame.makeMove
+}
+
+const POSITIONS: PerftPosition[] = [
+  {
+    name: 'initial position',
+    fen: STARTING_FEN,
+    counts: [20, 400, 8902, 197281],
+    depth: 4,
+    gameDepth: 3
+  },
+  {
+    name: 'Kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    counts: [48, 2039, 97862],
+    depth: 3,
+    gameDepth: 2
+  },
+  {
+    name: 'position 3',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    counts: [14, 191, 2812, 43238, 674624],
+    depth: 5,
+    gameDepth: 3
+  },
+  {
+    name: 'position 4',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    counts: [6, 264, 9467],
+    depth: 3,
+    gameDepth: 2
+  },
+  {
+    name: 'position 4 (mirrored)',
+    fen: 'r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1',
+    counts: [6, 264, 9467],
+    depth: 3,
+    gameDepth: 2
+  },
+  {
+    name: 'position 5',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    counts: [44, 1486, 62379],
+    depth: 3,
+    gameDepth: 2
+  },
+  {
+    name: 'position 6',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    counts: [46, 2079, 89890],
+    depth: 3,
+    gameDepth: 2
+  }
+];
+
+const PROMOTION_PIECES = [PieceType.QUEEN, PieceType.ROOK, PieceType.BISHOP, PieceType.KNIGHT];
+
+/**
+ * Perft using only the public ChessGame API (getLegalMovesFor + makeMove + undo)
+ */
+function perftThroughGame(game: ChessGame, depth: number): number {
+  if (depth === 0) return 1;
+
+  const board = game.getBoard();
+  const color = game.getCurrentPlayer();
+  let nodes = 0;
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.color !== color) continue;
+
+      const from: Position = { row, col };
+      for (const to of game.getLegalMovesFor(from)) {
+        const isPromotion = piece.type === PieceType.PAWN && (to.row === 0 || to.row === 7);
+        const choices = isPromotion ? PROMOTION_PIECES : [undefined];
+
+        for (const promotionPiece of choices) {
+          expect(game.makeMove(from, to, promotionPiece)).toBe(true);
+          nodes += perftThroughGame(game, depth - 1);
+          game.undo();
+        }
+      }
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Walk the move tree checking that make/unmake restores the position
+ * and that the incremental Zobrist key matches a full recomputation
+ */
+function checkMakeUnmake(state: GameState, depth: number): void {
+  if (depth === 0) return;
+
+  for (const move of generateLegalMoves(state)) {
+    const fenBefore = toFEN(state);
+    const keyBefore = state.zobristKey;
+
+    const undo = makeMoveInPlace(state, move.from, move.to, move.promotionPiece);
+    expect(state.zobristKey).toBe(computeZobristKey(state));
+
+    checkMakeUnmake(state, depth - 1);
+
+    unmakeMove(state, undo);
+    expect(toFEN(state)).toBe(fenBefore);
+    expect(state.zobristKey).toBe(keyBefore);
+  }
+}
+
+describe('perft (make/unmake)', () => {
+  for (const position of POSITIONS) {
+    for (let depth = 1; depth <= position.depth; depth++) {
+      it(`${position.name} depth ${depth}`, () => {
+        const state = createStateFromFEN(position.fen);
+        expect(perft(state, depth)).toBe(position.counts[depth - 1]);
+        expect(toFEN(state)).toBe(position.fen);
+      }, PERFT_TIMEOUT);
+    }
+  }
+});
+
+describe('perft (ChessGame.makeMove)', () => {
+  for (const position of POSITIONS) {
+    it(`${position.name} depth ${position.gameDepth}`, () => {
+      const game = ChessGame.fromFEN(position.fen);
+      expect(perftThroughGame(game, position.gameDepth)).toBe(position.counts[position.gameDepth - 1]);
+      expect(game.toFEN()).toBe(position.fen);
+    }, PERFT_TIMEOUT);
+  }
+});
+
+describe('make/unmake', () => {
+  for (const position of POSITIONS) {
+    it(`restores ${position.name} and keeps the Zobrist key in sync`, () => {
+      checkMakeUnmake(createStateFromFEN(position.fen), 2);
+    }, PERFT_TIMEOUT);
+  }
+});
+
+describe('Zobrist en passant key', () => {
+  it('ignores an en passant square whose capture is illegal (pinned pawn)', () => {
+    // After ...d5 the e5 pawn is pinned to the king by the rook on e8
+    const game = ChessGame.fromFEN('4r2k/3p4/8/4P3/8/8/8/4K1N1 b - - 0 1');
+    game.setAutoClaimThreefold(false);
+    game.makeSANMove('d5');
+    expect(game.getState().zobristKey).toBe(
+      computeZobristKey({ ...game.getState(), enPassantTarget: null })
+    );
+
+    ['Nf3', 'Kg8', 'Ng1', 'Kh8', 'Nf3', 'Kg8', 'Ng1', 'Kh8'].forEach(san => game.makeSANMove(san));
+    expect(game.canClaimDraw()).toBe(true);
+    expect(game.claimDraw()).toBe(true);
+    expect(game.getStatus()).toBe(GameStatus.DRAW);
+    expect(game.getDrawReason()).toBe(DrawReason.THREEFOLD_REPETITION);
+  });
+
+  it('keeps an en passant square whose capture is legal', () => {
+    const game = ChessGame.fromFEN('7k/3p4/8/4P3/8/8/8/4K1N1 b - - 0 1');
+    game.makeSANMove('d5');
+    expect(game.getState().zobristKey).not.toBe(
+      computeZobristKey({ ...game.getState(), enPassantTarget: null })
+    );
+  });
+});
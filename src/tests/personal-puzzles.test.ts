@@ -0,0 +1,161 @@
+/**
+ * Personal Puzzle Tests
+ * Puzzles are mined from the player's mistakes and reviewed with spaced repetition
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from '../core/game-state';
+import { VariantId } from '../core/variants';
+import { minePuzzles, needsMining, toPersonalPuzzle } from '../data/puzzle-miner';
+import { createSchedule, scheduleReview, isDue, DAY_MS } from '../data/spaced-repetition';
+import type { SavedGame } from '../data/game-history';
+import type { PersonalPuzzle } from '../data/personal-puzzles';
+import type { GameReview, MoveReview, SideReview } from '../ai/game-reviewer';
+
+/**
+ * A finished game against the computer, played as White
+ */
+function savedGame(moves: string[], changes: Partial<SavedGame> = {}): SavedGame {
+  return {
+    id: 'g1',
+    userId: 'test',
+    mode: 'vs-ai',
+    playerColor: 'white',
+    moves,
+    result: 'loss',
+    startedAt: 0,
+    completedAt: 0,
+    duration: 0,
+    ...changes
+  };
+}
+
+/**
+ * A stored puzzle after one solved review
+ */
+function scheduleReviewOf(puzzle: PersonalPuzzle): PersonalPuzzle {
+  return { ...puzzle, schedule: scheduleReview(puzzle.schedule, 5, 0) };
+}
+
+/**
+ * An engine review with the given move reviews
+ */
+function review(moves: MoveReview[]): GameReview {
+  const side: SideReview = {
+    accuracy: 50,
+    averageCentipawnLoss: 100,
+    labels: { brilliant: 0, best: 0, good: 0, inaccuracy: 0, mistake: 0, blunder: 0 }
+  };
+  return { engineLevel: 1, reviewedAt: 0, startEvaluation: 0, moves, white: side, black: side };
+}
+
+describe('puzzle miner', () => {
+  it('finds a checkmate the player missed', async () => {
+    const game = savedGame(['e4', 'e5', 'Bc4', 'Nc6', 'Qh5', 'Nf6', 'd3']);
+    const mined = await minePuzzles(game);
+
+    expect(mined).toHaveLength(1);
+    expect(mined[0]).toMatchObject({
+      id: 'g1-6',
+      ply: 6,
+      played: 'd3',
+      solution: ['Qxf7#'],
+      themes: ['mate'],
+      reason: 'missed-mate'
+    });
+    expect(() => ChessGame.fromFEN(mined[0].fen).makeSANMove('Qxf7#')).not.toThrow();
+  });
+
+  it('only mines the player\'s own moves', async () => {
+    const game = savedGame(['e4', 'e5', 'Bc4', 'Nc6', 'Qh5', 'Nf6', 'd3'], { playerColor: 'black' });
+    expect(await minePuzzles(game)).toEqual([]);
+  });
+
+  it('turns reviewed mistakes into puzzles with the engine\'s move', async () => {
+    const game = savedGame(['Kd2', 'Kf7'], {
+      startFen: 'r3k3/8/8/3N4/8/8/8/4K3 w - - 0 1',
+      analysis: review([
+        { san: 'Kd2', color: 'white', evaluation: 0, centipawnLoss: 500, label: 'blunder', bestMove: 'Nc7+' },
+        { san: 'Kf7', color: 'black', evaluation: 0, centipawnLoss: 0, label: 'best' }
+      ])
+    });
+    const mined = await minePuzzles(game);
+
+    expect(mined).toHaveLength(1);
+    expect(mined[0]).toMatchObject({ id: 'g1-0', solution: ['Nc7+'], reason: 'blunder', fromReview: true });
+    expect(mined[0].themes).toContain('fork');
+    expect(mined[0].fen.split(' ')[0]).toBe('r3k3/8/8/3N4/8/8/8/4K3');
+  });
+
+  it('finds a hanging piece the player did not take', async () => {
+    const game = savedGame(['e4', 'e5', 'Nf3', 'Qg5', 'd3']);
+    const mined = await minePuzzles(game);
+
+    expect(mined).toHaveLength(1);
+    expect(mined[0]).toMatchObject({ id: 'g1-4', played: 'd3', solution: ['Nxg5'], reason: 'blunder' });
+  });
+
+  it('finds a fork the player missed in a game without a review', async () => {
+    const game = savedGame(['Kd2', 'Kf7'], { startFen: 'r3k3/8/8/3N4/8/8/8/4K3 w - - 0 1' });
+    const mined = await minePuzzles(game);
+
+    expect(mined).toHaveLength(1);
+    expect(mined[0]).toMatchObject({ id: 'g1-0', solution: ['Nc7+'], reason: 'blunder' });
+    expect(mined[0].themes).toContain('fork');
+  });
+
+  it('skips variant games', async () => {
+    const game = savedGame(['e4', 'e5', 'Bc4', 'Nc6', 'Qh5', 'Nf6', 'd3'], { variant: VariantId.CHESS960 });
+    expect(await minePuzzles(game)).toEqual([]);
+  });
+});
+
+describe('personal puzzle storage', () => {
+  it('searches each game once, and again after it is reviewed', () => {
+    const game = savedGame(['e4']);
+    expect(needsMining(game)).toBe(true);
+    expect(needsMining({ ...game, puzzlesMinedAt: 10 })).toBe(false);
+    expect(needsMining({ ...game, puzzlesMinedAt: 10, analysis: { ...review([]), reviewedAt: 20 } })).toBe(true);
+  });
+
+  it('lets the engine\'s puzzle replace one found without it, keeping the schedule', async () => {
+    const moves = ['Kd2', 'Kf7'];
+    const startFen = 'r3k3/8/8/3N4/8/8/8/4K3 w - - 0 1';
+    const [found] = await minePuzzles(savedGame(moves, { startFen }));
+    const [reviewed] = await minePuzzles(savedGame(moves, {
+      startFen,
+      analysis: review([{ san: 'Kd2', color: 'white', evaluation: 0, centipawnLoss: 150, label: 'mistake', bestMove: 'Nc7+' }])
+    }));
+
+    const stored = scheduleReviewOf(toPersonalPuzzle(found, undefined, 'test', 0)!);
+    const replaced = toPersonalPuzzle(reviewed, stored, 'test', DAY_MS)!;
+
+    expect(replaced).toMatchObject({ reason: 'mistake', fromReview: true, createdAt: 0, schedule: stored.schedule });
+    expect(toPersonalPuzzle(found, replaced, 'test', DAY_MS)).toBeNull();
+  });
+});
+
+describe('spaced repetition', () => {
+  it('spaces out reviews that go well', () => {
+    let schedule = createSchedule(0);
+    expect(isDue(schedule, 0)).toBe(true);
+
+    const intervals: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      schedule = scheduleReview(schedule, 5, 0);
+      intervals.push(schedule.interval);
+    }
+    expect(intervals).toEqual([1, 6, 16]);
+    expect(isDue(schedule, 15 * DAY_MS)).toBe(false);
+    expect(isDue(schedule, 16 * DAY_MS)).toBe(true);
+  });
+
+  it('starts over after a failed review', () => {
+    const learned = scheduleReview(scheduleReview(createSchedule(0), 5, 0), 5, 0);
+    const failed = scheduleReview(learned, 1, 0);
+
+    expect(failed).toMatchObject({ repetitions: 0, interval: 1, dueAt: DAY_MS });
+    expect(failed.ease).toBeLessThan(learned.ease);
+    expect(scheduleReview(scheduleReview(failed, 0, 0), 0, 0).ease).toBe(1.3);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * PGN Tests
+ * Reading annotated PGN, SAN details and export/import round-trips
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from '../core/game-state';
+import { GameStatus } from '../core/types';
+import { exportPGN, loadPGN, parsePGN } from '../core/pgn';
+
+/**
+ * Load PGN into a new game and return the SAN of the moves played
+ */
+function importMoves(pgn: string): { game: ChessGame; moves: string[] } {
+  const game = new ChessGame();
+  loadPGN(game, pgn);
+  return { game, moves: game.getHistory().getAllMoves().map(entry => entry.notation) };
+}
+
+/**
+ * PGN for a position set up from FEN
+ */
+function fromPosition(fen: string, moveText: string): string {
+  return `[SetUp "1"]\n[FEN "${fen}"]\n\n${moveText}`;
+}
+
+describe('PGN import', () => {
+  it('skips comments, NAGs and nested variations', () => {
+    const pgn = [
+      '[Event "Annotated"]',
+      '[Result "1-0"]',
+      '',
+      '1. e4 {best by test} e5 $1 2. Nf3 ; the main line',
+      'Nc6 (2... d6 3. d4 (3. Bc4 Be7) exd4 {Philidor}) 3. Bb5!? a6 $6',
+      '(3... Nf6 4. O-O) 1-0'
+    ].join('\n');
+
+    const parsed = parsePGN(pgn);
+    expect(parsed.headers.Event).toBe('Annotated');
+    expect(parsed.result).toBe('1-0');
+    expect(importMoves(pgn).moves).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6']);
+  });
+
+  it('reads moves that need a file or rank to tell pieces apart', () => {
+    expect(importMoves('1. d4 d5 2. Nf3 Nf6 3. Nbd2 *').moves[4]).toBe('Nbd2');
+
+    const rooks = '4k3/8/8/R7/8/8/6K1/R6R w - - 0 1';
+    expect(importMoves(fromPosition(rooks, '1. Rae1+ *')).moves).toEqual(['Rae1+']);
+    expect(importMoves(fromPosition(rooks, '1. R1a3 *')).moves).toEqual(['R1a3']);
+  });
+
+  it('reads check and mate suffixes', () => {
+    const check = importMoves('1. e4 e5 2. Qh5 Nc6 3. Qxf7+ Kxf7 *');
+    expect(check.moves[4]).toBe('Qxf7+');
+
+    const mate = importMoves('1. e4 e5 2. Bc4 Nc6 3. Qh5 Nf6 4. Qxf7# 1-0');
+    expect(mate.moves[6]).toBe('Qxf7#');
+    expect(mate.game.getStatus()).toBe(GameStatus.CHECKMATE);
+  });
+
+  it('reads promotions and underpromotions', () => {
+    const fen = '8/4P1k1/8/8/8/8/8/4K3 w - - 0 1';
+    expect(importMoves(fromPosition(fen, '1. e8=Q *')).moves).toEqual(['e8=Q']);
+    expect(importMoves(fromPosition(fen, '1. e8=N+ *')).moves).toEqual(['e8=N+']);
+  });
+
+  it('names the move that cannot be played', () => {
+    expect(() => loadPGN(new ChessGame(), '1. e4 e5 2. Ke3 *')).toThrow('Invalid PGN: move 2. Ke3');
+  });
+});
+
+describe('PGN round-trip', () => {
+  it('imports an exported game move for move', () => {
+    const game = new ChessGame();
+    ['e4', 'd5', 'exd5', 'c5', 'dxc6', 'Nf6', 'cxb7', 'e6', 'bxa8=Q', 'Bc5', 'Nf3', 'O-O', 'Qxb8', 'Qd7']
+      .forEach(san => game.makeSANMove(san));
+
+    const pgn = exportPGN(game, { White: 'Alice', Black: 'Bob' });
+    const imported = new ChessGame();
+    const parsed = loadPGN(imported, pgn);
+
+    expect(parsed.headers).toMatchObject({ White: 'Alice', Black: 'Bob', Result: '*' });
+    expect(imported.getHistory().getAllMoves().map(entry => entry.notation))
+      .toEqual(game.getHistory().getAllMoves().map(entry => entry.notation));
+    expect(imported.toFEN()).toBe(game.toFEN());
+    expect(exportPGN(imported, { White: 'Alice', Black: 'Bob', Date: parsed.headers.Date })).toBe(pgn);
+  });
+});
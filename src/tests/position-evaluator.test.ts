@@ -0,0 +1,46 @@
+/**
+ * Position Evaluator Tests
+ * Evaluations from White's side, the evaluation bar and its text
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PositionEvaluator, formatEvaluation, getWhiteShare } from '../ai/position-evaluator';
+import type { PositionEvaluation } from '../ai/position-evaluator';
+
+/**
+ * An evaluation with just a score
+ */
+function evaluationOf(score: number, mate: boolean = false): PositionEvaluation {
+  return { score, mate, bestMove: null, level: 1 };
+}
+
+describe('evaluation display', () => {
+  it('formats scores in pawns', () => {
+    expect(formatEvaluation(evaluationOf(150))).toBe('+1.5');
+    expect(formatEvaluation(evaluationOf(-34))).toBe('-0.3');
+    expect(formatEvaluation(evaluationOf(4))).toBe('0.0');
+    expect(formatEvaluation(evaluationOf(-999999, true))).toBe('-M');
+  });
+
+  it('fills the bar by the size of the advantage', () => {
+    expect(getWhiteShare(evaluationOf(0))).toBeCloseTo(0.5);
+    expect(getWhiteShare(evaluationOf(300))).toBeGreaterThan(getWhiteShare(evaluationOf(100)));
+    expect(getWhiteShare(evaluationOf(-400))).toBeCloseTo(1 - getWhiteShare(evaluationOf(400)));
+    expect(getWhiteShare(evaluationOf(999999, true))).toBe(1);
+  });
+});
+
+describe('PositionEvaluator', () => {
+  it('scores from White\'s side and finds the best move', async () => {
+    // Black to move, and the queen can take a free rook on a5
+    const evaluation = await new PositionEvaluator().evaluate('4k3/8/8/R2q4/8/8/8/4K3 b - - 0 1', 2, 1000);
+    expect(evaluation).not.toBeNull();
+    expect(evaluation!.score).toBeLessThan(0);
+    expect(evaluation!.bestMove).toEqual({ from: { row: 3, col: 3 }, to: { row: 3, col: 0 } });
+  });
+
+  it('has nothing to say about a finished game', async () => {
+    const evaluation = await new PositionEvaluator().evaluate('7k/6Q1/6K1/8/8/8/8/8 b - - 0 1', 1, 1000);
+    expect(evaluation).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Puzzle Trainer Tests
+ * Bundled puzzles are sound, replies are played for the player and puzzles are rated
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from '../core/game-state';
+import { GameStatus } from '../core/types';
+import { sanToMove } from '../core/san';
+import { puzzles } from '../tutorial/puzzle-library';
+import { PuzzleTrainer } from '../tutorial/puzzle-trainer';
+import { SkillEngine } from '../data/skill-engine';
+
+/**
+ * Play a SAN move on the trainer's board and check it, as the board does
+ */
+function playMove(trainer: PuzzleTrainer, san: string) {
+  const game = trainer.getGame();
+  const { from, to, promotion } = sanToMove(game.getState(), san);
+  game.makeMove(from, to, promotion);
+  return trainer.validateMove(from, to, promotion);
+}
+
+describe('puzzle library', () => {
+  it('has legal solutions that end with the player\'s move', () => {
+    puzzles.forEach(puzzle => {
+      const game = ChessGame.fromFEN(puzzle.fen);
+      expect(() => puzzle.solution.forEach(san => game.makeSANMove(san)), puzzle.id).not.toThrow();
+      expect(puzzle.solution.length % 2, puzzle.id).toBe(1);
+
+      if (puzzle.themes.includes('mate')) {
+        expect(game.getStatus(), puzzle.id).toBe(GameStatus.CHECKMATE);
+      }
+    });
+  });
+
+  it('has unique IDs', () => {
+    expect(new Set(puzzles.map(puzzle => puzzle.id)).size).toBe(puzzles.length);
+  });
+});
+
+describe('puzzle trainer', () => {
+  it('plays the reply and finishes the puzzle', () => {
+    const trainer = new PuzzleTrainer(puzzles);
+    trainer.startPuzzle('fork-royal-knight');
+
+    const first = playMove(trainer, 'Nc7+');
+    expect(first).toMatchObject({ correct: true, solved: false, outcome: null });
+    expect(trainer.playReply()).not.toBeNull();
+
+    const last = playMove(trainer, 'Nxa8');
+    expect(last).toMatchObject({ correct: true, solved: true, outcome: 'solved' });
+  });
+
+  it('takes back a wrong move and fails the puzzle once', () => {
+    const trainer = new PuzzleTrainer(puzzles);
+    const puzzle = trainer.startPuzzle('fork-royal-knight');
+
+    expect(playMove(trainer, 'Nb6')).toMatchObject({ correct: false, outcome: 'failed' });
+    expect(trainer.getGame().toFEN().split(' ')[0]).toBe(puzzle.fen.split(' ')[0]);
+    expect(playMove(trainer, 'Kd2').outcome).toBeNull();
+
+    playMove(trainer, 'Nc7+');
+    trainer.playReply();
+    expect(playMove(trainer, 'Nxa8')).toMatchObject({ solved: true, outcome: null });
+  });
+
+  it('accepts any checkmate and counts hints as a miss', () => {
+    const trainer = new PuzzleTrainer(puzzles);
+    trainer.startPuzzle('mate-queen-corner');
+    expect(trainer.getHint()).not.toBeNull();
+    expect(playMove(trainer, 'Qa1#')).toMatchObject({ correct: true, solved: true, outcome: 'failed' });
+  });
+
+  it('picks unseen puzzles of a theme closest to the rating', () => {
+    const trainer = new PuzzleTrainer(puzzles);
+    expect(trainer.selectPuzzle({ rating: 1000, theme: 'pin' })?.id).toBe('pin-bishop-queen');
+    expect(trainer.selectPuzzle({ rating: 1000, theme: 'pin', exclude: ['pin-bishop-queen'] })?.id)
+      .toBe('pin-rook-queen');
+    expect(trainer.selectPuzzle({ rating: 400, theme: 'mate' })?.id).toBe('mate-queen-corner');
+  });
+});
+
+describe('puzzle rating', () => {
+  it('rates puzzles like opponents', () => {
+    expect(SkillEngine.calculatePuzzleRatingChange(600, 800, true).change).toBeGreaterThan(
+      SkillEngine.calculatePuzzleRatingChange(600, 500, true).change
+    );
+    expect(SkillEngine.calculatePuzzleRatingChange(600, 600, false).change).toBeLessThan(0);
+  });
+
+  it('trains the tactics of the puzzle and finds the weakest one', () => {
+    const profile = SkillEngine.createInitialProfile('test');
+    const skills = SkillEngine.updateTacticalSkills(profile.tacticalSkills, ['fork', 'mate'], true);
+    expect(skills.forks).toBeGreaterThan(0);
+    expect(skills.pins).toBe(0);
+    expect(SkillEngine.getWeakestTactic({ ...skills, pins: 30, skewers: 5, discoveredAttacks: 20 })).toBe('skewer');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Sound Effects Tests
+ * Every cue can be played and moves pick the cue that fits them
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from '../core/game-state';
+import { SoundEffect, SOUND_FILES, SYNTH_SOUNDS, getMoveSound } from '../ui/audio/sound-effects';
+
+/**
+ * Play SAN moves from a FEN and get the cue for the last one
+ */
+function soundAfter(fen: string, moves: string[]): SoundEffect {
+  const game = ChessGame.fromFEN(fen);
+  moves.forEach(san => game.makeSANMove(san));
+  return getMoveSound(game.getHistory().getLastMove()!.move, game.getStatus());
+}
+
+describe('sound effects', () => {
+  it('has a file and synthesized notes for every cue', () => {
+    Object.values(SoundEffect).forEach(effect => {
+      expect(SOUND_FILES[effect], effect).toBeTruthy();
+      expect(SYNTH_SOUNDS[effect].length, effect).toBeGreaterThan(0);
+    });
+  });
+
+  it('picks the cue for each kind of move', () => {
+    const start = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+    expect(soundAfter(start, ['e4'])).toBe(SoundEffect.MOVE);
+    expect(soundAfter(start, ['e4', 'd5', 'exd5'])).toBe(SoundEffect.CAPTURE);
+    expect(soundAfter('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1', ['O-O'])).toBe(SoundEffect.CASTLE);
+    expect(soundAfter('8/P7/8/8/8/1k6/8/7K w - - 0 1', ['a8=Q'])).toBe(SoundEffect.PROMOTE);
+  });
+
+  it('prefers the check cue', () => {
+    expect(soundAfter('4k3/8/8/8/8/8/8/R3K3 w - - 0 1', ['Ra8+'])).toBe(SoundEffect.CHECK);
+    expect(soundAfter('8/P7/8/8/8/8/8/k6K w - - 0 1', ['a8=Q+'])).toBe(SoundEffect.CHECK);
+  });
+});
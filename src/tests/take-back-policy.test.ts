@@ -0,0 +1,60 @@
+/**
+ * Take-Back Policy Tests
+ * Limits per policy and smaller rating gains for games with take-backs
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TakeBackMode,
+  getTakeBackPolicy,
+  getTakeBacksLeft,
+  countTakeBack,
+  refundTakeBack
+} from '../data/take-back-policy';
+import { SkillEngine } from '../data/skill-engine';
+
+describe('take-back policies', () => {
+  it('limit take-backs per game', () => {
+    expect(getTakeBacksLeft(getTakeBackPolicy(TakeBackMode.PRACTICE), 10)).toBeNull();
+    expect(getTakeBacksLeft(getTakeBackPolicy(TakeBackMode.LEARNING), 1)).toBe(2);
+    expect(getTakeBacksLeft(getTakeBackPolicy(TakeBackMode.LEARNING), 5)).toBe(0);
+    expect(getTakeBacksLeft(getTakeBackPolicy(TakeBackMode.RATED), 0)).toBe(0);
+  });
+
+  it('only rate games that limit take-backs', () => {
+    expect(getTakeBackPolicy(TakeBackMode.PRACTICE).rated).toBe(false);
+    expect(getTakeBackPolicy(TakeBackMode.RATED).rated).toBe(true);
+    expect(getTakeBackPolicy('unknown').id).toBe(TakeBackMode.LEARNING);
+  });
+});
+
+describe('counting take-backs', () => {
+  it('only counts take-backs against the AI', () => {
+    expect(countTakeBack(1, true)).toBe(2);
+    expect(countTakeBack(0, false)).toBe(0);
+  });
+
+  it('gives a take-back back on redo', () => {
+    const policy = getTakeBackPolicy(TakeBackMode.LEARNING);
+    const used = refundTakeBack(countTakeBack(2, true), true);
+    expect(used).toBe(2);
+    expect(getTakeBacksLeft(policy, used)).toBe(1);
+    expect(refundTakeBack(0, true)).toBe(0);
+    expect(refundTakeBack(0, false)).toBe(0);
+  });
+});
+
+describe('rating with take-backs', () => {
+  it('shrinks gains for each take-back', () => {
+    const clean = SkillEngine.calculateRatingChange(800, 'medium', 'win', 900);
+    const twice = SkillEngine.calculateRatingChange(800, 'medium', 'win', 900, 2);
+    expect(twice.change).toBe(Math.round(clean.change * 0.5));
+    expect(twice.reason).toContain('2 take-backs');
+  });
+
+  it('leaves losses alone', () => {
+    const clean = SkillEngine.calculateRatingChange(800, 'medium', 'loss', 900);
+    const withTakeBacks = SkillEngine.calculateRatingChange(800, 'medium', 'loss', 900, 3);
+    expect(withTakeBacks.change).toBe(clean.change);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Variant Tests
+ * Start positions, win conditions and move restrictions of the mini-games
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GameStatus, PieceType } from '../core/types';
+import { VARIANTS, VariantId, getVariant, getVariantByPGNName } from '../core/variants';
+import { ChessGame } from '../core/game-state';
+import { exportPGN, getPGNResult, loadPGN } from '../core/pgn';
+import { fromAlgebraic } from '../utils/coordinates';
+
+/**
+ * Game of a variant, starting from a FEN (or the variant's own start position)
+ */
+function createGame(variant: VariantId, fen?: string): ChessGame {
+  const game = new ChessGame();
+  game.setVariant(getVariant(variant));
+  if (fen) {
+    game.loadFEN(fen);
+  } else {
+    game.reset();
+  }
+  return game;
+}
+
+/**
+ * Target squares of a piece's moves, in algebraic notation
+ */
+function targets(game: ChessGame, square: string): string[] {
+  return game.getLegalMovesFor(fromAlgebraic(square))
+    .map(({ row, col }) => String.fromCharCode(97 + col) + (8 - row))
+    .sort();
+}
+
+describe('variant registry', () => {
+  it('falls back to standard chess', () => {
+    expect(getVariant().id).toBe(VariantId.STANDARD);
+    expect(getVariant('no-such-variant').id).toBe(VariantId.STANDARD);
+    expect(new ChessGame().getVariant().id).toBe(VariantId.STANDARD);
+  });
+
+  it('finds variants by their PGN tag', () => {
+    expect(getVariantByPGNName('king of the hill')?.id).toBe(VariantId.KING_OF_THE_HILL);
+    expect(getVariantByPGNName('Crazyhouse')).toBeUndefined();
+    expect(new Set(VARIANTS.map(variant => variant.id)).size).toBe(VARIANTS.length);
+  });
+});
+
+describe('Pawn Wars', () => {
+  it('starts with kings and pawns only', () => {
+    expect(createGame(VariantId.PAWN_WARS).toFEN()).toBe('4k3/pppppppp/8/8/8/8/PPPPPPPP/4K3 w - - 0 1');
+  });
+
+  it('is won by the first promotion', () => {
+    const game = createGame(VariantId.PAWN_WARS, '4k3/P7/8/8/8/8/8/4K3 w - - 0 1');
+    game.makeSANMove('a8=Q');
+    expect(game.getStatus()).toBe(GameStatus.VARIANT_WIN);
+    expect(getPGNResult(game)).toBe('1-0');
+  });
+});
+
+describe('King of the Hill', () => {
+  it('is won by walking the king to the centre', () => {
+    const game = createGame(VariantId.KING_OF_THE_HILL, '4k3/p7/8/8/8/4K3/P7/8 w - - 0 1');
+    game.makeSANMove('Kd4');
+    expect(game.getStatus()).toBe(GameStatus.VARIANT_WIN);
+
+    game.undo();
+    game.makeSANMove('Kf4');
+    expect(game.getStatus()).toBe(GameStatus.PLAYING);
+  });
+
+  it('is not drawn by insufficient material while a king can reach the hill', () => {
+    const fen = '8/8/8/8/8/8/k7/7K w - - 0 1';
+    const game = createGame(VariantId.KING_OF_THE_HILL, fen);
+    game.makeSANMove('Kg2');
+    expect(game.getStatus()).toBe(GameStatus.PLAYING);
+
+    const standard = createGame(VariantId.STANDARD, fen);
+    standard.makeSANMove('Kg2');
+    expect(standard.getStatus()).toBe(GameStatus.DRAW);
+  });
+});
+
+describe('Three-Check', () => {
+  it('counts checks and is won by the third', () => {
+    const game = createGame(VariantId.THREE_CHECK, 'k7/8/8/8/8/8/8/K5Q1 w - - 0 1');
+    const variant = game.getVariant();
+
+    ['Qg8+', 'Ka7', 'Qg7+', 'Ka6'].forEach(san => game.makeSANMove(san));
+    expect(game.getStatus()).toBe(GameStatus.PLAYING);
+    expect(variant.describeProgress?.(game.getHistory().getAllMoves())).toBe('Checks: White 2/3 · Black 0/3');
+
+    game.makeSANMove('Qg6+');
+    expect(game.getStatus()).toBe(GameStatus.VARIANT_WIN);
+    expect(getPGNResult(game)).toBe('1-0');
+  });
+
+  it('plays on with a lone minor piece that can still give check', () => {
+    const game = createGame(VariantId.THREE_CHECK, 'k7/8/8/8/8/8/8/K5N1 w - - 0 1');
+    game.makeSANMove('Nf3');
+    expect(game.getStatus()).toBe(GameStatus.PLAYING);
+  });
+});
+
+describe('Atomic-lite', () => {
+  it('explodes pieces next to a capture, but not pawns', () => {
+    const game = createGame(VariantId.ATOMIC_LITE, '4k3/8/8/2npb3/3q4/8/8/3RK3 w - - 0 1');
+    game.makeSANMove('Rxd4');
+    expect(game.toFEN()).toBe('4k3/8/8/3p4/8/8/8/4K3 b - - 0 1');
+  });
+
+  it('is won by blowing up the enemy king', () => {
+    const game = createGame(VariantId.ATOMIC_LITE, '4k3/4q3/8/8/8/8/8/4RK2 w - - 0 1');
+    game.makeSANMove('Rxe7');
+    expect(game.getStatus()).toBe(GameStatus.VARIANT_WIN);
+    expect(game.getBoard()[0][4]).toBeNull();
+  });
+
+  it('does not let kings capture or players blow up their own king', () => {
+    const kingCapture = createGame(VariantId.ATOMIC_LITE, '4k3/8/8/8/8/8/4p3/4K3 w - - 0 1');
+    expect(targets(kingCapture, 'e1')).not.toContain('e2');
+
+    const ownKing = createGame(VariantId.ATOMIC_LITE, 'k7/8/8/8/8/8/3p4/3RK3 w - - 0 1');
+    expect(targets(ownKing, 'd1')).not.toContain('d2');
+    expect(ownKing.makeMove(fromAlgebraic('d1'), fromAlgebraic('d2'))).toBe(false);
+    expect(ownKing.getAllLegalMoves(ownKing.getCurrentPlayer())
+      .some(move => move.piece.type === PieceType.ROOK && move.to.row === 6)).toBe(false);
+  });
+
+  it('drops castling rights for an exploded rook', () => {
+    const game = createGame(VariantId.ATOMIC_LITE, 'rn2k2r/8/8/8/8/8/8/1R2K2R w Kkq - 0 1');
+    game.makeSANMove('Rxb8');
+    expect(game.toFEN()).toBe('4k2r/8/8/8/8/8/8/4K2R b Kk - 0 1');
+  });
+});
+
+describe('variants in saved games', () => {
+  it('keeps the variant in snapshots', () => {
+    const game = createGame(VariantId.KING_OF_THE_HILL);
+    game.makeSANMove('e4');
+
+    const restored = new ChessGame();
+    restored.loadSnapshot(game.getSnapshot());
+    expect(restored.getVariant().id).toBe(VariantId.KING_OF_THE_HILL);
+    expect(restored.toFEN()).toBe(game.toFEN());
+  });
+
+  it('writes and reads the PGN Variant tag', () => {
+    const game = createGame(VariantId.PAWN_WARS);
+    ['e4', 'd5', 'exd5'].forEach(san => game.makeSANMove(san));
+
+    const pgn = exportPGN(game);
+    expect(pgn).toContain('[Variant "Pawn Wars"]');
+
+    const imported = new ChessGame();
+    loadPGN(imported, pgn);
+    expect(imported.getVariant().id).toBe(VariantId.PAWN_WARS);
+    expect(imported.toFEN()).toBe(game.toFEN());
+
+    loadPGN(imported, exportPGN(new ChessGame()));
+    expect(imported.getVariant().id).toBe(VariantId.STANDARD);
+  });
+});
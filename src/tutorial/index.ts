@@ -1,4 +1,9 @@
 export { lessons } from './lesson-library';
-export type { Lesson, LessonStage, LessonMove, LessonCategory, LessonSetup } from './lesson-library';
+export type { Lesson, LessonStage, LessonMove, LessonCategory, LessonSetup, LessonAnnotation } from './lesson-library';
 export { TutorialManager } from './tutorial-manager';
+export type { StageResult } from './tutorial-manager';
 export { HintSystem } from './hint-system';
+export { puzzles, PUZZLE_THEMES } from './puzzle-library';
+export type { Puzzle, PuzzleTheme } from './puzzle-library';
+export { PuzzleTrainer } from './puzzle-trainer';
+export type { PuzzleMoveResult, PuzzleOutcome, PuzzleSelection } from './puzzle-trainer';
@@ -1,4 +1,5 @@
 import { PieceColor, PieceType } from '../core/types';
+import type { AnnotationColor } from '../core/types';
 
 export type LessonCategory = 'opening' | 'middlegame' | 'endgame';
 
@@ -22,7 +23,8 @@ export type LessonSetup =
         blackQueenSide: boolean;
       };
       enPassantTarget?: string | null; // algebraic square
-    };
+    }
+  | { type: 'fen'; fen: string };
 
 export interface LessonMove {
   from: string; // algebraic
@@ -30,12 +32,22 @@ export interface LessonMove {
   promotion?: PieceType;
 }
 
+/**
+ * Arrow, circle or label shown on the board with a stage's objective
+ * (squares are algebraic, color defaults to green)
+ */
+export type LessonAnnotation =
+  | { type: 'arrow'; from: string; to: string; color?: AnnotationColor }
+  | { type: 'circle'; square: string; color?: AnnotationColor }
+  | { type: 'label'; square: string; text: string; color?: AnnotationColor };
+
 export interface LessonStage {
   id: string;
   objective: string;
   hints: string[];
   correctMoves: LessonMove[];
   setup?: LessonSetup;
+  annotations?: LessonAnnotation[];
   successMessage: string;
   explanation: string;
 }
@@ -58,6 +70,12 @@ export const lessons: Lesson[] = [
       {
         id: 'center-1',
         objective: 'Move a center pawn to e4 or d4.',
+        annotations: [
+          { type: 'circle', square: 'd4' },
+          { type: 'circle', square: 'e4' },
+          { type: 'circle', square: 'd5' },
+          { type: 'circle', square: 'e5' }
+        ],
         hints: [
           'The center squares are d4, e4, d5, and e5.',
           'Try moving the pawn in front of your king or queen.',
@@ -193,6 +211,10 @@ export const lessons: Lesson[] = [
       {
         id: 'fork-1',
         objective: 'Play Nf6+ to fork the king and rook.',
+        annotations: [
+          { type: 'circle', square: 'e8', color: 'red' },
+          { type: 'circle', square: 'g8', color: 'red' }
+        ],
         hints: [
           'Knights attack in an L shape.',
           'Look for a move that gives check and hits another piece.',
@@ -223,6 +245,10 @@ export const lessons: Lesson[] = [
       {
         id: 'pin-1',
         objective: 'Play Bb5 to pin the knight.',
+        annotations: [
+          { type: 'circle', square: 'c6', color: 'red' },
+          { type: 'circle', square: 'e8', color: 'red' }
+        ],
         hints: [
           'A pin means the piece behind cannot be exposed.',
           'The bishop can aim at the king through the knight.',
@@ -303,6 +329,9 @@ export const lessons: Lesson[] = [
       {
         id: 'discover-1',
         objective: 'Move the bishop to reveal a rook attack on the queen.',
+        annotations: [
+          { type: 'arrow', from: 'e1', to: 'e7', color: 'red' }
+        ],
         hints: [
           'Your rook is behind the bishop on the same file.',
           'Move the bishop away without losing it.',
@@ -334,6 +363,10 @@ export const lessons: Lesson[] = [
       {
         id: 'king-1',
         objective: 'Move your king toward the center (e2 or d2).',
+        annotations: [
+          { type: 'circle', square: 'd2' },
+          { type: 'circle', square: 'e2' }
+        ],
         hints: [
           'The king is a strong piece in the endgame.',
           'Move one square closer to the center.',
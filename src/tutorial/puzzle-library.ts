@@ -0,0 +1,141 @@
+import type { TacticType } from '../data/tactical-analyzer';
+
+/**
+ * What a puzzle practises: a tactic, or finding checkmate
+ */
+export type PuzzleTheme = TacticType | 'mate';
+
+export interface Puzzle {
+  id: string;
+  fen: string; // Position the player moves from
+  solution: string[]; // SAN: the player's moves, each followed by the opponent's reply
+  themes: PuzzleTheme[];
+  rating: number;
+}
+
+/**
+ * How each theme is shown in the theme filter
+ */
+export const PUZZLE_THEMES: Record<PuzzleTheme, { name: string; icon: string }> = {
+  fork: { name: 'Forks', icon: '🍴' },
+  pin: { name: 'Pins', icon: '📌' },
+  skewer: { name: 'Skewers', icon: '🍢' },
+  discovered_attack: { name: 'Discovered Attacks', icon: '💥' },
+  removal_of_defender: { name: 'Removing the Defender', icon: '🛡️' },
+  mate: { name: 'Checkmates', icon: '👑' }
+};
+
+export const puzzles: Puzzle[] = [
+  {
+    id: 'mate-queen-corner',
+    fen: 'k7/2K5/8/8/3Q4/8/8/8 w - - 0 1',
+    solution: ['Qa4#'],
+    themes: ['mate'],
+    rating: 450
+  },
+  {
+    id: 'mate-back-rank',
+    fen: '6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1',
+    solution: ['Ra8#'],
+    themes: ['mate'],
+    rating: 500
+  },
+  {
+    id: 'mate-scholars',
+    fen: 'r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4',
+    solution: ['Qxf7#'],
+    themes: ['mate'],
+    rating: 500
+  },
+  {
+    id: 'mate-smothered',
+    fen: '6rk/6pp/8/6N1/8/8/8/6K1 w - - 0 1',
+    solution: ['Nf7#'],
+    themes: ['mate'],
+    rating: 600
+  },
+  {
+    id: 'fork-royal-knight',
+    fen: 'r3k3/8/8/3N4/8/8/8/4K3 w - - 0 1',
+    solution: ['Nc7+', 'Ke7', 'Nxa8'],
+    themes: ['fork'],
+    rating: 600
+  },
+  {
+    id: 'fork-queen-rook',
+    fen: '4k3/8/1q3r2/8/1N6/8/8/K7 w - - 0 1',
+    solution: ['Nd5', 'Qb7', 'Nxf6+'],
+    themes: ['fork'],
+    rating: 650
+  },
+  {
+    id: 'fork-pawn',
+    fen: '4k3/8/2n1b3/8/2PP4/8/8/4K3 w - - 0 1',
+    solution: ['d5', 'Bd7', 'dxc6'],
+    themes: ['fork'],
+    rating: 700
+  },
+  {
+    id: 'fork-king-queen',
+    fen: '2q3k1/8/8/3N4/8/8/8/6K1 w - - 0 1',
+    solution: ['Ne7+', 'Kf7', 'Nxc8'],
+    themes: ['fork'],
+    rating: 700
+  },
+  {
+    id: 'pin-pawn-attack',
+    fen: '4k3/8/4n3/8/3P4/8/8/4R1K1 w - - 0 1',
+    solution: ['d5', 'Kd7', 'dxe6+'],
+    themes: ['pin'],
+    rating: 650
+  },
+  {
+    id: 'pin-rook-queen',
+    fen: '4k3/8/8/4q3/8/8/5K2/R7 w - - 0 1',
+    solution: ['Re1', 'Qxe1+', 'Kxe1'],
+    themes: ['pin'],
+    rating: 700
+  },
+  {
+    id: 'pin-bishop-queen',
+    fen: '4k3/3q4/8/8/P7/8/8/4KB2 w - - 0 1',
+    solution: ['Bb5', 'Qxb5', 'axb5'],
+    themes: ['pin'],
+    rating: 750
+  },
+  {
+    id: 'mate-rook-sacrifice',
+    fen: 'r5k1/5ppp/8/8/8/8/4RPPP/4R1K1 w - - 0 1',
+    solution: ['Re8+', 'Rxe8', 'Rxe8#'],
+    themes: ['mate'],
+    rating: 750
+  },
+  {
+    id: 'skewer-rook',
+    fen: '8/8/2k3q1/8/8/8/8/R6K w - - 0 1',
+    solution: ['Ra6+', 'Kd5', 'Rxg6'],
+    themes: ['skewer'],
+    rating: 800
+  },
+  {
+    id: 'skewer-bishop',
+    fen: '1q6/8/8/4k3/8/8/8/K3B3 w - - 0 1',
+    solution: ['Bg3+', 'Ke4', 'Bxb8'],
+    themes: ['skewer'],
+    rating: 850
+  },
+  {
+    id: 'discovered-double-check',
+    fen: '4k3/8/8/7q/4N3/8/8/4R1K1 w - - 0 1',
+    solution: ['Nf6+', 'Kf7', 'Nxh5'],
+    themes: ['discovered_attack', 'fork'],
+    rating: 850
+  },
+  {
+    id: 'discovered-bishop',
+    fen: '3k3q/8/8/8/3N4/8/1B6/6K1 w - - 0 1',
+    solution: ['Ne6+', 'Kd7', 'Bxh8'],
+    themes: ['discovered_attack'],
+    rating: 900
+  }
+];
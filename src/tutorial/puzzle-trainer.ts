@@ -0,0 +1,189 @@
+import { ChessGame } from '../core/game-state';
+import { GameStatus, PieceColor } from '../core/types';
+import type { Move, PieceType, Position } from '../core/types';
+import { sanToMove } from '../core/san';
+import type { SANMove } from '../core/san';
+import { positionsEqual } from '../utils/coordinates';
+import type { Puzzle, PuzzleTheme } from './puzzle-library';
+
+/**
+ * Whether a puzzle counts as solved for the rating: only without mistakes or hints
+ */
+export type PuzzleOutcome = 'solved' | 'failed';
+
+export interface PuzzleMoveResult {
+  correct: boolean;
+  message: string;
+  solved: boolean;
+  outcome: PuzzleOutcome | null; // Set the one time the puzzle's outcome becomes known
+}
+
+export interface PuzzleSelection {
+  rating: number; // Puzzles closest to this rating are picked first
+  theme?: PuzzleTheme | null; // null = any theme
+  exclude?: string[]; // IDs of puzzles already tried
+}
+
+export class PuzzleTrainer {
+  private puzzles: Puzzle[];
+  private game = new ChessGame();
+  private currentPuzzle: Puzzle | null = null;
+  private step = 0; // Index in the solution of the next move
+  private outcome: PuzzleOutcome | null = null;
+  private usedHint = false;
+
+  constructor(puzzles: Puzzle[]) {
+    this.puzzles = puzzles;
+  }
+
+  /**
+   * Get the game the puzzles are played in (one instance, reloaded for each puzzle)
+   */
+  getGame(): ChessGame {
+    return this.game;
+  }
+
+  /**
+   * Get the themes that have at least one puzzle
+   */
+  getThemes(): PuzzleTheme[] {
+    return [...new Set(this.puzzles.flatMap(puzzle => puzzle.themes))];
+  }
+
+  /**
+   * Pick the puzzle closest to the player's rating, skipping those already tried
+   * (once every puzzle of the theme has been tried, they come round again)
+   */
+  selectPuzzle({ rating, theme = null, exclude = [] }: PuzzleSelection): Puzzle | null {
+    const themed = theme
+      ? this.puzzles.filter(puzzle => puzzle.themes.includes(theme))
+      : this.puzzles;
+    const fresh = themed.filter(puzzle => !exclude.includes(puzzle.id));
+    const candidates = fresh.length > 0 ? fresh : themed;
+
+    return candidates.reduce<Puzzle | null>((best, puzzle) =>
+      !best || Math.abs(puzzle.rating - rating) < Math.abs(best.rating - rating) ? puzzle : best,
+    null);
+  }
+
+  /**
+   * Set up a puzzle on the board
+   * @throws Error if there is no puzzle with this ID
+   */
+  startPuzzle(puzzleId: string): Puzzle {
+    const puzzle = this.puzzles.find(item => item.id === puzzleId);
+    if (!puzzle) {
+      throw new Error(`Unknown puzzle: ${puzzleId}`);
+    }
+    return this.loadPuzzle(puzzle);
+  }
+
+  /**
+   * Set up a puzzle that is not in the trainer's list (e.g. one from the player's games)
+   */
+  loadPuzzle(puzzle: Puzzle): Puzzle {
+    this.game.loadFEN(puzzle.fen);
+    this.currentPuzzle = puzzle;
+    this.step = 0;
+    this.outcome = null;
+    this.usedHint = false;
+    return puzzle;
+  }
+
+  /**
+   * Get the puzzle being solved
+   */
+  getCurrentPuzzle(): Puzzle | null {
+    return this.currentPuzzle;
+  }
+
+  /**
+   * Get the side the player solves the puzzle for
+   */
+  getPlayerColor(): PieceColor {
+    return this.currentPuzzle?.fen.split(' ')[1] === 'b' ? PieceColor.BLACK : PieceColor.WHITE;
+  }
+
+  /**
+   * Get the move the player should make next, as a hint
+   * (a puzzle solved after a hint does not count as solved for the rating)
+   */
+  getHint(): SANMove | null {
+    if (!this.currentPuzzle || this.isSolved()) return null;
+
+    this.usedHint = true;
+    return sanToMove(this.game.getState(), this.currentPuzzle.solution[this.step]);
+  }
+
+  /**
+   * Check the move the player has just made on the board
+   * (a wrong move is taken back; any move that checkmates is right)
+   */
+  validateMove(from: Position, to: Position, promotion?: PieceType): PuzzleMoveResult {
+    const puzzle = this.currentPuzzle;
+    const lastMove = this.game.getHistory().getLastMove();
+    if (!puzzle || !lastMove || this.isSolved()) {
+      return { correct: false, message: 'No puzzle to solve.', solved: false, outcome: null };
+    }
+
+    const expected = sanToMove(lastMove.stateBefore, puzzle.solution[this.step]);
+    const isExpected = positionsEqual(from, expected.from)
+      && positionsEqual(to, expected.to)
+      && promotion === expected.promotion;
+    const isMate = this.game.getStatus() === GameStatus.CHECKMATE;
+
+    if (!isExpected && !isMate) {
+      this.game.undo();
+      return {
+        correct: false,
+        message: 'Not quite. Look for a stronger move!',
+        solved: false,
+        outcome: this.setOutcome('failed')
+      };
+    }
+
+    this.step = isMate ? puzzle.solution.length : this.step + 1;
+    if (!this.isSolved()) {
+      return { correct: true, message: 'Good move! Keep going.', solved: false, outcome: null };
+    }
+
+    return {
+      correct: true,
+      message: '🎉 Puzzle solved!',
+      solved: true,
+      outcome: this.setOutcome(this.usedHint ? 'failed' : 'solved')
+    };
+  }
+
+  /**
+   * Play the opponent's reply after a correct move
+   * @returns The reply, or null if there is none to play
+   */
+  playReply(): Move | null {
+    const puzzle = this.currentPuzzle;
+    if (!puzzle || this.isSolved() || this.game.getCurrentPlayer() === this.getPlayerColor()) {
+      return null;
+    }
+
+    this.game.makeSANMove(puzzle.solution[this.step]);
+    this.step++;
+    return this.game.getHistory().getLastMove()?.move ?? null;
+  }
+
+  /**
+   * Check if the whole solution has been played
+   */
+  isSolved(): boolean {
+    return !!this.currentPuzzle && this.step >= this.currentPuzzle.solution.length;
+  }
+
+  /**
+   * Record the puzzle's outcome, unless it is already known
+   * @returns The outcome recorded, or null if there already was one
+   */
+  private setOutcome(outcome: PuzzleOutcome): PuzzleOutcome | null {
+    if (this.outcome) return null;
+    this.outcome = outcome;
+    return outcome;
+  }
+}
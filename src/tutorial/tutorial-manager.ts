@@ -1,4 +1,5 @@
 import { createEmptyBoard, setPieceAt } from '../core/board';
+import { parseFEN } from '../core/fen';
 import { PieceColor, PieceType } from '../core/types';
 import type { Board, Position } from '../core/types';
 import { fromAlgebraic, toAlgebraic } from '../utils/coordinates';
@@ -10,6 +11,15 @@ export interface LessonProgress {
   totalStages: number;
 }
 
+/**
+ * How the player got through one stage of a lesson
+ */
+export interface StageResult {
+  stageId: string;
+  attempts: number; // Moves tried, the correct one included
+  hintsUsed: number;
+}
+
 export interface MoveResult {
   correct: boolean;
   message: string;
@@ -28,6 +38,8 @@ export interface StageSetupResult {
     blackQueenSide: boolean;
   };
   enPassantTarget?: Position | null;
+  halfMoveClock?: number;
+  fullMoveNumber?: number;
 }
 
 export class TutorialManager {
@@ -35,6 +47,8 @@ export class TutorialManager {
   private currentLesson: Lesson | null = null;
   private currentStageIndex: number = 0;
   private hintIndex: number = 0;
+  private attempts: number = 0; // Moves tried in the current stage
+  private stageResults: StageResult[] = [];
   private hintSystem = new HintSystem();
 
   constructor(lessons: Lesson[]) {
@@ -77,6 +91,8 @@ export class TutorialManager {
     this.currentLesson = lesson;
     this.currentStageIndex = 0;
     this.hintIndex = 0;
+    this.attempts = 0;
+    this.stageResults = [];
     return this.getCurrentStage();
   }
 
@@ -84,6 +100,15 @@ export class TutorialManager {
     this.currentLesson = null;
     this.currentStageIndex = 0;
     this.hintIndex = 0;
+    this.attempts = 0;
+    this.stageResults = [];
+  }
+
+  /**
+   * Get how the player got through each stage finished so far in this lesson
+   */
+  getStageResults(): StageResult[] {
+    return [...this.stageResults];
   }
 
   getHint(): HintResult | null {
@@ -95,7 +120,7 @@ export class TutorialManager {
     return hint;
   }
 
-  validateMove(from: Position, to: Position): MoveResult {
+  validateMove(from: Position, to: Position, promotion?: PieceType): MoveResult {
     const stage = this.getCurrentStage();
     if (!stage) {
       return {
@@ -106,10 +131,12 @@ export class TutorialManager {
       };
     }
 
+    this.attempts++;
     const fromAlg = toAlgebraic(from);
     const toAlg = toAlgebraic(to);
     const isCorrect = stage.correctMoves.some(move =>
-      move.from === fromAlg && move.to === toAlg
+      move.from === fromAlg && move.to === toAlg &&
+      (!move.promotion || move.promotion === promotion)
     );
 
     if (!isCorrect) {
@@ -121,6 +148,9 @@ export class TutorialManager {
       };
     }
 
+    this.stageResults.push({ stageId: stage.id, attempts: this.attempts, hintsUsed: this.hintIndex });
+    this.attempts = 0;
+
     const message = `${stage.successMessage} ${stage.explanation}`.trim();
     const stageComplete = true;
     const lessonComplete = this.currentLesson
@@ -149,6 +179,9 @@ export class TutorialManager {
     }
 
     const setup = stage.setup as LessonSetup;
+    if (setup.type === 'fen') {
+      return parseFEN(setup.fen);
+    }
     if (setup.type !== 'custom') return null;
 
     const board = createEmptyBoard();
@@ -0,0 +1,8 @@
+/**
+ * Audio Module - Public API
+ */
+
+export { SoundManager, soundManager } from './sound-manager';
+export type { SoundSettings } from './sound-manager';
+export { SoundEffect, SOUND_FILES, SYNTH_SOUNDS, getMoveSound } from './sound-effects';
+export type { SynthNote } from './sound-effects';
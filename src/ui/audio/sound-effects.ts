@@ -0,0 +1,105 @@
+/**
+ * Sound Effects
+ *
+ * The cues the game plays, the files they are loaded from and the notes
+ * synthesized instead while a file is missing.
+ */
+
+import type { Move } from '../../core/types';
+import { GameStatus } from '../../core/types';
+
+/**
+ * Available cues
+ */
+export enum SoundEffect {
+  MOVE = 'move',
+  CAPTURE = 'capture',
+  CASTLE = 'castle',
+  CHECK = 'check',
+  PROMOTE = 'promote',
+  ILLEGAL = 'illegal',
+  LESSON_SUCCESS = 'lesson-success',
+  BADGE = 'badge',
+  GAME_WIN = 'game-win',
+  GAME_LOSS = 'game-loss',
+  GAME_DRAW = 'game-draw'
+}
+
+/**
+ * File name (without extension) of each cue in assets/sounds/sfx
+ */
+export const SOUND_FILES: Record<SoundEffect, string> = {
+  [SoundEffect.MOVE]: 'move-piece',
+  [SoundEffect.CAPTURE]: 'capture-piece',
+  [SoundEffect.CASTLE]: 'castle',
+  [SoundEffect.CHECK]: 'check',
+  [SoundEffect.PROMOTE]: 'promote',
+  [SoundEffect.ILLEGAL]: 'illegal-move',
+  [SoundEffect.LESSON_SUCCESS]: 'lesson-complete',
+  [SoundEffect.BADGE]: 'badge-unlock',
+  [SoundEffect.GAME_WIN]: 'checkmate-win',
+  [SoundEffect.GAME_LOSS]: 'checkmate-lose',
+  [SoundEffect.GAME_DRAW]: 'game-draw'
+};
+
+/**
+ * One synthesized note
+ */
+export interface SynthNote {
+  frequency: number; // Hz
+  start: number; // Seconds after the cue starts
+  duration: number; // Seconds
+  wave: OscillatorType;
+  gain: number; // 0-1, before the volume setting
+}
+
+/**
+ * Build a run of notes played one after another
+ */
+function arpeggio(frequencies: number[], step: number, wave: OscillatorType, gain: number): SynthNote[] {
+  return frequencies.map((frequency, i) => ({ frequency, start: i * step, duration: step * 1.5, wave, gain }));
+}
+
+/**
+ * Notes of each cue when its file is missing
+ */
+export const SYNTH_SOUNDS: Record<SoundEffect, SynthNote[]> = {
+  [SoundEffect.MOVE]: [
+    { frequency: 520, start: 0, duration: 0.07, wave: 'triangle', gain: 0.6 }
+  ],
+  [SoundEffect.CAPTURE]: [
+    { frequency: 300, start: 0, duration: 0.06, wave: 'square', gain: 0.35 },
+    { frequency: 200, start: 0.05, duration: 0.1, wave: 'square', gain: 0.35 }
+  ],
+  [SoundEffect.CASTLE]: [
+    { frequency: 520, start: 0, duration: 0.07, wave: 'triangle', gain: 0.6 },
+    { frequency: 440, start: 0.1, duration: 0.07, wave: 'triangle', gain: 0.6 }
+  ],
+  [SoundEffect.CHECK]: [
+    { frequency: 880, start: 0, duration: 0.1, wave: 'sawtooth', gain: 0.25 },
+    { frequency: 660, start: 0.1, duration: 0.15, wave: 'sawtooth', gain: 0.25 }
+  ],
+  [SoundEffect.PROMOTE]: arpeggio([523, 659, 784, 1047], 0.07, 'triangle', 0.5),
+  [SoundEffect.ILLEGAL]: [
+    { frequency: 110, start: 0, duration: 0.2, wave: 'sawtooth', gain: 0.2 }
+  ],
+  [SoundEffect.LESSON_SUCCESS]: arpeggio([523, 659, 784], 0.1, 'sine', 0.6),
+  [SoundEffect.BADGE]: arpeggio([784, 988, 1175, 1568], 0.06, 'sine', 0.5),
+  [SoundEffect.GAME_WIN]: [
+    ...arpeggio([523, 659, 784], 0.12, 'square', 0.25),
+    { frequency: 1047, start: 0.36, duration: 0.5, wave: 'square', gain: 0.25 }
+  ],
+  [SoundEffect.GAME_LOSS]: arpeggio([392, 349, 311, 262], 0.18, 'triangle', 0.5),
+  [SoundEffect.GAME_DRAW]: arpeggio([440, 440], 0.2, 'sine', 0.5)
+};
+
+/**
+ * Pick the cue for a move from what it did and the status after it
+ */
+export function getMoveSound(move: Move, status: GameStatus): SoundEffect {
+  if (status === GameStatus.CHECK || status === GameStatus.CHECKMATE) return SoundEffect.CHECK;
+  if (move.isPromotion) return SoundEffect.PROMOTE;
+  if (move.isCastling) return SoundEffect.CASTLE;
+  if (move.capturedPiece) return SoundEffect.CAPTURE;
+  return SoundEffect.MOVE;
+}
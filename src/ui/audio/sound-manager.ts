@@ -0,0 +1,191 @@
+/**
+ * Sound Manager
+ *
+ * Plays the game's sound effects with the Web Audio API. Sound files are
+ * loaded from assets/sounds/sfx the first time a sound plays; a cue whose
+ * file is missing (or cannot be decoded) is synthesized instead. Mute and
+ * volume are remembered on this device, for players who are not logged in.
+ */
+
+import { STORAGE_KEYS } from '../../utils/constants';
+import { SoundEffect, SOUND_FILES, SYNTH_SOUNDS } from './sound-effects';
+import type { SynthNote } from './sound-effects';
+
+/**
+ * Volume until the player changes it
+ */
+const DEFAULT_VOLUME = 0.7;
+
+/**
+ * File formats tried for each cue, in order
+ */
+const SOUND_EXTENSIONS = ['mp3', 'ogg'];
+
+/**
+ * Mute and volume settings
+ */
+export interface SoundSettings {
+  enabled: boolean;
+  volume: number; // 0-1
+}
+
+export class SoundManager {
+  private context: AudioContext | null = null;
+  private output: GainNode | null = null; // Volume control every sound goes through
+  private buffers = new Map<SoundEffect, AudioBuffer | null>(); // null = synthesized
+  private loading: Promise<void> | null = null;
+  private settings: SoundSettings;
+
+  constructor() {
+    this.settings = this.loadSettings();
+  }
+
+  /**
+   * Get the mute and volume settings
+   */
+  getSettings(): SoundSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Change mute or volume (remembered on this device)
+   */
+  applySettings(changes: Partial<SoundSettings>): void {
+    this.settings = { ...this.settings, ...changes };
+    this.settings.volume = Math.max(0, Math.min(1, this.settings.volume));
+    if (this.output) {
+      this.output.gain.value = this.settings.volume;
+    }
+    this.saveSettings();
+  }
+
+  /**
+   * Play a cue (does nothing while muted or where Web Audio is unavailable)
+   */
+  play(effect: SoundEffect): void {
+    if (!this.settings.enabled || this.settings.volume === 0) return;
+
+    const context = this.getContext();
+    if (!context) return;
+
+    // The first cue is synthesized while the files load
+    this.loading ??= this.loadSounds(context);
+
+    const buffer = this.buffers.get(effect);
+    if (buffer) {
+      this.playBuffer(context, buffer);
+    } else {
+      this.playNotes(context, SYNTH_SOUNDS[effect]);
+    }
+  }
+
+  /**
+   * Get the audio context, creating it on first use
+   * (browsers only allow sound after the player has touched the page)
+   */
+  private getContext(): AudioContext | null {
+    if (!this.context) {
+      if (typeof AudioContext === 'undefined') return null;
+
+      this.context = new AudioContext();
+      this.output = this.context.createGain();
+      this.output.gain.value = this.settings.volume;
+      this.output.connect(this.context.destination);
+    }
+
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+    return this.context;
+  }
+
+  /**
+   * Load every cue's file (cues without one are left to the synthesizer)
+   */
+  private async loadSounds(context: AudioContext): Promise<void> {
+    const basePath = import.meta.env.BASE_URL || '/';
+
+    await Promise.all(Object.values(SoundEffect).map(async effect => {
+      for (const extension of SOUND_EXTENSIONS) {
+        try {
+          const response = await fetch(`${basePath}assets/sounds/sfx/${SOUND_FILES[effect]}.${extension}`);
+          if (!response.ok) continue;
+          this.buffers.set(effect, await context.decodeAudioData(await response.arrayBuffer()));
+          return;
+        } catch {
+          // Missing or unreadable: try the next format
+        }
+      }
+      this.buffers.set(effect, null);
+    }));
+
+    const loaded = [...this.buffers.values()].filter(buffer => buffer).length;
+    console.log(`✅ Sounds ready: ${loaded} files, ${this.buffers.size - loaded} synthesized`);
+  }
+
+  /**
+   * Play a loaded sound file
+   */
+  private playBuffer(context: AudioContext, buffer: AudioBuffer): void {
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.output!);
+    source.start();
+  }
+
+  /**
+   * Synthesize a cue: each note is an oscillator that fades out
+   */
+  private playNotes(context: AudioContext, notes: SynthNote[]): void {
+    const now = context.currentTime;
+
+    notes.forEach(note => {
+      const start = now + note.start;
+      const end = start + note.duration;
+
+      const oscillator = context.createOscillator();
+      oscillator.type = note.wave;
+      oscillator.frequency.value = note.frequency;
+
+      const envelope = context.createGain();
+      envelope.gain.setValueAtTime(0.0001, start);
+      envelope.gain.exponentialRampToValueAtTime(note.gain, start + 0.01);
+      envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+
+      oscillator.connect(envelope);
+      envelope.connect(this.output!);
+      oscillator.start(start);
+      oscillator.stop(end);
+    });
+  }
+
+  /**
+   * Load the settings remembered on this device
+   */
+  private loadSettings(): SoundSettings {
+    try {
+      const savedVolume = localStorage.getItem(STORAGE_KEYS.VOLUME);
+      const volume = savedVolume === null ? NaN : Number(savedVolume);
+      return {
+        enabled: localStorage.getItem(STORAGE_KEYS.SOUND_ENABLED) !== 'false',
+        volume: volume >= 0 && volume <= 1 ? volume : DEFAULT_VOLUME
+      };
+    } catch {
+      return { enabled: true, volume: DEFAULT_VOLUME };
+    }
+  }
+
+  /**
+   * Remember the settings on this device
+   */
+  private saveSettings(): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.SOUND_ENABLED, String(this.settings.enabled));
+      localStorage.setItem(STORAGE_KEYS.VOLUME, String(this.settings.volume));
+    } catch (error) {
+      console.error('Failed to save sound settings:', error);
+    }
+  }
+}
+
+export const soundManager = new SoundManager();
@@ -0,0 +1,221 @@
+/**
+ * Annotation Layer
+ *
+ * SVG overlay for arrows, circles and labels drawn on the board by coaches,
+ * lessons, hints and the player. Drawn in square units (one unit per square,
+ * row 0 = rank 8) so it turns with the board. Annotations belong to a group
+ * so each owner (the player, a lesson...) can clear its own.
+ */
+
+import type { AnnotationColor, Position } from '../../core/types';
+import { BOARD_SIZE } from '../../utils/constants';
+import { positionsEqual } from '../../utils/coordinates';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Who drew an annotation: the player, a lesson, the best-move hint, or a game review
+ */
+export type AnnotationGroup = 'user' | 'lesson' | 'best-move' | 'review';
+
+/**
+ * Something drawn on the board
+ */
+export type BoardAnnotation =
+  | { type: 'arrow'; from: Position; to: Position; color: AnnotationColor }
+  | { type: 'circle'; square: Position; color: AnnotationColor }
+  | { type: 'label'; square: Position; text: string; color: AnnotationColor };
+
+/**
+ * An annotation and its SVG element
+ */
+interface DrawnAnnotation {
+  group: AnnotationGroup;
+  annotation: BoardAnnotation;
+  element: SVGElement;
+}
+
+/**
+ * Check if two annotations mark the same thing (colors and text aside)
+ */
+function sameTarget(a: BoardAnnotation, b: BoardAnnotation): boolean {
+  if (a.type === 'arrow' && b.type === 'arrow') {
+    return positionsEqual(a.from, b.from) && positionsEqual(a.to, b.to);
+  }
+  if (a.type !== 'arrow' && b.type !== 'arrow' && a.type === b.type) {
+    return positionsEqual(a.square, b.square);
+  }
+  return false;
+}
+
+/**
+ * Create an SVG element with attributes
+ */
+function createSvgElement<K extends keyof SVGElementTagNameMap>(
+  tag: K,
+  attributes: Record<string, string | number>
+): SVGElementTagNameMap[K] {
+  const element = document.createElementNS(SVG_NS, tag);
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, String(value)));
+  return element;
+}
+
+export class AnnotationLayer {
+  private svg: SVGSVGElement;
+  private layers: Record<BoardAnnotation['type'], SVGGElement>;
+  private drawn: DrawnAnnotation[] = [];
+
+  constructor(parent: HTMLElement) {
+    this.svg = createSvgElement('svg', {
+      class: 'annotation-layer',
+      viewBox: `0 0 ${BOARD_SIZE} ${BOARD_SIZE}`,
+      'aria-hidden': 'true'
+    });
+
+    // Circles under arrows, labels on top
+    this.layers = {
+      circle: createSvgElement('g', {}),
+      arrow: createSvgElement('g', {}),
+      label: createSvgElement('g', {})
+    };
+    this.svg.appendChild(this.layers.circle);
+    this.svg.appendChild(this.layers.arrow);
+    this.svg.appendChild(this.layers.label);
+    parent.appendChild(this.svg);
+  }
+
+  /**
+   * Draw an annotation (replacing one of the same group on the same target)
+   */
+  add(annotation: BoardAnnotation, group: AnnotationGroup): void {
+    this.remove(annotation, group);
+
+    const element = this.createElement(annotation);
+    if (!element) return;
+
+    element.classList.add('annotation', annotation.type, annotation.color);
+    this.layers[annotation.type].appendChild(element);
+    this.drawn.push({ group, annotation, element });
+  }
+
+  /**
+   * Draw an annotation, or remove it if the same one is already drawn
+   * (the way players switch their own arrows and circles on and off)
+   */
+  toggle(annotation: BoardAnnotation, group: AnnotationGroup): void {
+    const existing = this.find(annotation, group);
+    this.remove(annotation, group);
+    if (!existing || existing.annotation.color !== annotation.color) {
+      this.add(annotation, group);
+    }
+  }
+
+  /**
+   * Remove annotations of a group, or all annotations
+   */
+  clear(group?: AnnotationGroup): void {
+    this.drawn = this.drawn.filter(drawn => {
+      if (group !== undefined && drawn.group !== group) return true;
+      drawn.element.remove();
+      return false;
+    });
+  }
+
+  /**
+   * Get the annotations of a group, or all annotations
+   */
+  getAnnotations(group?: AnnotationGroup): BoardAnnotation[] {
+    return this.drawn
+      .filter(drawn => group === undefined || drawn.group === group)
+      .map(drawn => drawn.annotation);
+  }
+
+  /**
+   * Remove the layer from the board
+   */
+  destroy(): void {
+    this.clear();
+    this.svg.remove();
+  }
+
+  /**
+   * Find an annotation of a group on the same target
+   */
+  private find(annotation: BoardAnnotation, group: AnnotationGroup): DrawnAnnotation | undefined {
+    return this.drawn.find(drawn => drawn.group === group && sameTarget(drawn.annotation, annotation));
+  }
+
+  /**
+   * Remove an annotation of a group on the same target
+   */
+  private remove(annotation: BoardAnnotation, group: AnnotationGroup): void {
+    const existing = this.find(annotation, group);
+    if (!existing) return;
+
+    existing.element.remove();
+    this.drawn = this.drawn.filter(drawn => drawn !== existing);
+  }
+
+  /**
+   * Create the SVG for an annotation (null for an arrow to its own square)
+   */
+  private createElement(annotation: BoardAnnotation): SVGElement | null {
+    switch (annotation.type) {
+      case 'arrow':
+        return this.createArrow(annotation.from, annotation.to);
+      case 'circle':
+        return createSvgElement('circle', {
+          cx: annotation.square.col + 0.5,
+          cy: annotation.square.row + 0.5,
+          r: 0.45
+        });
+      case 'label': {
+        // A badge in the corner, so the piece stays visible
+        const x = annotation.square.col + 0.78;
+        const y = annotation.square.row + 0.22;
+        const label = createSvgElement('g', {});
+        label.appendChild(createSvgElement('circle', { cx: x, cy: y, r: 0.2 }));
+        const text = createSvgElement('text', {
+          x,
+          y,
+          'text-anchor': 'middle',
+          'dominant-baseline': 'central'
+        });
+        text.textContent = annotation.text;
+        label.appendChild(text);
+        return label;
+      }
+    }
+  }
+
+  /**
+   * Create an arrow between the centers of two squares
+   */
+  private createArrow(from: Position, to: Position): SVGElement | null {
+    const x1 = from.col + 0.5;
+    const y1 = from.row + 0.5;
+    const x2 = to.col + 0.5;
+    const y2 = to.row + 0.5;
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    if (length === 0) return null;
+
+    // Unit vector along the arrow and its normal
+    const ux = (x2 - x1) / length;
+    const uy = (y2 - y1) / length;
+    const headLength = 0.4;
+    const headWidth = 0.3;
+    const baseX = x2 - ux * headLength;
+    const baseY = y2 - uy * headLength;
+
+    const arrow = createSvgElement('g', {});
+    arrow.appendChild(createSvgElement('line', { x1, y1, x2: baseX, y2: baseY }));
+    arrow.appendChild(createSvgElement('polygon', {
+      points: [
+        `${x2},${y2}`,
+        `${baseX - uy * headWidth},${baseY + ux * headWidth}`,
+        `${baseX + uy * headWidth},${baseY - ux * headWidth}`
+      ].join(' ')
+    }));
+    return arrow;
+  }
+}
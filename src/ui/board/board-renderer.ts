@@ -4,11 +4,23 @@
  * Responsible for rendering the chess board and pieces visually.
  */
 
-import type { Board, Position, Piece } from '../../core/types';
-import { PieceColor } from '../../core/types';
-import { BOARD_SIZE } from '../../utils/constants';
+import type { Board, Position, Piece, Move } from '../../core/types';
+import { PieceColor, PieceType } from '../../core/types';
+import { BOARD_SIZE, ANIMATION_DURATION } from '../../utils/constants';
 import { FILES, RANKS } from '../../core/types';
 import type { ThemeManager } from '../themes/theme-manager';
+import { AnnotationLayer } from './annotation-layer';
+import type { AnnotationGroup, BoardAnnotation } from './annotation-layer';
+
+/**
+ * Pieces offered when a pawn promotes, in the order shown
+ */
+const PROMOTION_CHOICES: PieceType[] = [
+  PieceType.QUEEN,
+  PieceType.ROOK,
+  PieceType.BISHOP,
+  PieceType.KNIGHT
+];
 
 export interface BoardConfig {
   size: number;
@@ -16,6 +28,15 @@ export interface BoardConfig {
   showCoordinates: boolean;
 }
 
+/**
+ * A piece that left or arrived on a square during a render
+ */
+interface PieceChange {
+  position: Position;
+  piece: Piece;
+  img?: HTMLElement; // Image of an arrived piece
+}
+
 /**
  * Board Renderer class
  */
@@ -25,6 +46,11 @@ export class BoardRenderer {
   private config: BoardConfig;
   private squares: HTMLElement[][] = [];
   private themeManager: ThemeManager | null = null;
+  private renderedPieces: Array<Array<{ piece: Piece; image: string } | null>> = []; // What each square shows
+  private animations: Animation[] = [];
+  private promotionPicker: HTMLElement | null = null;
+  private resolvePromotion: ((piece: PieceType | null) => void) | null = null;
+  private annotationLayer: AnnotationLayer | null = null; // Arrows, circles and labels over the board
 
   constructor(container: HTMLElement, config?: Partial<BoardConfig>) {
     this.container = container;
@@ -48,6 +74,7 @@ export class BoardRenderer {
   initialize(): void {
     this.createBoardStructure();
     this.createSquares();
+    this.annotationLayer = new AnnotationLayer(this.boardElement!);
   }
 
   /**
@@ -79,6 +106,7 @@ export class BoardRenderer {
     if (!this.boardElement) return;
 
     this.squares = [];
+    this.renderedPieces = [];
     
     for (let row = 0; row < BOARD_SIZE; row++) {
       this.squares[row] = [];
@@ -135,22 +163,166 @@ export class BoardRenderer {
 
   /**
    * Render pieces on the board
+   * Only squares whose piece (or piece image) changed are touched. When the
+   * move that led here is given, pieces slide to their new squares and
+   * captured pieces fade out (unless the user prefers reduced motion).
    */
-  renderBoard(board: Board): void {
+  renderBoard(board: Board, move?: Move): void {
+    this.finishAnimations();
+
+    const animate = !!move && !this.prefersReducedMotion();
+    const left: PieceChange[] = [];
+    const arrived: PieceChange[] = [];
+
     for (let row = 0; row < BOARD_SIZE; row++) {
+      if (!this.renderedPieces[row]) this.renderedPieces[row] = [];
+
       for (let col = 0; col < BOARD_SIZE; col++) {
         const piece = board[row][col];
+        const image = piece ? this.getPieceImagePath(piece) : null;
+        const shown = this.renderedPieces[row][col] ?? null;
+        if (image === (shown ? shown.image : null)) continue;
+
         const square = this.squares[row][col];
-        
+        if (animate && shown) {
+          left.push({ position: { row, col }, piece: shown.piece });
+        }
+
         this.clearSquareContent(square);
-        
+        this.renderedPieces[row][col] = piece && image ? { piece: { ...piece }, image } : null;
+
         if (piece) {
-          this.renderPiece(square, piece);
+          const img = this.renderPiece(square, piece);
+          if (animate) {
+            arrived.push({ position: { row, col }, piece, img });
+          }
         }
       }
     }
+
+    if (animate && move) {
+      this.animateChanges(left, arrived, move);
+    }
+  }
+
+  /**
+   * Slide arrived pieces from the square they left, fade out the rest
+   * (captures, en passant, explosions). Castling slides both pieces;
+   * a promoted piece slides from the pawn's square, then pops in.
+   */
+  private animateChanges(left: PieceChange[], arrived: PieceChange[], move: Move): void {
+    for (const change of arrived) {
+      const img = change.img!;
+      const isPromotion = !!move.isPromotion &&
+        change.position.row === move.to.row && change.position.col === move.to.col;
+
+      const index = isPromotion
+        ? left.findIndex(({ position }) => position.row === move.from.row && position.col === move.from.col)
+        : this.findClosestMatch(left, change);
+
+      if (index === -1) {
+        this.animations.push(img.animate(
+          [{ opacity: 0 }, { opacity: 1 }],
+          { duration: ANIMATION_DURATION.PIECE_CAPTURE, easing: 'ease-out' }
+        ));
+        continue;
+      }
+
+      const [source] = left.splice(index, 1);
+      this.slidePiece(img, source.position, change.position);
+
+      if (isPromotion) {
+        this.animations.push(img.animate(
+          [{ transform: 'scale(0.6)' }, { transform: 'scale(1)' }],
+          { duration: ANIMATION_DURATION.PROMOTION, delay: ANIMATION_DURATION.PIECE_MOVE, easing: 'ease-out', composite: 'add' }
+        ));
+      }
+    }
+
+    for (const { position, piece } of left) {
+      this.fadeOutPiece(position, piece);
+    }
+  }
+
+  /**
+   * Find the piece of the same kind that left the square nearest to a change
+   */
+  private findClosestMatch(left: PieceChange[], change: PieceChange): number {
+    let best = -1;
+    let bestDistance = Infinity;
+
+    left.forEach(({ position, piece }, index) => {
+      if (piece.type !== change.piece.type || piece.color !== change.piece.color) return;
+
+      const distance = (position.row - change.position.row) ** 2 + (position.col - change.position.col) ** 2;
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Slide a piece image from one square to the square it is on
+   */
+  private slidePiece(img: HTMLElement, from: Position, to: Position): void {
+    const fromRect = this.squares[from.row][from.col].getBoundingClientRect();
+    const toRect = this.squares[to.row][to.col].getBoundingClientRect();
+    const dx = fromRect.left - toRect.left;
+    const dy = fromRect.top - toRect.top;
+
+    // Squares are counter-rotated on a flipped board, so screen offsets apply as they are
+    const square = this.squares[to.row][to.col];
+    square.classList.add('piece-moving');
+    const animation = img.animate(
+      [{ transform: `translate(${dx}px, ${dy}px)` }, { transform: 'translate(0, 0)' }],
+      { duration: ANIMATION_DURATION.PIECE_MOVE, easing: 'ease-in-out', composite: 'add' }
+    );
+    animation.onfinish = () => square.classList.remove('piece-moving');
+    this.animations.push(animation);
+  }
+
+  /**
+   * Fade out a piece that was removed from the board
+   */
+  private fadeOutPiece(position: Position, piece: Piece): void {
+    const square = this.squares[position.row][position.col];
+    const ghost = document.createElement('img');
+    ghost.className = 'capture-ghost';
+    ghost.src = this.getPieceImagePath(piece);
+    ghost.alt = '';
+    ghost.draggable = false;
+    square.insertBefore(ghost, square.querySelector('.piece'));
+
+    const animation = ghost.animate(
+      [{ opacity: 1, transform: 'scale(1)' }, { opacity: 0, transform: 'scale(0.6)' }],
+      { duration: ANIMATION_DURATION.PIECE_CAPTURE, easing: 'ease-in', fill: 'forwards' }
+    );
+    animation.onfinish = () => ghost.remove();
+    this.animations.push(animation);
   }
 
+  /**
+   * Jump any running animations to their end (before the board changes again)
+   */
+  private finishAnimations(): void {
+    this.animations.forEach(animation => animation.cancel());
+    this.animations = [];
+    this.boardElement?.querySelectorAll('.capture-ghost').forEach(ghost => ghost.remove());
+    this.boardElement?.querySelectorAll('.piece-moving').forEach(square => square.classList.remove('piece-moving'));
+  }
+
+  /**
+   * Check if the user asked the system for less motion
+   */
+  private prefersReducedMotion(): boolean {
+    return typeof window.matchMedia === 'function' &&
+      window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+  }
+
+
   /**
    * Clear square content (except coordinates)
    */
@@ -163,7 +335,7 @@ export class BoardRenderer {
   /**
    * Render a piece on a square
    */
-  private renderPiece(square: HTMLElement, piece: Piece): void {
+  private renderPiece(square: HTMLElement, piece: Piece): HTMLElement {
     const img = document.createElement('img');
     img.className = 'piece';
     img.src = this.getPieceImagePath(piece);
@@ -171,6 +343,7 @@ export class BoardRenderer {
     img.draggable = false; // Prevent browser default drag
     
     square.appendChild(img);
+    return img;
   }
 
   /**
@@ -268,6 +441,115 @@ export class BoardRenderer {
     }
   }
 
+  /**
+   * Draw an arrow, circle or label on the board
+   * @param group - Who drew it (each group is cleared on its own)
+   */
+  addAnnotation(annotation: BoardAnnotation, group: AnnotationGroup): void {
+    this.annotationLayer?.add(annotation, group);
+  }
+
+  /**
+   * Draw an annotation, or remove it if it is already drawn
+   */
+  toggleAnnotation(annotation: BoardAnnotation, group: AnnotationGroup): void {
+    this.annotationLayer?.toggle(annotation, group);
+  }
+
+  /**
+   * Remove the annotations of a group, or all annotations
+   */
+  clearAnnotations(group?: AnnotationGroup): void {
+    this.annotationLayer?.clear(group);
+  }
+
+  /**
+   * Get the annotations of a group, or all annotations
+   */
+  getAnnotations(group?: AnnotationGroup): BoardAnnotation[] {
+    return this.annotationLayer?.getAnnotations(group) ?? [];
+  }
+
+  /**
+   * Show the promotion chooser over the promotion square
+   * Resolves with the chosen piece, or null if the player cancels
+   * (Escape, clicking elsewhere, or the picker being closed).
+   */
+  showPromotionPicker(square: Position, color: PieceColor): Promise<PieceType | null> {
+    this.hidePromotionPicker();
+    if (!this.boardElement) return Promise.resolve(null);
+
+    const backdrop = document.createElement('div');
+    backdrop.className = 'promotion-backdrop';
+    backdrop.onclick = () => this.hidePromotionPicker();
+
+    // A column of four squares growing from the promotion square towards the centre
+    const picker = document.createElement('div');
+    picker.className = `promotion-picker ${color}`;
+    picker.setAttribute('role', 'dialog');
+    picker.setAttribute('aria-label', 'Choose a piece to promote to');
+    picker.style.left = `${square.col * 12.5}%`;
+    picker.style.top = square.row === 0 ? '0' : '50%';
+    backdrop.appendChild(picker);
+
+    const options = PROMOTION_CHOICES.map(type => {
+      const option = document.createElement('button');
+      option.type = 'button';
+      option.className = 'promotion-option';
+      option.setAttribute('aria-label', `Promote to ${type}`);
+      option.onclick = (e) => {
+        e.stopPropagation();
+        this.hidePromotionPicker(type);
+      };
+
+      const img = document.createElement('img');
+      img.src = this.getPieceImagePath({ type, color, hasMoved: true });
+      img.alt = type;
+      img.draggable = false;
+      option.appendChild(img);
+
+      picker.appendChild(option);
+      return option;
+    });
+
+    // Arrow keys move between pieces, Enter/Space choose, Escape cancels
+    picker.onkeydown = (e) => {
+      const index = options.indexOf(document.activeElement as HTMLButtonElement);
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        this.hidePromotionPicker();
+      } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        // The picker grows upwards for black, so its last option is on top
+        const step = (e.key === 'ArrowDown') === (color === PieceColor.WHITE) ? 1 : -1;
+        options[(index + step + options.length) % options.length].focus();
+      }
+    };
+
+    this.boardElement.appendChild(backdrop);
+    this.promotionPicker = backdrop;
+    options[0].focus();
+
+    return new Promise(resolve => {
+      this.resolvePromotion = resolve;
+    });
+  }
+
+  /**
+   * Close the promotion chooser (resolving it with the piece, or null)
+   */
+  hidePromotionPicker(piece: PieceType | null = null): void {
+    const resolve = this.resolvePromotion;
+    this.resolvePromotion = null;
+
+    if (this.promotionPicker) {
+      this.promotionPicker.remove();
+      this.promotionPicker = null;
+    }
+
+    if (resolve) resolve(piece);
+  }
+
   /**
    * Set board orientation
    */
@@ -294,8 +576,13 @@ export class BoardRenderer {
    * Destroy board and clean up
    */
   destroy(): void {
+    this.hidePromotionPicker();
+    this.finishAnimations();
     this.container.innerHTML = '';
     this.squares = [];
+    this.renderedPieces = [];
     this.boardElement = null;
+    this.annotationLayer?.destroy();
+    this.annotationLayer = null;
   }
 }
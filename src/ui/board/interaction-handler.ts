@@ -1,15 +1,49 @@
 /**
  * Board Interaction Handler
  * 
- * Manages user interaction with the chess board (clicks, selections, moves).
+ * Manages user interaction with the chess board (clicks, drags, selections, moves).
+ * Pieces can be moved by clicking the piece then its target, by dragging it
+ * with a mouse, pen or finger (pointer events), or both. Dragging with the
+ * right mouse button draws arrows (or circles, on one square) for the player.
  */
 
-import type { Position } from '../../core/types';
+import type { AnnotationColor, Position } from '../../core/types';
 import type { ChessGame } from '../../core/game-state';
 import type { BoardRenderer } from './board-renderer';
-import { GameStatus } from '../../core/types';
+import { GameStatus, PieceType } from '../../core/types';
+import type { MoveInputMode } from '../../data/user-manager';
+import { positionsEqual } from '../../utils/coordinates';
 
-export type MoveCallback = (from: Position, to: Position) => void;
+export type MoveCallback = (from: Position, to: Position, promotion?: PieceType) => void;
+export type IllegalMoveCallback = (from: Position, to: Position) => void;
+
+/**
+ * Distance (px) a pointer must move before a press becomes a drag
+ */
+const DRAG_THRESHOLD = 5;
+
+/**
+ * Color of a player's arrow or circle, chosen with the modifier keys
+ */
+function getAnnotationColor(event: PointerEvent): AnnotationColor {
+  if (event.shiftKey) return 'red';
+  if (event.altKey) return 'blue';
+  if (event.ctrlKey || event.metaKey) return 'yellow';
+  return 'green';
+}
+
+/**
+ * A piece being pressed or dragged
+ */
+interface DragState {
+  pointerId: number;
+  from: Position;
+  startX: number;
+  startY: number;
+  piece: HTMLElement; // Image on the origin square
+  ghost: HTMLElement | null; // Floating copy under the pointer (once dragging)
+  overSquare: HTMLElement | null; // Legal target under the pointer
+}
 
 /**
  * Interaction Handler class
@@ -20,7 +54,12 @@ export class InteractionHandler {
   private selectedPosition: Position | null = null;
   private legalMoves: Position[] = [];
   private onMove: MoveCallback | null = null;
+  private onIllegalMove: IllegalMoveCallback | null = null;
   private enabled: boolean = true;
+  private inputMode: MoveInputMode = 'both';
+  private drag: DragState | null = null;
+  private suppressClick: boolean = false; // Ignore the click that ends a drag
+  private annotationStart: Position | null = null; // Square where a right-button drag began
 
   constructor(game: ChessGame, renderer: BoardRenderer) {
     this.game = game;
@@ -35,7 +74,7 @@ export class InteractionHandler {
   }
 
   /**
-   * Attach click event listeners to squares
+   * Attach click and pointer event listeners to squares
    */
   private attachEventListeners(): void {
     // Use event delegation for better performance
@@ -43,13 +82,49 @@ export class InteractionHandler {
     if (!boardElement) return;
 
     boardElement.addEventListener('click', (e) => this.handleSquareClick(e));
+    boardElement.addEventListener('pointerdown', (e) => this.handlePointerDown(e));
+    boardElement.addEventListener('pointermove', (e) => this.handlePointerMove(e));
+    boardElement.addEventListener('pointerup', (e) => this.handlePointerUp(e));
+    boardElement.addEventListener('pointercancel', () => this.cancelDrag());
+    boardElement.addEventListener('pointerdown', (e) => this.handleAnnotationPointerDown(e));
+    boardElement.addEventListener('pointerup', (e) => this.handleAnnotationPointerUp(e));
+    boardElement.addEventListener('contextmenu', (e) => e.preventDefault());
+    this.updateBoardClasses();
+  }
+
+  /**
+   * Choose how pieces are moved (click, drag, or both)
+   */
+  setInputMode(mode: MoveInputMode): void {
+    this.inputMode = mode;
+    this.cancelDrag();
+    this.updateBoardClasses();
+  }
+
+  /**
+   * Get how pieces are moved
+   */
+  getInputMode(): MoveInputMode {
+    return this.inputMode;
+  }
+
+  /**
+   * Stop touch scrolling on the board while pieces can be dragged
+   */
+  private updateBoardClasses(): void {
+    const boardElement = this.renderer['boardElement'];
+    boardElement?.classList.toggle('drag-enabled', this.inputMode !== 'click');
   }
 
   /**
    * Handle square click
    */
   private handleSquareClick(event: Event): void {
-    if (!this.enabled) return;
+    if (this.suppressClick) {
+      this.suppressClick = false;
+      return;
+    }
+    if (!this.enabled || this.inputMode === 'drag') return;
 
     const target = event.target as HTMLElement;
     const square = target.closest('.square') as HTMLElement;
@@ -72,7 +147,12 @@ export class InteractionHandler {
       if (this.isLegalMoveTarget(position)) {
         this.executeMove(this.selectedPosition, position);
       } else {
-        // Try to select a new piece
+        // Another of the mover's pieces is selected instead; anything else is an illegal move
+        const from = this.selectedPosition;
+        const piece = this.game.getBoard()[position.row][position.col];
+        if (piece?.color !== this.game.getCurrentPlayer()) {
+          this.onIllegalMove?.(from, position);
+        }
         this.selectPosition(position);
       }
     } else {
@@ -81,6 +161,217 @@ export class InteractionHandler {
     }
   }
 
+  /**
+   * Remember a press on one of the mover's pieces (it becomes a drag once the pointer moves)
+   */
+  private handlePointerDown(event: PointerEvent): void {
+    this.suppressClick = false;
+    if (!this.enabled || this.inputMode === 'click' || this.drag || !event.isPrimary) return;
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+
+    const square = (event.target as HTMLElement).closest('.square') as HTMLElement | null;
+    const piece = square?.querySelector('.piece') as HTMLElement | null;
+    const position = square ? this.renderer.getPositionFromSquare(square) : null;
+    if (!piece || !position) return;
+
+    const boardPiece = this.game.getBoard()[position.row][position.col];
+    if (!boardPiece || boardPiece.color !== this.game.getCurrentPlayer()) return;
+
+    this.drag = {
+      pointerId: event.pointerId,
+      from: position,
+      startX: event.clientX,
+      startY: event.clientY,
+      piece,
+      ghost: null,
+      overSquare: null
+    };
+  }
+
+  /**
+   * Start dragging once the pointer has moved far enough, then follow it
+   */
+  private handlePointerMove(event: PointerEvent): void {
+    const drag = this.drag;
+    if (!drag || event.pointerId !== drag.pointerId) return;
+
+    if (!drag.ghost) {
+      const distance = Math.hypot(event.clientX - drag.startX, event.clientY - drag.startY);
+      if (distance < DRAG_THRESHOLD) return;
+      if (!this.startDrag(drag, event)) return;
+    }
+
+    this.moveGhost(drag, event.clientX, event.clientY);
+
+    // Highlight the legal target under the pointer
+    const square = this.getSquareAt(event.clientX, event.clientY);
+    const position = square ? this.renderer.getPositionFromSquare(square) : null;
+    const overSquare = square && position && this.isLegalMoveTarget(position) ? square : null;
+    if (overSquare !== drag.overSquare) {
+      drag.overSquare?.classList.remove('drag-over');
+      overSquare?.classList.add('drag-over');
+      drag.overSquare = overSquare;
+    }
+  }
+
+  /**
+   * Drop the piece: move it to a legal target or snap it back
+   */
+  private handlePointerUp(event: PointerEvent): void {
+    const drag = this.drag;
+    if (!drag || event.pointerId !== drag.pointerId) return;
+
+    if (!drag.ghost) {
+      // Just a press: clicking handles it
+      this.drag = null;
+      return;
+    }
+
+    this.suppressClick = true;
+    const square = this.getSquareAt(event.clientX, event.clientY);
+    const to = square ? this.renderer.getPositionFromSquare(square) : null;
+
+    if (to && this.isLegalMoveTarget(to)) {
+      this.endDrag(drag);
+      this.executeMove(drag.from, to, false);
+    } else {
+      if (to && !positionsEqual(to, drag.from)) {
+        this.onIllegalMove?.(drag.from, to);
+      }
+      this.snapBack(drag);
+    }
+  }
+
+  /**
+   * Start drawing on a right-button press; a left-button press wipes the drawings
+   */
+  private handleAnnotationPointerDown(event: PointerEvent): void {
+    if (event.pointerType !== 'mouse') return;
+
+    this.annotationStart = null;
+    if (event.button === 0) {
+      this.renderer.clearAnnotations('user');
+      return;
+    }
+    if (event.button !== 2) return;
+
+    const square = (event.target as HTMLElement).closest('.square') as HTMLElement | null;
+    this.annotationStart = square ? this.renderer.getPositionFromSquare(square) : null;
+  }
+
+  /**
+   * Finish drawing: an arrow to another square, or a circle on the same one
+   */
+  private handleAnnotationPointerUp(event: PointerEvent): void {
+    const from = this.annotationStart;
+    if (event.button !== 2 || !from) return;
+
+    this.annotationStart = null;
+    const square = this.getSquareAt(event.clientX, event.clientY);
+    const to = square ? this.renderer.getPositionFromSquare(square) : null;
+    if (!to) return;
+
+    const color = getAnnotationColor(event);
+    if (positionsEqual(from, to)) {
+      this.renderer.toggleAnnotation({ type: 'circle', square: from, color }, 'user');
+    } else {
+      this.renderer.toggleAnnotation({ type: 'arrow', from, to, color }, 'user');
+    }
+  }
+
+  /**
+   * Turn a press into a drag: select the piece and lift a copy of it
+   * Returns false if the piece has no legal moves.
+   */
+  private startDrag(drag: DragState, event: PointerEvent): boolean {
+    this.selectPosition(drag.from);
+    if (!this.selectedPosition) {
+      this.drag = null;
+      return false;
+    }
+
+    const rect = drag.piece.getBoundingClientRect();
+    const ghost = drag.piece.cloneNode(true) as HTMLElement;
+    ghost.classList.add('drag-ghost');
+    ghost.style.width = `${rect.width}px`;
+    ghost.style.height = `${rect.height}px`;
+    document.body.appendChild(ghost);
+
+    drag.ghost = ghost;
+    drag.piece.classList.add('dragging');
+
+    const boardElement = this.renderer['boardElement'];
+    boardElement?.setPointerCapture(event.pointerId);
+    return true;
+  }
+
+  /**
+   * Centre the floating piece on the pointer
+   */
+  private moveGhost(drag: DragState, x: number, y: number): void {
+    if (!drag.ghost) return;
+    drag.ghost.style.left = `${x - drag.ghost.offsetWidth / 2}px`;
+    drag.ghost.style.top = `${y - drag.ghost.offsetHeight / 2}px`;
+  }
+
+  /**
+   * Slide the floating piece back to its square, then drop it there
+   */
+  private snapBack(drag: DragState): void {
+    const ghost = drag.ghost;
+    if (!ghost) {
+      this.endDrag(drag);
+      return;
+    }
+
+    const rect = drag.piece.getBoundingClientRect();
+    ghost.classList.add('snapping-back');
+    ghost.style.left = `${rect.left}px`;
+    ghost.style.top = `${rect.top}px`;
+    drag.ghost = null; // Removed below, once the slide is over
+
+    const finish = () => {
+      ghost.remove();
+      this.endDrag(drag);
+      if (this.inputMode === 'drag') {
+        this.clearSelection();
+      }
+    };
+    ghost.addEventListener('transitionend', finish, { once: true });
+    setTimeout(() => { if (ghost.isConnected) finish(); }, 300);
+  }
+
+  /**
+   * Remove the floating piece and drag highlights
+   */
+  private endDrag(drag: DragState): void {
+    drag.ghost?.remove();
+    drag.piece.classList.remove('dragging');
+    drag.overSquare?.classList.remove('drag-over');
+    if (this.drag === drag) {
+      this.drag = null;
+    }
+  }
+
+  /**
+   * Abandon a drag in progress (the piece goes back to its square)
+   */
+  private cancelDrag(): void {
+    if (this.drag) {
+      this.endDrag(this.drag);
+    }
+  }
+
+  /**
+   * Find the square under a point on the screen
+   */
+  private getSquareAt(x: number, y: number): HTMLElement | null {
+    const element = document.elementFromPoint(x, y);
+    const square = element?.closest('.square') as HTMLElement | null;
+    const boardElement = this.renderer['boardElement'];
+    return square && boardElement?.contains(square) ? square : null;
+  }
+
   /**
    * Select a position
    */
@@ -132,19 +423,22 @@ export class InteractionHandler {
   }
 
   /**
-   * Execute a move
+   * Execute a move (asking which piece to promote to first, if needed)
+   * @param animate - Slide the piece (not needed when it was dropped there)
    */
-  private executeMove(from: Position, to: Position): void {
-    // Check if pawn promotion
+  private async executeMove(from: Position, to: Position, animate: boolean = true): Promise<void> {
     const piece = this.game.getBoard()[from.row][from.col];
-    let promotionPiece = undefined;
+    let promotionPiece: PieceType | undefined;
     
-    if (piece && piece.type === 'pawn') {
+    if (piece && piece.type === PieceType.PAWN) {
       const promotionRank = piece.color === 'white' ? 0 : 7;
       if (to.row === promotionRank) {
-        // For now, always promote to queen
-        // TODO: Add promotion dialog in future
-        promotionPiece = 'queen' as any;
+        const choice = await this.renderer.showPromotionPicker(to, piece.color);
+        if (!choice || !this.enabled) {
+          this.clearSelection();
+          return;
+        }
+        promotionPiece = choice;
       }
     }
 
@@ -156,7 +450,8 @@ export class InteractionHandler {
       this.clearSelection();
       
       // Render updated board
-      this.renderer.renderBoard(this.game.getBoard());
+      const lastMove = this.game.getHistory().getLastMove();
+      this.renderer.renderBoard(this.game.getBoard(), animate ? lastMove?.move : undefined);
       
       // Highlight the move that was just made
       this.renderer.highlightLastMove(from, to);
@@ -174,7 +469,7 @@ export class InteractionHandler {
       
       // Call move callback
       if (this.onMove) {
-        this.onMove(from, to);
+        this.onMove(from, to, promotionPiece);
       }
     }
   }
@@ -202,12 +497,21 @@ export class InteractionHandler {
     this.onMove = callback;
   }
 
+  /**
+   * Set callback for a move to a square the piece cannot go to
+   */
+  setOnIllegalMove(callback: IllegalMoveCallback): void {
+    this.onIllegalMove = callback;
+  }
+
   /**
    * Enable/disable interaction
    */
   setEnabled(enabled: boolean): void {
     this.enabled = enabled;
     if (!enabled) {
+      this.cancelDrag();
+      this.renderer.hidePromotionPicker();
       this.clearSelection();
     }
   }
@@ -216,6 +520,8 @@ export class InteractionHandler {
    * Reset interaction state
    */
   reset(): void {
+    this.cancelDrag();
+    this.renderer.hidePromotionPicker();
     this.clearSelection();
     this.enabled = true;
   }
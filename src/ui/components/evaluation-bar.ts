@@ -0,0 +1,68 @@
+/**
+ * Evaluation Bar
+ *
+ * Vertical bar next to the board showing who is better: the white part
+ * grows from the bottom (White's side) as White's advantage grows.
+ */
+
+import { getWhiteShare, formatEvaluation } from '../../ai/position-evaluator';
+import type { PositionEvaluation } from '../../ai/position-evaluator';
+
+export class EvaluationBar {
+  private element: HTMLElement;
+  private whiteFill: HTMLElement;
+  private label: HTMLElement;
+
+  constructor() {
+    this.element = document.createElement('div');
+    this.element.className = 'evaluation-bar';
+    this.element.style.display = 'none';
+
+    this.whiteFill = document.createElement('div');
+    this.whiteFill.className = 'evaluation-fill';
+    this.element.appendChild(this.whiteFill);
+
+    this.label = document.createElement('span');
+    this.label.className = 'evaluation-label';
+    this.element.appendChild(this.label);
+
+    this.reset();
+  }
+
+  /**
+   * Get the bar element
+   */
+  getElement(): HTMLElement {
+    return this.element;
+  }
+
+  /**
+   * Show an evaluation
+   */
+  update(evaluation: PositionEvaluation): void {
+    const share = getWhiteShare(evaluation);
+    const text = formatEvaluation(evaluation);
+
+    this.whiteFill.style.height = `${Math.round(share * 1000) / 10}%`;
+    this.label.textContent = text;
+    this.element.classList.toggle('black-ahead', share < 0.5);
+    this.element.title = `Evaluation: ${text}`;
+  }
+
+  /**
+   * Go back to an even bar (while a new position is being evaluated)
+   */
+  reset(): void {
+    this.whiteFill.style.height = '50%';
+    this.label.textContent = '';
+    this.element.classList.remove('black-ahead');
+    this.element.title = 'Evaluation';
+  }
+
+  /**
+   * Show or hide the bar
+   */
+  setVisible(visible: boolean): void {
+    this.element.style.display = visible ? '' : 'none';
+  }
+}
@@ -6,27 +6,40 @@
 
 import { gameHistoryManager, GameHistoryManager, SavedGame } from '../../data/game-history';
 import { userManager } from '../../data/user-manager';
+import { getTakeBackPolicy } from '../../data/take-back-policy';
+import { personalPuzzleManager } from '../../data/personal-puzzles';
+import { downloadTextFile } from '../../utils/download';
+import { getVariant } from '../../core/variants';
+import { getOpponent } from '../../ai/ai-opponents';
+import { getStyle } from '../../ai/ai-styles';
+import { gameReviewer, isReviewable, MOVE_LABELS } from '../../ai/game-reviewer';
+import type { GameReview, MoveLabel, SideReview } from '../../ai/game-reviewer';
+import { GameReplayViewer } from './game-replay-viewer';
 
 export class GameHistoryViewer {
   private container: HTMLElement;
   private games: SavedGame[] = [];
-  private onReplayCallback?: (game: SavedGame) => void;
+  private onPlayFromHereCallback?: (game: SavedGame, ply: number) => void;
+  private reviewingId: string | null = null; // Game being reviewed by the engine
+  private replayViewer: GameReplayViewer | null = null; // Only one replay is open at a time
 
   constructor(container: HTMLElement) {
     this.container = container;
   }
 
   /**
-   * Set callback for game replay
+   * Set callback for playing on from a replayed position
    */
-  setOnReplay(callback: (game: SavedGame) => void): void {
-    this.onReplayCallback = callback;
+  setOnPlayFromHere(callback: (game: SavedGame, ply: number) => void): void {
+    this.onPlayFromHereCallback = callback;
   }
 
   /**
    * Render game history
    */
   async render(): Promise<void> {
+    this.closeReplay();
+
     const user = userManager.getCurrentUser();
     if (!user) {
       this.container.innerHTML = '<p>Please log in to view game history</p>';
@@ -93,9 +106,36 @@ export class GameHistoryViewer {
     
     // Result icon
     const resultIcon = this.getResultIcon(game.result);
+    const opponent = getOpponent(game.opponent);
     const modeText = game.mode === 'vs-ai' 
-      ? `vs AI (${game.difficulty})` 
+      ? (opponent ? `vs ${opponent.icon} ${opponent.name}` : `vs AI (${game.difficulty})`)
       : '2-Player';
+    const drawReasonText = game.result === 'draw' && game.drawReason
+      ? `<span class="game-draw-reason">${GameHistoryManager.formatDrawReason(game.drawReason)}</span>`
+      : game.timeout
+        ? '<span class="game-draw-reason">⏱️ On time</span>'
+        : '';
+    const variant = getVariant(game.variant);
+    const variantText = game.variant
+      ? `<span class="game-variant">${variant.icon} ${variant.name}</span>`
+      : '';
+    const style = getStyle(game.style);
+    const styleText = game.style
+      ? `<span class="game-style" title="${style.description}">${style.icon} ${style.name}</span>`
+      : '';
+    const takeBackPolicy = getTakeBackPolicy(game.takeBackMode);
+    const takeBackText = [
+      game.takeBackMode ? `${takeBackPolicy.icon} ${takeBackPolicy.name}` : '',
+      game.takeBacks ? `↩️ ${game.takeBacks} take-back${game.takeBacks === 1 ? '' : 's'}` : ''
+    ].filter(text => text).map(text => `<span>${text}</span>`).join('');
+    const accuracyText = game.analysis
+      ? `<span>🎯 ${this.formatAccuracy(game, game.analysis)}</span>`
+      : '';
+    const reviewButton = isReviewable(game.variant)
+      ? `<button class="button-small review-button" data-game-id="${game.id}">
+          🔍 Review
+        </button>`
+      : '';
 
     card.innerHTML = `
       <div class="game-result-icon">${resultIcon}</div>
@@ -103,17 +143,26 @@ export class GameHistoryViewer {
         <div class="game-title">
           <strong>${game.result === 'win' ? 'Victory' : game.result === 'loss' ? 'Defeat' : 'Draw'}</strong>
           <span class="game-mode">${modeText}</span>
+          ${variantText}
+          ${styleText}
+          ${drawReasonText}
         </div>
         <div class="game-info">
           <span>📅 ${GameHistoryManager.formatDate(game.completedAt)}</span>
           <span>⏱️ ${GameHistoryManager.formatDuration(game.duration)}</span>
           <span>♟️ ${game.moves.length} moves</span>
+          ${takeBackText}
+          ${accuracyText}
         </div>
       </div>
       <div class="game-actions">
+        ${reviewButton}
         <button class="button-small replay-button" data-game-id="${game.id}">
           🔄 Replay
         </button>
+        <button class="button-small pgn-button" data-game-id="${game.id}">
+          📤 PGN
+        </button>
         <button class="button-small delete-button" data-game-id="${game.id}">
           🗑️
         </button>
@@ -123,6 +172,17 @@ export class GameHistoryViewer {
     return card;
   }
 
+  /**
+   * Accuracy text for a card: the player's side in AI games, both sides otherwise
+   */
+  private formatAccuracy(game: SavedGame, review: GameReview): string {
+    if (game.mode === 'vs-ai') {
+      const side = game.playerColor === 'black' ? review.black : review.white;
+      return `${Math.round(side.accuracy)}% accuracy`;
+    }
+    return `White ${Math.round(review.white.accuracy)}% · Black ${Math.round(review.black.accuracy)}%`;
+  }
+
   /**
    * Get result icon
    */
@@ -148,7 +208,27 @@ export class GameHistoryViewer {
       btn.addEventListener('click', () => {
         const gameId = (btn as HTMLElement).dataset.gameId;
         if (gameId) {
-          this.handleReplay(gameId);
+          this.handleReplay(gameId, btn as HTMLElement);
+        }
+      });
+    });
+
+    // Review buttons
+    wrapper.querySelectorAll('.review-button').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const gameId = (btn as HTMLElement).dataset.gameId;
+        if (gameId) {
+          this.handleReview(gameId, btn as HTMLButtonElement);
+        }
+      });
+    });
+
+    // PGN export buttons
+    wrapper.querySelectorAll('.pgn-button').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const gameId = (btn as HTMLElement).dataset.gameId;
+        if (gameId) {
+          this.handleExportPGN(gameId);
         }
       });
     });
@@ -177,13 +257,164 @@ export class GameHistoryViewer {
   }
 
   /**
-   * Handle game replay
+   * Show a game's replay under its card (a second click hides it)
    */
-  private async handleReplay(gameId: string): Promise<void> {
+  private async handleReplay(gameId: string, button: HTMLElement): Promise<void> {
+    const card = button.closest('.game-card') as HTMLElement | null;
+    const wasOpen = this.replayViewer !== null && this.findPanel(card, 'game-replay') !== null;
+    this.closeReplay();
+    if (wasOpen || !card) return;
+
     const game = await gameHistoryManager.getGame(gameId);
-    if (game && this.onReplayCallback) {
-      this.onReplayCallback(game);
+    if (!game) return;
+
+    try {
+      this.replayViewer = new GameReplayViewer(game);
+    } catch (error) {
+      console.error('Failed to replay game:', error);
+      alert('Sorry, this game could not be replayed.');
+      return;
+    }
+
+    if (this.onPlayFromHereCallback) {
+      this.replayViewer.setOnPlayFromHere(this.onPlayFromHereCallback);
+    }
+    const element = this.replayViewer.getElement();
+    card.after(element);
+    element.focus();
+  }
+
+  /**
+   * Close the open replay
+   */
+  private closeReplay(): void {
+    this.replayViewer?.destroy();
+    this.replayViewer = null;
+  }
+
+  /**
+   * Find a panel (replay or review) shown under a game card
+   */
+  private findPanel(card: HTMLElement | null, className: string): Element | null {
+    let sibling = card?.nextElementSibling;
+    while (sibling && !sibling.classList.contains('game-card')) {
+      if (sibling.classList.contains(className)) return sibling;
+      sibling = sibling.nextElementSibling;
     }
+    return null;
+  }
+
+  /**
+   * Show a game's engine review, reviewing it first if needed
+   */
+  private async handleReview(gameId: string, button: HTMLButtonElement): Promise<void> {
+    const card = button.closest('.game-card') as HTMLElement | null;
+    const existing = this.findPanel(card, 'game-review');
+    if (existing) {
+      existing.remove(); // Second click hides the review
+      return;
+    }
+    if (this.reviewingId) return;
+
+    let game = await gameHistoryManager.getGame(gameId);
+    if (!game || !card) return;
+
+    if (!game.analysis) {
+      this.reviewingId = gameId;
+      button.disabled = true;
+      try {
+        const review = await gameReviewer.review(game, {}, (done, total) => {
+          button.textContent = `⏳ ${done}/${total}`;
+        });
+        if (!review) return;
+        game = await gameHistoryManager.saveReview(gameId, review);
+        // Mistakes become puzzles to review; the search runs in the background
+        personalPuzzleManager.mineGame(game).catch(error => console.error('Failed to find puzzles in game:', error));
+      } catch (error) {
+        console.error('Failed to review game:', error);
+        alert('Sorry, this game could not be reviewed.');
+        return;
+      } finally {
+        this.reviewingId = null;
+        button.disabled = false;
+        button.textContent = '🔍 Review';
+      }
+    }
+
+    card.after(this.renderReview(game, game.analysis!));
+    const info = card.querySelector('.game-info');
+    if (info && !info.textContent?.includes('🎯')) {
+      const accuracy = document.createElement('span');
+      accuracy.textContent = `🎯 ${this.formatAccuracy(game, game.analysis!)}`;
+      info.appendChild(accuracy);
+    }
+  }
+
+  /**
+   * Render the review of a game: accuracy, move labels, and better moves
+   */
+  private renderReview(game: SavedGame, review: GameReview): HTMLElement {
+    const panel = document.createElement('div');
+    panel.className = 'game-review';
+
+    const sides = document.createElement('div');
+    sides.className = 'review-sides';
+    sides.appendChild(this.renderSideReview('⚪ White', review.white));
+    sides.appendChild(this.renderSideReview('⚫ Black', review.black));
+    panel.appendChild(sides);
+
+    const moveList = document.createElement('ol');
+    moveList.className = 'review-moves';
+    const firstIsBlack = game.startFen?.split(' ')[1] === 'b';
+
+    review.moves.forEach((move, index) => {
+      const item = document.createElement('li');
+      item.className = `review-move ${move.label}`;
+      const ply = index + (firstIsBlack ? 1 : 0);
+      const number = `${Math.floor(ply / 2) + 1}.${ply % 2 === 1 ? '..' : ''}`;
+      const { icon, name } = MOVE_LABELS[move.label];
+      const better = move.bestMove && ['inaccuracy', 'mistake', 'blunder'].includes(move.label)
+        ? ` <span class="review-better">Better was ${move.bestMove}</span>`
+        : '';
+      item.innerHTML = `<span class="review-label" title="${name}">${icon}</span> ${number} ${move.san}${better}`;
+      moveList.appendChild(item);
+    });
+    panel.appendChild(moveList);
+
+    return panel;
+  }
+
+  /**
+   * Render one side's accuracy and label counts
+   */
+  private renderSideReview(title: string, side: SideReview): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'review-side';
+
+    const counts = (Object.keys(MOVE_LABELS) as MoveLabel[])
+      .filter(label => side.labels[label] > 0)
+      .map(label => `<span title="${MOVE_LABELS[label].name}">${MOVE_LABELS[label].icon} ${side.labels[label]}</span>`)
+      .join(' ');
+
+    element.innerHTML = `
+      <strong>${title}</strong>
+      <div class="review-accuracy">${Math.round(side.accuracy)}%</div>
+      <div class="review-cpl">Average loss: ${side.averageCentipawnLoss} centipawns</div>
+      <div class="review-counts">${counts}</div>
+    `;
+    return element;
+  }
+
+  /**
+   * Download a saved game as PGN
+   */
+  private async handleExportPGN(gameId: string): Promise<void> {
+    const game = await gameHistoryManager.getGame(gameId);
+    const user = userManager.getCurrentUser();
+    if (!game || !user) return;
+
+    const pgn = GameHistoryManager.toPGN(game, user.username);
+    downloadTextFile(`${game.id}.pgn`, pgn, 'application/x-chess-pgn');
   }
 
   /**
@@ -0,0 +1,348 @@
+/**
+ * Game Replay Viewer
+ *
+ * Steps through a saved game move by move on a small board: first,
+ * previous, next, last and autoplay, with the opening's name and, for
+ * reviewed games, each move's label, the better move and the evaluation.
+ * The player can branch off from any position into a game against the AI.
+ */
+
+import { ChessGame } from '../../core/game-state';
+import type { HistoryEntry } from '../../core/move-history';
+import type { AnnotationColor, Board } from '../../core/types';
+import { GameStatus, PieceColor } from '../../core/types';
+import { toFEN } from '../../core/fen';
+import { GameHistoryManager } from '../../data/game-history';
+import type { SavedGame } from '../../data/game-history';
+import { MOVE_LABELS } from '../../ai/game-reviewer';
+import type { MoveLabel, MoveReview } from '../../ai/game-reviewer';
+import { BoardRenderer } from '../board/board-renderer';
+import { themeManager } from '../themes';
+import { EvaluationBar } from './evaluation-bar';
+
+/**
+ * Time each move stays on the board during autoplay
+ */
+const AUTOPLAY_DELAY_MS = 1200;
+
+/**
+ * Board badge color of each label
+ */
+const LABEL_COLORS: Record<MoveLabel, AnnotationColor> = {
+  brilliant: 'blue',
+  best: 'green',
+  good: 'green',
+  inaccuracy: 'yellow',
+  mistake: 'yellow',
+  blunder: 'red'
+};
+
+/**
+ * Labels that get an arrow showing the better move
+ */
+const CORRECTED_LABELS: MoveLabel[] = ['inaccuracy', 'mistake', 'blunder'];
+
+export class GameReplayViewer {
+  private element: HTMLElement;
+  private game: SavedGame;
+  private startBoard: Board;
+  private history: HistoryEntry[];
+  private firstIsBlack: boolean;
+  private ply = 0; // Moves played on the board
+  private renderer: BoardRenderer;
+  private evaluationBar = new EvaluationBar();
+  private moveInfo: HTMLElement;
+  private moveList: HTMLElement;
+  private autoplayButton: HTMLButtonElement;
+  private playFromHereButton: HTMLButtonElement;
+  private autoplayTimer: ReturnType<typeof setInterval> | null = null;
+  private onPlayFromHereCallback?: (game: SavedGame, ply: number) => void;
+
+  /**
+   * @throws Error if the saved moves cannot be replayed
+   */
+  constructor(game: SavedGame) {
+    this.game = game;
+
+    const chess = new ChessGame();
+    chess.loadSnapshot(GameHistoryManager.toSnapshot(game));
+    this.history = chess.getHistory().getAllMoves();
+    this.startBoard = this.history.length > 0 ? this.history[0].stateBefore.board : chess.getBoard();
+    this.firstIsBlack = chess.getStartFEN().split(' ')[1] === 'b';
+
+    this.element = document.createElement('div');
+    this.element.className = 'game-replay';
+    this.element.tabIndex = 0;
+
+    const opening = GameHistoryManager.getOpening(game);
+    if (opening) {
+      const openingEl = document.createElement('div');
+      openingEl.className = 'replay-opening';
+      openingEl.textContent = `📖 ${opening.name} (${opening.eco})`;
+      this.element.appendChild(openingEl);
+    }
+
+    const boardArea = document.createElement('div');
+    boardArea.className = 'board-area replay-board';
+    boardArea.appendChild(this.evaluationBar.getElement());
+    const boardContainer = document.createElement('div');
+    boardArea.appendChild(boardContainer);
+    this.element.appendChild(boardArea);
+
+    this.renderer = new BoardRenderer(boardContainer, {
+      orientation: game.playerColor === 'black' ? PieceColor.BLACK : PieceColor.WHITE
+    });
+    this.renderer.setThemeManager(themeManager);
+    this.renderer.initialize();
+    this.evaluationBar.setVisible(!!game.analysis);
+
+    this.moveInfo = document.createElement('div');
+    this.moveInfo.className = 'replay-move-info';
+    this.element.appendChild(this.moveInfo);
+
+    const controls = document.createElement('div');
+    controls.className = 'replay-controls';
+    controls.appendChild(this.createButton('⏮️', 'First move', () => this.goTo(0)));
+    controls.appendChild(this.createButton('◀️', 'Previous move', () => this.goTo(this.ply - 1)));
+    this.autoplayButton = this.createButton('🎬 Autoplay', 'Play through the game', () => this.toggleAutoplay());
+    controls.appendChild(this.autoplayButton);
+    controls.appendChild(this.createButton('▶️', 'Next move', () => this.goTo(this.ply + 1)));
+    controls.appendChild(this.createButton('⏭️', 'Last move', () => this.goTo(this.history.length)));
+    this.element.appendChild(controls);
+
+    this.playFromHereButton = this.createButton('🎮 Play from here', 'Play on from this position against the computer', () => {
+      this.stopAutoplay();
+      this.onPlayFromHereCallback?.(this.game, this.ply);
+    });
+    this.playFromHereButton.className = 'button-primary button-small';
+    this.playFromHereButton.style.display = 'none';
+    this.element.appendChild(this.playFromHereButton);
+
+    this.moveList = this.createMoveList();
+    this.element.appendChild(this.moveList);
+
+    this.element.addEventListener('keydown', (event) => this.handleKeyDown(event));
+
+    this.showPosition();
+  }
+
+  /**
+   * Get the viewer element
+   */
+  getElement(): HTMLElement {
+    return this.element;
+  }
+
+  /**
+   * Set callback for starting a game from the position shown
+   */
+  setOnPlayFromHere(callback: (game: SavedGame, ply: number) => void): void {
+    this.onPlayFromHereCallback = callback;
+    this.updatePlayFromHereButton();
+  }
+
+  /**
+   * Show the position after a number of moves
+   */
+  goTo(ply: number): void {
+    const target = Math.max(0, Math.min(this.history.length, ply));
+    if (target === this.ply) return;
+
+    // Only a single step forward is animated
+    const animate = target === this.ply + 1;
+    this.ply = target;
+    this.showPosition(animate);
+  }
+
+  /**
+   * Start or stop playing through the game
+   */
+  toggleAutoplay(): void {
+    if (this.autoplayTimer !== null) {
+      this.stopAutoplay();
+      return;
+    }
+
+    if (this.ply === this.history.length) {
+      this.goTo(0);
+    }
+    this.autoplayButton.textContent = '⏸️ Pause';
+    this.autoplayTimer = setInterval(() => {
+      // The viewer was closed
+      if (!this.element.isConnected) {
+        this.stopAutoplay();
+        return;
+      }
+      this.goTo(this.ply + 1);
+      if (this.ply === this.history.length) {
+        this.stopAutoplay();
+      }
+    }, AUTOPLAY_DELAY_MS);
+  }
+
+  /**
+   * Stop autoplay and remove the viewer
+   */
+  destroy(): void {
+    this.stopAutoplay();
+    this.renderer.destroy();
+    this.element.remove();
+  }
+
+  /**
+   * Stop playing through the game
+   */
+  private stopAutoplay(): void {
+    if (this.autoplayTimer !== null) {
+      clearInterval(this.autoplayTimer);
+      this.autoplayTimer = null;
+    }
+    this.autoplayButton.textContent = '🎬 Autoplay';
+  }
+
+  /**
+   * Create a control button
+   */
+  private createButton(text: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'button-small';
+    button.textContent = text;
+    button.title = title;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Create the clickable move list
+   */
+  private createMoveList(): HTMLElement {
+    const list = document.createElement('div');
+    list.className = 'replay-moves';
+
+    this.history.forEach((entry, index) => {
+      const ply = index + (this.firstIsBlack ? 1 : 0);
+      if (ply % 2 === 0 || index === 0) {
+        const number = document.createElement('span');
+        number.className = 'replay-move-number';
+        number.textContent = `${Math.floor(ply / 2) + 1}.${ply % 2 === 1 ? '..' : ''}`;
+        list.appendChild(number);
+      }
+
+      const move = document.createElement('button');
+      move.className = 'replay-move';
+      move.dataset.ply = String(index + 1);
+      const review = this.game.analysis?.moves[index];
+      move.textContent = review ? `${entry.notation} ${MOVE_LABELS[review.label].icon}` : entry.notation;
+      move.addEventListener('click', () => {
+        this.stopAutoplay();
+        this.goTo(index + 1);
+      });
+      list.appendChild(move);
+    });
+
+    return list;
+  }
+
+  /**
+   * Step with the arrow keys, Home and End
+   */
+  private handleKeyDown(event: KeyboardEvent): void {
+    const targets: Record<string, number> = {
+      ArrowLeft: this.ply - 1,
+      ArrowRight: this.ply + 1,
+      Home: 0,
+      End: this.history.length
+    };
+    if (!(event.key in targets)) return;
+
+    event.preventDefault();
+    this.stopAutoplay();
+    this.goTo(targets[event.key]);
+  }
+
+  /**
+   * Draw the current position with its move, label, better move and evaluation
+   */
+  private showPosition(animate: boolean = false): void {
+    const entry = this.ply > 0 ? this.history[this.ply - 1] : null;
+    const review = entry ? this.game.analysis?.moves[this.ply - 1] : undefined;
+
+    this.renderer.renderBoard(entry ? entry.stateAfter.board : this.startBoard, animate ? entry?.move : undefined);
+    this.renderer.clearHighlights();
+    this.renderer.clearAnnotations('review');
+    if (entry) {
+      this.renderer.highlightLastMove(entry.move.from, entry.move.to);
+    }
+
+    if (entry && review) {
+      this.renderer.addAnnotation({
+        type: 'label',
+        square: entry.move.to,
+        text: MOVE_LABELS[review.label].symbol,
+        color: LABEL_COLORS[review.label]
+      }, 'review');
+      this.showBetterMove(entry, review);
+    }
+
+    const analysis = this.game.analysis;
+    if (analysis) {
+      this.evaluationBar.update({
+        score: review ? review.evaluation : analysis.startEvaluation,
+        mate: false,
+        bestMove: null,
+        level: analysis.engineLevel
+      });
+    }
+
+    this.moveInfo.textContent = this.describeMove(entry, review);
+    this.moveList.querySelectorAll('.replay-move').forEach(move => {
+      move.classList.toggle('current', (move as HTMLElement).dataset.ply === String(this.ply));
+    });
+    this.updatePlayFromHereButton();
+  }
+
+  /**
+   * Draw an arrow for the move the engine preferred
+   */
+  private showBetterMove(entry: HistoryEntry, review: MoveReview): void {
+    if (!review.bestMove || !CORRECTED_LABELS.includes(review.label)) return;
+
+    try {
+      const probe = ChessGame.fromFEN(toFEN(entry.stateBefore));
+      probe.makeSANMove(review.bestMove);
+      const better = probe.getHistory().getLastMove()!.move;
+      this.renderer.addAnnotation({ type: 'arrow', from: better.from, to: better.to, color: 'green' }, 'review');
+    } catch (error) {
+      console.warn('Could not show the better move:', error);
+    }
+  }
+
+  /**
+   * Text about the move shown, e.g. "12. Nf3 🤔 Inaccuracy - better was Bc4"
+   */
+  private describeMove(entry: HistoryEntry | null, review?: MoveReview): string {
+    if (!entry) return 'Starting position';
+
+    const index = this.ply - 1 + (this.firstIsBlack ? 1 : 0);
+    const number = `${Math.floor(index / 2) + 1}.${index % 2 === 1 ? '..' : ''}`;
+    let text = `${number} ${entry.notation}`;
+
+    if (review) {
+      const { icon, name } = MOVE_LABELS[review.label];
+      text += ` ${icon} ${name}`;
+      if (review.bestMove && CORRECTED_LABELS.includes(review.label)) {
+        text += ` - better was ${review.bestMove}`;
+      }
+    }
+    return text;
+  }
+
+  /**
+   * Offer "play from here" only while the game could go on
+   */
+  private updatePlayFromHereButton(): void {
+    const state = this.ply > 0 ? this.history[this.ply - 1].stateAfter : null;
+    const isOver = state !== null && state.status !== GameStatus.PLAYING && state.status !== GameStatus.CHECK;
+    this.playFromHereButton.style.display = this.onPlayFromHereCallback && !isOver ? '' : 'none';
+  }
+}
@@ -5,23 +5,68 @@
  */
 
 import { ChessGame } from '../../core/game-state';
-import { GameStatus, PieceColor } from '../../core/types';
-import type { Position } from '../../core/types';
+import { GameStatus, PieceColor, DrawReason } from '../../core/types';
+import type { Position, PieceType } from '../../core/types';
 import { BoardRenderer } from '../board/board-renderer';
 import { InteractionHandler } from '../board/interaction-handler';
 import { AIPlayer, AIDifficulty } from '../../ai/ai-interface';
 import { AIEnginePlayer } from '../../ai/ai-engine-player';
+import { AI_OPPONENTS, getOpponent, getDefaultOpponent, type AIOpponent } from '../../ai/ai-opponents';
+import { AIStyleId, AI_STYLES, getStyle, type AIStyle } from '../../ai/ai-styles';
+import { positionEvaluator, type PositionEvaluation } from '../../ai/position-evaluator';
+import { gameStateToFEN } from '../../ai/chess-engine-adapter';
 import { themeManager, ThemeSelector } from '../themes';
 import { ProfileScreen } from './profile-screen';
+import { PuzzleScreen } from './puzzle-screen';
+import { EvaluationBar } from './evaluation-bar';
+import { soundManager, SoundEffect, getMoveSound } from '../audio';
 import { lessons, TutorialManager, LessonStage } from '../../tutorial';
 import { fromAlgebraic } from '../../utils/coordinates';
+import { downloadTextFile, pickTextFile } from '../../utils/download';
+import { exportPGN, loadPGN } from '../../core/pgn';
+import type { PGNHeaders } from '../../core/pgn';
+import { STARTING_FEN } from '../../core/fen';
+import { ChessClock, TIME_CONTROL_PRESETS, formatClockTime, formatTimeControl } from '../../core/clock';
+import {
+  CHESS960_POSITION_COUNT,
+  getChess960FEN,
+  getChess960StartNumber,
+  randomChess960Position
+} from '../../core/chess960';
+import { VARIANTS, VariantId, getVariant } from '../../core/variants';
+import type { ChessVariant } from '../../core/variants';
+import type { TimeControl } from '../../core/clock';
 import { 
   userManager, 
   gameHistoryManager, 
+  GameHistoryManager,
+  gameAutosaveManager,
+  AutosavedGame,
+  SavedGame,
   progressTracker, 
   User,
+  MoveInputMode,
+  EvaluationHelp,
   SkillEngine,
-  storageManager
+  storageManager,
+  TAKE_BACK_POLICIES,
+  getTakeBackPolicy,
+  getTakeBacksLeft,
+  countTakeBack,
+  refundTakeBack,
+  TakeBackPolicy,
+  GameAnalyzer,
+  personalPuzzleManager,
+  recommendLessons,
+  getDueLessons,
+  getMastery
+} from '../../data';
+import type {
+  Achievement,
+  GameAchievementContext,
+  LessonReview,
+  LessonRecommendation,
+  RecommendationReason
 } from '../../data';
 
 /**
@@ -32,6 +77,36 @@ enum GameMode {
   VS_AI = 'vs-ai'
 }
 
+/**
+ * How often the clock display is refreshed (ms)
+ */
+const CLOCK_TICK_MS = 100;
+
+/**
+ * Clock time (ms) below which a side's clock is shown in red
+ */
+const LOW_TIME_MS = 10_000;
+
+/**
+ * Engine level and time budget (ms) for the evaluation bar
+ */
+const EVALUATION_LEVEL = 3;
+const EVALUATION_TIME_MS = 1500;
+
+/**
+ * How long a new badge is announced (ms)
+ */
+const ACHIEVEMENT_TOAST_MS = 4000;
+
+/**
+ * How each kind of lesson recommendation is introduced
+ */
+const RECOMMENDATION_LABELS: Record<RecommendationReason, string> = {
+  due: '📅 Due for review',
+  weak: '💪 Needs practice',
+  next: '🆕 Next lesson'
+};
+
 /**
  * Main Game Screen
  */
@@ -47,20 +122,37 @@ export class GameScreen {
   private aiPlayer: AIPlayer | null = null;
   private aiColor: PieceColor = PieceColor.BLACK;
   private isAiThinking: boolean = false;
+  private aiSearchId: number = 0; // Bumped when a pending AI move is cancelled
   
   // Game tracking (Phase 5)
   private gameStartTime: number = Date.now();
   private moveTimes: number[] = [];
   private lastMoveTime: number = Date.now();
+  private timeControl: TimeControl | null = null;
+  private clock: ChessClock | null = null; // null for untimed games and tutorials
+  private clockTimer: number | null = null;
+  private clockTimes: number[] = []; // Mover's clock time left after each move
+  private autosaveId: string | null = null; // Autosave slot of the game in progress
+  private variant: ChessVariant = getVariant(); // Variant for new games
+  private chess960Position: number | null = null; // Chess960 number of the game in progress
   private currentDifficulty: AIDifficulty = AIDifficulty.EASY;
+  private currentOpponent: AIOpponent = getDefaultOpponent(AIDifficulty.EASY);
+  private currentStyle: AIStyle = getStyle();
+  private takeBackPolicy: TakeBackPolicy = getTakeBackPolicy(); // For games against the AI
+  private takeBacks: number = 0; // Moves taken back in the game in progress
   private currentUser: User | null = null;
   private onLogoutCallback?: () => void;
   private onProfileCallback?: () => void;
   private profileOverlay: HTMLElement | null = null;
+  private puzzleOverlay: HTMLElement | null = null;
+  private puzzleScreen: PuzzleScreen | null = null;
+  private isImportedGame: boolean = false; // Games loaded from PGN or replays are not saved as the user's own
   private lastStatusLog: { status: GameStatus; player: PieceColor } | null = null;
   private tutorialManager: TutorialManager;
   private tutorialPanel: HTMLElement | null = null;
   private tutorialModal: HTMLElement | null = null;
+  private savedGamesModal: HTMLElement | null = null;
+  private dueReviewsModal: HTMLElement | null = null;
   private tutorialActive: boolean = false;
   private tutorialLessonTitleEl: HTMLElement | null = null;
   private tutorialObjectiveEl: HTMLElement | null = null;
@@ -68,16 +160,30 @@ export class GameScreen {
   private tutorialFeedbackEl: HTMLElement | null = null;
   private twoPlayerBtn: HTMLButtonElement | null = null;
   private vsAiBtn: HTMLButtonElement | null = null;
+  private evaluationBar: EvaluationBar = new EvaluationBar();
+  private evaluatedFen: string | null = null; // Position the evaluation bar shows or is evaluating
+  private evaluation: PositionEvaluation | null = null;
+  private bestMoveRequested: boolean = false; // Draw the best move when the evaluation arrives
+  private annotatedFen: string | null = null; // Position the player's arrows and circles belong to
   
   // UI Elements
   private gameModeSection!: HTMLElement;
+  private timeControlSelect!: HTMLSelectElement;
+  private variantSelect!: HTMLSelectElement;
+  private opponentSelect!: HTMLSelectElement;
+  private opponentInfo!: HTMLElement;
+  private styleSelect!: HTMLSelectElement;
+  private takeBackSelect!: HTMLSelectElement;
+  private variantInfo!: HTMLElement;
   private turnIndicator!: HTMLElement;
   private gameStatusElement!: HTMLElement;
   private moveListElement!: HTMLElement;
   private undoButton!: HTMLButtonElement;
   private redoButton!: HTMLButtonElement;
+  private bestMoveButton!: HTMLButtonElement;
   private newGameButton!: HTMLButtonElement;
   private aiThinkingIndicator!: HTMLElement;
+  private clockDisplay!: HTMLElement;
   private menuOverlay!: HTMLElement;
 
   constructor(container: HTMLElement) {
@@ -128,15 +234,38 @@ export class GameScreen {
     this.createLayout();
     this.renderer.initialize();
     this.interaction.initialize();
+    this.interaction.setInputMode(userManager.getPreferences().moveInput);
+    if (this.currentUser) {
+      const preferences = userManager.getPreferences();
+      soundManager.applySettings({ enabled: preferences.soundEnabled, volume: preferences.soundVolume });
+    }
     
     // Setup callbacks
-    this.interaction.setOnMove((from, to) => this.onMoveComplete(from, to));
+    this.interaction.setOnMove((from, to, promotion) => this.onMoveComplete(from, to, promotion));
+    this.interaction.setOnIllegalMove(() => soundManager.play(SoundEffect.ILLEGAL));
+    
+    // Save the clocks when the tab is hidden or closed
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
     
     // Initial render
     this.renderer.renderBoard(this.game.getBoard());
     this.updateUI();
+
+    // Offer to continue an unfinished game, or else the reviews due today
+    this.promptContinueGame().then(() => {
+      if (!this.savedGamesModal) this.promptDueReviews();
+    });
   }
 
+  /**
+   * Autosave when the page is hidden (the tab may be closed next)
+   */
+  private readonly onVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.autosaveGame();
+    }
+  };
+
   /**
    * Create the game layout
    */
@@ -150,9 +279,12 @@ export class GameScreen {
     const gameContainer = document.createElement('div');
     gameContainer.className = 'game-container';
     
-    // Board section (already created)
-    const boardWrapper = this.renderer['container'];
-    gameContainer.appendChild(boardWrapper);
+    // Board section (already created), with the evaluation bar beside it
+    const boardArea = document.createElement('div');
+    boardArea.className = 'board-area';
+    boardArea.appendChild(this.evaluationBar.getElement());
+    boardArea.appendChild(this.renderer['container']);
+    gameContainer.appendChild(boardArea);
     
     // Controls panel
     const controlsPanel = this.createControlsPanel();
@@ -240,6 +372,12 @@ export class GameScreen {
       viewProfileBtn.onclick = () => this.handleViewProfile();
       accountActionsDiv.appendChild(viewProfileBtn);
 
+      const savedGamesBtn = document.createElement('button');
+      savedGamesBtn.className = 'button-primary button-small';
+      savedGamesBtn.textContent = '📂 Saved Games';
+      savedGamesBtn.onclick = () => this.handleShowSavedGames();
+      accountActionsDiv.appendChild(savedGamesBtn);
+
       const switchAccountBtn = document.createElement('button');
       switchAccountBtn.className = 'button-secondary button-small';
       switchAccountBtn.textContent = '🔄 Switch Account';
@@ -283,6 +421,160 @@ export class GameScreen {
     const tutorialDivider = document.createElement('hr');
     tutorialDivider.className = 'menu-divider';
     menu.appendChild(tutorialDivider);
+
+    // Puzzle section
+    const puzzleSection = document.createElement('div');
+    puzzleSection.className = 'menu-section';
+
+    const puzzleTitle = document.createElement('h3');
+    puzzleTitle.textContent = '🧩 Puzzles';
+    puzzleTitle.className = 'menu-section-title';
+    puzzleSection.appendChild(puzzleTitle);
+
+    const puzzleButton = document.createElement('button');
+    puzzleButton.className = 'button-primary';
+    puzzleButton.textContent = 'Solve Puzzles';
+    puzzleButton.onclick = () => {
+      this.toggleMenu();
+      this.showPuzzleModal();
+    };
+    puzzleSection.appendChild(puzzleButton);
+
+    menu.appendChild(puzzleSection);
+
+    const puzzleDivider = document.createElement('hr');
+    puzzleDivider.className = 'menu-divider';
+    menu.appendChild(puzzleDivider);
+
+    // Position (FEN) section
+    const positionSection = document.createElement('div');
+    positionSection.className = 'menu-section';
+
+    const positionTitle = document.createElement('h3');
+    positionTitle.textContent = '🧩 Position';
+    positionTitle.className = 'menu-section-title';
+    positionSection.appendChild(positionTitle);
+
+    const positionActions = document.createElement('div');
+    positionActions.className = 'menu-account-actions';
+
+    const loadFenBtn = document.createElement('button');
+    loadFenBtn.className = 'button-primary button-small';
+    loadFenBtn.textContent = '📋 Load FEN';
+    loadFenBtn.onclick = () => this.handleLoadFEN();
+    positionActions.appendChild(loadFenBtn);
+
+    const copyFenBtn = document.createElement('button');
+    copyFenBtn.className = 'button-secondary button-small';
+    copyFenBtn.textContent = '📄 Copy FEN';
+    copyFenBtn.onclick = () => this.handleCopyFEN();
+    positionActions.appendChild(copyFenBtn);
+
+    const chess960Btn = document.createElement('button');
+    chess960Btn.className = 'button-primary button-small';
+    chess960Btn.textContent = '🎲 Chess960 #';
+    chess960Btn.onclick = () => this.handleChooseChess960Position();
+    positionActions.appendChild(chess960Btn);
+
+    const importPgnBtn = document.createElement('button');
+    importPgnBtn.className = 'button-primary button-small';
+    importPgnBtn.textContent = '📥 Import PGN';
+    importPgnBtn.onclick = () => this.handleImportPGN();
+    positionActions.appendChild(importPgnBtn);
+
+    const exportPgnBtn = document.createElement('button');
+    exportPgnBtn.className = 'button-secondary button-small';
+    exportPgnBtn.textContent = '📤 Export PGN';
+    exportPgnBtn.onclick = () => this.handleExportPGN();
+    positionActions.appendChild(exportPgnBtn);
+
+    positionSection.appendChild(positionActions);
+    menu.appendChild(positionSection);
+
+    const positionDivider = document.createElement('hr');
+    positionDivider.className = 'menu-divider';
+    menu.appendChild(positionDivider);
+    
+    // How pieces are moved
+    const moveInputSection = document.createElement('div');
+    moveInputSection.className = 'menu-section';
+
+    const moveInputTitle = document.createElement('h3');
+    moveInputTitle.textContent = '🖐️ Moving Pieces';
+    moveInputTitle.className = 'menu-section-title';
+    moveInputSection.appendChild(moveInputTitle);
+
+    const moveInputSelect = document.createElement('select');
+    moveInputSelect.className = 'move-input-select';
+    [
+      { value: 'both', label: '👆 Tap or drag' },
+      { value: 'click', label: '👉 Tap the piece, then the square' },
+      { value: 'drag', label: '✊ Drag pieces' }
+    ].forEach(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      moveInputSelect.appendChild(option);
+    });
+    moveInputSelect.value = userManager.getPreferences().moveInput;
+    moveInputSelect.onchange = () => this.setMoveInputMode(moveInputSelect.value as MoveInputMode);
+    moveInputSection.appendChild(moveInputSelect);
+    menu.appendChild(moveInputSection);
+
+    const moveInputDivider = document.createElement('hr');
+    moveInputDivider.className = 'menu-divider';
+    menu.appendChild(moveInputDivider);
+
+    // Sound effects
+    menu.appendChild(this.createSoundSection());
+
+    const soundDivider = document.createElement('hr');
+    soundDivider.className = 'menu-divider';
+    menu.appendChild(soundDivider);
+
+    // Parent settings (saved per user)
+    if (this.currentUser) {
+      const parentSection = document.createElement('div');
+      parentSection.className = 'menu-section';
+
+      const parentTitle = document.createElement('h3');
+      parentTitle.textContent = '👨‍👩‍👧 Parent Settings';
+      parentTitle.className = 'menu-section-title';
+      parentSection.appendChild(parentTitle);
+
+      const evaluationLabel = document.createElement('p');
+      evaluationLabel.className = 'menu-setting-label';
+      evaluationLabel.textContent = 'Evaluation bar and best-move hint';
+      parentSection.appendChild(evaluationLabel);
+
+      const evaluationSelect = document.createElement('select');
+      evaluationSelect.className = 'evaluation-help-select';
+      [
+        { value: 'off', label: '🚫 Off' },
+        { value: 'practice', label: '🎯 Not in rated games against the computer' },
+        { value: 'always', label: '✅ In every game' }
+      ].forEach(({ value, label }) => {
+        const option = document.createElement('option');
+        option.value = value;
+        option.textContent = label;
+        evaluationSelect.appendChild(option);
+      });
+      evaluationSelect.value = userManager.getPreferences().evaluationHelp;
+      evaluationSelect.onchange = async () => {
+        const previous = userManager.getPreferences().evaluationHelp;
+        if (!this.confirmGrownUp()) {
+          evaluationSelect.value = previous;
+          return;
+        }
+        await this.setEvaluationHelp(evaluationSelect.value as EvaluationHelp);
+      };
+      parentSection.appendChild(evaluationSelect);
+      menu.appendChild(parentSection);
+
+      const parentDivider = document.createElement('hr');
+      parentDivider.className = 'menu-divider';
+      menu.appendChild(parentDivider);
+    }
     
     // Theme selector in menu
     const themeSectionTitle = document.createElement('h3');
@@ -306,14 +598,690 @@ export class GameScreen {
     return overlay;
   }
 
+  /**
+   * Change how pieces are moved and remember it for this user
+   */
+  private async setMoveInputMode(mode: MoveInputMode): Promise<void> {
+    this.interaction.setInputMode(mode);
+    if (!this.currentUser) return;
+
+    try {
+      await userManager.updatePreferences({ moveInput: mode });
+    } catch (error) {
+      console.error('Failed to save preferences:', error);
+    }
+  }
+
+  /**
+   * Create the mute toggle and volume slider for the menu
+   */
+  private createSoundSection(): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'menu-section';
+
+    const title = document.createElement('h3');
+    title.textContent = '🔊 Sound';
+    title.className = 'menu-section-title';
+    section.appendChild(title);
+
+    const settings = soundManager.getSettings();
+
+    const muteBtn = document.createElement('button');
+    muteBtn.className = 'button-small sound-toggle';
+    const updateMuteButton = () => {
+      muteBtn.textContent = soundManager.getSettings().enabled ? '🔊 Sound on' : '🔇 Sound off';
+    };
+    updateMuteButton();
+    muteBtn.onclick = async () => {
+      await this.setSoundSettings({ enabled: !soundManager.getSettings().enabled });
+      updateMuteButton();
+    };
+    section.appendChild(muteBtn);
+
+    const volumeLabel = document.createElement('p');
+    volumeLabel.className = 'menu-setting-label';
+    volumeLabel.textContent = 'Volume';
+    section.appendChild(volumeLabel);
+
+    const volumeSlider = document.createElement('input');
+    volumeSlider.type = 'range';
+    volumeSlider.className = 'sound-volume-slider';
+    volumeSlider.min = '0';
+    volumeSlider.max = '100';
+    volumeSlider.value = String(Math.round(settings.volume * 100));
+    volumeSlider.onchange = async () => {
+      await this.setSoundSettings({ volume: Number(volumeSlider.value) / 100 });
+      soundManager.play(SoundEffect.MOVE); // Let the player hear the new volume
+    };
+    section.appendChild(volumeSlider);
+
+    return section;
+  }
+
+  /**
+   * Change mute or volume and remember it for this user
+   */
+  private async setSoundSettings(changes: { enabled?: boolean; volume?: number }): Promise<void> {
+    soundManager.applySettings(changes);
+    if (!this.currentUser) return;
+
+    const { enabled, volume } = soundManager.getSettings();
+    try {
+      await userManager.updatePreferences({ soundEnabled: enabled, soundVolume: volume });
+    } catch (error) {
+      console.error('Failed to save preferences:', error);
+    }
+  }
+
+  /**
+   * Ask a question a young child is unlikely to answer, before a parent setting changes
+   */
+  private confirmGrownUp(): boolean {
+    const a = 6 + Math.floor(Math.random() * 7);
+    const b = 6 + Math.floor(Math.random() * 7);
+    const answer = prompt(`Grown-ups only! What is ${a} × ${b}?`);
+    if (answer === null) return false;
+
+    if (Number(answer.trim()) !== a * b) {
+      alert('Sorry, that is not right. Please ask a grown-up to change this setting.');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Change when the evaluation bar and best-move hint may be used
+   */
+  private async setEvaluationHelp(evaluationHelp: EvaluationHelp): Promise<void> {
+    try {
+      await userManager.updatePreferences({ evaluationHelp });
+    } catch (error) {
+      console.error('Failed to save preferences:', error);
+    }
+    this.updateUI();
+  }
+
   /**
    * Toggle menu visibility
    */
   private toggleMenu(): void {
     if (this.menuOverlay.style.display === 'none') {
       this.menuOverlay.style.display = 'flex';
+      this.clock?.pause();
     } else {
       this.menuOverlay.style.display = 'none';
+      this.clock?.resume();
+    }
+    this.updateClockDisplay();
+  }
+
+  /**
+   * Load a position pasted as FEN
+   */
+  private async handleLoadFEN(): Promise<void> {
+    const fen = prompt('Paste a FEN position:');
+    if (!fen) return;
+
+    try {
+      this.game.loadFEN(fen);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Invalid FEN');
+      return;
+    }
+
+    this.isImportedGame = false;
+    await this.onGameLoaded();
+  }
+
+  /**
+   * Start a Chess960 game from a position number the player picks
+   */
+  private async handleChooseChess960Position(): Promise<void> {
+    const suggestion = this.chess960Position ?? randomChess960Position();
+    const input = prompt(`Chess960 position number (0-${CHESS960_POSITION_COUNT - 1}):`, String(suggestion));
+    if (input === null) return;
+
+    const position = Number(input.trim());
+    if (!Number.isInteger(position) || position < 0 || position >= CHESS960_POSITION_COUNT) {
+      alert(`Please enter a number from 0 to ${CHESS960_POSITION_COUNT - 1}.`);
+      return;
+    }
+
+    this.variant = getVariant(VariantId.CHESS960);
+    this.variantSelect.value = this.variant.id;
+    this.setUpNewGame(position);
+    this.isImportedGame = false;
+    await this.onGameLoaded();
+  }
+
+  /**
+   * Import a game from a PGN file
+   */
+  private async handleImportPGN(): Promise<void> {
+    const pgn = await pickTextFile('.pgn,application/x-chess-pgn,text/plain');
+    if (!pgn) return;
+
+    try {
+      // Validate on a scratch game first so a bad file leaves the board untouched
+      loadPGN(new ChessGame(), pgn);
+      loadPGN(this.game, pgn);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Invalid PGN');
+      return;
+    }
+
+    this.isImportedGame = true;
+    await this.onGameLoaded();
+  }
+
+  /**
+   * Download the current game as PGN
+   */
+  private handleExportPGN(): void {
+    const playerColor = this.aiColor === PieceColor.WHITE ? 'black' : 'white';
+    const headers = GameHistoryManager.getPGNHeaders({
+      mode: this.gameMode === GameMode.VS_AI ? 'vs-ai' : 'two-player',
+      difficulty: this.currentDifficulty,
+      opponent: this.currentOpponent.id,
+      playerColor,
+      startedAt: this.gameStartTime
+    }, this.currentUser?.username ?? '?');
+
+    const tags: Partial<PGNHeaders> = { ...headers };
+    if (this.clock) {
+      tags.TimeControl = formatTimeControl(this.clock.getTimeControl());
+    }
+    if (this.game.getStatus() === GameStatus.TIMEOUT) {
+      tags.Termination = 'time forfeit';
+    }
+
+    const pgn = exportPGN(this.game, tags);
+    const date = headers.Date.replace(/\./g, '-');
+    downloadTextFile(`chess-game-${date}.pgn`, pgn, 'application/x-chess-pgn');
+  }
+
+  /**
+   * Refresh the screen after a FEN position or PGN game was loaded
+   */
+  private async onGameLoaded(): Promise<void> {
+    this.cancelAIMove();
+    if (this.tutorialActive) {
+      this.exitTutorialMode();
+    }
+
+    this.resetGameTracking();
+    this.variant = this.game.getVariant();
+    this.variantSelect.value = this.variant.id;
+    this.chess960Position = getChess960StartNumber(this.game.getStartFEN());
+
+    this.toggleMenu();
+    this.renderer.renderBoard(this.game.getBoard());
+    this.renderer.clearHighlights();
+    const lastMove = this.game.getHistory().getLastMove();
+    if (lastMove) {
+      this.renderer.highlightLastMove(lastMove.move.from, lastMove.move.to);
+    }
+    this.interaction.reset();
+    this.interaction.setEnabled(true);
+    this.updateUI();
+
+    // The AI may be the side to move in the loaded position
+    const status = this.game.getStatus();
+    if (this.gameMode === GameMode.VS_AI &&
+        this.game.getCurrentPlayer() === this.aiColor &&
+        (status === GameStatus.PLAYING || status === GameStatus.CHECK)) {
+      await this.makeAIMove();
+    }
+  }
+
+  /**
+   * Copy the current position as FEN
+   */
+  private async handleCopyFEN(): Promise<void> {
+    const fen = this.game.toFEN();
+    try {
+      await navigator.clipboard.writeText(fen);
+      alert('Position copied!');
+    } catch {
+      prompt('Copy this FEN:', fen);
+    }
+  }
+
+  /**
+   * Autosave the game in progress for the current user
+   * (the save is removed again once the game is over)
+   */
+  private async autosaveGame(): Promise<void> {
+    if (!this.currentUser || this.tutorialActive || this.isImportedGame) return;
+
+    try {
+      const snapshot = this.game.getSnapshot();
+      const status = this.game.getStatus();
+      const isOver = status !== GameStatus.PLAYING && status !== GameStatus.CHECK;
+
+      if (isOver || snapshot.moves.length === 0) {
+        if (this.autosaveId) {
+          await gameAutosaveManager.delete(this.autosaveId);
+          this.autosaveId = null;
+        }
+        return;
+      }
+
+      if (!this.autosaveId) {
+        this.autosaveId = gameAutosaveManager.generateId();
+      }
+
+      const isVsAI = this.gameMode === GameMode.VS_AI;
+      await gameAutosaveManager.save({
+        ...snapshot,
+        id: this.autosaveId,
+        mode: isVsAI ? 'vs-ai' : 'two-player',
+        difficulty: isVsAI ? this.currentDifficulty : undefined,
+        opponent: isVsAI ? this.currentOpponent.id : undefined,
+        style: isVsAI ? this.currentStyle.id : undefined,
+        playerColor: isVsAI ? (this.aiColor === PieceColor.WHITE ? 'black' : 'white') : undefined,
+        timeControl: this.clock?.getTimeControl(),
+        clock: this.clock?.getSnapshot(),
+        clockTimes: this.clock ? [...this.clockTimes] : undefined,
+        takeBacks: isVsAI && this.takeBacks > 0 ? this.takeBacks : undefined,
+        takeBackMode: isVsAI ? this.takeBackPolicy.id : undefined,
+        moveTimes: [...this.moveTimes],
+        startedAt: this.gameStartTime
+      });
+    } catch (error) {
+      console.error('Failed to autosave game:', error);
+    }
+  }
+
+  /**
+   * Offer to continue an unfinished game (shown on login)
+   */
+  private async promptContinueGame(): Promise<void> {
+    if (!this.currentUser) return;
+
+    const games = await gameAutosaveManager.getUserAutosaves();
+    if (games.length > 0) {
+      this.showSavedGamesModal(games);
+    }
+  }
+
+  /**
+   * Show the lessons and puzzles due for review today, if there are any
+   */
+  private async promptDueReviews(): Promise<void> {
+    if (!this.currentUser) return;
+
+    const dueLessons = await progressTracker.getDueLessons();
+    const duePuzzles = await personalPuzzleManager.getDuePuzzles();
+    if (dueLessons.length > 0 || duePuzzles.length > 0) {
+      this.showDueReviewsModal(dueLessons, duePuzzles.length);
+    }
+  }
+
+  /**
+   * Show the reviews due today: lessons to practise again and puzzles from the player's games
+   */
+  private showDueReviewsModal(dueLessons: LessonRecommendation[], duePuzzles: number): void {
+    if (this.dueReviewsModal) return;
+
+    const overlay = document.createElement('div');
+    overlay.className = 'modal-overlay';
+
+    const modal = document.createElement('div');
+    modal.className = 'modal due-reviews-modal';
+
+    const title = document.createElement('h2');
+    title.textContent = '📅 Due Today';
+    modal.appendChild(title);
+
+    const list = document.createElement('div');
+    list.className = 'due-reviews-list';
+
+    dueLessons.forEach(due => {
+      const lesson = this.tutorialManager.getLessons().find(item => item.id === due.lessonId);
+      if (!lesson) return;
+
+      const item = document.createElement('div');
+      item.className = 'due-review-item';
+      item.innerHTML = `
+        <span>📘 ${lesson.title}</span>
+        <span class="due-review-mastery">${due.mastery === null ? '' : `🧠 ${due.mastery}%`}</span>
+      `;
+
+      const reviewBtn = document.createElement('button');
+      reviewBtn.className = 'button-primary button-small';
+      reviewBtn.textContent = 'Practise';
+      reviewBtn.onclick = () => {
+        this.closeDueReviewsModal();
+        this.startTutorial(lesson.id);
+      };
+      item.appendChild(reviewBtn);
+      list.appendChild(item);
+    });
+
+    if (duePuzzles > 0) {
+      const item = document.createElement('div');
+      item.className = 'due-review-item';
+      item.innerHTML = `<span>🧩 ${duePuzzles} puzzle${duePuzzles === 1 ? '' : 's'} from your games</span>`;
+
+      const solveBtn = document.createElement('button');
+      solveBtn.className = 'button-primary button-small';
+      solveBtn.textContent = 'Solve';
+      solveBtn.onclick = () => {
+        this.closeDueReviewsModal();
+        this.showPuzzleModal();
+      };
+      item.appendChild(solveBtn);
+      list.appendChild(item);
+    }
+
+    modal.appendChild(list);
+
+    const buttonGroup = document.createElement('div');
+    buttonGroup.className = 'button-group';
+
+    const closeBtn = document.createElement('button');
+    closeBtn.className = 'button-secondary';
+    closeBtn.textContent = 'Not Now';
+    closeBtn.onclick = () => this.closeDueReviewsModal();
+    buttonGroup.appendChild(closeBtn);
+
+    modal.appendChild(buttonGroup);
+    overlay.appendChild(modal);
+    overlay.onclick = (event) => {
+      if (event.target === overlay) {
+        this.closeDueReviewsModal();
+      }
+    };
+
+    document.body.appendChild(overlay);
+    this.dueReviewsModal = overlay;
+  }
+
+  /**
+   * Close due reviews modal
+   */
+  private closeDueReviewsModal(): void {
+    if (this.dueReviewsModal) {
+      document.body.removeChild(this.dueReviewsModal);
+      this.dueReviewsModal = null;
+    }
+  }
+
+  /**
+   * Handle saved games menu button
+   */
+  private async handleShowSavedGames(): Promise<void> {
+    this.toggleMenu();
+
+    const games = await gameAutosaveManager.getUserAutosaves();
+    if (games.length === 0) {
+      alert('No unfinished games to continue.');
+      return;
+    }
+    this.showSavedGamesModal(games);
+  }
+
+  /**
+   * Show the list of unfinished games to continue
+   */
+  private showSavedGamesModal(games: AutosavedGame[]): void {
+    if (this.savedGamesModal) return;
+
+    const overlay = document.createElement('div');
+    overlay.className = 'modal-overlay';
+
+    const modal = document.createElement('div');
+    modal.className = 'modal saved-games-modal';
+
+    const title = document.createElement('h2');
+    title.textContent = '▶️ Continue a Game?';
+    modal.appendChild(title);
+
+    const list = document.createElement('div');
+    list.className = 'saved-games-list';
+
+    games.forEach(saved => {
+      const card = document.createElement('div');
+      card.className = 'saved-game-card';
+
+      const opponent = getOpponent(saved.opponent);
+      const style = getStyle(saved.style);
+      const styleText = style.id !== AIStyleId.BALANCED ? ` · ${style.icon} ${style.name}` : '';
+      const modeText = saved.mode === 'vs-ai'
+        ? (opponent ? `🤖 vs ${opponent.icon} ${opponent.name}` : `🤖 vs AI (${saved.difficulty})`) + styleText
+        : '👥 Two Players';
+      const preset = TIME_CONTROL_PRESETS.find(p =>
+        JSON.stringify(p.timeControl) === JSON.stringify(saved.timeControl ?? null)
+      );
+      const clockText = saved.timeControl
+        ? `<span>⏱️ ${preset ? preset.label : formatTimeControl(saved.timeControl)}</span>`
+        : '';
+      const variant = getVariant(saved.variant);
+      const variantText = variant.id !== VariantId.STANDARD
+        ? `<span>${variant.icon} ${variant.name}</span>`
+        : '';
+
+      card.innerHTML = `
+        <div class="saved-game-details">
+          <strong>${modeText}</strong>
+          <div class="saved-game-meta">
+            <span>♟️ ${saved.currentMove} moves</span>
+            <span>📅 ${GameHistoryManager.formatDate(saved.updatedAt)}</span>
+            ${clockText}
+            ${variantText}
+          </div>
+        </div>
+      `;
+
+      const actions = document.createElement('div');
+      actions.className = 'saved-game-actions';
+
+      const continueBtn = document.createElement('button');
+      continueBtn.className = 'button-primary button-small';
+      continueBtn.textContent = 'Continue';
+      continueBtn.onclick = () => {
+        this.closeSavedGamesModal();
+        this.resumeGame(saved);
+      };
+      actions.appendChild(continueBtn);
+
+      const deleteBtn = document.createElement('button');
+      deleteBtn.className = 'button-secondary button-small';
+      deleteBtn.textContent = '🗑️';
+      deleteBtn.onclick = async () => {
+        if (!confirm('Delete this saved game?')) return;
+        await gameAutosaveManager.delete(saved.id);
+        list.removeChild(card);
+        if (!list.hasChildNodes()) {
+          this.closeSavedGamesModal();
+        }
+      };
+      actions.appendChild(deleteBtn);
+
+      card.appendChild(actions);
+      list.appendChild(card);
+    });
+
+    modal.appendChild(list);
+
+    const buttonGroup = document.createElement('div');
+    buttonGroup.className = 'button-group';
+
+    const closeBtn = document.createElement('button');
+    closeBtn.className = 'button-secondary';
+    closeBtn.textContent = 'Not Now';
+    closeBtn.onclick = () => this.closeSavedGamesModal();
+    buttonGroup.appendChild(closeBtn);
+
+    modal.appendChild(buttonGroup);
+    overlay.appendChild(modal);
+    overlay.onclick = (event) => {
+      if (event.target === overlay) {
+        this.closeSavedGamesModal();
+      }
+    };
+
+    document.body.appendChild(overlay);
+    this.savedGamesModal = overlay;
+  }
+
+  /**
+   * Close saved games modal
+   */
+  private closeSavedGamesModal(): void {
+    if (this.savedGamesModal) {
+      document.body.removeChild(this.savedGamesModal);
+      this.savedGamesModal = null;
+    }
+  }
+
+  /**
+   * Continue an autosaved game: mode, difficulty, clock and full move history
+   */
+  private async resumeGame(saved: AutosavedGame): Promise<void> {
+    try {
+      // Validate on a scratch game first so a bad save leaves the board untouched
+      new ChessGame().loadSnapshot(saved);
+    } catch (error) {
+      console.error('Failed to restore saved game:', error);
+      alert('This saved game could not be restored.');
+      await gameAutosaveManager.delete(saved.id);
+      return;
+    }
+
+    if (this.tutorialActive) {
+      this.exitTutorialMode();
+    }
+
+    this.cancelAIMove();
+
+    // Settings first: switching mode starts a fresh game and clock
+    this.timeControl = saved.timeControl ?? null;
+    const preset = TIME_CONTROL_PRESETS.find(p =>
+      JSON.stringify(p.timeControl) === JSON.stringify(this.timeControl)
+    );
+    this.timeControlSelect.value = preset ? preset.id : TIME_CONTROL_PRESETS[0].id;
+
+    // Games saved before variants were recorded: Chess960 is told apart by its castling rights
+    const chess960Position = getChess960StartNumber(saved.startFen);
+    this.variant = getVariant(saved.variant ?? (chess960Position !== null ? VariantId.CHESS960 : undefined));
+    this.variantSelect.value = this.variant.id;
+
+    if (this.twoPlayerBtn && this.vsAiBtn) {
+      if (saved.mode === 'vs-ai') {
+        this.setGameMode(GameMode.VS_AI, this.vsAiBtn, this.twoPlayerBtn);
+      } else {
+        this.setGameMode(GameMode.TWO_PLAYER, this.twoPlayerBtn, this.vsAiBtn);
+      }
+    }
+
+    if (saved.mode === 'vs-ai') {
+      this.aiColor = saved.playerColor === 'black' ? PieceColor.WHITE : PieceColor.BLACK;
+      const difficulty = (saved.difficulty ?? AIDifficulty.EASY) as AIDifficulty;
+      this.setAIOpponent(getOpponent(saved.opponent) ?? getDefaultOpponent(difficulty));
+      this.setAIStyle(getStyle(saved.style));
+      this.takeBackPolicy = getTakeBackPolicy(saved.takeBackMode);
+      this.takeBackSelect.value = this.takeBackPolicy.id;
+    }
+
+    this.game.loadSnapshot({ ...saved, variant: this.variant.id });
+    this.chess960Position = chess960Position;
+    this.gameStartTime = saved.startedAt;
+    this.moveTimes = [...saved.moveTimes];
+    this.lastMoveTime = Date.now();
+    this.autosaveId = saved.id;
+    this.takeBacks = saved.takeBacks ?? 0;
+
+    if (this.clock) {
+      if (saved.clock) {
+        this.clock.restore(saved.clock);
+      }
+      this.clockTimes = [...(saved.clockTimes ?? [])];
+    }
+
+    this.renderer.renderBoard(this.game.getBoard());
+    this.renderer.clearHighlights();
+    const lastMove = this.game.getHistory().getLastMove();
+    if (lastMove) {
+      this.renderer.highlightLastMove(lastMove.move.from, lastMove.move.to);
+    }
+    this.interaction.reset();
+    this.interaction.setEnabled(true);
+    this.updateUI();
+
+    console.log(`✅ Resumed game ${saved.id}`);
+
+    // The AI may be the side to move
+    const status = this.game.getStatus();
+    if (this.gameMode === GameMode.VS_AI &&
+        this.game.getCurrentPlayer() === this.aiColor &&
+        (status === GameStatus.PLAYING || status === GameStatus.CHECK)) {
+      await this.makeAIMove();
+    }
+  }
+
+  /**
+   * Play on against the AI from a position of a replayed game
+   * The player keeps their side of a game against the AI, or takes the side
+   * to move in a two-player game. Like imported games, it is not saved or rated.
+   */
+  private async playFromHere(saved: SavedGame, ply: number): Promise<void> {
+    const chess960Position = getChess960StartNumber(saved.startFen ?? STARTING_FEN);
+    const variant = getVariant(saved.variant ?? (chess960Position !== null ? VariantId.CHESS960 : undefined));
+    const snapshot = { ...GameHistoryManager.toSnapshot(saved, ply), variant: variant.id };
+
+    const scratch = new ChessGame();
+    try {
+      // Validate on a scratch game first so a bad save leaves the board untouched
+      scratch.loadSnapshot(snapshot);
+    } catch (error) {
+      console.error('Failed to set up replayed position:', error);
+      alert('This position could not be set up.');
+      return;
+    }
+
+    if (this.tutorialActive) {
+      this.exitTutorialMode();
+    }
+
+    // Settings first: switching mode starts a fresh game and clock
+    this.variant = variant;
+    this.variantSelect.value = this.variant.id;
+    if (this.twoPlayerBtn && this.vsAiBtn) {
+      this.setGameMode(GameMode.VS_AI, this.vsAiBtn, this.twoPlayerBtn);
+    }
+
+    if (saved.mode === 'vs-ai') {
+      this.aiColor = saved.playerColor === 'black' ? PieceColor.WHITE : PieceColor.BLACK;
+      const difficulty = (saved.difficulty ?? AIDifficulty.EASY) as AIDifficulty;
+      this.setAIOpponent(getOpponent(saved.opponent) ?? getDefaultOpponent(difficulty));
+      this.setAIStyle(getStyle(saved.style));
+    } else {
+      this.aiColor = scratch.getCurrentPlayer() === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+    }
+
+    this.game.loadSnapshot(snapshot);
+    this.chess960Position = chess960Position;
+    this.isImportedGame = true;
+
+    this.renderer.renderBoard(this.game.getBoard());
+    this.renderer.clearHighlights();
+    const lastMove = this.game.getHistory().getLastMove();
+    if (lastMove) {
+      this.renderer.highlightLastMove(lastMove.move.from, lastMove.move.to);
+    }
+    this.interaction.reset();
+    this.interaction.setEnabled(true);
+    this.updateUI();
+
+    console.log(`✅ Playing on from move ${ply} of game ${saved.id}`);
+
+    // The AI may be the side to move
+    const status = this.game.getStatus();
+    if (this.game.getCurrentPlayer() === this.aiColor &&
+        (status === GameStatus.PLAYING || status === GameStatus.CHECK)) {
+      await this.makeAIMove();
     }
   }
 
@@ -358,6 +1326,10 @@ export class GameScreen {
 
     const profileScreen = new ProfileScreen(content, this.currentUser);
     profileScreen.setOnBack(() => this.closeProfileModal());
+    profileScreen.setOnPlayFromHere((game, ply) => {
+      this.closeProfileModal();
+      this.playFromHere(game, ply);
+    });
     await profileScreen.render();
   }
 
@@ -371,6 +1343,46 @@ export class GameScreen {
     }
   }
 
+  /**
+   * Show the puzzle trainer as a modal overlay
+   */
+  private async showPuzzleModal(): Promise<void> {
+    if (this.puzzleOverlay) return;
+
+    const overlay = document.createElement('div');
+    overlay.className = 'modal-overlay profile-modal-overlay';
+
+    const modal = document.createElement('div');
+    modal.className = 'modal puzzle-modal';
+
+    const content = document.createElement('div');
+    modal.appendChild(content);
+    overlay.appendChild(modal);
+
+    const puzzleScreen = new PuzzleScreen(content, this.currentUser);
+    puzzleScreen.setOnBack(() => this.closePuzzleModal());
+    overlay.onclick = (event) => {
+      if (event.target === overlay) this.closePuzzleModal();
+    };
+
+    document.body.appendChild(overlay);
+    this.puzzleOverlay = overlay;
+    this.puzzleScreen = puzzleScreen;
+    await puzzleScreen.render();
+  }
+
+  /**
+   * Close puzzle modal
+   */
+  private closePuzzleModal(): void {
+    if (this.puzzleOverlay) {
+      this.puzzleScreen?.destroy();
+      document.body.removeChild(this.puzzleOverlay);
+      this.puzzleOverlay = null;
+      this.puzzleScreen = null;
+    }
+  }
+
   /**
    * Handle switch account
    */
@@ -432,11 +1444,16 @@ export class GameScreen {
   }
 
   /**
-   * Show tutorial selection modal
+   * Show tutorial selection modal, with the lessons to practise next first
    */
-  private showTutorialModal(): void {
+  private async showTutorialModal(): Promise<void> {
     if (this.tutorialModal) return;
 
+    const progress = await progressTracker.getUserProgress();
+    if (this.tutorialModal) return;
+    const lessonList = this.tutorialManager.getLessons();
+    const now = Date.now();
+
     const overlay = document.createElement('div');
     overlay.className = 'modal-overlay';
 
@@ -447,18 +1464,29 @@ export class GameScreen {
     title.textContent = 'Choose a Lesson';
     modal.appendChild(title);
 
+    if (progress) {
+      modal.appendChild(this.createLessonRecommendations(recommendLessons(lessonList, progress, now)));
+    }
+
     const list = document.createElement('div');
     list.className = 'tutorial-lesson-list';
 
-    this.tutorialManager.getLessons().forEach(lesson => {
+    const dueLessonIds = progress ? getDueLessons(lessonList, progress, now).map(due => due.lessonId) : [];
+    lessonList.forEach(lesson => {
       const card = document.createElement('div');
       card.className = 'tutorial-lesson-card';
 
+      const review = progress?.lessonReviews?.[lesson.id];
+      const masteryText = review ? `<span>🧠 ${getMastery(review, now)}%</span>` : '';
+      const dueText = dueLessonIds.includes(lesson.id) ? '<span>📅 Due</span>' : '';
+
       card.innerHTML = `
         <div class="tutorial-lesson-title">${lesson.title}</div>
         <div class="tutorial-lesson-desc">${lesson.description}</div>
         <div class="tutorial-lesson-meta">
           <span>${lesson.category}</span>
+          ${masteryText}
+          ${dueText}
           <span>${lesson.stages.length} step${lesson.stages.length > 1 ? 's' : ''}</span>
         </div>
       `;
@@ -487,6 +1515,36 @@ export class GameScreen {
     this.tutorialModal = overlay;
   }
 
+  /**
+   * Create the "practise next" list shown above the lessons
+   */
+  private createLessonRecommendations(recommendations: LessonRecommendation[]): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'tutorial-recommendations';
+    if (recommendations.length === 0) return section;
+
+    const heading = document.createElement('h3');
+    heading.textContent = '⭐ Practise Next';
+    section.appendChild(heading);
+
+    recommendations.forEach(recommendation => {
+      const lesson = this.tutorialManager.getLessons().find(item => item.id === recommendation.lessonId);
+      if (!lesson) return;
+
+      const masteryText = recommendation.mastery === null ? '' : ` · 🧠 ${recommendation.mastery}%`;
+      const button = document.createElement('button');
+      button.className = 'button-secondary button-small tutorial-recommendation';
+      button.textContent = `${RECOMMENDATION_LABELS[recommendation.reason]}: ${lesson.title}${masteryText}`;
+      button.onclick = () => {
+        this.closeTutorialModal();
+        this.startTutorial(lesson.id);
+      };
+      section.appendChild(button);
+    });
+
+    return section;
+  }
+
   /**
    * Close tutorial selection modal
    */
@@ -515,6 +1573,7 @@ export class GameScreen {
     if (this.twoPlayerBtn && this.vsAiBtn) {
       this.setGameMode(GameMode.TWO_PLAYER, this.twoPlayerBtn, this.vsAiBtn);
     } else {
+      this.cancelAIMove();
       this.gameMode = GameMode.TWO_PLAYER;
       this.aiPlayer = null;
     }
@@ -528,21 +1587,31 @@ export class GameScreen {
    * Stop tutorial mode
    */
   private stopTutorial(): void {
+    this.exitTutorialMode();
+
+    this.setUpNewGame();
+    this.isImportedGame = false;
+    this.resetGameTracking();
+    this.renderer.renderBoard(this.game.getBoard());
+    this.renderer.clearHighlights();
+    this.interaction.reset();
+    this.updateUI();
+  }
+
+  /**
+   * Leave tutorial mode without touching the board
+   */
+  private exitTutorialMode(): void {
     this.tutorialActive = false;
     this.updateNewGameButtonText();
     this.tutorialManager.reset();
     this.renderer.clearTutorialHints();
+    this.renderer.clearAnnotations('lesson');
     if (this.tutorialPanel) this.tutorialPanel.style.display = 'none';
 
     if (this.gameModeSection) {
       this.gameModeSection.style.display = '';
     }
-
-    this.game.reset();
-    this.renderer.renderBoard(this.game.getBoard());
-    this.renderer.clearHighlights();
-    this.interaction.reset();
-    this.updateUI();
   }
 
   /**
@@ -551,6 +1620,8 @@ export class GameScreen {
   private applyTutorialStage(stage: LessonStage): void {
     if (!stage.setup) return;
 
+    // Lessons are always standard chess
+    this.game.setVariant(getVariant());
     const setup = this.tutorialManager.getStageSetup(stage);
     if (!setup) {
       this.game.reset();
@@ -559,7 +1630,9 @@ export class GameScreen {
         board: setup.board,
         currentPlayer: setup.currentPlayer,
         castlingRights: setup.castlingRights,
-        enPassantTarget: setup.enPassantTarget
+        enPassantTarget: setup.enPassantTarget,
+        halfMoveClock: setup.halfMoveClock,
+        fullMoveNumber: setup.fullMoveNumber
       });
     }
 
@@ -582,6 +1655,7 @@ export class GameScreen {
     if (this.tutorialObjectiveEl) {
       this.tutorialObjectiveEl.textContent = stage ? `Goal: ${stage.objective}` : '';
     }
+    this.showLessonAnnotations(stage);
     if (this.tutorialHintEl) {
       this.tutorialHintEl.textContent = stage ? `Hint: ${stage.hints[0]}` : '';
     }
@@ -615,8 +1689,9 @@ export class GameScreen {
 
   /**
    * Show tutorial completion modal
+   * @param review - The lesson's review record (null for guests)
    */
-  private showTutorialCompletionModal(): void {
+  private showTutorialCompletionModal(review: LessonReview | null): void {
     const overlay = document.createElement('div');
     overlay.className = 'modal-overlay';
 
@@ -631,6 +1706,14 @@ export class GameScreen {
     message.textContent = 'Great job! You finished this lesson.';
     modal.appendChild(message);
 
+    if (review) {
+      const days = review.schedule.interval;
+      const reviewNote = document.createElement('p');
+      reviewNote.className = 'tutorial-review-note';
+      reviewNote.textContent = `🧠 Mastery ${review.mastery}% · 📅 Practise again in ${days} day${days === 1 ? '' : 's'}`;
+      modal.appendChild(reviewNote);
+    }
+
     const buttonGroup = document.createElement('div');
     buttonGroup.className = 'button-group';
 
@@ -744,32 +1827,115 @@ export class GameScreen {
     difficultySection.style.display = 'none';
     
     const difficultyTitle = document.createElement('h4');
-    difficultyTitle.textContent = '🎯 Difficulty';
+    difficultyTitle.textContent = '🎯 Opponent';
     difficultySection.appendChild(difficultyTitle);
     
-    const difficultyButtons = document.createElement('div');
-    difficultyButtons.className = 'button-group';
-    
-    const easyBtn = document.createElement('button');
-    easyBtn.textContent = '😊 Easy';
-    easyBtn.className = 'button-secondary active';
-    easyBtn.onclick = () => this.setAIDifficulty(AIDifficulty.EASY, easyBtn, [mediumBtn, hardBtn]);
-    difficultyButtons.appendChild(easyBtn);
-    
-    const mediumBtn = document.createElement('button');
-    mediumBtn.textContent = '🤔 Medium';
-    mediumBtn.className = 'button-secondary';
-    mediumBtn.onclick = () => this.setAIDifficulty(AIDifficulty.MEDIUM, mediumBtn, [easyBtn, hardBtn]);
-    difficultyButtons.appendChild(mediumBtn);
-    
-    const hardBtn = document.createElement('button');
-    hardBtn.textContent = '🧠 Hard';
-    hardBtn.className = 'button-secondary';
-    hardBtn.onclick = () => this.setAIDifficulty(AIDifficulty.HARD, hardBtn, [easyBtn, mediumBtn]);
-    difficultyButtons.appendChild(hardBtn);
+    const opponentSelect = document.createElement('select');
+    opponentSelect.className = 'opponent-select';
+    AI_OPPONENTS.forEach(opponent => {
+      const option = document.createElement('option');
+      option.value = opponent.id;
+      option.textContent = `${opponent.icon} ${opponent.name} (${opponent.rating})`;
+      option.title = opponent.description;
+      opponentSelect.appendChild(option);
+    });
+    opponentSelect.value = this.currentOpponent.id;
+    opponentSelect.onchange = () => {
+      const opponent = getOpponent(opponentSelect.value);
+      if (opponent) this.setAIOpponent(opponent);
+    };
+    difficultySection.appendChild(opponentSelect);
+    this.opponentSelect = opponentSelect;
+
+    const opponentInfo = document.createElement('p');
+    opponentInfo.className = 'opponent-info';
+    opponentInfo.textContent = this.currentOpponent.description;
+    difficultySection.appendChild(opponentInfo);
+    this.opponentInfo = opponentInfo;
+
+    const styleTitle = document.createElement('h4');
+    styleTitle.textContent = '🎭 Playing Style';
+    difficultySection.appendChild(styleTitle);
+
+    const styleSelect = document.createElement('select');
+    styleSelect.className = 'style-select';
+    AI_STYLES.forEach(style => {
+      const option = document.createElement('option');
+      option.value = style.id;
+      option.textContent = `${style.icon} ${style.name}`;
+      option.title = style.description;
+      styleSelect.appendChild(option);
+    });
+    styleSelect.value = this.currentStyle.id;
+    styleSelect.onchange = () => this.setAIStyle(getStyle(styleSelect.value));
+    difficultySection.appendChild(styleSelect);
+    this.styleSelect = styleSelect;
+
+    const takeBackTitle = document.createElement('h4');
+    takeBackTitle.textContent = '↩️ Take-backs';
+    difficultySection.appendChild(takeBackTitle);
+
+    const takeBackSelect = document.createElement('select');
+    takeBackSelect.className = 'take-back-select';
+    TAKE_BACK_POLICIES.forEach(policy => {
+      const option = document.createElement('option');
+      option.value = policy.id;
+      option.textContent = `${policy.icon} ${policy.name}`;
+      option.title = policy.description;
+      takeBackSelect.appendChild(option);
+    });
+    takeBackSelect.value = this.takeBackPolicy.id;
+    takeBackSelect.title = this.takeBackPolicy.description;
+    takeBackSelect.onchange = () => this.setTakeBackPolicy(getTakeBackPolicy(takeBackSelect.value));
+    difficultySection.appendChild(takeBackSelect);
+    this.takeBackSelect = takeBackSelect;
     
-    difficultySection.appendChild(difficultyButtons);
     section.appendChild(difficultySection);
+
+    // Time control section
+    const timeControlSection = document.createElement('div');
+    timeControlSection.className = 'time-control-section';
+
+    const timeControlTitle = document.createElement('h4');
+    timeControlTitle.textContent = '⏱️ Time Control';
+    timeControlSection.appendChild(timeControlTitle);
+
+    const timeControlSelect = document.createElement('select');
+    timeControlSelect.className = 'time-control-select';
+    TIME_CONTROL_PRESETS.forEach(preset => {
+      const option = document.createElement('option');
+      option.value = preset.id;
+      option.textContent = preset.label;
+      timeControlSelect.appendChild(option);
+    });
+    timeControlSelect.onchange = () => this.setTimeControl(timeControlSelect.value);
+    timeControlSection.appendChild(timeControlSelect);
+    this.timeControlSelect = timeControlSelect;
+
+    section.appendChild(timeControlSection);
+
+    // Variant section
+    const variantSection = document.createElement('div');
+    variantSection.className = 'variant-section';
+
+    const variantTitle = document.createElement('h4');
+    variantTitle.textContent = '🎲 Variant';
+    variantSection.appendChild(variantTitle);
+
+    const variantSelect = document.createElement('select');
+    variantSelect.className = 'variant-select';
+    VARIANTS.forEach(variant => {
+      const option = document.createElement('option');
+      option.value = variant.id;
+      option.textContent = `${variant.icon} ${variant.name}`;
+      option.title = variant.rules;
+      variantSelect.appendChild(option);
+    });
+    variantSelect.onchange = () => this.setVariant(getVariant(variantSelect.value));
+    variantSection.appendChild(variantSelect);
+    this.variantSelect = variantSelect;
+
+    section.appendChild(variantSection);
     
     return section;
   }
@@ -778,6 +1944,7 @@ export class GameScreen {
    * Set game mode
    */
   private setGameMode(mode: GameMode, activeBtn: HTMLButtonElement, inactiveBtn: HTMLButtonElement): void {
+    this.cancelAIMove();
     this.gameMode = mode;
     
     // Update button states
@@ -788,9 +1955,9 @@ export class GameScreen {
     const difficultySection = this.gameModeSection.querySelector('.difficulty-section') as HTMLElement;
     if (mode === GameMode.VS_AI) {
       difficultySection.style.display = 'block';
-      // Default to easy - difficulty can be adjusted via buttons
+      // Keep the last chosen opponent - it can be changed via the select
       if (!this.aiPlayer) {
-        this.setAIDifficulty(AIDifficulty.EASY); // Default to easy
+        this.setAIOpponent(this.currentOpponent);
       }
     } else {
       difficultySection.style.display = 'none';
@@ -798,7 +1965,9 @@ export class GameScreen {
     }
     
     // Reset game
-    this.game.reset();
+    this.setUpNewGame();
+    this.isImportedGame = false;
+    this.resetGameTracking();
     this.renderer.renderBoard(this.game.getBoard());
     this.renderer.clearHighlights();
     this.interaction.reset();
@@ -807,26 +1976,225 @@ export class GameScreen {
   }
 
   /**
-   * Set AI difficulty
+   * Set the AI opponent
    */
-  private setAIDifficulty(
-    difficulty: AIDifficulty,
-    activeBtn?: HTMLButtonElement,
-    inactiveBtns?: HTMLButtonElement[]
-  ): void {
-    // Update button states
-    if (activeBtn && inactiveBtns) {
-      activeBtn.classList.add('active');
-      inactiveBtns.forEach(btn => btn.classList.remove('active'));
-    }
+  private setAIOpponent(opponent: AIOpponent): void {
+    this.opponentSelect.value = opponent.id;
+    this.opponentInfo.textContent = opponent.description;
     
-    // Track difficulty for saving (Phase 5)
-    this.currentDifficulty = difficulty;
+    // Track opponent and its difficulty bucket for saving (Phase 5)
+    this.currentOpponent = opponent;
+    this.currentDifficulty = opponent.difficulty;
     
+    // The old player's move is no longer wanted
+    this.cancelAIMove();
+
     // Create AI player using js-chess-engine
-    this.aiPlayer = new AIEnginePlayer(difficulty);
+    const player = AIEnginePlayer.fromOpponent(opponent);
+    player.setStyle(this.currentStyle);
+    this.aiPlayer = player;
     
-    console.log(`AI difficulty set to: ${difficulty} (engine level: ${(this.aiPlayer as AIEnginePlayer).getEngineLevel()})`);
+    console.log(`AI opponent set to: ${opponent.name} (rating ${opponent.rating}, engine level ${opponent.engineLevel})`);
+  }
+
+  /**
+   * Set the AI playing style (takes effect from the AI's next move)
+   */
+  private setAIStyle(style: AIStyle): void {
+    this.styleSelect.value = style.id;
+    this.currentStyle = style;
+    if (this.aiPlayer instanceof AIEnginePlayer) {
+      this.aiPlayer.setStyle(style);
+    }
+    console.log(`AI style set to: ${style.name}`);
+  }
+
+  /**
+   * Set the take-back policy for games against the AI (starts a new game,
+   * so take-backs already used cannot move into a rated game)
+   */
+  private setTakeBackPolicy(policy: TakeBackPolicy): void {
+    this.takeBackPolicy = policy;
+    this.takeBackSelect.value = policy.id;
+    this.takeBackSelect.title = policy.description;
+
+    this.setUpNewGame();
+    this.isImportedGame = false;
+    this.resetGameTracking();
+    this.renderer.renderBoard(this.game.getBoard());
+    this.renderer.clearHighlights();
+    this.interaction.reset();
+    this.interaction.setEnabled(true);
+    this.updateUI();
+  }
+
+  /**
+   * Set time control (starts a new game)
+   */
+  private setTimeControl(presetId: string): void {
+    const preset = TIME_CONTROL_PRESETS.find(p => p.id === presetId);
+    if (!preset) return;
+
+    this.timeControl = preset.timeControl;
+
+    this.setUpNewGame();
+    this.isImportedGame = false;
+    this.resetGameTracking();
+    this.renderer.renderBoard(this.game.getBoard());
+    this.renderer.clearHighlights();
+    this.interaction.reset();
+    this.interaction.setEnabled(true);
+    this.updateUI();
+  }
+
+  /**
+   * Switch to another variant (starts a new game)
+   */
+  private setVariant(variant: ChessVariant): void {
+    this.variant = variant;
+
+    this.setUpNewGame();
+    this.isImportedGame = false;
+    this.resetGameTracking();
+    this.renderer.renderBoard(this.game.getBoard());
+    this.renderer.clearHighlights();
+    this.interaction.reset();
+    this.interaction.setEnabled(true);
+    this.updateUI();
+  }
+
+  /**
+   * Put the start position of the selected variant on the board
+   * (for Chess960, a given position number instead of a random one)
+   */
+  private setUpNewGame(chess960Position?: number): void {
+    this.cancelAIMove();
+    this.game.setVariant(this.variant);
+    if (chess960Position !== undefined) {
+      this.game.loadFEN(getChess960FEN(chess960Position));
+    } else {
+      this.game.reset();
+    }
+    this.chess960Position = getChess960StartNumber(this.game.getStartFEN());
+  }
+
+  /**
+   * Start timing a new game: move times, clock and a new autosave slot
+   */
+  private resetGameTracking(): void {
+    this.gameStartTime = Date.now();
+    this.moveTimes = [];
+    this.lastMoveTime = Date.now();
+    this.autosaveId = null;
+    this.takeBacks = 0;
+    this.resetClock();
+  }
+
+  /**
+   * Start a fresh clock for the selected time control (none in tutorials)
+   */
+  private resetClock(): void {
+    this.stopClockTimer();
+    this.clockTimes = [];
+    this.clock = this.timeControl && !this.tutorialActive
+      ? new ChessClock(this.timeControl)
+      : null;
+
+    if (this.clock) {
+      this.clockTimer = window.setInterval(() => this.onClockTick(), CLOCK_TICK_MS);
+    }
+    this.updateClockDisplay();
+  }
+
+  /**
+   * Stop refreshing the clock display
+   */
+  private stopClockTimer(): void {
+    if (this.clockTimer !== null) {
+      window.clearInterval(this.clockTimer);
+      this.clockTimer = null;
+    }
+  }
+
+  /**
+   * Refresh the clocks and end the game if the side to move ran out of time
+   */
+  private onClockTick(): void {
+    this.updateClockDisplay();
+    if (this.clock?.hasFlagged()) {
+      this.handleFlagFall();
+    }
+  }
+
+  /**
+   * End the game on time
+   */
+  private handleFlagFall(): void {
+    this.clock?.stop();
+    this.stopClockTimer();
+
+    if (!this.game.flagFall()) return;
+
+    console.log(`⏱️ ${this.game.getCurrentPlayer()} ran out of time`);
+    this.interaction.reset();
+    this.updateClockDisplay();
+    this.autosaveGame();
+
+    // A pending AI move is dropped; makeAIMove refreshes the UI when it returns
+    if (!this.isAiThinking) {
+      this.updateUI();
+    }
+  }
+
+  /**
+   * Press the clock after a move and stop it if the game is over
+   */
+  private pressClock(mover: PieceColor): void {
+    if (!this.clock) return;
+
+    this.clockTimes.push(this.clock.press(mover));
+
+    const status = this.game.getStatus();
+    if (status !== GameStatus.PLAYING && status !== GameStatus.CHECK) {
+      this.clock.stop();
+      this.stopClockTimer();
+    }
+    this.updateClockDisplay();
+  }
+
+  /**
+   * Keep the clock in step with the move list after undo/redo
+   * (time already used is not given back)
+   */
+  private syncClockWithHistory(): void {
+    if (!this.clock) return;
+
+    const moveCount = this.game.getHistory().getMoveCount();
+    const mover = this.game.getCurrentPlayer() === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+    this.clockTimes = this.clockTimes.slice(0, moveCount);
+    while (this.clockTimes.length < moveCount) {
+      this.clockTimes.push(this.clock.getRemaining(mover));
+    }
+
+    const status = this.game.getStatus();
+    if (moveCount === 0 || (status !== GameStatus.PLAYING && status !== GameStatus.CHECK)) {
+      this.clock.stop();
+      this.stopClockTimer();
+    } else {
+      this.clock.start(this.game.getCurrentPlayer());
+      if (this.clockTimer === null) {
+        this.clockTimer = window.setInterval(() => this.onClockTick(), CLOCK_TICK_MS);
+      }
+    }
+    this.updateClockDisplay();
+  }
+
+  /**
+   * Check if the game ended because a clock ran out
+   */
+  private isFlagFallen(): boolean {
+    return this.game.getStatus() === GameStatus.TIMEOUT ||
+      this.game.getDrawReason() === DrawReason.TIMEOUT_VS_INSUFFICIENT_MATERIAL;
   }
 
   /**
@@ -839,6 +2207,12 @@ export class GameScreen {
     const title = document.createElement('h2');
     title.textContent = 'Chess Game';
     section.appendChild(title);
+
+    // Variant name, Chess960 number and progress (hidden for standard games)
+    this.variantInfo = document.createElement('div');
+    this.variantInfo.className = 'variant-info';
+    this.variantInfo.style.display = 'none';
+    section.appendChild(this.variantInfo);
     
     // AI Thinking indicator
     this.aiThinkingIndicator = document.createElement('div');
@@ -851,6 +2225,22 @@ export class GameScreen {
     this.turnIndicator = document.createElement('div');
     this.turnIndicator.className = 'turn-indicator';
     section.appendChild(this.turnIndicator);
+
+    // Clocks (hidden for untimed games)
+    this.clockDisplay = document.createElement('div');
+    this.clockDisplay.className = 'clock-display';
+    this.clockDisplay.style.display = 'none';
+    [PieceColor.BLACK, PieceColor.WHITE].forEach(color => {
+      const clock = document.createElement('div');
+      clock.className = `player-clock ${color}`;
+      clock.innerHTML = `
+        <div class="player-icon ${color}"></div>
+        <span class="clock-label">${color === PieceColor.WHITE ? 'White' : 'Black'}</span>
+        <span class="clock-time"></span>
+      `;
+      this.clockDisplay.appendChild(clock);
+    });
+    section.appendChild(this.clockDisplay);
     
     // Game status
     this.gameStatusElement = document.createElement('div');
@@ -878,6 +2268,14 @@ export class GameScreen {
     this.redoButton.className = 'button-secondary';
     this.redoButton.onclick = () => this.handleRedo();
     buttonGroup.appendChild(this.redoButton);
+
+    // Only shown when a parent has allowed it for this game
+    this.bestMoveButton = document.createElement('button');
+    this.bestMoveButton.textContent = '💡 Best Move';
+    this.bestMoveButton.className = 'button-secondary';
+    this.bestMoveButton.style.display = 'none';
+    this.bestMoveButton.onclick = () => this.handleShowBestMove();
+    buttonGroup.appendChild(this.bestMoveButton);
     
     section.appendChild(buttonGroup);
     
@@ -906,11 +2304,166 @@ export class GameScreen {
    * Update all UI elements
    */
   private updateUI(): void {
+    this.updateVariantInfo();
     this.updateTurnIndicator();
+    this.updateClockDisplay();
     this.updateGameStatus();
     this.updateMoveHistory();
     this.updateButtons();
     this.updateAIThinkingIndicator();
+    this.updateAnnotations();
+    this.updateEvaluation();
+  }
+
+  /**
+   * Check if the game in progress is a rated game against the AI
+   */
+  private isRatedGame(): boolean {
+    return this.gameMode === GameMode.VS_AI &&
+      this.takeBackPolicy.rated &&
+      this.game.getVariant().countsForRating &&
+      !this.isImportedGame &&
+      !this.tutorialActive;
+  }
+
+  /**
+   * Check if the evaluation bar and best-move hint may be used in this game
+   */
+  private isEvaluationAllowed(): boolean {
+    const help = userManager.getPreferences().evaluationHelp;
+    if (help === 'off' || this.tutorialActive) return false;
+
+    // The engine only knows the rules of standard chess
+    const variant = this.game.getVariant().id;
+    if (variant !== VariantId.STANDARD && variant !== VariantId.CHESS960) return false;
+
+    return help === 'always' || !this.isRatedGame();
+  }
+
+  /**
+   * Evaluate the current position in the background (once per position)
+   */
+  private updateEvaluation(): void {
+    const allowed = this.isEvaluationAllowed();
+    this.evaluationBar.setVisible(allowed);
+    this.bestMoveButton.style.display = allowed ? '' : 'none';
+
+    const fen = gameStateToFEN(this.game.getState());
+    const status = this.game.getStatus();
+    const isPlayable = status === GameStatus.PLAYING || status === GameStatus.CHECK;
+    const isAiTurn = this.gameMode === GameMode.VS_AI && this.game.getCurrentPlayer() === this.aiColor;
+    this.bestMoveButton.disabled = !isPlayable || isAiTurn;
+
+    // The AI's search gets the CPU to itself
+    if (!allowed || !isPlayable || isAiTurn) {
+      if (!allowed) this.evaluationBar.reset();
+      positionEvaluator.cancel();
+      this.evaluatedFen = null;
+      this.evaluation = null;
+      return;
+    }
+    if (fen === this.evaluatedFen) return;
+
+    this.evaluatedFen = fen;
+    this.evaluation = null;
+    positionEvaluator.evaluate(fen, EVALUATION_LEVEL, EVALUATION_TIME_MS).then(evaluation => {
+      if (!evaluation || fen !== this.evaluatedFen) return;
+
+      this.evaluation = evaluation;
+      this.evaluationBar.update(evaluation);
+      if (this.bestMoveRequested) {
+        this.showBestMoveArrow();
+      }
+    });
+  }
+
+  /**
+   * Show the best move now, or as soon as the evaluation is ready
+   */
+  private handleShowBestMove(): void {
+    if (this.evaluation) {
+      this.showBestMoveArrow();
+    } else {
+      this.bestMoveRequested = true;
+    }
+  }
+
+  /**
+   * Draw an arrow for the engine's best move in the current position
+   */
+  private showBestMoveArrow(): void {
+    this.bestMoveRequested = false;
+    const bestMove = this.evaluation?.bestMove;
+    if (!bestMove) return;
+
+    this.renderer.addAnnotation({ type: 'arrow', ...bestMove, color: 'blue' }, 'best-move');
+  }
+
+  /**
+   * Clear the player's arrows and the best-move hint once the position changes
+   */
+  private updateAnnotations(): void {
+    const fen = this.game.toFEN();
+    if (fen === this.annotatedFen) return;
+
+    this.annotatedFen = fen;
+    this.renderer.clearAnnotations('user');
+    this.renderer.clearAnnotations('best-move');
+    this.bestMoveRequested = false;
+  }
+
+  /**
+   * Show the arrows and circles a lesson stage comes with
+   */
+  private showLessonAnnotations(stage: LessonStage | null): void {
+    this.renderer.clearAnnotations('lesson');
+    stage?.annotations?.forEach(annotation => {
+      const color = annotation.color ?? 'green';
+      switch (annotation.type) {
+        case 'arrow':
+          this.renderer.addAnnotation({
+            type: 'arrow',
+            from: fromAlgebraic(annotation.from),
+            to: fromAlgebraic(annotation.to),
+            color
+          }, 'lesson');
+          break;
+        case 'circle':
+          this.renderer.addAnnotation({ type: 'circle', square: fromAlgebraic(annotation.square), color }, 'lesson');
+          break;
+        case 'label':
+          this.renderer.addAnnotation({
+            type: 'label',
+            square: fromAlgebraic(annotation.square),
+            text: annotation.text,
+            color
+          }, 'lesson');
+          break;
+      }
+    });
+  }
+
+  /**
+   * Show the variant of the game in progress (Chess960 number, progress)
+   */
+  private updateVariantInfo(): void {
+    const variant = this.game.getVariant();
+    if (variant.id === VariantId.STANDARD || this.tutorialActive) {
+      this.variantInfo.style.display = 'none';
+      return;
+    }
+
+    let text = `${variant.icon} ${variant.name}`;
+    if (this.chess960Position !== null) {
+      text += ` #${this.chess960Position}`;
+    }
+    if (variant.describeProgress) {
+      text += ` · ${variant.describeProgress(this.game.getHistory().getAllMoves())}`;
+    }
+
+    this.variantInfo.style.display = 'block';
+    this.variantInfo.textContent = text;
+    this.variantInfo.title = variant.rules;
   }
 
   /**
@@ -924,6 +2477,30 @@ export class GameScreen {
     }
   }
 
+  /**
+   * Update both sides' clocks
+   */
+  private updateClockDisplay(): void {
+    if (!this.clockDisplay) return;
+    if (!this.clock) {
+      this.clockDisplay.style.display = 'none';
+      return;
+    }
+
+    this.clockDisplay.style.display = 'flex';
+    const clock = this.clock;
+    [PieceColor.WHITE, PieceColor.BLACK].forEach(color => {
+      const element = this.clockDisplay.querySelector(`.player-clock.${color}`) as HTMLElement;
+      const remaining = clock.getRemaining(color);
+      const isActive = clock.getActiveColor() === color && clock.isRunning();
+
+      (element.querySelector('.clock-time') as HTMLElement).textContent = formatClockTime(remaining);
+      element.classList.toggle('active', isActive);
+      element.classList.toggle('low-time', remaining < LOW_TIME_MS);
+      element.classList.toggle('flagged', remaining <= 0);
+    });
+  }
+
   /**
    * Update turn indicator
    */
@@ -982,12 +2559,30 @@ export class GameScreen {
         this.interaction.setEnabled(false);
         break;
       
-      case GameStatus.DRAW:
+      case GameStatus.TIMEOUT:
+        this.gameStatusElement.classList.add('timeout');
+        this.gameStatusElement.textContent = `Time's up! ${oppositePlayer.toUpperCase()} Wins!`;
+        this.showGameOverModal('Time Out', `${currentPlayer} ran out of time. ${oppositePlayer} wins!`);
+        this.interaction.setEnabled(false);
+        break;
+      
+      case GameStatus.VARIANT_WIN: {
+        const winMessage = this.game.getVariant().winMessage;
+        this.gameStatusElement.classList.add('variant-win');
+        this.gameStatusElement.textContent = `${oppositePlayer.toUpperCase()} ${winMessage} and wins!`;
+        this.showGameOverModal(this.game.getVariant().name, `${oppositePlayer} ${winMessage}. ${oppositePlayer} wins!`);
+        this.interaction.setEnabled(false);
+        break;
+      }
+      
+      case GameStatus.DRAW: {
+        const reason = GameHistoryManager.formatDrawReason(this.game.getDrawReason());
         this.gameStatusElement.classList.add('draw');
-        this.gameStatusElement.textContent = 'Draw!';
-        this.showGameOverModal('Draw', "It's a draw!");
+        this.gameStatusElement.textContent = `Draw! (${reason})`;
+        this.showGameOverModal('Draw', `It's a draw: ${reason}`);
         this.interaction.setEnabled(false);
         break;
+      }
     }
   }
 
@@ -1018,8 +2613,11 @@ export class GameScreen {
    * Update button states
    */
   private updateButtons(): void {
-    this.undoButton.disabled = !this.game.canUndo();
-    this.redoButton.disabled = !this.game.canRedo();
+    // A game lost on time cannot be taken back
+    const takeBacksLeft = this.getTakeBacksLeft();
+    this.undoButton.disabled = !this.game.canUndo() || this.isFlagFallen() || takeBacksLeft === 0;
+    this.undoButton.textContent = takeBacksLeft === null ? '↶ Undo' : `↶ Undo (${takeBacksLeft} left)`;
+    this.redoButton.disabled = !this.game.canRedo() || this.isFlagFallen();
     this.updateNewGameButtonText();
   }
 
@@ -1037,12 +2635,13 @@ export class GameScreen {
   /**
    * Handle move completion
    */
-  private async onMoveComplete(from: Position, to: Position): Promise<void> {
+  private async onMoveComplete(from: Position, to: Position, promotion?: PieceType): Promise<void> {
     if (this.tutorialActive) {
       this.renderer.clearTutorialHints();
-      const result = this.tutorialManager.validateMove(from, to);
+      const result = this.tutorialManager.validateMove(from, to, promotion);
 
       if (!result.correct) {
+        soundManager.play(SoundEffect.ILLEGAL);
         this.game.undo();
         this.renderer.renderBoard(this.game.getBoard());
         this.renderer.clearHighlights();
@@ -1052,6 +2651,7 @@ export class GameScreen {
       }
 
       this.updateTutorialPanel(this.tutorialManager.getCurrentStage(), result.message, false);
+      this.playMoveSound(result.stageComplete || result.lessonComplete);
 
       if (result.stageComplete && result.nextStage) {
         this.applyTutorialStage(result.nextStage);
@@ -1060,17 +2660,24 @@ export class GameScreen {
 
       if (result.lessonComplete) {
         const lesson = this.tutorialManager.getCurrentLesson();
+        let review: LessonReview | null = null;
         if (lesson) {
           await progressTracker.addCompletedLesson(lesson.id);
+          review = await progressTracker.recordLessonReview(lesson.id, this.tutorialManager.getStageResults());
+          await this.awardAchievements();
         }
-        this.showTutorialCompletionModal();
+        this.showTutorialCompletionModal(review);
       }
+    } else {
+      this.playMoveSound();
     }
 
     const now = Date.now();
     const moveTime = (now - this.lastMoveTime) / 1000;
     this.moveTimes.push(moveTime);
     this.lastMoveTime = now;
+    this.pressClock(this.game.getCurrentPlayer() === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE);
+    this.autosaveGame();
 
     this.updateUI();
     
@@ -1085,6 +2692,32 @@ export class GameScreen {
     }
   }
 
+  /**
+   * Play the cue for the move just made (or the lesson cue when it finished a lesson step)
+   */
+  private playMoveSound(lessonSuccess = false): void {
+    const lastMove = this.game.getHistory().getLastMove();
+    if (lessonSuccess) {
+      soundManager.play(SoundEffect.LESSON_SUCCESS);
+    } else if (lastMove) {
+      soundManager.play(getMoveSound(lastMove.move, this.game.getStatus()));
+    }
+  }
+
+  /**
+   * Cue for the end of the game: the side to move has lost unless it is a draw
+   */
+  private getGameEndSound(): SoundEffect {
+    const status = this.game.getStatus();
+    if (status === GameStatus.STALEMATE || status === GameStatus.DRAW) {
+      return SoundEffect.GAME_DRAW;
+    }
+    if (this.gameMode === GameMode.VS_AI && this.game.getCurrentPlayer() !== this.aiColor) {
+      return SoundEffect.GAME_LOSS;
+    }
+    return SoundEffect.GAME_WIN;
+  }
+
   /**
    * Make AI move
    */
@@ -1094,19 +2727,31 @@ export class GameScreen {
     }
 
     this.isAiThinking = true;
+    const searchId = this.aiSearchId;
     this.interaction.setEnabled(false);
     this.updateUI();
 
     try {
       const move = await this.aiPlayer.getBestMove(this.game, this.aiColor);
+
+      // Undo, a new game or a mode change cancelled this move
+      if (searchId !== this.aiSearchId) {
+        return;
+      }
       
-      if (move) {
+      // The game may have ended on time while the AI was thinking
+      const statusBefore = this.game.getStatus();
+      if (move && (statusBefore === GameStatus.PLAYING || statusBefore === GameStatus.CHECK)) {
         // Execute AI move through game engine
         const success = this.game.makeMove(move.from, move.to, move.promotionPiece);
         
         if (success) {
+          this.pressClock(this.aiColor);
+          this.autosaveGame();
+          this.playMoveSound();
+
           // Update board rendering
-          this.renderer.renderBoard(this.game.getBoard());
+          this.renderer.renderBoard(this.game.getBoard(), this.game.getHistory().getLastMove()?.move);
           this.renderer.highlightLastMove(move.from, move.to);
           
           console.log(`AI moved: ${JSON.stringify(move.from)} → ${JSON.stringify(move.to)}`);
@@ -1122,15 +2767,35 @@ export class GameScreen {
     } catch (error) {
       console.error('AI move error:', error);
     } finally {
-      this.isAiThinking = false;
-      const currentStatus = this.game.getStatus();
-      this.interaction.setEnabled(
-        currentStatus === GameStatus.PLAYING || currentStatus === GameStatus.CHECK
-      );
-      this.updateUI();
+      if (searchId === this.aiSearchId) {
+        this.finishAIMove();
+      }
     }
   }
 
+  /**
+   * Re-enable the board after the AI has moved (or stopped thinking)
+   */
+  private finishAIMove(): void {
+    this.isAiThinking = false;
+    const currentStatus = this.game.getStatus();
+    this.interaction.setEnabled(
+      currentStatus === GameStatus.PLAYING || currentStatus === GameStatus.CHECK
+    );
+    this.updateUI();
+  }
+
+  /**
+   * Stop the AI if it is thinking; its move is thrown away when it arrives
+   */
+  private cancelAIMove(): void {
+    if (!this.isAiThinking) return;
+
+    this.aiSearchId++;
+    this.aiPlayer?.cancel?.();
+    this.finishAIMove();
+  }
+
   /**
    * Handle new game
    */
@@ -1145,12 +2810,14 @@ export class GameScreen {
       }
     }
 
-    // Normal mode: confirm and start new game
-    if (confirm('Start a new game? Current game will be lost.')) {
-      this.game.reset();
-      this.gameStartTime = Date.now(); // Reset game timer
-      this.moveTimes = [];
-      this.lastMoveTime = Date.now();
+    // Normal mode: confirm and start new game (a logged-in user's game stays autosaved)
+    const message = this.autosaveId
+      ? 'Start a new game? You can continue this one later from Saved Games.'
+      : 'Start a new game? Current game will be lost.';
+    if (confirm(message)) {
+      this.setUpNewGame();
+      this.isImportedGame = false;
+      this.resetGameTracking();
       
       // Suggest difficulty based on skill (Phase 5.7)
       await this.suggestDifficulty();
@@ -1167,11 +2834,18 @@ export class GameScreen {
    * Handle undo
    */
   private handleUndo(): void {
+    if (this.getTakeBacksLeft() === 0) return;
+
+    this.cancelAIMove();
     if (this.game.undo()) {
+      this.takeBacks = countTakeBack(this.takeBacks, this.gameMode === GameMode.VS_AI);
       // In AI mode, undo twice to undo both player and AI moves
-      if (this.gameMode === GameMode.VS_AI && this.game.canUndo()) {
+      // (once if the AI was still thinking about its reply)
+      if (this.gameMode === GameMode.VS_AI && this.game.getCurrentPlayer() === this.aiColor && this.game.canUndo()) {
         this.game.undo();
       }
+      this.syncClockWithHistory();
+      this.autosaveGame();
       
       this.renderer.renderBoard(this.game.getBoard());
       this.renderer.clearHighlights();
@@ -1181,17 +2855,42 @@ export class GameScreen {
     }
   }
 
+  /**
+   * Take-backs the player has left in this game (null = unlimited)
+   * Only games against the AI are limited; two players agree on their own take-backs.
+   */
+  private getTakeBacksLeft(): number | null {
+    if (this.gameMode !== GameMode.VS_AI || this.tutorialActive) return null;
+    return getTakeBacksLeft(this.takeBackPolicy, this.takeBacks);
+  }
+
   /**
    * Handle redo
    */
-  private handleRedo(): void {
+  private async handleRedo(): Promise<void> {
     if (this.game.redo()) {
-      this.renderer.renderBoard(this.game.getBoard());
+      const isVsAI = this.gameMode === GameMode.VS_AI;
+      this.takeBacks = refundTakeBack(this.takeBacks, isVsAI);
+      // In AI mode, redo the AI reply too, as undo took both back
+      if (isVsAI && this.game.getCurrentPlayer() === this.aiColor && this.game.canRedo()) {
+        this.game.redo();
+      }
+      this.syncClockWithHistory();
+      this.autosaveGame();
       const lastMove = this.game.getHistory().getLastMove();
+      this.renderer.renderBoard(this.game.getBoard(), lastMove?.move);
       if (lastMove) {
         this.renderer.highlightLastMove(lastMove.move.from, lastMove.move.to);
       }
       this.updateUI();
+
+      // The AI reply may not have been played before the undo
+      const status = this.game.getStatus();
+      if (isVsAI &&
+          this.game.getCurrentPlayer() === this.aiColor &&
+          (status === GameStatus.PLAYING || status === GameStatus.CHECK)) {
+        await this.makeAIMove();
+      }
     }
   }
 
@@ -1199,6 +2898,8 @@ export class GameScreen {
    * Show game over modal
    */
   private async showGameOverModal(title: string, message: string): Promise<void> {
+    soundManager.play(this.getGameEndSound());
+
     // Save game and analyze if user is logged in (Phase 5)
     const analysis = await this.saveGameResult(title);
     
@@ -1283,10 +2984,16 @@ export class GameScreen {
       return;
     }
 
+    if (this.isImportedGame) {
+      console.log('Imported game, not saved');
+      return;
+    }
+
     try {
       // Get game moves
       const history = this.game.getHistory();
       const moves = history.toAlgebraicNotation();
+      const startFen = this.game.getStartFEN();
       
       // Determine result
       const status = this.game.getStatus();
@@ -1298,7 +3005,7 @@ export class GameScreen {
       let result: 'win' | 'loss' | 'draw';
       let winner: 'white' | 'black' | 'draw';
       
-      if (status === GameStatus.CHECKMATE) {
+      if (status === GameStatus.CHECKMATE || status === GameStatus.TIMEOUT || status === GameStatus.VARIANT_WIN) {
         const winnerColor: 'white' | 'black' = currentPlayer === PieceColor.WHITE ? 'black' : 'white';
         winner = winnerColor;
         
@@ -1312,8 +3019,12 @@ export class GameScreen {
         winner = 'draw';
       }
       
+      // Mini-games are kept out of AI difficulty stats and the rating
+      const variant = this.game.getVariant();
+      const isVsAI = this.gameMode === GameMode.VS_AI;
+
       // Save game
-      await gameHistoryManager.saveGame(
+      const savedGame = await gameHistoryManager.saveGame(
         this.gameMode === GameMode.VS_AI ? 'vs-ai' : 'two-player',
         moves,
         result,
@@ -1321,21 +3032,59 @@ export class GameScreen {
         this.gameStartTime,
         {
           difficulty: this.gameMode === GameMode.VS_AI ? this.currentDifficulty : undefined,
-          playerColor: this.gameMode === GameMode.VS_AI ? playerColor : undefined
+          opponent: this.gameMode === GameMode.VS_AI ? this.currentOpponent.id : undefined,
+          style: this.gameMode === GameMode.VS_AI && this.currentStyle.id !== AIStyleId.BALANCED
+            ? this.currentStyle.id
+            : undefined,
+          playerColor: this.gameMode === GameMode.VS_AI ? playerColor : undefined,
+          drawReason: this.game.getDrawReason() ?? undefined,
+          startFen: startFen !== STARTING_FEN ? startFen : undefined,
+          variant: variant.id !== VariantId.STANDARD ? variant.id : undefined,
+          timeout: status === GameStatus.TIMEOUT ? true : undefined,
+          timeControl: this.clock?.getTimeControl(),
+          clockTimes: this.clock ? this.clockTimes : undefined,
+          takeBacks: isVsAI && this.takeBacks > 0 ? this.takeBacks : undefined,
+          takeBackMode: isVsAI ? this.takeBackPolicy.id : undefined
         }
       );
+
+      // Practice games against the AI count like mini-games
+      const isRated = variant.countsForRating && (!isVsAI || this.takeBackPolicy.rated);
       
       // Update progress
       await progressTracker.updateAfterGame(
         result,
-        this.gameMode === GameMode.VS_AI ? 'vs-ai' : 'two-player',
-        this.gameMode === GameMode.VS_AI ? this.currentDifficulty : undefined
+        isVsAI ? 'vs-ai' : 'two-player',
+        isVsAI && isRated ? this.currentDifficulty : undefined
       );
 
+      if (!isRated) {
+        console.log(`✅ ${variant.countsForRating ? this.takeBackPolicy.name : variant.name} game saved`);
+      }
+
       // Analyze game and update skill profile (Phase 5.5, 5.6)
-      const analysis = await this.analyzeAndUpdateSkills(result);
-      
-      console.log('✅ Game saved, progress updated, and skills analyzed');
+      const analysis = isRated ? await this.analyzeAndUpdateSkills(result) : null;
+      if (isRated) {
+        console.log('✅ Game saved, progress updated, and skills analyzed');
+      }
+
+      await this.awardAchievements({
+        result,
+        mode: isVsAI ? 'vs-ai' : 'two-player',
+        checkmate: status === GameStatus.CHECKMATE,
+        analysis: GameAnalyzer.analyzeGame(
+          history.getAllMoves().map(entry => entry.move),
+          history.getAllMoves().map(entry => entry.stateAfter.board),
+          playerColor === 'white' ? PieceColor.WHITE : PieceColor.BLACK,
+          [], // Think times are not needed for badges
+          result,
+          isVsAI ? this.currentDifficulty : 'player',
+          analysis?.ratingChange ?? 0
+        )
+      });
+
+      // Mistakes become puzzles to review; the search runs in the background
+      this.minePuzzles(savedGame);
       return analysis;
     } catch (error) {
       console.error('Failed to save game:', error);
@@ -1343,6 +3092,50 @@ export class GameScreen {
     }
   }
 
+  /**
+   * Turn the player's mistakes in a saved game into puzzles
+   * (the game stays saved if this fails)
+   */
+  private async minePuzzles(game: SavedGame): Promise<void> {
+    try {
+      await personalPuzzleManager.mineGame(game);
+    } catch (error) {
+      console.error('Failed to find puzzles in game:', error);
+    }
+  }
+
+  /**
+   * Award any badges just earned and announce them
+   * @param game - The game that just ended (none after a lesson)
+   */
+  private async awardAchievements(game?: GameAchievementContext): Promise<void> {
+    const unlocked = await progressTracker.checkAchievements(game);
+    unlocked.forEach((achievement, i) => this.showAchievementToast(achievement, i));
+  }
+
+  /**
+   * Announce a new badge in a toast that goes away by itself
+   * @param index - Position among the badges earned together (they are shown one after another)
+   */
+  private showAchievementToast(achievement: Achievement, index: number): void {
+    const toast = document.createElement('div');
+    toast.className = 'achievement-toast';
+    toast.innerHTML = `
+      <div class="achievement-toast-icon">${achievement.icon}</div>
+      <div class="achievement-toast-text">
+        <div class="achievement-toast-title">🏅 New badge: ${achievement.name}</div>
+        <div class="achievement-toast-description">${achievement.description}</div>
+      </div>
+    `;
+    toast.onclick = () => toast.remove();
+
+    setTimeout(() => {
+      document.body.appendChild(toast);
+      soundManager.play(SoundEffect.BADGE);
+      setTimeout(() => toast.remove(), ACHIEVEMENT_TOAST_MS);
+    }, index * ACHIEVEMENT_TOAST_MS);
+  }
+
   /**
    * Analyze game and update skill profile (Phase 5.5, 5.6)
    */
@@ -1359,7 +3152,9 @@ export class GameScreen {
       const ratingChange = SkillEngine.calculateRatingChange(
         skillProfile.rating,
         this.gameMode === GameMode.VS_AI ? this.currentDifficulty : 'player',
-        result
+        result,
+        this.gameMode === GameMode.VS_AI ? this.currentOpponent.rating : undefined,
+        this.gameMode === GameMode.VS_AI ? this.takeBacks : undefined
       );
 
       // Update rating
@@ -1374,9 +3169,7 @@ export class GameScreen {
         timestamp: Date.now(),
         rating: skillProfile.rating,
         change: ratingChange.change,
-        opponent: this.gameMode === GameMode.VS_AI 
-          ? `AI-${this.currentDifficulty.charAt(0).toUpperCase() + this.currentDifficulty.slice(1)}`
-          : 'Player'
+        opponent: this.gameMode === GameMode.VS_AI ? this.currentOpponent.name : 'Player'
       });
 
       // Keep only last 20 rating history entries
@@ -1425,13 +3218,13 @@ export class GameScreen {
       const skillProfile: any = rawProfile;
       if (!skillProfile || skillProfile.gamesPlayed < 3) return;
 
-      const suggested = SkillEngine.suggestAIDifficulty(skillProfile.rating);
+      const suggested = SkillEngine.suggestAIOpponent(skillProfile.rating, skillProfile.adaptiveDifficulty);
       
-      if (suggested !== this.currentDifficulty) {
-        const message = `Based on your skill level (${skillProfile.rating}), we recommend trying ${suggested.toUpperCase()} difficulty. Would you like to switch?`;
+      if (suggested.id !== this.currentOpponent.id) {
+        const message = `Based on your skill level (${skillProfile.rating}), we recommend playing ${suggested.icon} ${suggested.name} (${suggested.rating}). Would you like to switch?`;
         
         if (confirm(message)) {
-          this.setAIDifficulty(suggested as AIDifficulty);
+          this.setAIOpponent(suggested);
         }
       }
     } catch (error) {
@@ -1443,8 +3236,14 @@ export class GameScreen {
    * Destroy and clean up
    */
   destroy(): void {
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    positionEvaluator.cancel();
+    this.stopClockTimer();
     this.closeTutorialModal();
+    this.closeSavedGamesModal();
     this.closeProfileModal();
+    this.closePuzzleModal();
+    this.closeDueReviewsModal();
     this.renderer.destroy();
     this.themeSelector.destroy();
     this.container.innerHTML = '';
@@ -4,12 +4,15 @@
  * Displays user skill profile, rating, tactical skills, and progress
  */
 
-import { User, SkillProfile, SkillEngine, progressTracker, storageManager } from '../../data';
+import { User, SkillProfile, SkillEngine, progressTracker, storageManager, ACHIEVEMENTS } from '../../data';
+import type { SavedGame, UserProgress } from '../../data';
+import { GameHistoryViewer } from './game-history-viewer';
 
 export class ProfileScreen {
   private container: HTMLElement;
   private user: User;
   private onBack?: () => void;
+  private onPlayFromHere?: (game: SavedGame, ply: number) => void;
 
   constructor(container: HTMLElement, user: User) {
     this.container = container;
@@ -23,6 +26,13 @@ export class ProfileScreen {
     this.onBack = callback;
   }
 
+  /**
+   * Set callback for playing on from a position of a replayed game
+   */
+  setOnPlayFromHere(callback: (game: SavedGame, ply: number) => void): void {
+    this.onPlayFromHere = callback;
+  }
+
   /**
    * Render the profile screen
    */
@@ -72,6 +82,10 @@ export class ProfileScreen {
     const statsCard = this.createStatisticsCard(progress);
     content.appendChild(statsCard);
 
+    // Badge gallery
+    const badgesCard = this.createBadgesCard(progress);
+    content.appendChild(badgesCard);
+
     // Recent games (if any)
     if (progress && progress.totalGames > 0) {
       const recentCard = this.createRecentGamesCard();
@@ -307,6 +321,36 @@ export class ProfileScreen {
     return card;
   }
 
+  /**
+   * Create badge gallery card (locked badges show what earns them)
+   */
+  private createBadgesCard(progress: UserProgress | null): HTMLElement {
+    const card = document.createElement('div');
+    card.className = 'profile-card badges-card';
+
+    const earned = progress?.badgesEarned ?? [];
+    const badgesHTML = ACHIEVEMENTS.map(achievement => {
+      const isEarned = earned.includes(achievement.id);
+      return `
+        <div class="badge-item ${isEarned ? 'earned' : 'locked'}" title="${achievement.description}">
+          <div class="badge-icon">${isEarned ? achievement.icon : '🔒'}</div>
+          <div class="badge-name">${achievement.name}</div>
+          <div class="badge-description">${achievement.description}</div>
+        </div>
+      `;
+    }).join('');
+
+    const earnedCount = ACHIEVEMENTS.filter(achievement => earned.includes(achievement.id)).length;
+    card.innerHTML = `
+      <h3>🏅 Badges (${earnedCount}/${ACHIEVEMENTS.length})</h3>
+      <div class="badge-grid">
+        ${badgesHTML}
+      </div>
+    `;
+
+    return card;
+  }
+
   /**
    * Create recent games card
    */
@@ -321,13 +365,20 @@ export class ProfileScreen {
       </div>
     `;
 
-    // Add click handler for view history
+    // Show the full history (with replays and reviews) in the card
     setTimeout(() => {
-      const btn = card.querySelector('.view-history-btn');
+      const btn = card.querySelector('.view-history-btn') as HTMLElement | null;
       if (btn) {
         btn.addEventListener('click', () => {
-          // This would navigate to game history view
-          console.log('Navigate to game history');
+          btn.style.display = 'none';
+          const historyContainer = document.createElement('div');
+          historyContainer.className = 'profile-history';
+          card.appendChild(historyContainer);
+          const historyViewer = new GameHistoryViewer(historyContainer);
+          if (this.onPlayFromHere) {
+            historyViewer.setOnPlayFromHere(this.onPlayFromHere);
+          }
+          historyViewer.render();
         });
       }
     }, 0);
@@ -0,0 +1,473 @@
+/**
+ * Puzzle Screen Component
+ *
+ * Tactics puzzles on their own board: the player finds the winning moves
+ * and the opponent's replies are played for them. Each puzzle changes the
+ * puzzle rating and the tactical skills it trains; the theme filter starts
+ * on the player's weakest tactic. Logged-in players can also review the
+ * puzzles found in their own games, which come back on a spaced-repetition
+ * schedule instead of changing the rating.
+ */
+
+import {
+  SkillEngine,
+  storageManager,
+  userManager,
+  gameHistoryManager,
+  personalPuzzleManager,
+  isDue
+} from '../../data';
+import type { User, SkillProfile, PersonalPuzzle, MinedPuzzleReason } from '../../data';
+import { PuzzleTrainer, puzzles, PUZZLE_THEMES } from '../../tutorial';
+import type { Puzzle, PuzzleOutcome, PuzzleTheme } from '../../tutorial';
+import type { PieceType, Position } from '../../core/types';
+import { PieceColor } from '../../core/types';
+import { BoardRenderer } from '../board/board-renderer';
+import { InteractionHandler } from '../board/interaction-handler';
+import { themeManager } from '../themes';
+import { soundManager, SoundEffect, getMoveSound } from '../audio';
+
+/**
+ * Pause before the opponent's reply is played (ms)
+ */
+const REPLY_DELAY_MS = 600;
+
+/**
+ * Theme filter choice: one theme, every theme, the player's weakest tactic
+ * or the puzzles from the player's games that are due for review
+ */
+type ThemeFilter = PuzzleTheme | 'all' | 'weakest' | 'review';
+
+/**
+ * How the reason a puzzle was taken from a game is shown
+ */
+const REASON_LABELS: Record<MinedPuzzleReason, string> = {
+  'missed-mate': '👑 Missed checkmate',
+  mistake: '❓ Mistake',
+  blunder: '❌ Blunder'
+};
+
+export class PuzzleScreen {
+  private container: HTMLElement;
+  private user: User | null;
+  private trainer = new PuzzleTrainer(puzzles);
+  private profile: SkillProfile;
+  private filter: ThemeFilter = 'weakest';
+  private tried: string[] = []; // Puzzles already shown in this session
+  private personalPuzzles: PersonalPuzzle[] = []; // Puzzles from the player's games
+  private renderer: BoardRenderer | null = null;
+  private interaction: InteractionHandler | null = null;
+  private replyTimer: ReturnType<typeof setTimeout> | null = null;
+  private ratingEl: HTMLElement | null = null;
+  private filterSelect: HTMLSelectElement | null = null;
+  private puzzleInfoEl: HTMLElement | null = null;
+  private feedbackEl: HTMLElement | null = null;
+  private hintButton: HTMLButtonElement | null = null;
+  private mineButton: HTMLButtonElement | null = null;
+  private onBack?: () => void;
+
+  /**
+   * @param user - Logged-in player (guests' puzzle ratings are not saved)
+   */
+  constructor(container: HTMLElement, user: User | null) {
+    this.container = container;
+    this.user = user;
+    this.profile = SkillEngine.createInitialProfile(user?.id ?? 'guest');
+  }
+
+  /**
+   * Set callback for back navigation
+   */
+  setOnBack(callback: () => void): void {
+    this.onBack = callback;
+  }
+
+  /**
+   * Render the puzzle screen and show the first puzzle
+   */
+  async render(): Promise<void> {
+    if (this.user) {
+      const rawProfile = await storageManager.get<any>('skills', this.user.id);
+      if (rawProfile) this.profile = rawProfile;
+      this.personalPuzzles = await personalPuzzleManager.getUserPuzzles();
+      if (this.getDuePuzzles().length > 0) this.filter = 'review';
+    }
+
+    this.container.innerHTML = '';
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'puzzle-screen';
+    wrapper.appendChild(this.createHeader());
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'puzzle-toolbar';
+    this.ratingEl = document.createElement('div');
+    this.ratingEl.className = 'puzzle-rating';
+    toolbar.appendChild(this.ratingEl);
+    this.filterSelect = document.createElement('select');
+    this.filterSelect.className = 'puzzle-theme-select';
+    this.filterSelect.onchange = () => {
+      this.filter = this.filterSelect!.value as ThemeFilter;
+      this.nextPuzzle();
+    };
+    toolbar.appendChild(this.filterSelect);
+    wrapper.appendChild(toolbar);
+
+    this.puzzleInfoEl = document.createElement('div');
+    this.puzzleInfoEl.className = 'puzzle-info';
+    wrapper.appendChild(this.puzzleInfoEl);
+
+    const boardContainer = document.createElement('div');
+    boardContainer.className = 'puzzle-board';
+    wrapper.appendChild(boardContainer);
+
+    this.feedbackEl = document.createElement('div');
+    this.feedbackEl.className = 'puzzle-feedback';
+    wrapper.appendChild(this.feedbackEl);
+
+    const actions = document.createElement('div');
+    actions.className = 'puzzle-actions';
+    this.hintButton = document.createElement('button');
+    this.hintButton.className = 'button-secondary button-small';
+    this.hintButton.textContent = '💡 Hint';
+    this.hintButton.onclick = () => this.showHint();
+    actions.appendChild(this.hintButton);
+    const nextButton = document.createElement('button');
+    nextButton.className = 'button-primary button-small';
+    nextButton.textContent = '➡️ Next Puzzle';
+    nextButton.onclick = () => this.nextPuzzle();
+    actions.appendChild(nextButton);
+    this.mineButton = document.createElement('button');
+    this.mineButton.className = 'button-secondary button-small';
+    this.mineButton.textContent = '🔎 Find Puzzles in My Games';
+    this.mineButton.onclick = () => this.minePuzzles();
+    actions.appendChild(this.mineButton);
+    wrapper.appendChild(actions);
+
+    this.container.appendChild(wrapper);
+
+    this.renderer = new BoardRenderer(boardContainer);
+    this.renderer.setThemeManager(themeManager);
+    this.renderer.initialize();
+
+    this.interaction = new InteractionHandler(this.trainer.getGame(), this.renderer);
+    this.interaction.initialize();
+    this.interaction.setInputMode(userManager.getPreferences().moveInput);
+    this.interaction.setOnMove((from, to, promotion) => this.handleMove(from, to, promotion));
+    this.interaction.setOnIllegalMove(() => soundManager.play(SoundEffect.ILLEGAL));
+
+    this.updateRating();
+    this.nextPuzzle();
+  }
+
+  /**
+   * Stop any pending reply and remove the board
+   */
+  destroy(): void {
+    this.cancelReply();
+    this.renderer?.destroy();
+    this.container.innerHTML = '';
+  }
+
+  /**
+   * Create header with back button
+   */
+  private createHeader(): HTMLElement {
+    const header = document.createElement('div');
+    header.className = 'puzzle-header';
+
+    const backBtn = document.createElement('button');
+    backBtn.className = 'back-button';
+    backBtn.innerHTML = '← Back';
+    backBtn.onclick = () => {
+      if (this.onBack) this.onBack();
+    };
+
+    const title = document.createElement('h1');
+    title.textContent = '🧩 Puzzles';
+
+    header.appendChild(backBtn);
+    header.appendChild(title);
+
+    return header;
+  }
+
+  /**
+   * Get the theme puzzles are picked from (null = any)
+   */
+  private getTheme(): PuzzleTheme | null {
+    if (this.filter === 'all' || this.filter === 'review') return null;
+    if (this.filter === 'weakest') return SkillEngine.getWeakestTactic(this.profile.tacticalSkills);
+    return this.filter;
+  }
+
+  /**
+   * Fill the theme filter (the weakest tactic can change after every puzzle)
+   */
+  private updateFilterOptions(): void {
+    if (!this.filterSelect) return;
+
+    const weakest = PUZZLE_THEMES[SkillEngine.getWeakestTactic(this.profile.tacticalSkills)];
+    const options = [
+      { value: 'weakest', label: `🎯 My weakest: ${weakest.name}` },
+      ...(this.user ? [{ value: 'review', label: `📅 My mistakes (${this.getDuePuzzles().length} due)` }] : []),
+      { value: 'all', label: '🎲 All themes' },
+      ...this.trainer.getThemes().map(theme => ({
+        value: theme,
+        label: `${PUZZLE_THEMES[theme].icon} ${PUZZLE_THEMES[theme].name}`
+      }))
+    ];
+
+    this.filterSelect.innerHTML = '';
+    options.forEach(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.filterSelect!.appendChild(option);
+    });
+    this.filterSelect.value = this.filter;
+  }
+
+  /**
+   * Show the puzzle rating, with the last change if there was one
+   */
+  private updateRating(change?: number): void {
+    if (!this.ratingEl) return;
+
+    const rating = SkillEngine.getPuzzleRating(this.profile);
+    const changeText = change === undefined ? '' : ` (${change >= 0 ? '+' : ''}${change})`;
+    this.ratingEl.textContent = `🧩 Puzzle rating: ${rating}${changeText}`;
+    this.updateFilterOptions();
+  }
+
+  /**
+   * Get the player's puzzles that are due for review, the most overdue first
+   */
+  private getDuePuzzles(): PersonalPuzzle[] {
+    const now = Date.now();
+    return this.personalPuzzles.filter(puzzle => isDue(puzzle.schedule, now));
+  }
+
+  /**
+   * Find the puzzle from the player's games that is being solved
+   */
+  private getCurrentPersonalPuzzle(): PersonalPuzzle | null {
+    const puzzle = this.trainer.getCurrentPuzzle();
+    return this.personalPuzzles.find(personal => personal.id === puzzle?.id) ?? null;
+  }
+
+  /**
+   * Set up the next puzzle for the chosen theme
+   */
+  private nextPuzzle(): void {
+    this.cancelReply();
+    if (!this.renderer || !this.interaction) return;
+
+    const isReview = this.filter === 'review';
+    if (this.mineButton) this.mineButton.style.display = isReview ? '' : 'none';
+
+    let puzzle: Puzzle | null;
+    if (isReview) {
+      puzzle = this.getDuePuzzles().find(due => !this.tried.includes(due.id)) ?? null;
+      if (!puzzle) {
+        this.interaction.setEnabled(false);
+        if (this.hintButton) this.hintButton.disabled = true;
+        if (this.puzzleInfoEl) this.puzzleInfoEl.textContent = '';
+        this.showFeedback(this.personalPuzzles.length > 0
+          ? '✅ No more puzzles due today. Come back tomorrow!'
+          : 'No puzzles from your games yet. Review a game, then look for puzzles in it!');
+        return;
+      }
+      this.trainer.loadPuzzle(puzzle);
+    } else {
+      puzzle = this.trainer.selectPuzzle({
+        rating: SkillEngine.getPuzzleRating(this.profile),
+        theme: this.getTheme(),
+        exclude: this.tried
+      });
+      if (!puzzle) return;
+      this.trainer.startPuzzle(puzzle.id);
+    }
+    this.tried.push(puzzle.id);
+
+    const playerColor = this.trainer.getPlayerColor();
+    this.renderer.setOrientation(playerColor);
+    this.renderer.renderBoard(this.trainer.getGame().getBoard());
+    this.renderer.clearHighlights();
+    this.interaction.reset();
+    this.interaction.setEnabled(true);
+
+    if (this.puzzleInfoEl) {
+      const themes = puzzle.themes.map(theme => `${PUZZLE_THEMES[theme].icon} ${PUZZLE_THEMES[theme].name}`);
+      const personal = this.getCurrentPersonalPuzzle();
+      this.puzzleInfoEl.textContent = personal
+        ? [REASON_LABELS[personal.reason], `you played ${personal.played}`, ...themes].join(' · ')
+        : `${themes.join(' · ')} · Rated ${puzzle.rating}`;
+    }
+    if (this.hintButton) this.hintButton.disabled = false;
+    this.showFeedback(`Find the best move for ${playerColor === PieceColor.WHITE ? 'White' : 'Black'}!`);
+  }
+
+  /**
+   * Check the player's move, then play the reply or finish the puzzle
+   */
+  private handleMove(from: Position, to: Position, promotion?: PieceType): void {
+    if (!this.renderer || !this.interaction) return;
+
+    const game = this.trainer.getGame();
+    const result = this.trainer.validateMove(from, to, promotion);
+    if (result.outcome) {
+      void this.recordOutcome(result.outcome);
+    }
+
+    if (!result.correct) {
+      soundManager.play(SoundEffect.ILLEGAL);
+      this.renderer.renderBoard(game.getBoard());
+      this.renderer.clearHighlights();
+      this.showFeedback(result.message, true);
+      return;
+    }
+
+    this.showFeedback(result.message);
+    if (result.solved) {
+      soundManager.play(SoundEffect.LESSON_SUCCESS);
+      this.interaction.setEnabled(false);
+      if (this.hintButton) this.hintButton.disabled = true;
+      return;
+    }
+
+    const lastMove = game.getHistory().getLastMove();
+    if (lastMove) soundManager.play(getMoveSound(lastMove.move, game.getStatus()));
+
+    this.interaction.setEnabled(false);
+    this.replyTimer = setTimeout(() => this.playReply(), REPLY_DELAY_MS);
+  }
+
+  /**
+   * Play the opponent's reply and hand the board back to the player
+   */
+  private playReply(): void {
+    this.replyTimer = null;
+    if (!this.renderer || !this.interaction) return;
+
+    const game = this.trainer.getGame();
+    const move = this.trainer.playReply();
+    if (move) {
+      this.renderer.renderBoard(game.getBoard(), move);
+      this.renderer.highlightLastMove(move.from, move.to);
+      soundManager.play(getMoveSound(move, game.getStatus()));
+    }
+    this.interaction.setEnabled(true);
+    this.showFeedback('Your move again!');
+  }
+
+  /**
+   * Stop a reply that has not been played yet
+   */
+  private cancelReply(): void {
+    if (this.replyTimer !== null) {
+      clearTimeout(this.replyTimer);
+      this.replyTimer = null;
+    }
+  }
+
+  /**
+   * Highlight the move to play (the puzzle then no longer counts as solved)
+   */
+  private showHint(): void {
+    const hint = this.trainer.getHint();
+    if (!hint || !this.renderer) return;
+
+    this.renderer.clearTutorialHints();
+    this.renderer.highlightSquares([hint.from, hint.to], 'tutorial-hint');
+    this.showFeedback('💡 Move the highlighted piece. Hints do not raise your puzzle rating.');
+  }
+
+  /**
+   * Show a message under the board
+   */
+  private showFeedback(message: string, isError: boolean = false): void {
+    if (!this.feedbackEl) return;
+    this.feedbackEl.textContent = message;
+    this.feedbackEl.className = isError ? 'puzzle-feedback error' : 'puzzle-feedback success';
+  }
+
+  /**
+   * Look for new puzzles in all of the player's games
+   */
+  private async minePuzzles(): Promise<void> {
+    if (!this.user || !this.mineButton) return;
+
+    this.mineButton.disabled = true;
+    try {
+      const added = await personalPuzzleManager.mineGames(await gameHistoryManager.getUserGames());
+      this.personalPuzzles = await personalPuzzleManager.getUserPuzzles();
+      this.updateFilterOptions();
+      if (added.length > 0) {
+        this.nextPuzzle();
+      } else {
+        this.showFeedback('No new puzzles found. Reviewed games give more puzzles!');
+      }
+    } catch (error) {
+      console.error('Failed to find puzzles:', error);
+    } finally {
+      this.mineButton.disabled = false;
+    }
+  }
+
+  /**
+   * Schedule the next review of a puzzle from the player's games
+   * (these train tactics but do not change the puzzle rating)
+   */
+  private async recordReview(puzzle: PersonalPuzzle, outcome: PuzzleOutcome): Promise<void> {
+    this.profile.tacticalSkills = SkillEngine.updateTacticalSkills(
+      this.profile.tacticalSkills,
+      puzzle.themes,
+      outcome === 'solved'
+    );
+    this.profile.lastUpdated = Date.now();
+
+    try {
+      const reviewed = await personalPuzzleManager.recordReview(puzzle.id, outcome);
+      this.personalPuzzles = this.personalPuzzles.map(item => item.id === reviewed.id ? reviewed : item);
+      this.updateFilterOptions();
+      await storageManager.save('skills', this.profile);
+      console.log(`✅ Puzzle ${puzzle.id} due again in ${reviewed.schedule.interval} day(s)`);
+    } catch (error) {
+      console.error('Failed to save puzzle review:', error);
+    }
+  }
+
+  /**
+   * Update the puzzle rating and tactical skills, and save them for logged-in players
+   */
+  private async recordOutcome(outcome: PuzzleOutcome): Promise<void> {
+    const puzzle = this.trainer.getCurrentPuzzle();
+    if (!puzzle) return;
+
+    const personal = this.getCurrentPersonalPuzzle();
+    if (personal) {
+      await this.recordReview(personal, outcome);
+      return;
+    }
+
+    const solved = outcome === 'solved';
+    const ratingChange = SkillEngine.calculatePuzzleRatingChange(
+      SkillEngine.getPuzzleRating(this.profile),
+      puzzle.rating,
+      solved
+    );
+    this.profile.puzzleRating = ratingChange.newRating;
+    this.profile.tacticalSkills = SkillEngine.updateTacticalSkills(this.profile.tacticalSkills, puzzle.themes, solved);
+    this.profile.lastUpdated = Date.now();
+    this.updateRating(ratingChange.change);
+
+    if (!this.user) return;
+    try {
+      await storageManager.save('skills', this.profile);
+      console.log(`✅ ${ratingChange.reason}: puzzle rating ${ratingChange.newRating}`);
+    } catch (error) {
+      console.error('Failed to save puzzle rating:', error);
+    }
+  }
+}
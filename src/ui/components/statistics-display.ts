@@ -6,6 +6,8 @@
 
 import { progressTracker } from '../../data/progress-tracker';
 import { userManager } from '../../data/user-manager';
+import { gameHistoryManager } from '../../data/game-history';
+import { VariantId, getVariant } from '../../core/variants';
 
 export class StatisticsDisplay {
   private container: HTMLElement;
@@ -25,6 +27,8 @@ export class StatisticsDisplay {
     }
 
     const stats = await progressTracker.getStatsSummary();
+    const variantStats = await gameHistoryManager.getVariantStats();
+    const playedVariants = variantStats.some(entry => entry.variant !== VariantId.STANDARD);
     
     this.container.innerHTML = '';
     
@@ -100,6 +104,16 @@ export class StatisticsDisplay {
               ${this.renderAIDifficulty('Hard', stats.aiStats.hard)}
             </div>
           </div>
+
+          ${playedVariants ? `
+          <!-- Variant Stats -->
+          <div class="stat-section">
+            <h3>🎲 Variants</h3>
+            <div class="ai-stats">
+              ${variantStats.map(entry => this.renderVariant(entry)).join('')}
+            </div>
+          </div>
+          ` : ''}
         </div>
       `}
     `;
@@ -141,6 +155,33 @@ export class StatisticsDisplay {
     `;
   }
 
+  /**
+   * Render the results of one variant
+   */
+  private renderVariant(stats: {
+    variant: VariantId;
+    totalGames: number;
+    wins: number;
+    losses: number;
+    draws: number;
+  }): string {
+    const variant = getVariant(stats.variant);
+    const winRate = (stats.wins / stats.totalGames) * 100;
+
+    return `
+      <div class="ai-difficulty">
+        <div class="difficulty-header">
+          <strong>${variant.icon} ${variant.name}</strong>
+          <span class="win-loss">${stats.wins}W - ${stats.losses}L - ${stats.draws}D</span>
+        </div>
+        <div class="progress-bar small">
+          <div class="progress-fill" style="width: ${winRate}%"></div>
+        </div>
+        <div class="progress-label small">${winRate.toFixed(1)}% Win Rate</div>
+      </div>
+    `;
+  }
+
   /**
    * Update stats (call after game completion)
    */
@@ -0,0 +1,43 @@
+/**
+ * Download Utilities
+ *
+ * Helpers for saving generated files (e.g. PGN exports) from the browser
+ */
+
+/**
+ * Offer a text file to the user as a download
+ */
+export function downloadTextFile(
+  filename: string,
+  content: string,
+  mimeType: string = 'text/plain'
+): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Let the user pick a local file and read it as text
+ * Resolves with null if no file was chosen.
+ */
+export function pickTextFile(accept: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      resolve(file ? await file.text() : null);
+    };
+    input.click();
+  });
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import { resolve } from 'path';
 
@@ -28,5 +29,9 @@ export default defineConfig({
         }
       }
     }
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts']
   }
 });